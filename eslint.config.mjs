@@ -6,6 +6,7 @@ import js from '@eslint/js';
 import globals from 'globals';
 
 export default tseslint.config(
+  { ignores: ['dist/'] },
   {
     languageOptions: {
       globals: {
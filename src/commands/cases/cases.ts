@@ -0,0 +1,538 @@
+/**
+ * Cases
+ * Creates Security cases from the alerts already in a space, so case metrics and the entity
+ * flyout's cases tab have something to show. Alerts are grouped by host or user and each group
+ * becomes one case with a status, severity, assignees, custom fields, comments, observables and
+ * the group's alerts attached.
+ *
+ * In org-data mode only alerts from the org-data detection rules are used, grouped by the user
+ * (or host, or source IP) they are about, so every case reads like an incident spanning one or
+ * more of those rules.
+ */
+
+import { faker } from '@faker-js/faker';
+import pMap from 'p-map';
+import { getEsClient } from '../utils/indices.ts';
+import { getAlertIndex, kibanaApi } from '../../utils/index.ts';
+import {
+  type CaseCustomFieldDefinition,
+  type CaseCustomFieldValue,
+  type CaseSeverity,
+  type CaseStatus,
+  type KibanaCase,
+} from '../../utils/kibana_api.ts';
+import { isFileOutputEnabled } from '../../utils/file_output.ts';
+import { log } from '../../utils/logger.ts';
+import { recordError } from '../../utils/command_result.ts';
+import { GeneratorError, ValidationError } from '../../utils/errors.ts';
+import { parseWeightMix } from '../utils/cli_utils.ts';
+import { getAnalystProfiles } from '../documents/alert_workflow.ts';
+import { INTEGRATION_DETECTION_RULES } from '../org_data/detection_rules.ts';
+import { GENERATOR_TAG } from '../../constants.ts';
+
+export const CASE_STATUSES: readonly CaseStatus[] = ['open', 'in-progress', 'closed'];
+export const CASE_GROUPINGS = ['host', 'user'] as const;
+export type CaseGrouping = (typeof CASE_GROUPINGS)[number];
+
+export interface GenerateCasesOptions {
+  count: number;
+  space: string;
+  /** Entity the alerts of a case share; ignored in org-data mode */
+  groupBy: CaseGrouping;
+  /** Use the org-data detection rule alerts and group them into incidents */
+  orgData: boolean;
+  alertsPerCase: number;
+  /** Relative weights of the case statuses (default: open=50,in-progress=30,closed=20) */
+  statusWeights?: Partial<Record<CaseStatus, number>>;
+  /** Analyst users (alert-analyst-N) to create or reuse and assign cases to */
+  assignees?: number;
+  /** Most user comments on one case */
+  comments: number;
+  customFields: boolean;
+  observables: boolean;
+}
+
+/** An alert as the Cases API needs it, plus the fields cases are built from. */
+interface CaseAlert {
+  id: string;
+  index: string;
+  timestamp: string;
+  ruleId: string;
+  ruleName: string;
+  severity?: CaseSeverity;
+  fields: Record<string, string | undefined>;
+}
+
+interface CaseObservable {
+  typeKey: string;
+  value: string;
+  description: string;
+}
+
+interface CasePlan {
+  title: string;
+  description: string;
+  tags: string[];
+  severity: CaseSeverity;
+  status: CaseStatus;
+  assigneeUids: string[];
+  customFields: CaseCustomFieldValue[];
+  comments: string[];
+  observables: CaseObservable[];
+  alertsByRule: Map<string, { rule: { id: string; name: string }; alerts: CaseAlert[] }>;
+}
+
+const DEFAULT_STATUS_WEIGHTS: Record<CaseStatus, number> = {
+  open: 50,
+  'in-progress': 30,
+  closed: 20,
+};
+
+const SEVERITIES: CaseSeverity[] = ['low', 'medium', 'high', 'critical'];
+const CASE_CONCURRENCY = 4;
+/** Alerts read per search; enough to fill the cases of one run. */
+const ALERT_SEARCH_SIZE = 5000;
+const MAX_OBSERVABLES_PER_CASE = 5;
+
+const TICKET_FIELD_KEY = 'generator_ticket_id';
+const ESCALATED_FIELD_KEY = 'generator_escalated';
+const CUSTOM_FIELDS: CaseCustomFieldDefinition[] = [
+  { key: TICKET_FIELD_KEY, label: 'External ticket', type: 'text', required: false },
+  { key: ESCALATED_FIELD_KEY, label: 'Escalated', type: 'toggle', required: false },
+];
+
+const ipObservableType = (ip: string) =>
+  ip.includes(':') ? 'observable-type-ipv6' : 'observable-type-ipv4';
+
+/** Alert fields that become case observables, with their built-in observable type. */
+const OBSERVABLE_FIELDS: Array<{ field: string; typeKey: (value: string) => string }> = [
+  { field: 'host.name', typeKey: () => 'observable-type-hostname' },
+  { field: 'source.ip', typeKey: ipObservableType },
+  { field: 'destination.ip', typeKey: ipObservableType },
+  { field: 'user.email', typeKey: () => 'observable-type-email' },
+  { field: 'process.hash.sha256', typeKey: () => 'observable-type-file-hash' },
+];
+
+const ENTITY_FIELDS = ['host.name', 'user.name', 'source.ip'];
+const ALERT_FIELDS = [
+  '@timestamp',
+  'kibana.alert.rule.uuid',
+  'kibana.alert.rule.name',
+  'kibana.alert.severity',
+  ...new Set([...ENTITY_FIELDS, ...OBSERVABLE_FIELDS.map(({ field }) => field)]),
+];
+
+/** Org-data detection rule names, mapped to the integration they belong to. */
+const ORG_DATA_RULES = new Map(
+  Object.entries(INTEGRATION_DETECTION_RULES).flatMap(([integration, rules]) =>
+    (rules ?? []).map(({ name }) => [name, integration] as const),
+  ),
+);
+
+const COMMENTS: Record<CaseStatus, string[]> = {
+  open: [
+    'Opened from {count} alert(s) on {entity}. Needs initial triage.',
+    'Grouping these alerts for review, {entity} has not been seen behaving like this before.',
+    'Waiting on the asset owner of {entity} before digging further.',
+  ],
+  'in-progress': [
+    'Pulled the process and login history for {entity}, reviewing the timeline now.',
+    'Reached out to the owner of {entity} to confirm whether this activity was expected.',
+    'Scoped the activity to {entity} so far, no lateral movement seen yet.',
+    'Isolating {entity} while we review the {rule} alerts.',
+    'Added the related alerts; the {rule} hits line up with the first suspicious login.',
+  ],
+  closed: [
+    'Confirmed with the owner of {entity}: expected admin activity. Closing as false positive.',
+    'Credentials for {entity} were reset and the host reimaged. Closing as resolved.',
+    'Duplicate of an earlier case for {entity}, closing this one.',
+    'Root cause confirmed and remediated, {rule} tuned to reduce noise. Closing.',
+  ],
+};
+
+const severityRank = (severity?: CaseSeverity) => (severity ? SEVERITIES.indexOf(severity) : -1);
+
+const asString = (value: unknown): string | undefined =>
+  Array.isArray(value) && value.length > 0 ? String(value[0]) : undefined;
+
+/** Parse a mix like `open=50,in-progress=30,closed=20` into status weights. */
+export const parseCaseStatusMix = (input: string): Partial<Record<CaseStatus, number>> =>
+  parseWeightMix(input, CASE_STATUSES, '--status');
+
+const fetchAlerts = async (space: string, orgData: boolean): Promise<CaseAlert[]> => {
+  const response = await getEsClient().search({
+    index: getAlertIndex(space),
+    size: ALERT_SEARCH_SIZE,
+    ignore_unavailable: true,
+    _source: false,
+    fields: ALERT_FIELDS,
+    sort: [{ '@timestamp': { order: 'desc' } }],
+    query: {
+      bool: {
+        // Building blocks are hidden from analysts, so cases never reference them
+        must_not: [{ exists: { field: 'kibana.alert.building_block_type' } }],
+        ...(orgData && {
+          filter: [{ terms: { 'kibana.alert.rule.name': [...ORG_DATA_RULES.keys()] } }],
+        }),
+      },
+    },
+  });
+
+  return response.hits.hits.flatMap((hit) => {
+    const values = hit.fields ?? {};
+    const ruleId = asString(values['kibana.alert.rule.uuid']);
+    if (!hit._id || !ruleId) {
+      return [];
+    }
+    const severity = asString(values['kibana.alert.severity']) as CaseSeverity | undefined;
+    return [
+      {
+        id: hit._id,
+        index: hit._index,
+        timestamp: asString(values['@timestamp']) ?? '',
+        ruleId,
+        ruleName: asString(values['kibana.alert.rule.name']) ?? 'Unknown rule',
+        severity: SEVERITIES.includes(severity as CaseSeverity) ? severity : undefined,
+        fields: Object.fromEntries(ALERT_FIELDS.map((field) => [field, asString(values[field])])),
+      },
+    ];
+  });
+};
+
+/** The entity a case is about: the grouped field, or in org-data mode whichever is known. */
+const getEntity = (
+  alert: CaseAlert,
+  { groupBy, orgData }: Pick<GenerateCasesOptions, 'groupBy' | 'orgData'>,
+): { kind: string; name: string } | undefined => {
+  if (!orgData) {
+    const name = alert.fields[`${groupBy}.name`];
+    return name ? { kind: groupBy, name } : undefined;
+  }
+  const { fields } = alert;
+  if (fields['user.name']) {
+    return { kind: 'user', name: fields['user.name'] };
+  }
+  if (fields['host.name']) {
+    return { kind: 'host', name: fields['host.name'] };
+  }
+  return fields['source.ip'] ? { kind: 'source IP', name: fields['source.ip'] } : undefined;
+};
+
+/** Alert groups, largest first; each keeps its most recent alerts. */
+const groupAlerts = (
+  alerts: CaseAlert[],
+  options: GenerateCasesOptions,
+): Array<{ entity: { kind: string; name: string }; alerts: CaseAlert[] }> => {
+  const groups = new Map<string, { entity: { kind: string; name: string }; alerts: CaseAlert[] }>();
+  for (const alert of alerts) {
+    const entity = getEntity(alert, options);
+    if (!entity) {
+      continue;
+    }
+    const key = `${entity.kind}:${entity.name}`;
+    const group = groups.get(key) ?? { entity, alerts: [] };
+    group.alerts.push(alert);
+    groups.set(key, group);
+  }
+  return [...groups.values()]
+    .sort((a, b) => b.alerts.length - a.alerts.length || a.entity.name.localeCompare(b.entity.name))
+    .slice(0, options.count)
+    .map((group) => ({ ...group, alerts: group.alerts.slice(0, options.alertsPerCase) }));
+};
+
+const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+
+const getObservables = (alerts: CaseAlert[]): CaseObservable[] => {
+  const counts = new Map<
+    string,
+    { field: string; typeKey: string; value: string; count: number }
+  >();
+  for (const alert of alerts) {
+    for (const { field, typeKey } of OBSERVABLE_FIELDS) {
+      const value = alert.fields[field];
+      if (!value) {
+        continue;
+      }
+      const key = `${field}:${value}`;
+      const entry = counts.get(key) ?? { field, typeKey: typeKey(value), value, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    }
+  }
+  return [...counts.values()]
+    .slice(0, MAX_OBSERVABLES_PER_CASE)
+    .map(({ field, typeKey, value, count }) => ({
+      typeKey,
+      value,
+      description: `${field} in ${count} alert(s)`,
+    }));
+};
+
+const getTitle = (
+  entity: { kind: string; name: string },
+  ruleNames: string[],
+  orgData: boolean,
+) => {
+  const [topRule] = ruleNames;
+  if (orgData) {
+    const related = ruleNames.length > 1 ? ` and ${ruleNames.length - 1} related detection(s)` : '';
+    return `${topRule}${related} involving ${entity.kind} ${entity.name}`;
+  }
+  return faker.helpers.arrayElement([
+    `Suspicious activity on ${entity.kind} ${entity.name}`,
+    `${topRule} on ${entity.kind} ${entity.name}`,
+    `Investigate ${entity.kind} ${entity.name}`,
+  ]);
+};
+
+const getDescription = (
+  entity: { kind: string; name: string },
+  alerts: CaseAlert[],
+  ruleCounts: Map<string, number>,
+  orgData: boolean,
+): string => {
+  const timestamps = alerts
+    .map(({ timestamp }) => timestamp)
+    .filter(Boolean)
+    .sort();
+  const window =
+    timestamps.length > 0
+      ? ` between ${timestamps[0]} and ${timestamps[timestamps.length - 1]}`
+      : '';
+  const rules = [...ruleCounts]
+    .map(([name, count]) => {
+      const integration = orgData ? ORG_DATA_RULES.get(name) : undefined;
+      return `- ${name}${integration ? ` (${integration})` : ''}: ${count} alert(s)`;
+    })
+    .join('\n');
+  return `${alerts.length} alert(s) for ${entity.kind} **${entity.name}**${window}.\n\n${rules}`;
+};
+
+/** Decide everything about a case up front, so the same seed gives the same cases. */
+const planCase = (
+  { entity, alerts }: { entity: { kind: string; name: string }; alerts: CaseAlert[] },
+  options: GenerateCasesOptions,
+  statusWeights: Partial<Record<CaseStatus, number>>,
+  assigneeUids: string[],
+): CasePlan => {
+  const alertsByRule: CasePlan['alertsByRule'] = new Map();
+  for (const alert of alerts) {
+    const entry = alertsByRule.get(alert.ruleId) ?? {
+      rule: { id: alert.ruleId, name: alert.ruleName },
+      alerts: [],
+    };
+    entry.alerts.push(alert);
+    alertsByRule.set(alert.ruleId, entry);
+  }
+  const ruleCounts = new Map(
+    [...alertsByRule.values()]
+      .sort((a, b) => b.alerts.length - a.alerts.length)
+      .map(({ rule, alerts: ruleAlerts }) => [rule.name, ruleAlerts.length]),
+  );
+  const ruleNames = [...ruleCounts.keys()];
+
+  const status = faker.helpers.weightedArrayElement(
+    Object.entries(statusWeights)
+      .filter(([, weight]) => (weight ?? 0) > 0)
+      .map(([value, weight]) => ({ value: value as CaseStatus, weight: weight ?? 0 })),
+  );
+  const highest = alerts.reduce<CaseSeverity | undefined>(
+    (max, { severity }) => (severityRank(severity) > severityRank(max) ? severity : max),
+    undefined,
+  );
+  const severity = highest ?? faker.helpers.arrayElement(SEVERITIES);
+
+  const assigned =
+    assigneeUids.length > 0 && (status !== 'open' || faker.datatype.boolean())
+      ? faker.helpers.arrayElements(assigneeUids, { min: 1, max: Math.min(2, assigneeUids.length) })
+      : [];
+
+  const templateValues = {
+    entity: entity.name,
+    rule: ruleNames[0],
+    count: String(alerts.length),
+  };
+  // A closed case ends with its resolution, after any investigation comments
+  const closed = status === 'closed';
+  const commentCount = faker.number.int({
+    min: closed && options.comments > 0 ? 1 : 0,
+    max: options.comments,
+  });
+  const comments = faker.helpers
+    .arrayElements(
+      COMMENTS[closed ? 'in-progress' : status],
+      closed ? commentCount - 1 : commentCount,
+    )
+    .map((template) => fillTemplate(template, templateValues));
+  if (closed && commentCount > 0) {
+    comments.push(fillTemplate(faker.helpers.arrayElement(COMMENTS.closed), templateValues));
+  }
+
+  const escalated = status !== 'open' && severityRank(severity) >= severityRank('high');
+  const customFields: CaseCustomFieldValue[] = options.customFields
+    ? [
+        {
+          key: TICKET_FIELD_KEY,
+          type: 'text',
+          value:
+            status !== 'open' || faker.datatype.boolean()
+              ? `INC-${faker.number.int({ min: 10000, max: 99999 })}`
+              : null,
+        },
+        { key: ESCALATED_FIELD_KEY, type: 'toggle', value: escalated },
+      ]
+    : [];
+
+  const integrations = options.orgData
+    ? [...new Set(ruleNames.map((name) => ORG_DATA_RULES.get(name)).filter(Boolean))]
+    : [];
+  return {
+    title: getTitle(entity, ruleNames, options.orgData),
+    description: getDescription(entity, alerts, ruleCounts, options.orgData),
+    tags: [
+      GENERATOR_TAG,
+      `${entity.kind.replace(' ', '-')}:${entity.name}`,
+      ...(options.orgData ? ['org-data', ...(integrations as string[])] : []),
+      ...(escalated ? ['escalated'] : []),
+    ],
+    severity,
+    status,
+    assigneeUids: assigned,
+    customFields,
+    comments,
+    observables: options.observables ? getObservables(alerts) : [],
+    alertsByRule,
+  };
+};
+
+/**
+ * Create one case: attach its alerts, then comments and observables, then move it to its
+ * status. Each call returns the updated case, whose version the status update needs.
+ */
+const createPlannedCase = async (
+  plan: CasePlan,
+  space: string,
+  observables: { supported: boolean },
+): Promise<KibanaCase> => {
+  let current = await kibanaApi.createCase({
+    title: plan.title,
+    description: plan.description,
+    tags: plan.tags,
+    severity: plan.severity,
+    assigneeUids: plan.assigneeUids,
+    customFields: plan.customFields,
+    space,
+  });
+  const caseId = current.id;
+
+  for (const { rule, alerts } of plan.alertsByRule.values()) {
+    current = await kibanaApi.attachAlertsToCase({ caseId, alerts, rule, space });
+  }
+  for (const comment of plan.comments) {
+    current = await kibanaApi.addCaseComment({ caseId, comment, space });
+  }
+  for (const observable of plan.observables) {
+    if (!observables.supported) {
+      break;
+    }
+    try {
+      current = await kibanaApi.addCaseObservable({ caseId, ...observable, space });
+    } catch (error) {
+      // Observables need Kibana 9.1+; stop adding them after the first rejection
+      if (observables.supported) {
+        observables.supported = false;
+        const message = `Could not add case observables, skipping them: ${error instanceof Error ? error.message : String(error)}`;
+        log.warn(message);
+        recordError(message);
+      }
+    }
+  }
+
+  if (plan.status !== 'open') {
+    const [updated] = await kibanaApi.updateCaseStatus({
+      caseId,
+      version: current.version,
+      status: plan.status,
+      space,
+    });
+    current = updated ?? current;
+  }
+  return current;
+};
+
+export const generateCases = async (options: GenerateCasesOptions): Promise<void> => {
+  if (isFileOutputEnabled()) {
+    throw new ValidationError(
+      'generate-cases reads alerts from the cluster and cannot be combined with --output-dir or --dry-run',
+    );
+  }
+  const statusWeights = options.statusWeights ?? DEFAULT_STATUS_WEIGHTS;
+  if (!Object.values(statusWeights).some((weight) => (weight ?? 0) > 0)) {
+    throw new ValidationError('--status needs at least one status with a positive weight');
+  }
+  const { space } = options;
+
+  const alerts = await fetchAlerts(space, options.orgData);
+  const groups = groupAlerts(alerts, options);
+  if (groups.length === 0) {
+    throw new ValidationError(
+      options.orgData
+        ? `No org-data detection rule alerts in ${getAlertIndex(space)}. Run org-data with --detection-rules and wait for the rules to run.`
+        : `No alerts with a ${options.groupBy}.name in ${getAlertIndex(space)}. Run generate-alerts first.`,
+    );
+  }
+  if (groups.length < options.count) {
+    log.warn(
+      `Only ${groups.length} alert group(s) found, creating ${groups.length} case(s) instead of ${options.count}`,
+    );
+  }
+
+  const analysts = options.assignees ? await getAnalystProfiles(options.assignees) : [];
+  const assigneeUids = analysts.map(({ uid }) => uid);
+
+  let { customFields } = options;
+  if (customFields) {
+    try {
+      await kibanaApi.ensureCaseCustomFields(CUSTOM_FIELDS, space);
+    } catch (error) {
+      const message = `Could not configure case custom fields, skipping them: ${error instanceof Error ? error.message : String(error)}`;
+      log.warn(message);
+      recordError(message);
+      customFields = false;
+    }
+  }
+
+  const plans = groups.map((group) =>
+    planCase(group, { ...options, customFields }, statusWeights, assigneeUids),
+  );
+
+  log.info(`Creating ${plans.length} case(s) in space ${space}...`);
+  const observables = { supported: true };
+  const created = await pMap(
+    plans,
+    async (plan) => {
+      try {
+        const result = await createPlannedCase(plan, space, observables);
+        const attached = [...plan.alertsByRule.values()].reduce(
+          (sum, { alerts: ruleAlerts }) => sum + ruleAlerts.length,
+          0,
+        );
+        log.info(`  ✓ ${plan.title} (${plan.status}, ${plan.severity}, ${attached} alert(s))`);
+        return result;
+      } catch (error) {
+        const message = `Failed to create case "${plan.title}": ${error instanceof Error ? error.message : String(error)}`;
+        log.error(`  ✗ ${message}`);
+        recordError(message);
+        return undefined;
+      }
+    },
+    { concurrency: CASE_CONCURRENCY },
+  );
+
+  const succeeded = created.filter(Boolean).length;
+  if (succeeded === 0) {
+    throw new GeneratorError(`None of the ${plans.length} case(s) could be created`);
+  }
+  log.info(`Created ${succeeded}/${plans.length} case(s) in space ${space}`);
+};
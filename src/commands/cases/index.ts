@@ -0,0 +1,78 @@
+import { type Command } from 'commander';
+import { type CommandModule } from '../types.ts';
+import { assertPositiveInt, parseIntBase10, wrapAction } from '../utils/cli_utils.ts';
+import { ValidationError } from '../../utils/errors.ts';
+import { CASE_GROUPINGS, type CaseGrouping, generateCases, parseCaseStatusMix } from './cases.ts';
+
+export { generateCases } from './cases.ts';
+
+export const casesCommands: CommandModule = {
+  register(program: Command) {
+    program
+      .command('generate-cases')
+      .description('Create Security cases from the alerts in a space')
+      .option('-n, --count <n>', 'number of cases (default: 10)', parseIntBase10)
+      .option('-s, --space <space>', 'space whose alerts are used (default: default)')
+      .option('--group-by <entity>', `one case per ${CASE_GROUPINGS.join(' or ')} (default: host)`)
+      .option(
+        '--org-data',
+        'use the org-data detection rule alerts, grouped into incidents per user, host or source IP',
+      )
+      .option(
+        '--alerts-per-case <n>',
+        'most alerts attached to one case (default: 10)',
+        parseIntBase10,
+      )
+      .option(
+        '--status <mix>',
+        'share of cases per status, e.g. open=50,in-progress=30,closed=20 (the default)',
+      )
+      .option(
+        '--assignees <n>',
+        'create or reuse n analyst users (alert-analyst-N) and assign cases to them',
+        parseIntBase10,
+      )
+      .option('--comments <n>', 'most user comments on one case (default: 3)', parseIntBase10)
+      .option('--no-custom-fields', 'do not define and fill the generator custom fields')
+      .option('--no-observables', 'do not add observables from the alert fields')
+      .action(
+        wrapAction(async (options) => {
+          const count = options.count ?? 10;
+          const alertsPerCase = options.alertsPerCase ?? 10;
+          const comments = options.comments ?? 3;
+          assertPositiveInt(count, '--count');
+          assertPositiveInt(alertsPerCase, '--alerts-per-case');
+          if (options.assignees !== undefined) {
+            assertPositiveInt(options.assignees, '--assignees');
+          }
+          if (!Number.isInteger(comments) || comments < 0) {
+            throw new ValidationError('--comments must be zero or a positive integer');
+          }
+          if (options.orgData && options.groupBy !== undefined) {
+            throw new ValidationError(
+              '--group-by does not apply to --org-data, which groups by user, host or source IP',
+            );
+          }
+          const groupBy: CaseGrouping = options.groupBy ?? 'host';
+          if (!CASE_GROUPINGS.includes(groupBy)) {
+            throw new ValidationError(
+              `--group-by must be one of ${CASE_GROUPINGS.join(', ')}, got "${groupBy}"`,
+            );
+          }
+
+          await generateCases({
+            count,
+            space: options.space ?? 'default',
+            groupBy,
+            orgData: Boolean(options.orgData),
+            alertsPerCase,
+            statusWeights: options.status ? parseCaseStatusMix(options.status) : undefined,
+            assignees: options.assignees,
+            comments,
+            customFields: options.customFields,
+            observables: options.observables,
+          });
+        }),
+      );
+  },
+};
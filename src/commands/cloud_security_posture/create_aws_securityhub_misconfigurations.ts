@@ -1,6 +1,7 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import { pickEvaluation, type CSPMAccount } from './csp_utils.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 export interface CreateAwsSecurityHubMisconfigurationParams {
   account?: CSPMAccount;
@@ -178,8 +179,8 @@ const AWS_REGIONS = [
 export default function createAwsSecurityHubMisconfiguration({
   account,
 }: CreateAwsSecurityHubMisconfigurationParams = {}) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
-  const createdAt = dayjs()
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const createdAt = dayjs(getNow())
     .subtract(faker.number.int({ min: 1, max: 72 }), 'hours')
     .toISOString();
   const evaluation = pickEvaluation();
@@ -1,7 +1,8 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
-import { CSP_AGENT_VERSION, getRandomCve, pickSeverity, type CSPMAccount } from './csp_utils.ts';
+import { getCspAgentVersion, getRandomCve, pickSeverity, type CSPMAccount } from './csp_utils.ts';
 import type { BaseDocumentParams } from '../../types/document_params.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 export interface CreateCNVMVulnerabilityParams extends BaseDocumentParams {
   account?: CSPMAccount;
@@ -9,7 +10,7 @@ export interface CreateCNVMVulnerabilityParams extends BaseDocumentParams {
 
 // CNVM = Cloud Native Vulnerability Management (AWS only)
 export default function createCNVMVulnerability({ account }: CreateCNVMVulnerabilityParams = {}) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const cve = getRandomCve();
   const severity = pickSeverity();
   const accountId = account?.id || faker.string.numeric(12);
@@ -38,7 +39,7 @@ export default function createCNVMVulnerability({ account }: CreateCNVMVulnerabi
       id: agentId,
       name: hostname,
       type: 'cloudbeat',
-      version: CSP_AGENT_VERSION,
+      version: getCspAgentVersion(),
     },
     cloud: {
       Security: {
@@ -73,7 +74,7 @@ export default function createCNVMVulnerability({ account }: CreateCNVMVulnerabi
           key: `cloudbeat-generated-${faker.string.uuid()}`,
         },
         Image: `ami-${faker.string.alphanumeric(17)}`,
-        Launch_time: dayjs()
+        Launch_time: dayjs(getNow())
           .subtract(faker.number.int({ min: 1, max: 365 }), 'days')
           .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
         type: faker.helpers.arrayElement([
@@ -100,7 +101,7 @@ export default function createCNVMVulnerability({ account }: CreateCNVMVulnerabi
     },
     cloudbeat: {
       commit_time: '0001-01-01T00:00:00.000Z',
-      version: CSP_AGENT_VERSION,
+      version: getCspAgentVersion(),
     },
     data_stream: {
       dataset: 'cloud_security_posture.vulnerabilities',
@@ -112,7 +113,7 @@ export default function createCNVMVulnerability({ account }: CreateCNVMVulnerabi
     },
     elastic_agent: {
       id: agentId,
-      version: CSP_AGENT_VERSION,
+      version: getCspAgentVersion(),
       snapshot: false,
     },
     event: {
@@ -180,7 +181,7 @@ export default function createCNVMVulnerability({ account }: CreateCNVMVulnerabi
         name: cve.package,
         version: packageVersion,
       },
-      published_date: dayjs()
+      published_date: dayjs(getNow())
         .subtract(faker.number.int({ min: 30, max: 365 }), 'days')
         .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
       reference: `https://nvd.nist.gov/vuln/detail/${cve.id}`,
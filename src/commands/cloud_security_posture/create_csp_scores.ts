@@ -1,6 +1,7 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import { type PostureType } from './csp_utils.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 export interface BenchmarkScore {
   benchmarkId: string;
@@ -59,7 +60,7 @@ export default function createCSPScores({
   vulnerabilityStats,
   timestamp,
 }: CreateCSPScoresParams) {
-  const now = timestamp || dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = timestamp || dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const score = totalFindings > 0 ? Math.round((passedFindings / totalFindings) * 100) : 0;
 
   // Build score_by_benchmark_id structure
@@ -354,7 +355,7 @@ export function createVulnMgmtScores({
   vulnStats: VulnerabilityStats[];
   timestamp?: string;
 }) {
-  const now = timestamp || dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = timestamp || dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
 
   const totals = vulnStats.reduce(
     (acc, s) => ({
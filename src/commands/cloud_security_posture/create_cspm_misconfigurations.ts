@@ -2,7 +2,7 @@ import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import {
   type CloudProvider,
-  CSP_AGENT_VERSION,
+  getCspAgentVersion,
   CSPM_PROVIDERS,
   getRandomCisRule,
   getRandomResourceType,
@@ -12,6 +12,7 @@ import {
   type CSPMAccount,
 } from './csp_utils.ts';
 import type { BaseDocumentParams } from '../../types/document_params.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 export interface CreateCSPMMisconfigurationParams extends BaseDocumentParams {
   provider: CloudProvider;
@@ -22,7 +23,7 @@ export default function createCSPMMisconfiguration({
   provider,
   account,
 }: CreateCSPMMisconfigurationParams) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const benchmark = CSPM_PROVIDERS[provider];
   const cisRule = getRandomCisRule(provider);
   const resourceType = getRandomResourceType(provider);
@@ -42,7 +43,7 @@ export default function createCSPMMisconfiguration({
       id: agentId,
       type: 'cloudbeat',
       ephemeral_id: faker.string.uuid(),
-      version: CSP_AGENT_VERSION,
+      version: getCspAgentVersion(),
     },
     resource: {
       account_id: accountId,
@@ -60,7 +61,7 @@ export default function createCSPMMisconfiguration({
     },
     elastic_agent: {
       id: agentId,
-      version: CSP_AGENT_VERSION,
+      version: getCspAgentVersion(),
       snapshot: false,
     },
     rule: {
@@ -97,10 +98,10 @@ export default function createCSPMMisconfiguration({
     },
     cloudbeat: {
       commit_time: '0001-01-01T00:00:00Z',
-      version: CSP_AGENT_VERSION,
+      version: getCspAgentVersion(),
       policy: {
         commit_time: '0001-01-01T00:00:00Z',
-        version: CSP_AGENT_VERSION,
+        version: getCspAgentVersion(),
       },
     },
     ecs: {
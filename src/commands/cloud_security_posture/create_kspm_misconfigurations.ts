@@ -1,7 +1,7 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import {
-  CSP_AGENT_VERSION,
+  getCspAgentVersion,
   type KSPMDistribution,
   KSPM_DISTRIBUTIONS,
   getRandomCisRule,
@@ -10,6 +10,7 @@ import {
   type KSPMCluster,
 } from './csp_utils.ts';
 import type { BaseDocumentParams } from '../../types/document_params.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 export interface CreateKSPMMisconfigurationParams extends BaseDocumentParams {
   distribution: KSPMDistribution;
@@ -20,7 +21,7 @@ export default function createKSPMMisconfiguration({
   distribution,
   cluster,
 }: CreateKSPMMisconfigurationParams) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const benchmark = KSPM_DISTRIBUTIONS[distribution];
   const ruleType = distribution === 'eks' ? 'eks' : 'k8s';
   const cisRule = getRandomCisRule(ruleType);
@@ -53,7 +54,7 @@ export default function createKSPMMisconfiguration({
       id: agentId,
       type: 'cloudbeat',
       ephemeral_id: faker.string.uuid(),
-      version: CSP_AGENT_VERSION,
+      version: getCspAgentVersion(),
     },
     resource: {
       sub_type: resourceType,
@@ -69,7 +70,7 @@ export default function createKSPMMisconfiguration({
     },
     elastic_agent: {
       id: agentId,
-      version: CSP_AGENT_VERSION,
+      version: getCspAgentVersion(),
       snapshot: false,
     },
     rule: {
@@ -117,10 +118,10 @@ export default function createKSPMMisconfiguration({
     },
     cloudbeat: {
       commit_time: '0001-01-01T00:00:00Z',
-      version: CSP_AGENT_VERSION,
+      version: getCspAgentVersion(),
       policy: {
         commit_time: '0001-01-01T00:00:00Z',
-        version: CSP_AGENT_VERSION,
+        version: getCspAgentVersion(),
       },
     },
     ecs: {
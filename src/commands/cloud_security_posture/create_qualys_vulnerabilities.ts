@@ -1,6 +1,7 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import { getRandomCve, pickSeverity, type CSPMAccount } from './csp_utils.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 export interface CreateQualysVulnerabilityParams {
   account?: CSPMAccount;
@@ -9,7 +10,7 @@ export interface CreateQualysVulnerabilityParams {
 export default function createQualysVulnerability({
   account,
 }: CreateQualysVulnerabilityParams = {}) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const cve = getRandomCve();
   const severity = pickSeverity();
   const accountId = account?.id || faker.string.numeric(12);
@@ -41,7 +42,7 @@ export default function createQualysVulnerability({
   ]);
   const osPlatform = osName.toLowerCase().includes('windows') ? 'windows' : 'linux';
 
-  const firstFoundDatetime = dayjs()
+  const firstFoundDatetime = dayjs(getNow())
     .subtract(faker.number.int({ min: 30, max: 180 }), 'days')
     .format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const lastFoundDatetime = now;
@@ -174,7 +175,7 @@ export default function createQualysVulnerability({
           patchable: faker.datatype.boolean(),
           pci_flag: faker.datatype.boolean(),
           vuln_type: 'Vulnerability',
-          published_datetime: dayjs()
+          published_datetime: dayjs(getNow())
             .subtract(faker.number.int({ min: 60, max: 365 }), 'days')
             .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
           discovery: {
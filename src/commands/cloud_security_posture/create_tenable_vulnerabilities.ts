@@ -1,6 +1,7 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import { getRandomCve, pickSeverity, type CSPMAccount } from './csp_utils.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 export interface CreateTenableVulnerabilityParams {
   account?: CSPMAccount;
@@ -9,7 +10,7 @@ export interface CreateTenableVulnerabilityParams {
 export default function createTenableVulnerability({
   account,
 }: CreateTenableVulnerabilityParams = {}) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const cve = getRandomCve();
   const severity = pickSeverity();
   const accountId = account?.id || faker.string.numeric(12);
@@ -66,25 +67,25 @@ export default function createTenableVulnerability({
   const pluginFamilyId = faker.number.int({ min: 1000000, max: 9999999 });
 
   // Dates
-  const firstFound = dayjs()
+  const firstFound = dayjs(getNow())
     .subtract(faker.number.int({ min: 30, max: 180 }), 'days')
     .format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const lastFound = now;
   const indexed = now;
-  const scanStarted = dayjs()
+  const scanStarted = dayjs(getNow())
     .subtract(faker.number.int({ min: 1, max: 24 }), 'hours')
     .format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const scanCompleted = now;
-  const vulnPublicationDate = dayjs()
+  const vulnPublicationDate = dayjs(getNow())
     .subtract(faker.number.int({ min: 60, max: 365 }), 'days')
     .format('YYYY-MM-DDTHH:mm:ss.SSSZ');
-  const pluginPublicationDate = dayjs()
+  const pluginPublicationDate = dayjs(getNow())
     .subtract(faker.number.int({ min: 30, max: 180 }), 'days')
     .format('YYYY-MM-DDTHH:mm:ss.SSSZ');
-  const pluginModificationDate = dayjs()
+  const pluginModificationDate = dayjs(getNow())
     .subtract(faker.number.int({ min: 1, max: 30 }), 'days')
     .format('YYYY-MM-DDTHH:mm:ss.SSSZ');
-  const patchPublicationDate = dayjs()
+  const patchPublicationDate = dayjs(getNow())
     .subtract(faker.number.int({ min: 1, max: 29 }), 'days')
     .format('YYYY-MM-DDTHH:mm:ss.SSSZ');
 
@@ -311,7 +312,7 @@ export default function createTenableVulnerability({
           // VPR (Vulnerability Priority Rating)
           vpr: {
             score: vprScore,
-            updated: dayjs()
+            updated: dayjs(getNow())
               .subtract(faker.number.int({ min: 1, max: 30 }), 'days')
               .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
             drivers: {
@@ -1,6 +1,7 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import { pickEvaluation, type CSPMAccount, type CloudProvider } from './csp_utils.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 export interface CreateWizMisconfigurationParams {
   account?: CSPMAccount;
@@ -114,8 +115,8 @@ const WIZ_RULES = [
 export default function createWizMisconfiguration({
   account,
 }: CreateWizMisconfigurationParams = {}) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
-  const analyzedAt = dayjs()
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const analyzedAt = dayjs(getNow())
     .subtract(faker.number.int({ min: 0, max: 24 }), 'hours')
     .toISOString();
   const evaluation = pickEvaluation();
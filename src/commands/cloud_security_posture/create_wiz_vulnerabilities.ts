@@ -1,13 +1,14 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import { getRandomCve, pickSeverity, type CSPMAccount, type CloudProvider } from './csp_utils.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 export interface CreateWizVulnerabilityParams {
   account?: CSPMAccount;
 }
 
 export default function createWizVulnerability({ account }: CreateWizVulnerabilityParams = {}) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const cve = getRandomCve();
   const severity = pickSeverity();
   const provider =
@@ -143,7 +144,7 @@ export default function createWizVulnerability({ account }: CreateWizVulnerabili
         impact_score: faker.number.float({ min: 0, max: 6, fractionDigits: 1 }),
         has_exploit: faker.datatype.boolean(),
         has_cisa_kev_exploit: faker.datatype.boolean(),
-        first_detected_at: dayjs()
+        first_detected_at: dayjs(getNow())
           .subtract(faker.number.int({ min: 1, max: 180 }), 'days')
           .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
         last_detected_at: now,
@@ -151,7 +152,7 @@ export default function createWizVulnerability({ account }: CreateWizVulnerabili
         remedation: `Upgrade ${cve.package} to version ${cve.fixedVersion} or later.`, // Note: typo matches actual schema
         resolution_reason: faker.helpers.arrayElement(['FIXED', 'WONT_FIX', 'ACCEPTED_RISK', null]),
         resolved_at: faker.datatype.boolean()
-          ? dayjs()
+          ? dayjs(getNow())
               .subtract(faker.number.int({ min: 1, max: 30 }), 'days')
               .format('YYYY-MM-DDTHH:mm:ss.SSSZ')
           : null,
@@ -180,7 +181,7 @@ export default function createWizVulnerability({ account }: CreateWizVulnerabili
               enabled: true,
               id: faker.string.alphanumeric(10),
               name: faker.word.noun(),
-              expired_at: dayjs()
+              expired_at: dayjs(getNow())
                 .add(faker.number.int({ min: 30, max: 365 }), 'days')
                 .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
             }
@@ -1,4 +1,5 @@
 import { faker } from '@faker-js/faker';
+import { getDetectedStackVersion } from '../../utils/cluster_capabilities.ts';
 
 // CSPM: Cloud providers and their CIS benchmarks (versions from actual ES data)
 export const CSPM_PROVIDERS = {
@@ -25,9 +26,12 @@ export type CloudProvider = keyof typeof CSPM_PROVIDERS;
 export type KSPMDistribution = keyof typeof KSPM_DISTRIBUTIONS;
 export type PostureType = 'cspm' | 'kspm';
 
-// Agent/cloudbeat version used across all native CSP generators
+// Agent/cloudbeat version used across all native CSP generators when the stack version
+// could not be detected
 export const CSP_AGENT_VERSION = '9.1.2';
 
+export const getCspAgentVersion = (): string => getDetectedStackVersion() ?? CSP_AGENT_VERSION;
+
 // Source data streams (where the agent writes — transforms read from these)
 export const MISCONFIGURATION_SOURCE_INDEX = 'logs-cloud_security_posture.findings-default';
 export const VULNERABILITY_INDEX = 'logs-cloud_security_posture.vulnerabilities_latest-default';
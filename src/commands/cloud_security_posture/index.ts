@@ -1,6 +1,7 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import { log } from '../../utils/logger.ts';
+import { ValidationError } from '../../utils/errors.ts';
 import { ingest, getEsClient } from '../utils/indices.ts';
 import {
   installPackage,
@@ -37,6 +38,7 @@ import createWizVulnerability from './create_wiz_vulnerabilities.ts';
 import createQualysVulnerability from './create_qualys_vulnerabilities.ts';
 import createTenableVulnerability from './create_tenable_vulnerabilities.ts';
 import createAwsSecurityHubMisconfiguration from './create_aws_securityhub_misconfigurations.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 // Individual data sources
 export const ALL_DATA_SOURCES = [
@@ -181,9 +183,9 @@ export function resolveDataSources(input: string[]): DataSource[] {
     } else if ((ALL_DATA_SOURCES as readonly string[]).includes(item)) {
       resolved.add(item as DataSource);
     } else {
-      log.error(`Unknown data source: ${item}`);
-      log.error(`Valid options: all, elastic_all, ${ALL_DATA_SOURCES.join(', ')}`);
-      process.exit(1);
+      throw new ValidationError(
+        `Unknown data source: ${item}. Valid options: all, elastic_all, ${ALL_DATA_SOURCES.join(', ')}`,
+      );
     }
   }
 
@@ -621,7 +623,7 @@ function generateScoresTrend({
   const totalPoints = (hoursBack * 60) / intervalMinutes; // 288
 
   for (let i = totalPoints; i >= 0; i--) {
-    const timestamp = dayjs()
+    const timestamp = dayjs(getNow())
       .subtract(i * intervalMinutes, 'minutes')
       .format('YYYY-MM-DDTHH:mm:ss.SSSZ');
 
@@ -677,7 +679,7 @@ function generateVulnMgmtScoresTrend(vulnStats: VulnerabilityStats[]): object[]
   const totalPoints = (daysBack * 24 * 60) / intervalMinutes;
 
   for (let i = totalPoints; i >= 0; i--) {
-    const timestamp = dayjs()
+    const timestamp = dayjs(getNow())
       .subtract(i * intervalMinutes, 'minutes')
       .format('YYYY-MM-DDTHH:mm:ss.SSSZ');
 
@@ -0,0 +1,293 @@
+/**
+ * Alert workflow
+ * Triage state for generated alerts, so alert triage pages, closing-reason telemetry and the
+ * assignee filter have something to show: workflow status (open, acknowledged, closed) with
+ * closing reasons, assignees, alert tags and notes. Status changes are timestamped after the
+ * alert fired and never after "now".
+ *
+ * Assignees are real users: analyst users (alert-analyst-1..N, editor role) are created or
+ * updated through the Elasticsearch security API and their user profiles activated, since
+ * `kibana.alert.workflow_assignee_ids` holds profile IDs.
+ */
+
+import { randomBytes } from 'crypto';
+import { faker } from '@faker-js/faker';
+import pMap from 'p-map';
+import { getEsClient } from '../utils/indices.ts';
+import { kibanaApi } from '../../utils/index.ts';
+import { isFileOutputEnabled } from '../../utils/file_output.ts';
+import { log } from '../../utils/logger.ts';
+import { recordError } from '../../utils/command_result.ts';
+import { ValidationError } from '../../utils/errors.ts';
+import { parseWeightMix } from '../utils/cli_utils.ts';
+import { getAlertTimeFields } from '../../generators/create_alerts.ts';
+import { getNow } from '../../utils/seeded_random.ts';
+
+export const WORKFLOW_STATUSES = ['open', 'acknowledged', 'closed'] as const;
+export type WorkflowStatus = (typeof WORKFLOW_STATUSES)[number];
+
+export interface AnalystProfile {
+  username: string;
+  /** User profile ID, as stored in kibana.alert.workflow_assignee_ids */
+  uid: string;
+}
+
+export interface AlertWorkflowOptions {
+  /** Relative weights of the workflow statuses (default: all open) */
+  statusWeights?: Partial<Record<WorkflowStatus, number>>;
+  /** From getAnalystProfiles; alerts are assigned to these users */
+  assignees?: AnalystProfile[];
+  /** Tag alerts to match their triage state */
+  tags?: boolean;
+  /** Number of alerts to attach a note to, triaged alerts first */
+  notes?: number;
+}
+
+/** An alert picked to get a note once the alerts are indexed. */
+export interface NoteTarget {
+  id: string;
+  status: WorkflowStatus;
+  reason?: ClosingReason;
+  hostName: string;
+  userName: string;
+}
+
+/** Closing reasons offered by the Kibana close-alert flow, weighted roughly like a real SOC. */
+const CLOSING_REASONS = [
+  { value: 'false_positive', weight: 35 },
+  { value: 'benign_positive', weight: 25 },
+  { value: 'true_positive', weight: 18 },
+  { value: 'duplicate', weight: 14 },
+  { value: 'automated_closure', weight: 5 },
+  { value: 'other', weight: 3 },
+] as const;
+type ClosingReason = (typeof CLOSING_REASONS)[number]['value'];
+
+/** Share of alerts with an assignee, per status. */
+const ASSIGNED_SHARE: Record<WorkflowStatus, number> = {
+  open: 0.3,
+  acknowledged: 1,
+  closed: 0.85,
+};
+
+const MINUTE_MS = 60 * 1000;
+/** Triage happens between a couple of minutes and three days after the alert fired. */
+const MIN_TRIAGE_DELAY_MS = 2 * MINUTE_MS;
+const MAX_TRIAGE_DELAY_MS = 3 * 24 * 60 * MINUTE_MS;
+
+const ANALYST_PREFIX = 'alert-analyst';
+const ANALYST_ROLE = 'editor';
+const NOTE_CONCURRENCY = 4;
+
+/** Parse a mix like `open=60,acknowledged=25,closed=15` into status weights. */
+export const parseWorkflowStatusMix = (input: string): Partial<Record<WorkflowStatus, number>> =>
+  parseWeightMix(input, WORKFLOW_STATUSES, '--workflow-status');
+
+/**
+ * Create or update `count` analyst users and return their user profiles. The users are left in
+ * place after the run and reused by later runs (their password is reset each time). When users
+ * cannot be managed (e.g. serverless), alerts are left unassigned.
+ */
+export const getAnalystProfiles = async (count: number): Promise<AnalystProfile[]> => {
+  const usernames = Array.from({ length: count }, (_, i) => `${ANALYST_PREFIX}-${i + 1}`);
+  if (isFileOutputEnabled()) {
+    log.info(`Dry run: using placeholder profile IDs for ${usernames.join(', ')}`);
+    return usernames.map((username) => ({ username, uid: `u_${username}_0` }));
+  }
+
+  const client = getEsClient();
+  try {
+    const profiles: AnalystProfile[] = [];
+    for (const [i, username] of usernames.entries()) {
+      const password = randomBytes(18).toString('base64url');
+      await client.security.putUser({
+        username,
+        password,
+        roles: [ANALYST_ROLE],
+        full_name: `Alert Analyst ${i + 1}`,
+        email: `${username}@example.com`,
+      });
+      const profile = await client.security.activateUserProfile({
+        grant_type: 'password',
+        username,
+        password,
+      });
+      profiles.push({ username, uid: profile.uid });
+    }
+    log.info(`Analyst users: ${profiles.map(({ username }) => username).join(', ')}`);
+    return profiles;
+  } catch (error) {
+    const message = `Could not create analyst users, leaving everything unassigned: ${error instanceof Error ? error.message : String(error)}`;
+    log.warn(message);
+    recordError(message);
+    return [];
+  }
+};
+
+/**
+ * Workflow options from the generate-alerts settings (number of assignees rather than their
+ * profiles), or undefined when none are set and alerts stay open and unassigned.
+ */
+export const resolveAlertWorkflow = async ({
+  statusWeights,
+  assignees,
+  tags,
+  notes,
+}: {
+  statusWeights?: Partial<Record<WorkflowStatus, number>>;
+  assignees?: number;
+  tags?: boolean;
+  notes?: number;
+}): Promise<AlertWorkflowOptions | undefined> => {
+  if (!statusWeights && !assignees && !tags && !notes) {
+    return undefined;
+  }
+  if (statusWeights && !WORKFLOW_STATUSES.some((status) => (statusWeights[status] ?? 0) > 0)) {
+    throw new ValidationError(
+      'Give at least one workflow status a weight, e.g. open=60,acknowledged=25,closed=15',
+    );
+  }
+  return {
+    statusWeights,
+    assignees: assignees ? await getAnalystProfiles(assignees) : undefined,
+    tags,
+    notes,
+  };
+};
+
+/**
+ * When the alert was triaged: minutes to days after it fired, mostly within hours. Alerts that
+ * fired too recently to have been triaged by now are moved back, so `firedAt` is set for them.
+ */
+const getTriageTimes = (alertTime: number): { firedAt?: number; updatedAt: number } => {
+  const delay =
+    MIN_TRIAGE_DELAY_MS + (MAX_TRIAGE_DELAY_MS - MIN_TRIAGE_DELAY_MS) * faker.number.float() ** 3;
+  const now = getNow();
+  if (alertTime + MIN_TRIAGE_DELAY_MS > now) {
+    const updatedAt = now - faker.number.int({ min: 0, max: MIN_TRIAGE_DELAY_MS });
+    return { firedAt: updatedAt - delay, updatedAt };
+  }
+  return { updatedAt: Math.min(alertTime + delay, now) };
+};
+
+const getTags = (status: WorkflowStatus, reason?: ClosingReason): string[] => {
+  switch (reason) {
+    case 'false_positive':
+      return faker.helpers.arrayElements(['False Positive', 'Needs tuning'], { min: 1, max: 2 });
+    case 'duplicate':
+      return ['Duplicate'];
+    case 'true_positive':
+      return faker.helpers.arrayElements(['Escalated', 'Incident'], { min: 1, max: 2 });
+    case 'benign_positive':
+      return faker.datatype.boolean(0.5) ? ['Expected activity'] : [];
+  }
+  if (status === 'acknowledged') {
+    return faker.datatype.boolean(0.7) ? ['Further investigation required'] : [];
+  }
+  return faker.datatype.boolean(0.1) ? ['Further investigation required'] : [];
+};
+
+/** Workflow fields to merge into an alert, plus what a note on it would be about. */
+export const getAlertWorkflowFields = (
+  alert: { '@timestamp': number | string; 'host.name': string; 'user.name': string },
+  options: AlertWorkflowOptions,
+): { fields: Record<string, unknown>; status: WorkflowStatus; reason?: ClosingReason } => {
+  const weights = options.statusWeights ?? { open: 1 };
+  const status = faker.helpers.weightedArrayElement(
+    WORKFLOW_STATUSES.map((value) => ({ value, weight: weights[value] ?? 0 })).filter(
+      ({ weight }) => weight > 0,
+    ),
+  );
+  const reason =
+    status === 'closed' ? faker.helpers.weightedArrayElement(CLOSING_REASONS) : undefined;
+
+  const assignees = options.assignees ?? [];
+  const assignee =
+    assignees.length > 0 && faker.datatype.boolean(ASSIGNED_SHARE[status])
+      ? faker.helpers.arrayElement(assignees)
+      : undefined;
+  // Automated closures are done by a rule or playbook, not an analyst
+  const changedBy =
+    reason === 'automated_closure'
+      ? undefined
+      : (assignee ?? (assignees.length > 0 ? faker.helpers.arrayElement(assignees) : undefined));
+
+  const triage =
+    status !== 'open' ? getTriageTimes(new Date(alert['@timestamp']).getTime()) : undefined;
+
+  return {
+    status,
+    reason,
+    fields: {
+      'kibana.alert.workflow_status': status,
+      ...(triage && {
+        ...(triage.firedAt !== undefined && getAlertTimeFields(Math.round(triage.firedAt))),
+        'kibana.alert.workflow_status_updated_at': new Date(triage.updatedAt).toISOString(),
+        ...(changedBy && { 'kibana.alert.workflow_user': changedBy.uid }),
+      }),
+      ...(reason && { 'kibana.alert.workflow_reason': reason }),
+      ...(assignees.length > 0 && {
+        'kibana.alert.workflow_assignee_ids': assignee ? [assignee.uid] : [],
+      }),
+      ...(options.tags && { 'kibana.alert.workflow_tags': getTags(status, reason) }),
+    },
+  };
+};
+
+const getNoteText = ({ status, reason, hostName, userName }: NoteTarget): string => {
+  switch (reason) {
+    case 'false_positive':
+      return faker.helpers.arrayElement([
+        `Confirmed with ${userName}: scheduled admin task on ${hostName}. Closing as false positive.`,
+        `Rule matches a known software update process on ${hostName}; raised a tuning request.`,
+      ]);
+    case 'benign_positive':
+      return `Activity is real but expected: ${userName} was running an approved test on ${hostName}.`;
+    case 'true_positive':
+      return faker.helpers.arrayElement([
+        `Malicious activity confirmed on ${hostName}. Host isolated, credentials for ${userName} reset. Escalated to IR.`,
+        `Verified compromise of ${userName}; case opened and ${hostName} handed to forensics.`,
+      ]);
+    case 'duplicate':
+      return `Same activity on ${hostName} is already tracked in an earlier alert; closing as duplicate.`;
+    case 'automated_closure':
+      return 'Closed automatically by the triage playbook after enrichment found no risk indicators.';
+    case 'other':
+      return `Closed after review; see the shift handover notes for ${hostName}.`;
+  }
+  if (status === 'acknowledged') {
+    return faker.helpers.arrayElement([
+      `Reviewing the process tree on ${hostName}; waiting for ${userName} to confirm whether this was expected.`,
+      `Pulled logs from ${hostName} for the hour before the alert, checking for lateral movement.`,
+    ]);
+  }
+  return `First look: ${userName} on ${hostName}. Needs an owner.`;
+};
+
+/** Attach a note to each target alert; failures are counted and reported once. */
+export const attachAlertNotes = async (targets: NoteTarget[], space: string): Promise<void> => {
+  if (targets.length === 0) {
+    return;
+  }
+  log.info(`Attaching notes to ${targets.length} alert(s)`);
+  const notes = targets.map((target) => ({ eventId: target.id, note: getNoteText(target) }));
+  let failed = 0;
+  let firstError: unknown;
+  await pMap(
+    notes,
+    async ({ eventId, note }) => {
+      try {
+        await kibanaApi.createNote({ eventId, note, space });
+      } catch (error) {
+        failed += 1;
+        firstError ??= error;
+      }
+    },
+    { concurrency: NOTE_CONCURRENCY },
+  );
+  if (failed > 0) {
+    const message = `Failed to attach ${failed} of ${notes.length} note(s): ${firstError instanceof Error ? firstError.message : String(firstError)}`;
+    log.warn(message);
+    recordError(message);
+  }
+};
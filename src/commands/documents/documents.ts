@@ -4,37 +4,47 @@ import eventMappings from '../../mappings/eventMappings.json' with { type: 'json
 import { indexCheck } from '../utils/indices.ts';
 import { getConfig } from '../../get_config.ts';
 import { log } from '../../utils/logger.ts';
-import {
-  type MappingTypeMapping,
-  type BulkOperationContainer,
-} from '@elastic/elasticsearch/lib/api/types';
-import pMap from 'p-map';
-import { chunk } from 'lodash-es';
+import { ValidationError } from '../../utils/errors.ts';
+import { type MappingTypeMapping } from '@elastic/elasticsearch/lib/api/types';
 import { faker } from '@faker-js/faker';
 import { getAlertIndex } from '../../utils/index.ts';
-import { bulkUpsert, deleteAllByIndex } from '../shared/elasticsearch.ts';
+import {
+  type BulkOperationTuple,
+  adaptiveBulkIngest,
+  deleteAllByIndex,
+} from '../shared/elasticsearch.ts';
 import { createProgressBar, handleCommandError } from '../utils/cli_utils.ts';
+import {
+  type AlertWorkflowOptions,
+  type NoteTarget,
+  attachAlertNotes,
+  getAlertWorkflowFields,
+} from './alert_workflow.ts';
+import {
+  DEFAULT_SEQUENCE_SHARE,
+  createAlertWithSourceEvents,
+  isSequenceAlert,
+} from './source_events.ts';
 
 const generateDocs = async ({
   createDocs,
   amount,
   index,
+  maxDocsPerSecond,
 }: {
   createDocs: DocumentCreator;
   amount: number;
   index: string;
+  maxDocsPerSecond?: number;
 }) => {
-  const limit = 30000;
-  let generated = 0;
-
-  while (generated < amount) {
-    const docs = createDocuments(Math.min(limit, amount), generated, createDocs, index);
-    try {
-      const result = await bulkUpsert({ documents: docs });
-      generated += result.items.length / 2;
-    } catch (err) {
-      handleCommandError(err, 'Error during document generation');
-    }
+  try {
+    await adaptiveBulkIngest({
+      label: index,
+      operations: createDocuments(amount, createDocs, index),
+      maxDocsPerSecond,
+    });
+  } catch (err) {
+    handleCommandError(err, 'Error during document generation');
   }
 };
 
@@ -42,103 +52,134 @@ interface DocumentCreator {
   (descriptor: { id_field: string; id_value: string }): object;
 }
 
-const alertToBatchOps = (alert: BaseCreateAlertsReturnType, index: string): unknown[] => {
+const alertToBatchOps = (alert: BaseCreateAlertsReturnType, index: string): BulkOperationTuple => {
   return [{ create: { _index: index, _id: alert['kibana.alert.uuid'] } }, { ...alert }];
 };
 
-const createDocuments = (
+function* createDocuments(
   n: number,
-  generated: number,
   createDoc: DocumentCreator,
   index: string,
-): unknown[] => {
-  return Array(n)
-    .fill(null)
-    .reduce((acc, _, i) => {
-      let alert = createDoc({
-        id_field: 'host.name',
-        id_value: `Host ${generated + i}`,
-      });
-      acc.push({ index: { _index: index } });
-      acc.push({ ...alert });
-      alert = createDoc({
-        id_field: 'user.name',
-        id_value: `User ${generated + i}`,
-      });
-      acc.push({ index: { _index: index } });
-      acc.push({ ...alert });
-      return acc;
-    }, []);
-};
+): Generator<BulkOperationTuple> {
+  for (let i = 0; i < n; i++) {
+    yield [
+      { index: { _index: index } },
+      { ...createDoc({ id_field: 'host.name', id_value: `Host ${i}` }) },
+    ];
+    yield [
+      { index: { _index: index } },
+      { ...createDoc({ id_field: 'user.name', id_value: `User ${i}` }) },
+    ];
+  }
+}
 
 export const generateAlerts = async (
   alertCount: number,
   hostCount: number,
   userCount: number,
   space: string,
+  maxDocsPerSecond?: number,
+  {
+    workflow,
+    withSourceEvents = false,
+    sequenceShare = DEFAULT_SEQUENCE_SHARE,
+  }: {
+    /** Triage state (statuses, assignees, tags, notes); alerts stay open without it */
+    workflow?: AlertWorkflowOptions;
+    /** Index the source events behind each alert and point the alert at them */
+    withSourceEvents?: boolean;
+    /** Percentage of alerts that are EQL sequence alerts with building blocks (source events only) */
+    sequenceShare?: number;
+  } = {},
 ) => {
   if (userCount > alertCount) {
-    log.info('User count should be less than alert count');
-    process.exit(1);
+    throw new ValidationError('User count should be less than alert count');
   }
 
   if (hostCount > alertCount) {
-    log.info('Host count should be less than alert count');
-    process.exit(1);
+    throw new ValidationError('Host count should be less than alert count');
+  }
+
+  if (!Number.isInteger(sequenceShare) || sequenceShare < 0 || sequenceShare > 100) {
+    throw new ValidationError('Sequence share should be a percentage between 0 and 100');
   }
 
   log.info(
     `Generating ${alertCount} alerts containing ${hostCount} hosts and ${userCount} users in space ${space}`,
   );
-  const concurrency = 10; // how many batches to send in parallel
-  const batchSize = 2500; // number of alerts in a batch
   const no_overrides = {};
 
-  const batchOpForIndex = ({ userName, hostName }: { userName: string; hostName: string }) =>
-    alertToBatchOps(
-      createAlerts(no_overrides, { userName, hostName, space }),
-      getAlertIndex(space),
-    );
-
   log.info('Generating entity names...');
   const userNames = Array.from({ length: userCount }, () => faker.internet.username());
   const hostNames = Array.from({ length: hostCount }, () => faker.internet.domainName());
 
-  log.info('Assigning entity names...');
-  const alertEntityNames = Array.from({ length: alertCount }, (_, i) => ({
-    userName: userNames[i % userCount],
-    hostName: hostNames[i % hostCount],
-  }));
+  // Notes go on triaged alerts first, topped up with open ones
+  const notesWanted = workflow?.notes ?? 0;
+  const triagedNoteTargets: NoteTarget[] = [];
+  const openNoteTargets: NoteTarget[] = [];
 
-  log.info('Entity names assigned. Batching...');
-  const operationBatches = chunk(alertEntityNames, batchSize).map((batch) =>
-    batch.flatMap(batchOpForIndex),
-  );
+  // Source events and building-block alerts come on top of the alerts asked for
+  let extraDocuments = 0;
 
-  log.info('Batching complete. Sending to ES...');
+  function* alertOperations(): Generator<BulkOperationTuple> {
+    for (let i = 0; i < alertCount; i++) {
+      let alert = createAlerts(no_overrides, {
+        userName: userNames[i % userCount],
+        hostName: hostNames[i % hostCount],
+        space,
+      });
+      if (workflow) {
+        const { fields, status, reason } = getAlertWorkflowFields(alert, workflow);
+        const noteTargets = status === 'open' ? openNoteTargets : triagedNoteTargets;
+        if (noteTargets.length < notesWanted) {
+          noteTargets.push({
+            id: alert['kibana.alert.uuid'],
+            status,
+            reason,
+            hostName: alert['host.name'],
+            userName: alert['user.name'],
+          });
+        }
+        alert = { ...alert, ...fields };
+      }
+      if (!withSourceEvents) {
+        yield alertToBatchOps(alert, getAlertIndex(space));
+        continue;
+      }
+      const operations = createAlertWithSourceEvents(alert, space, {
+        sequence: isSequenceAlert(i, sequenceShare),
+      });
+      extraDocuments += operations.length - 1;
+      progress.setTotal(alertCount + extraDocuments);
+      yield* operations;
+    }
+  }
 
-  log.info(
-    `Sending in ${operationBatches.length} batches of ${batchSize} alerts, with up to ${concurrency} batches in parallel\n\n`,
-  );
+  log.info('Sending to ES...\n\n');
   const progress = createProgressBar('alerts', {
-    format: '{bar} | {percentage}% | {value}/{total} batches',
+    format: `{bar} | {percentage}% | {value}/{total} ${withSourceEvents ? 'docs' : 'alerts'}`,
+  });
+  progress.start(alertCount, 0);
+
+  await adaptiveBulkIngest({
+    label: withSourceEvents ? 'alerts and source events' : 'alerts',
+    operations: alertOperations(),
+    maxDocsPerSecond,
+    onProgress: (documents) => progress.increment(documents),
   });
-  progress.start(operationBatches.length, 0);
-
-  await pMap(
-    operationBatches,
-    async (operations) => {
-      await bulkUpsert({ documents: operations });
-      progress.increment();
-    },
-    { concurrency },
-  );
 
   progress.stop();
+
+  if (notesWanted > 0) {
+    await attachAlertNotes(
+      [...triagedNoteTargets, ...openNoteTargets].slice(0, notesWanted),
+      space,
+    );
+  }
 };
 
 // this creates asset criticality not events?
-export const generateEvents = async (n: number) => {
+export const generateEvents = async (n: number, maxDocsPerSecond?: number) => {
   const config = getConfig();
 
   if (!config.eventIndex) {
@@ -154,80 +195,12 @@ export const generateEvents = async (n: number) => {
     createDocs: createEvents,
     amount: n,
     index: config.eventIndex,
+    maxDocsPerSecond,
   });
 
   log.info('Finished generating events');
 };
 
-export const generateGraph = async ({ users = 100, maxHosts = 3 }) => {
-  log.info('Generating alerts graph...');
-
-  type AlertOverride = { host: { name: string }; user: { name: string } };
-
-  const clusters: (ReturnType<typeof createAlerts> & AlertOverride)[][] = [];
-
-  /**
-   * The type you can pass to the bulk API, if you're working with Fake Alerts.
-   * This accepts partial docs, full docs, and other docs that indicate _index, _id, and such
-   */
-  type FakeAlertBulkOperations = BulkOperationContainer | Partial<AlertOverride>;
-
-  const alerts: FakeAlertBulkOperations[] = [];
-  for (let i = 0; i < users; i++) {
-    const userCluster = [];
-    for (let j = 0; j < maxHosts; j++) {
-      const alert = createAlerts({
-        host: {
-          name: 'Host mark',
-        },
-        user: {
-          name: 'User pablo',
-        },
-      });
-      userCluster.push(alert);
-    }
-    clusters.push(userCluster);
-  }
-
-  let lastAlertFromCluster: (ReturnType<typeof createAlerts> & AlertOverride) | null = null;
-  clusters.forEach((cluster) => {
-    if (lastAlertFromCluster) {
-      const alert = createAlerts({
-        host: {
-          name: cluster[0].host.name,
-        },
-        user: {
-          name: lastAlertFromCluster.user.name,
-        },
-      });
-      alerts.push({
-        index: {
-          _index: getAlertIndex('default'),
-          _id: alert['kibana.alert.uuid'],
-        },
-      });
-      alerts.push(alert);
-    }
-    cluster.forEach((alert) => {
-      alerts.push({
-        index: {
-          _index: getAlertIndex('default'),
-          _id: alert['kibana.alert.uuid'],
-        },
-      });
-      alerts.push(alert);
-      lastAlertFromCluster = alert;
-    });
-  });
-
-  try {
-    const result = await bulkUpsert({ documents: alerts });
-    log.info(`${result.items.length} alerts created`);
-  } catch (err) {
-    log.error('Error: ', err);
-  }
-};
-
 export const deleteAllAlerts = async () => {
   log.info('Deleting all alerts...');
   try {
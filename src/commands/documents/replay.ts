@@ -0,0 +1,224 @@
+/**
+ * Replay
+ * Ingests a directory of per-index NDJSON bulk files (the format written by --output-dir)
+ * into the configured cluster, optionally re-basing timestamps and renaming indices.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { escapeRegExp, get, set } from 'lodash-es';
+import { type BulkOperationType } from '@elastic/elasticsearch/lib/api/types';
+import { log } from '../../utils/logger.ts';
+import { DEFAULT_BULK_CONCURRENCY, streamingBulkIngest } from '../shared/elasticsearch.ts';
+import { KIBANA_MANIFEST_FILE_NAME, NDJSON_EXTENSION } from '../../utils/file_output.ts';
+
+/**
+ * Date fields shifted by --rebase-timestamps. Both flat (`event.created`) and nested
+ * (`event: { created }`) layouts are handled.
+ */
+const TIMESTAMP_FIELDS = [
+  '@timestamp',
+  'event.created',
+  'event.start',
+  'event.end',
+  'event.ingested',
+  'kibana.alert.start',
+  'kibana.alert.original_time',
+  'kibana.alert.last_detected',
+];
+
+export interface IndexRenameRule {
+  pattern: RegExp;
+  replacement: string;
+}
+
+type BulkAction = Partial<Record<BulkOperationType, { _index?: string; _id?: string }>>;
+
+interface BulkPair {
+  action: BulkAction;
+  document: Record<string, unknown>;
+}
+
+interface IndexReplayResult {
+  index: string;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Parse a `<from>=<to>` rename rule. A single `*` in `<from>` matches any text and is
+ * substituted for the `*` in `<to>`, e.g. `logs-*-default=logs-*-qa`.
+ */
+export const parseRenameRule = (input: string): IndexRenameRule => {
+  const [from, to, ...rest] = input.split('=');
+  const wildcards = (from ?? '').split('*').length - 1;
+  if (!from || !to || rest.length > 0 || wildcards > 1 || (wildcards === 0 && to.includes('*'))) {
+    throw new Error(
+      `Invalid rename rule "${input}". Expected <from>=<to> with at most one * (e.g. logs-*-default=logs-*-qa)`,
+    );
+  }
+  return {
+    pattern: new RegExp(`^${from.split('*').map(escapeRegExp).join('(.*)')}$`),
+    replacement: to.replace(/\$/g, '$$$$').replace('*', '$1'),
+  };
+};
+
+/** First matching rule wins; indices matching no rule keep their name. */
+export const renameIndex = (index: string, rules: IndexRenameRule[]): string => {
+  const rule = rules.find(({ pattern }) => pattern.test(index));
+  return rule ? index.replace(rule.pattern, rule.replacement) : index;
+};
+
+const shiftValue = (value: unknown, offsetMs: number): unknown => {
+  if (typeof value === 'number') {
+    return value + offsetMs;
+  }
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return isNaN(time) ? value : new Date(time + offsetMs).toISOString();
+  }
+  return value;
+};
+
+const shiftTimestamps = (doc: Record<string, unknown>, offsetMs: number): void => {
+  for (const field of TIMESTAMP_FIELDS) {
+    if (field in doc) {
+      doc[field] = shiftValue(doc[field], offsetMs);
+    } else if (get(doc, field) !== undefined) {
+      set(doc, field, shiftValue(get(doc, field), offsetMs));
+    }
+  }
+};
+
+const toEpochMs = (value: unknown): number | undefined => {
+  const time = typeof value === 'string' ? Date.parse(value) : value;
+  return typeof time === 'number' && !isNaN(time) ? time : undefined;
+};
+
+/**
+ * Read a bulk body file as action + document pairs. Delete actions have no document
+ * line and cannot be replayed, so they are counted and skipped.
+ */
+async function* readBulkFile(
+  filePath: string,
+  stats: { skippedDeletes: number },
+): AsyncGenerator<BulkPair> {
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+
+  let action: BulkAction | undefined;
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+    const parsed = JSON.parse(line);
+    if (action) {
+      yield { action, document: parsed };
+      action = undefined;
+    } else if ('delete' in parsed) {
+      stats.skippedDeletes++;
+    } else {
+      action = parsed;
+    }
+  }
+}
+
+const findLatestTimestamp = async (files: string[]): Promise<number | undefined> => {
+  let latest: number | undefined;
+  const stats = { skippedDeletes: 0 };
+  for (const file of files) {
+    for await (const { document } of readBulkFile(file, stats)) {
+      const time = toEpochMs(document['@timestamp']);
+      if (time !== undefined && (latest === undefined || time > latest)) {
+        latest = time;
+      }
+    }
+  }
+  return latest;
+};
+
+export const listBulkFiles = (dir: string): string[] => {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Replay directory ${dir} does not exist`);
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(NDJSON_EXTENSION) && file !== KIBANA_MANIFEST_FILE_NAME)
+    .sort()
+    .map((file) => path.join(dir, file));
+};
+
+export const replayBulkFiles = async ({
+  dir,
+  concurrency = DEFAULT_BULK_CONCURRENCY,
+  rebaseTimestamps = false,
+  renameRules = [],
+}: {
+  dir: string;
+  concurrency?: number;
+  rebaseTimestamps?: boolean;
+  renameRules?: IndexRenameRule[];
+}): Promise<IndexReplayResult[]> => {
+  const files = listBulkFiles(dir);
+  if (files.length === 0) {
+    log.warn(`No ${NDJSON_EXTENSION} bulk files found in ${dir}`);
+    return [];
+  }
+
+  let offsetMs = 0;
+  if (rebaseTimestamps) {
+    const latest = await findLatestTimestamp(files);
+    if (latest === undefined) {
+      log.warn('No @timestamp values found, timestamps will not be re-based');
+    } else {
+      offsetMs = Date.now() - latest;
+      log.info(`Re-basing timestamps by ${Math.round(offsetMs / 1000)}s so the newest is now`);
+    }
+  }
+
+  const results: IndexReplayResult[] = [];
+  const stats = { skippedDeletes: 0 };
+
+  for (const file of files) {
+    const fileIndex = path.basename(file, NDJSON_EXTENSION);
+    const index = renameIndex(fileIndex, renameRules);
+    const result: IndexReplayResult = { index, succeeded: 0, failed: 0 };
+    log.info(`Replaying ${path.basename(file)} into ${index}...`);
+
+    await streamingBulkIngest({
+      index,
+      datasource: readBulkFile(file, stats),
+      concurrency,
+      onDocument: (pair) => {
+        const { action, document } = pair as BulkPair;
+        const opType = Object.keys(action)[0] as BulkOperationType;
+        const target = renameIndex(action[opType]?._index ?? fileIndex, renameRules);
+        if (offsetMs !== 0) {
+          shiftTimestamps(document, offsetMs);
+        }
+        return [{ [opType]: { ...action[opType], _index: target } }, document];
+      },
+      onSuccess: () => {
+        result.succeeded++;
+      },
+      onDrop: (doc) => {
+        result.failed++;
+        log.debug('Dropped document:', doc);
+      },
+    });
+
+    results.push(result);
+  }
+
+  if (stats.skippedDeletes > 0) {
+    log.warn(`Skipped ${stats.skippedDeletes} delete actions, they cannot be replayed`);
+  }
+
+  log.info('Replay complete:');
+  for (const { index, succeeded, failed } of results) {
+    log.info(`  ${failed > 0 ? '✗' : '✓'} ${index}: ${succeeded} indexed, ${failed} failed`);
+  }
+
+  return results;
+};
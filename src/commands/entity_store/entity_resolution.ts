@@ -14,6 +14,7 @@ import readline from 'readline';
 import fs from 'fs';
 import path from 'path';
 import { getEntityResolutionDataDir } from '../../utils/data_paths.ts';
+import { getEventTime } from '../../utils/time_context.ts';
 
 const BATCH_SIZE = 1000;
 const CONCURRENCY = 10;
@@ -178,7 +179,7 @@ const dataStreamFieldsToIndexName = (dataStreamFields: {
 };
 
 const getTimeStamp = () => {
-  return new Date().toISOString();
+  return new Date(getEventTime()).toISOString();
 };
 
 const PACKAGES_TO_INSTALL = ['entityanalytics_okta', 'okta', 'system', 'entityanalytics_entra_id'];
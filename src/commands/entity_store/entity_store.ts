@@ -1,4 +1,5 @@
 import { log } from '../../utils/logger.ts';
+import { GeneratorError } from '../../utils/errors.ts';
 import { faker } from '@faker-js/faker';
 import { indexCheck, createAgentDocument } from '../utils/indices.ts';
 import { bulkIngest, deleteAllByIndex } from '../shared/elasticsearch.ts';
@@ -12,6 +13,7 @@ import {
   enrichEntityViaApi,
   type EntityEnrichment,
 } from '../../utils/kibana_api.ts';
+import { random, getNow } from '../../utils/seeded_random.ts';
 import {
   AGENT_INDEX_NAME,
   ASSET_CRITICALITY,
@@ -23,6 +25,7 @@ import {
 } from '../../constants.ts';
 import { type MappingTypeMapping } from '@elastic/elasticsearch/lib/api/types';
 import { getConfig } from '../../get_config.ts';
+import { getTimeRangeMs, HOUR_MS } from '../../utils/time_context.ts';
 import { ensureSpace } from '../../utils/index.ts';
 import { type EntityType } from '../../types/entities.ts';
 
@@ -31,6 +34,11 @@ const logEventDateOffset = once((offset: number) =>
 );
 
 const getOffset = (offsetHours?: number) => {
+  const timeRangeMs = getTimeRangeMs();
+  if (timeRangeMs !== undefined) {
+    return (random() * timeRangeMs) / HOUR_MS;
+  }
+
   const config = getConfig();
 
   if (config.eventDateOffsetHours !== undefined) {
@@ -191,7 +199,7 @@ const genericTypes = [
 ];
 
 export const createRandomGenericEntity = (): GenericEntity => {
-  const taxonomy = genericTypes[Math.floor(Math.random() * genericTypes.length)];
+  const taxonomy = genericTypes[Math.floor(random() * genericTypes.length)];
 
   const resourceName = `${taxonomy.subType.toLowerCase().replace(/\s+/g, '-')}-${faker.string.alphanumeric(8)}`;
   const regions = ['us-east-1', 'us-west-2', 'eu-west-1', 'eu-central-1', 'ap-southeast-1'];
@@ -241,7 +249,9 @@ export const createRandomGenericEntity = (): GenericEntity => {
 };
 
 export const createRandomEventForHost = (host: Host, offsetHours?: number): HostEvent => ({
-  '@timestamp': dayjs().subtract(getOffset(offsetHours), 'h').format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
+  '@timestamp': dayjs(getNow())
+    .subtract(getOffset(offsetHours), 'h')
+    .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
   message: `Host ${faker.hacker.phrase()}`,
   service: {
     type: 'system',
@@ -258,7 +268,9 @@ export const createRandomEventForHost = (host: Host, offsetHours?: number): Host
 });
 
 export const createRandomEventForUser = (user: User, offsetHours?: number): UserEvent => ({
-  '@timestamp': dayjs().subtract(getOffset(offsetHours), 'h').format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
+  '@timestamp': dayjs(getNow())
+    .subtract(getOffset(offsetHours), 'h')
+    .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
   message: `User ${faker.hacker.phrase()}`,
   service: {
     type: 'system',
@@ -273,7 +285,9 @@ export const createRandomEventForService = (
   service: Service,
   offsetHours?: number,
 ): ServiceEvent => ({
-  '@timestamp': dayjs().subtract(getOffset(offsetHours), 'h').format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
+  '@timestamp': dayjs(getNow())
+    .subtract(getOffset(offsetHours), 'h')
+    .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
   message: `Service ${faker.hacker.phrase()}`,
   service: {
     node: {
@@ -307,10 +321,12 @@ export const createRandomEventForGenericEntity = (
   const region = faker.helpers.arrayElement(regions);
 
   return {
-    '@timestamp': dayjs().subtract(getOffset(offsetHours), 'h').format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
+    '@timestamp': dayjs(getNow())
+      .subtract(getOffset(offsetHours), 'h')
+      .format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
     message: `${service.subType} entity discovered`,
     event: {
-      ingested: dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
+      ingested: dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
       dataset: 'cloud_asset_inventory.asset_inventory',
       module: 'cloud_asset_inventory',
     },
@@ -432,7 +448,7 @@ const generateRandomEnrichment = (
   entityName: string,
   entityType: 'user' | 'host',
 ): EntityEnrichment => {
-  const now = new Date();
+  const now = new Date(getNow());
   const daysAgo = faker.number.int({ min: 30, max: 365 });
   const firstSeen = new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
   const lastActivity = new Date(
@@ -669,7 +685,7 @@ export const generateEntityStore = async ({
 
     log.info('Finished generating entity store');
   } catch (error) {
-    log.error('Error: ', error);
+    throw new GeneratorError('Failed to generate entity store', { cause: error });
   }
 };
 
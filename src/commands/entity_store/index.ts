@@ -1,6 +1,6 @@
 import { type Command } from 'commander';
 import { type CommandModule } from '../types.ts';
-import { wrapAction } from '../utils/cli_utils.ts';
+import { parseIntBase10, parseListOption, wrapAction } from '../utils/cli_utils.ts';
 import { log } from '../../utils/logger.ts';
 import {
   ENTITY_STORE_OPTIONS,
@@ -18,6 +18,15 @@ import {
 } from '../utils/interactive_prompts.ts';
 import { ensureSpace } from '../../utils/index.ts';
 import { riskScoreV2Command } from './risk_score_v2.ts';
+import { getSeed } from '../../utils/seeded_random.ts';
+import { addSpaceFanOutOptions, resolveFanOutSpaces, runForSpaces } from '../utils/space_fanout.ts';
+
+interface MaintainersCommandOptions {
+  space: string;
+  quick?: boolean;
+  maintainers?: string;
+  count?: number;
+}
 
 export const entityStoreCommands: CommandModule = {
   register(program: Command) {
@@ -34,74 +43,142 @@ export const entityStoreCommands: CommandModule = {
         }),
       );
 
-    program
-      .command('entity-store')
-      .description('Generate entity store')
-      .option('--space <space>', 'Space to create entity store in')
+    addSpaceFanOutOptions(
+      program
+        .command('entity-store')
+        .description('Generate entity store')
+        .option('--space <space>', 'Space to create entity store in'),
+    )
+      .option(
+        '--options <list>',
+        `Comma-separated options without prompting: ${Object.values(ENTITY_STORE_OPTIONS).join(', ')} (default: seed,criticality,riskEngine,rule)`,
+      )
+      .option('--users <n>', 'Number of users (default 10)', parseIntBase10)
+      .option('--hosts <n>', 'Number of hosts (default 10)', parseIntBase10)
+      .option('--services <n>', 'Number of services (default 10)', parseIntBase10)
+      .option('--generic-entities <n>', 'Number of generic entities (default 10)', parseIntBase10)
+      .option('--offset-hours <n>', 'Event date offset in hours (default 1)', parseIntBase10)
+      .addHelpText(
+        'after',
+        '\nWith the seed option, the global --seed sets the seed instead of the prompt.',
+      )
       .action(
         wrapAction(async (options) => {
-          const entityStoreAnswers = await promptForSelection<keyof typeof ENTITY_STORE_OPTIONS>({
-            message: 'Select options',
-            choices: [
-              {
-                name: 'Seed (stable random data)',
-                value: ENTITY_STORE_OPTIONS.seed,
-                checked: true,
-              },
-              {
-                name: 'Assign asset criticality',
-                value: ENTITY_STORE_OPTIONS.criticality,
-                checked: true,
-              },
-              { name: 'Enable Risk Engine', value: ENTITY_STORE_OPTIONS.riskEngine, checked: true },
-              { name: 'Create detection rule', value: ENTITY_STORE_OPTIONS.rule, checked: true },
-              {
-                name: 'Generate fake elastic agents for hosts',
-                value: ENTITY_STORE_OPTIONS.agent,
-                checked: false,
-              },
-              {
-                name: 'Enrich entities via API (adds behaviors, attributes, lifecycle, relationships)',
-                value: ENTITY_STORE_OPTIONS.apiEnrichment,
-                checked: false,
-              },
-            ],
-          });
+          const spaces = resolveFanOutSpaces(options, { space: options.space, flag: '--space' });
+          const entityStoreAnswers =
+            options.options !== undefined
+              ? parseListOption(options.options, Object.values(ENTITY_STORE_OPTIONS), '--options')
+              : await promptForSelection<keyof typeof ENTITY_STORE_OPTIONS>({
+                  message: 'Select options',
+                  flag: '--options',
+                  choices: [
+                    {
+                      name: 'Seed (stable random data)',
+                      value: ENTITY_STORE_OPTIONS.seed,
+                      checked: true,
+                    },
+                    {
+                      name: 'Assign asset criticality',
+                      value: ENTITY_STORE_OPTIONS.criticality,
+                      checked: true,
+                    },
+                    {
+                      name: 'Enable Risk Engine',
+                      value: ENTITY_STORE_OPTIONS.riskEngine,
+                      checked: true,
+                    },
+                    {
+                      name: 'Create detection rule',
+                      value: ENTITY_STORE_OPTIONS.rule,
+                      checked: true,
+                    },
+                    {
+                      name: 'Generate fake elastic agents for hosts',
+                      value: ENTITY_STORE_OPTIONS.agent,
+                      checked: false,
+                    },
+                    {
+                      name: 'Enrich entities via API (adds behaviors, attributes, lifecycle, relationships)',
+                      value: ENTITY_STORE_OPTIONS.apiEnrichment,
+                      checked: false,
+                    },
+                  ],
+                });
 
           const counts = await promptForNumericInputs([
-            { key: 'users', message: 'How many users', defaultValue: '10' },
-            { key: 'hosts', message: 'How many hosts', defaultValue: '10' },
-            { key: 'services', message: 'How many services', defaultValue: '10' },
+            {
+              key: 'users',
+              message: 'How many users',
+              defaultValue: '10',
+              flag: '--users',
+              value: options.users,
+            },
+            {
+              key: 'hosts',
+              message: 'How many hosts',
+              defaultValue: '10',
+              flag: '--hosts',
+              value: options.hosts,
+            },
+            {
+              key: 'services',
+              message: 'How many services',
+              defaultValue: '10',
+              flag: '--services',
+              value: options.services,
+            },
             {
               key: 'genericEntities',
               message: 'How many generic entities',
               defaultValue: '10',
+              flag: '--generic-entities',
+              value: options.genericEntities,
             },
             {
               key: 'offsetHours',
               message: 'Event date offset in hours (how many hours ago events should be generated)',
               defaultValue: '1',
+              flag: '--offset-hours',
+              value: options.offsetHours,
             },
           ]);
 
           const seed = generateNewSeed() + '';
-          const seedAnswer = entityStoreAnswers.includes(ENTITY_STORE_OPTIONS.seed)
-            ? await promptForTextInput(
+          const seedAnswer = !entityStoreAnswers.includes(ENTITY_STORE_OPTIONS.seed)
+            ? seed
+            : (getSeed()?.toString() ??
+              (await promptForTextInput(
                 'Enter seed to generate stable random data or <enter> to use a new seed',
                 seed,
-              )
-            : seed;
+                '--seed',
+              )));
 
-          await generateEntityStore({
-            space: options.space,
-            users: counts.users,
-            hosts: counts.hosts,
-            services: counts.services,
-            genericEntities: counts.genericEntities,
-            seed: Number(seedAnswer),
-            options: entityStoreAnswers,
-            offsetHours: counts.offsetHours,
-          });
+          const generate = (space: string | undefined, seed: number) =>
+            generateEntityStore({
+              space,
+              users: counts.users,
+              hosts: counts.hosts,
+              services: counts.services,
+              genericEntities: counts.genericEntities,
+              seed,
+              options: entityStoreAnswers,
+              offsetHours: counts.offsetHours,
+            });
+
+          if (spaces) {
+            await runForSpaces(
+              spaces,
+              {
+                ...options,
+                baseSeed: entityStoreAnswers.includes(ENTITY_STORE_OPTIONS.seed)
+                  ? Number(seedAnswer)
+                  : undefined,
+              },
+              generate,
+            );
+            return;
+          }
+          await generate(options.space, Number(seedAnswer));
         }),
       );
 
@@ -141,8 +218,13 @@ export const entityStoreCommands: CommandModule = {
       )
       .option('--space <space>', 'Kibana space ID', 'default')
       .option('--quick', 'Run all maintainers for 10000 entities without prompts')
+      .option(
+        '--maintainers <list>',
+        `Comma-separated maintainers without prompting: ${Object.values(ENTITY_MAINTAINERS_OPTIONS).join(', ')} (default: all)`,
+      )
+      .option('--count <n>', 'Number of entities to update (default 10)', parseIntBase10)
       .action(
-        wrapAction(async ({ space, quick }: { space: string; quick?: boolean }) => {
+        wrapAction(async ({ space, quick, maintainers, count }: MaintainersCommandOptions) => {
           if (quick) {
             await generateEntityMaintainersData({
               count: 10000,
@@ -151,41 +233,49 @@ export const entityStoreCommands: CommandModule = {
             });
             return;
           }
-          const selectedMaintainers = await promptForSelection<EntityMaintainerOption>({
-            message: 'Select maintainers to generate data for',
-            choices: [
-              {
-                name: 'Risk Score',
-                value: ENTITY_MAINTAINERS_OPTIONS.riskScore,
-                checked: true,
-              },
-              {
-                name: 'Asset Criticality',
-                value: ENTITY_MAINTAINERS_OPTIONS.assetCriticality,
-                checked: true,
-              },
-              {
-                name: 'Anomaly Behaviors',
-                value: ENTITY_MAINTAINERS_OPTIONS.anomalyBehaviors,
-                checked: true,
-              },
-              {
-                name: 'Relationships',
-                value: ENTITY_MAINTAINERS_OPTIONS.relationships,
-                checked: true,
-              },
-              {
-                name: 'Watchlist',
-                value: ENTITY_MAINTAINERS_OPTIONS.watchlist,
-                checked: true,
-              },
-              {
-                name: 'Snapshot (30-day history)',
-                value: ENTITY_MAINTAINERS_OPTIONS.snapshot,
-                checked: true,
-              },
-            ],
-          });
+          const selectedMaintainers =
+            maintainers !== undefined
+              ? parseListOption(
+                  maintainers,
+                  Object.values(ENTITY_MAINTAINERS_OPTIONS),
+                  '--maintainers',
+                )
+              : await promptForSelection<EntityMaintainerOption>({
+                  message: 'Select maintainers to generate data for',
+                  flag: '--maintainers',
+                  choices: [
+                    {
+                      name: 'Risk Score',
+                      value: ENTITY_MAINTAINERS_OPTIONS.riskScore,
+                      checked: true,
+                    },
+                    {
+                      name: 'Asset Criticality',
+                      value: ENTITY_MAINTAINERS_OPTIONS.assetCriticality,
+                      checked: true,
+                    },
+                    {
+                      name: 'Anomaly Behaviors',
+                      value: ENTITY_MAINTAINERS_OPTIONS.anomalyBehaviors,
+                      checked: true,
+                    },
+                    {
+                      name: 'Relationships',
+                      value: ENTITY_MAINTAINERS_OPTIONS.relationships,
+                      checked: true,
+                    },
+                    {
+                      name: 'Watchlist',
+                      value: ENTITY_MAINTAINERS_OPTIONS.watchlist,
+                      checked: true,
+                    },
+                    {
+                      name: 'Snapshot (30-day history)',
+                      value: ENTITY_MAINTAINERS_OPTIONS.snapshot,
+                      checked: true,
+                    },
+                  ],
+                });
 
           if (selectedMaintainers.length === 0) {
             log.info('No maintainers selected. Exiting.');
@@ -197,6 +287,8 @@ export const entityStoreCommands: CommandModule = {
               key: 'entityCount',
               message: 'How many entities should be updated?',
               defaultValue: '10',
+              flag: '--count',
+              value: count,
             },
           ]);
 
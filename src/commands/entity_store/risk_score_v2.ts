@@ -28,8 +28,10 @@ import { getConfig } from '../../get_config.ts';
 import { generateOrgData } from '../org_data/org_data_generator.ts';
 import type { OrganizationSize, ProductivitySuite } from '../org_data/types.ts';
 import { parseOptionInt } from '../utils/cli_utils.ts';
+import { isNonInteractive } from '../utils/interactive_prompts.ts';
 import { checkbox, input, select } from '@inquirer/prompts';
 import { getEntityStoreIndex } from '../../constants.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 type RiskScoreV2Options = {
   users?: string;
@@ -183,14 +185,12 @@ const printGraphSummaryViews = ({
   const plusToken = token('+', 'cyan');
   const printTreeItems = ({ items, indent }: { items: string[]; indent: string }) => {
     if (items.length === 0) {
-      // eslint-disable-next-line no-console
-      console.log(`${indent}└─ -`);
+      log.info(`${indent}└─ -`);
       return;
     }
     for (const [index, item] of items.entries()) {
       const branch = index === items.length - 1 ? '└─' : '├─';
-      // eslint-disable-next-line no-console
-      console.log(`${indent}${branch} ${item}`);
+      log.info(`${indent}${branch} ${item}`);
     }
   };
   const shortenCriticality = (criticality: string): string => {
@@ -229,61 +229,46 @@ const printGraphSummaryViews = ({
     return `${entityId} ${[baseTag, resolutionTag].filter(Boolean).join(' ')}`.trim();
   };
 
-  // eslint-disable-next-line no-console
-  console.log(colorize('🕸️ Relationships only', 'cyan'));
-  // eslint-disable-next-line no-console
-  console.log(
+  log.info(colorize('🕸️ Relationships only', 'cyan'));
+  log.info(
     '  legend: [score/level alerts:<count> crit:<criticality> wlists:<watchlists>] [resolved:score/level alerts:<count> crit:<criticality> wlists:<watchlists>]',
   );
-  // eslint-disable-next-line no-console
-  console.log(`  flow: ${upRightArrow} contributors into target score`);
+  log.info(`  flow: ${upRightArrow} contributors into target score`);
   if (graph.resolutionGroups.length === 0) {
-    // eslint-disable-next-line no-console
-    console.log('  resolution links: none');
+    log.info('  resolution links: none');
   } else {
-    // eslint-disable-next-line no-console
-    console.log(`  resolution groups: ${graph.resolutionGroups.length}`);
+    log.info(`  resolution groups: ${graph.resolutionGroups.length}`);
     for (const [index, group] of graph.resolutionGroups.slice(0, maxRows).entries()) {
       const formattedAliases = group.aliasIds.map((aliasId) => formatEntityWithScore(aliasId));
-      // eslint-disable-next-line no-console
-      console.log(`    [${index + 1}] ${formatEntityWithScore(group.targetId)}`);
-      // eslint-disable-next-line no-console
-      console.log(`      └─ ${resolutionLabel} ${leftArrow} aliases`);
+      log.info(`    [${index + 1}] ${formatEntityWithScore(group.targetId)}`);
+      log.info(`      └─ ${resolutionLabel} ${leftArrow} aliases`);
       printTreeItems({ items: formattedAliases, indent: '         ' });
     }
     if (graph.resolutionGroups.length > maxRows) {
-      // eslint-disable-next-line no-console
-      console.log(
+      log.info(
         `    ... ${graph.resolutionGroups.length - maxRows} additional resolution groups hidden`,
       );
     }
   }
 
   if (graph.ownershipEdges.length === 0) {
-    // eslint-disable-next-line no-console
-    console.log('  ownership edges: none');
+    log.info('  ownership edges: none');
   } else {
-    // eslint-disable-next-line no-console
-    console.log(`  ownership edges: ${graph.ownershipEdges.length}`);
+    log.info(`  ownership edges: ${graph.ownershipEdges.length}`);
     for (const [index, edge] of graph.ownershipEdges.slice(0, maxRows).entries()) {
-      // eslint-disable-next-line no-console
-      console.log(`    [${index + 1}] ${formatEntityWithScore(edge.sourceId)}`);
-      // eslint-disable-next-line no-console
-      console.log(`      └─ ${ownsLabel} ${rightArrow} ${formatEntityWithScore(edge.targetId)}`);
+      log.info(`    [${index + 1}] ${formatEntityWithScore(edge.sourceId)}`);
+      log.info(`      └─ ${ownsLabel} ${rightArrow} ${formatEntityWithScore(edge.targetId)}`);
     }
     if (graph.ownershipEdges.length > maxRows) {
-      // eslint-disable-next-line no-console
-      console.log(
+      log.info(
         `    ... ${graph.ownershipEdges.length - maxRows} additional ownership edges hidden`,
       );
     }
   }
 
-  // eslint-disable-next-line no-console
-  console.log(colorize('🧮 Scoring view (resolution + ownership)', 'cyan'));
+  log.info(colorize('🧮 Scoring view (resolution + ownership)', 'cyan'));
   if (graph.resolutionGroups.length === 0 && graph.ownershipEdges.length === 0) {
-    // eslint-disable-next-line no-console
-    console.log('  no relationship data available');
+    log.info('  no relationship data available');
     return;
   }
 
@@ -294,8 +279,7 @@ const printGraphSummaryViews = ({
   const groupTargets = [...resolutionByTarget.keys()];
 
   if (groupTargets.length === 0) {
-    // eslint-disable-next-line no-console
-    console.log('  no resolution groups; scoring uses direct ownership edges only');
+    log.info('  no resolution groups; scoring uses direct ownership edges only');
     const uniqueOwnershipTargets = [...new Set(graph.ownershipEdges.map((edge) => edge.targetId))];
     for (const targetId of uniqueOwnershipTargets.slice(0, maxRows)) {
       const contributors = graph.ownershipEdges
@@ -304,10 +288,8 @@ const printGraphSummaryViews = ({
       const formattedContributors = [...new Set(contributors)].map((id) =>
         formatEntityWithScore(id),
       );
-      // eslint-disable-next-line no-console
-      console.log(`    ${formatEntityWithScore(targetId)}`);
-      // eslint-disable-next-line no-console
-      console.log(`      └─ ${upRightArrow} ${ownsLabel}(${formattedContributors.length})`);
+      log.info(`    ${formatEntityWithScore(targetId)}`);
+      log.info(`      └─ ${upRightArrow} ${ownsLabel}(${formattedContributors.length})`);
       printTreeItems({ items: formattedContributors, indent: '         ' });
     }
     return;
@@ -329,26 +311,18 @@ const printGraphSummaryViews = ({
     );
     const resolutionTag = formatResolvedTag(targetId);
     const baseTag = formatBaseTag(targetId);
-    // eslint-disable-next-line no-console
-    console.log(
+    log.info(
       `    [${index + 1}] ${resolutionLabel} score ${upRightArrow} ${targetId} ${resolutionTag || '[resolved:-]'}`,
     );
-    // eslint-disable-next-line no-console
-    console.log(`      ├─ base target features`);
-    // eslint-disable-next-line no-console
-    console.log(`      │  └─ ${targetId} ${baseTag || '[base:-]'}`);
-    // eslint-disable-next-line no-console
-    console.log(`      ├─ ${upRightArrow} ${resolutionLabel} aliases (${aliases.length})`);
+    log.info(`      ├─ base target features`);
+    log.info(`      │  └─ ${targetId} ${baseTag || '[base:-]'}`);
+    log.info(`      ├─ ${upRightArrow} ${resolutionLabel} aliases (${aliases.length})`);
     printTreeItems({ items: formattedAliases, indent: '      │  ' });
-    // eslint-disable-next-line no-console
-    console.log(
-      `      └─ ${plusToken} ${ownsLabel} contributors (${ownershipContributors.length})`,
-    );
+    log.info(`      └─ ${plusToken} ${ownsLabel} contributors (${ownershipContributors.length})`);
     printTreeItems({ items: formattedOwnershipContributors, indent: '         ' });
   }
   if (groupTargets.length > maxRows) {
-    // eslint-disable-next-line no-console
-    console.log(`    ... ${groupTargets.length - maxRows} additional scoring groups hidden`);
+    log.info(`    ... ${groupTargets.length - maxRows} additional scoring groups hidden`);
   }
 };
 type RiskDocSummary = {
@@ -617,7 +591,7 @@ const seedFromOrgData = ({
 };
 
 const buildUserEvents = (users: SeededUser[], offsetHours: number) => {
-  const timestamp = new Date(Date.now() - offsetHours * 60 * 60 * 1000).toISOString();
+  const timestamp = new Date(getNow() - offsetHours * 60 * 60 * 1000).toISOString();
   return users.map((user) => ({
     '@timestamp': timestamp,
     message: `Risk score v2 user event for ${user.userName}`,
@@ -639,7 +613,7 @@ const buildUserEvents = (users: SeededUser[], offsetHours: number) => {
 };
 
 const buildHostEvents = (hosts: SeededHost[], offsetHours: number) => {
-  const timestamp = new Date(Date.now() - offsetHours * 60 * 60 * 1000).toISOString();
+  const timestamp = new Date(getNow() - offsetHours * 60 * 60 * 1000).toISOString();
   return hosts.map((host) => ({
     '@timestamp': timestamp,
     message: `Risk score v2 host event for ${host.hostName}`,
@@ -656,7 +630,7 @@ const buildHostEvents = (hosts: SeededHost[], offsetHours: number) => {
 };
 
 const buildLocalUserEvents = (localUsers: SeededLocalUser[], offsetHours: number) => {
-  const timestamp = new Date(Date.now() - offsetHours * 60 * 60 * 1000).toISOString();
+  const timestamp = new Date(getNow() - offsetHours * 60 * 60 * 1000).toISOString();
   return localUsers.map((user) => ({
     '@timestamp': timestamp,
     message: `Risk score v2 local user event for ${user.userName}`,
@@ -674,7 +648,7 @@ const buildLocalUserEvents = (localUsers: SeededLocalUser[], offsetHours: number
 };
 
 const buildServiceEvents = (services: SeededService[], offsetHours: number) => {
-  const timestamp = new Date(Date.now() - offsetHours * 60 * 60 * 1000).toISOString();
+  const timestamp = new Date(getNow() - offsetHours * 60 * 60 * 1000).toISOString();
   return services.map((service) => ({
     '@timestamp': timestamp,
     message: `Risk score v2 service event for ${service.serviceName}`,
@@ -1098,8 +1072,8 @@ const forceExtractExpectedEntities = async ({
   expectedEntityIds: string[];
   offsetHours: number;
 }) => {
-  const fromDateISO = new Date(Date.now() - (offsetHours + 4) * 60 * 60 * 1000).toISOString();
-  const toDateISO = new Date(Date.now() + 5 * 60 * 1000).toISOString();
+  const fromDateISO = new Date(getNow() - (offsetHours + 4) * 60 * 60 * 1000).toISOString();
+  const toDateISO = new Date(getNow() + 5 * 60 * 1000).toISOString();
   const extractionTypes = new Set<'user' | 'host' | 'service'>();
   if (entityKinds.includes('idp_user') || entityKinds.includes('local_user'))
     extractionTypes.add('user');
@@ -1571,7 +1545,7 @@ const normalizeRelationshipEntityIds = (value: unknown): string[] => {
 };
 
 const canUseInteractivePrompts = (): boolean =>
-  Boolean(process.stdout.isTTY && process.stdin.isTTY);
+  !isNonInteractive() && Boolean(process.stdout.isTTY && process.stdin.isTTY);
 
 const isPromptIoError = (error: unknown): boolean => {
   const message =
@@ -2146,14 +2120,12 @@ const printRiskRows = async ({
   ].join(' | ');
   const separator = `${'-'.repeat(idWidth)}-+-${'-'.repeat(scoreWidth)}-+-${'-'.repeat(scoreTypeWidth)}-+-${'-'.repeat(levelWidth)}-+-${'-'.repeat(critWidth)}-+-${'-'.repeat(watchWidth)}-+-${'-'.repeat(relTargetWidth)}-+-${'-'.repeat(aliasWidth)}-+-${'-'.repeat(ownsWidth)}-+-${'-'.repeat(relatedWidth)}`;
 
-  // eslint-disable-next-line no-console
-  console.log(
+  log.info(
     colorize(`📊 Risk docs matched for seeded IDs: ${riskDocsMatched}/${rows.length}`, 'cyan'),
   );
   log.info(`Entity scorecard (${rows.length} seeded entities):`);
   const printLine = (line: string) => {
-    // eslint-disable-next-line no-console
-    console.log(line);
+    log.info(line);
   };
 
   if (!canUseInteractivePrompts() || rows.length <= pageSize) {
@@ -2286,11 +2258,9 @@ const printResolutionRows = async ({
   ].join(' | ');
   const separator = `${'-'.repeat(idxWidth)}-+-${'-'.repeat(keyWidth)}-+-${'-'.repeat(targetWidth)}-+-${'-'.repeat(scoreWidth)}-+-${'-'.repeat(levelWidth)}-+-${'-'.repeat(critWidth)}-+-${'-'.repeat(watchlistsWidth)}-+-${'-'.repeat(relWidth)}-+-${'-'.repeat(runWidth)}-+-${'-'.repeat(tsWidth)}`;
 
-  // eslint-disable-next-line no-console
-  console.log(colorize(`🧩 Resolution scorecard (${rows.length} rows)`, 'cyan'));
+  log.info(colorize(`🧩 Resolution scorecard (${rows.length} rows)`, 'cyan'));
   const printLine = (line: string) => {
-    // eslint-disable-next-line no-console
-    console.log(line);
+    log.info(line);
   };
 
   if (!canUseInteractivePrompts() || rows.length <= pageSize) {
@@ -2431,16 +2401,14 @@ const printSnapshotResult = (
     );
   }
   if (snapshot.rows.length > 0 && missingRiskDocIds.length === 0) {
-    // eslint-disable-next-line no-console
-    console.log(
+    log.info(
       colorize(
         `✅ PASS: Risk docs present for all ${snapshot.rows.length} seeded entities.`,
         'green',
       ),
     );
   } else {
-    // eslint-disable-next-line no-console
-    console.log(
+    log.info(
       colorize(
         `⚠️ WARN: Missing risk docs for ${missingRiskDocIds.length}/${snapshot.rows.length} seeded entities.`,
         'yellow',
@@ -2616,16 +2584,13 @@ const printBeforeAfterComparison = ({
     formatCell('Rel b->a', relEntWidth),
   ].join(' | ');
   const separator = `${'-'.repeat(idWidth)}-+-${'-'.repeat(scoreWidth)}-+-${'-'.repeat(typeWidth)}-+-${'-'.repeat(deltaWidth)}-+-${'-'.repeat(levelWidth)}-+-${'-'.repeat(relWidth)}-+-${'-'.repeat(critWidth)}-+-${'-'.repeat(wlWidth)}-+-${'-'.repeat(aliasWidth)}-+-${'-'.repeat(ownWidth)}-+-${'-'.repeat(relEntWidth)}`;
-  // eslint-disable-next-line no-console
-  console.log(colorize(`🔄 Before/After (${actionTitle})`, 'cyan'));
+  log.info(colorize(`🔄 Before/After (${actionTitle})`, 'cyan'));
   if (changedRows.length === 0) {
     log.info('No entity changes detected between snapshots.');
     return [];
   }
-  // eslint-disable-next-line no-console
-  console.log(header);
-  // eslint-disable-next-line no-console
-  console.log(separator);
+  log.info(header);
+  log.info(separator);
   const maxRows = 100;
   for (const row of changedRows.slice(0, maxRows)) {
     const afterLevel = row.afterLevel ?? '-';
@@ -2636,8 +2601,7 @@ const printBeforeAfterComparison = ({
     const afterLevelCell = formatCell(afterLevel, afterLevelWidth);
     const levelCell = `${colorizeRiskLevel(beforeLevelCell, beforeLevel)}->${colorizeRiskLevel(afterLevelCell, afterLevel)}`;
     const deltaCell = formatCell(row.delta, deltaWidth);
-    // eslint-disable-next-line no-console
-    console.log(
+    log.info(
       [
         formatCell(row.id, idWidth),
         formatCell(row.scoreTransition, scoreWidth),
@@ -3253,10 +3217,8 @@ const printSingleEntityState = async ({
     log.warn(`No current risk/entity state found for "${selection.euid}".`);
     return;
   }
-  // eslint-disable-next-line no-console
-  console.log(colorize(`🎯 Single entity state: ${selection.euid}`, 'cyan'));
-  // eslint-disable-next-line no-console
-  console.log(
+  log.info(colorize(`🎯 Single entity state: ${selection.euid}`, 'cyan'));
+  log.info(
     `  score=${row.score}, score_type=${row.scoreType}, level=${row.level}, criticality=${row.criticality}, watchlists=${row.watchlistsCount}, alerts=${alertCount}, resolved_to=${row.resolutionTarget}, aliases=${row.resolutionAliases}, owns=${row.ownershipLinks}, related=${row.relatedEntities}, resolution_group_size=${resolutionGroupSize}, resolution_group_aliases=${resolutionAliases}`,
   );
 };
@@ -4159,11 +4121,9 @@ const runFollowOnActionLoop = async ({
         if (docs.length === 0) {
           log.warn(`No risk score docs found for "${selectedEntityId}".`);
         } else {
-          // eslint-disable-next-line no-console
-          console.log(colorize(`🔍 Risk docs for ${selectedEntityId}`, 'cyan'));
+          log.info(colorize(`🔍 Risk docs for ${selectedEntityId}`, 'cyan'));
           docs.forEach((doc, idx) => {
-            // eslint-disable-next-line no-console
-            console.log(
+            log.info(
               `  [${idx + 1}] ts=${doc.timestamp} score=${doc.score ?? '-'} level=${doc.level} score_type=${doc.scoreType} run_id=${doc.calculationRunId}`,
             );
           });
@@ -4173,8 +4133,7 @@ const runFollowOnActionLoop = async ({
           });
           if (showFullRaw.trim().toLowerCase() === 'y') {
             for (const doc of docs) {
-              // eslint-disable-next-line no-console
-              console.log(JSON.stringify(doc.source, null, 2));
+              log.info(JSON.stringify(doc.source, null, 2));
             }
           }
         }
@@ -4236,14 +4195,11 @@ const runFollowOnActionLoop = async ({
             targetEntityId: targetId,
             calculationRunId: latest.calculationRunId,
           });
-          // eslint-disable-next-line no-console
-          console.log(colorize(`🧠 Resolution explain for ${targetId}`, 'cyan'));
-          // eslint-disable-next-line no-console
-          console.log(
+          log.info(colorize(`🧠 Resolution explain for ${targetId}`, 'cyan'));
+          log.info(
             `  key=${resolutionKey} score=${latest.score ?? '-'} level=${latest.level} run_id=${latest.calculationRunId} related_count=${relatedEntities.length}`,
           );
-          // eslint-disable-next-line no-console
-          console.log(`  related_entities: ${summarizeList(relatedIds, 12)}`);
+          log.info(`  related_entities: ${summarizeList(relatedIds, 12)}`);
         }
       }
     } else if (action === 'export_risk_docs') {
@@ -4971,7 +4927,7 @@ export const riskScoreV2Command = async (options: RiskScoreV2Options) => {
     });
   } else if (followOnEnabled && !canUseInteractivePrompts()) {
     log.info(
-      'Follow-on actions requested, but output is non-interactive (non-TTY). Skipping menu.',
+      'Follow-on actions requested, but prompts are unavailable (non-TTY or --yes). Skipping menu.',
     );
   } else {
     log.info('Follow-on menu disabled.');
@@ -2,8 +2,7 @@ import { log } from '../../utils/logger.ts';
 import { faker } from '@faker-js/faker';
 import fs from 'fs';
 import { getEsClient, getFileLineCount } from '../utils/indices.ts';
-import { bulkUpsert } from '../shared/elasticsearch.ts';
-import pMap from 'p-map';
+import { type BulkOperationTuple, adaptiveBulkIngest } from '../shared/elasticsearch.ts';
 import { createProgressBar } from '../utils/cli_utils.ts';
 import { ensureSecurityDefaultDataView } from '../../utils/security_default_data_view.ts';
 import readline from 'readline';
@@ -14,10 +13,11 @@ import {
   installEntityStoreV2,
   kibanaFetch,
 } from '../../utils/kibana_api.ts';
+import { random, getNow } from '../../utils/seeded_random.ts';
 import { get } from 'lodash-es';
 import { dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { getConfig } from '../../get_config.ts';
+import { isServerless } from '../../utils/cluster_capabilities.ts';
 import * as path from 'path';
 import {
   type GenericEntityFields,
@@ -27,11 +27,11 @@ import {
 } from '../../types/entities.ts';
 import { getEntityStorePerfDataDir } from '../../utils/data_paths.ts';
 import { sleep } from '../../utils/sleep.ts';
+import { getTimeRangeMs } from '../../utils/time_context.ts';
 
 // Checkpoint stability configuration for transform completion detection
 // Consider checkpoint stable if it hasn't changed in this duration (10 seconds)
 const CHECKPOINT_STABLE_TIME_MS = 10000;
-const UPLOAD_BATCH_SIZE = 5000;
 export const DEFAULT_UPLOAD_BULK_CONCURRENCY = 8;
 // Consider stable after this many consecutive checks with the same checkpoint
 const STABLE_CHECKPOINT_THRESHOLD = 3;
@@ -294,7 +294,7 @@ const generateGenericEntityFields = ({
       address: `example.${idPrefix}.com`,
     },
     event: {
-      ingested: new Date().toISOString(),
+      ingested: new Date(getNow()).toISOString(),
       dataset: 'cloud_asset_inventory.asset_inventory',
       module: 'cloud_asset_inventory',
     },
@@ -641,8 +641,7 @@ const waitForTransformToComplete = async (
 };
 
 const logClusterHealthEvery = (name: string, interval: number): (() => void) => {
-  const config = getConfig();
-  if (config.serverless) {
+  if (isServerless()) {
     log.info('Skipping cluster health on serverless cluster');
     return () => {};
   }
@@ -725,8 +724,7 @@ const logTransformStatsEvery = (name: string, interval: number): (() => void) =>
 };
 
 const logNodeStatsEvery = (name: string, interval: number): (() => void) => {
-  const config = getConfig();
-  if (config.serverless) {
+  if (isServerless()) {
     log.info('Skipping node stats on serverless cluster');
     return () => {};
   }
@@ -1095,79 +1093,50 @@ export const uploadFile = async ({
 
   // End of spread window is fixed at the start of the upload so all timestamps
   // fall in [endTime - spread, endTime] regardless of upload duration.
-  const spreadEndTime = Date.now();
-  const uploadStart = Date.now();
-  const batchDelayMs =
-    ingestRateDocsPerSecond !== undefined
-      ? (UPLOAD_BATCH_SIZE / ingestRateDocsPerSecond) * 1000
-      : undefined;
-
-  // Parallel fixed-size batches via pMap (not streamingBulkIngest): supports batch-level
-  // ingest-rate throttling and ~13k docs/sec vs ~800 with helpers.bulk on our test clusters.
+  const spreadEndTime = getNow();
+  const spreadMs = timestampSpreadMs ?? getTimeRangeMs();
+
+  // Adaptive batches (not streamingBulkIngest): supports the docs/sec ceiling and reaches
+  // ~13k docs/sec vs ~800 with helpers.bulk on our test clusters.
   const prepareDoc = (parsed: Record<string, unknown>) => {
     parsed['@timestamp'] =
-      timestampSpreadMs !== undefined
-        ? new Date(spreadEndTime - Math.floor(Math.random() * timestampSpreadMs)).toISOString()
-        : new Date().toISOString();
+      spreadMs !== undefined
+        ? new Date(spreadEndTime - Math.floor(random() * spreadMs)).toISOString()
+        : new Date(getNow()).toISOString();
     return modifyDoc
       ? modifyDoc(parsed as Record<string, any>) // eslint-disable-line @typescript-eslint/no-explicit-any
       : parsed;
   };
 
-  const batchGenerator = async function* (): AsyncGenerator<unknown[], void, void> {
-    let batch: unknown[] = [];
+  const operations = async function* (): AsyncGenerator<BulkOperationTuple, void, void> {
     for await (const line of rl) {
       if (stop) {
         throw new Error('Stopped');
       }
       const payload = prepareDoc(JSON.parse(line) as Record<string, unknown>);
-      batch.push({ create: { _index: index } }, payload);
-      if (batch.length / 2 >= UPLOAD_BATCH_SIZE) {
-        yield batch;
-        batch = [];
-        if (batchDelayMs !== undefined && batchDelayMs > 0) {
-          await sleep(batchDelayMs);
-        }
-      }
-    }
-    if (batch.length > 0) {
-      yield batch;
+      yield [{ create: { _index: index } }, payload];
     }
   };
 
-  await pMap(
-    batchGenerator(),
-    async (operations) => {
-      const result = await bulkUpsert({
-        documents: operations,
-        refresh: false,
-        pipeline: '_none',
-      });
-      if (result.errors) {
-        log.error('Failed to index batch:', result);
-        process.exit(1);
-      }
-      progress.increment(operations.length / 2);
-    },
-    { concurrency: bulkConcurrency },
-  );
+  const report = await adaptiveBulkIngest({
+    label: 'Upload finished',
+    operations: operations(),
+    maxDocsPerSecond: ingestRateDocsPerSecond,
+    maxConcurrency: bulkConcurrency,
+    pipeline: '_none',
+    onProgress: (documents) => progress.increment(documents),
+  });
+  if (report.failed > 0) {
+    log.error(`Failed to index ${report.failed} documents`);
+    process.exit(1);
+  }
 
   progress.stop();
 
-  const uploadMs = Math.max(Date.now() - uploadStart, 1);
-  const achievedDocsPerSecond = Math.round((lineCount / uploadMs) * 1000);
-  log.info(
-    `Upload finished: ${lineCount} docs in ${uploadMs}ms (~${achievedDocsPerSecond} docs/sec achieved)`,
-  );
-  if (ingestRateDocsPerSecond !== undefined) {
+  if (ingestRateDocsPerSecond !== undefined && report.docsPerSecond < ingestRateDocsPerSecond) {
     log.info(
-      `Configured --ingest-rate cap: ${ingestRateDocsPerSecond} docs/sec (maximum, not a target)`,
+      'Achieved rate is below the cap — throughput is limited by bulk indexing / cluster capacity, not the ingest-rate throttle.',
     );
-    if (achievedDocsPerSecond < ingestRateDocsPerSecond) {
-      log.info(
-        'Achieved rate is below the cap — throughput is limited by bulk indexing / cluster capacity, not the ingest-rate throttle.',
-      );
-    }
   }
 
   if (onComplete) {
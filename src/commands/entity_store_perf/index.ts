@@ -5,9 +5,9 @@ import {
   parseDuration,
   assertPositiveInt,
   parseIntBase10,
-  promptForFileSelection,
   wrapAction,
 } from '../utils/cli_utils.ts';
+import { promptForFileSelection } from '../utils/interactive_prompts.ts';
 import {
   createPerfDataFile,
   listPerfDataFiles,
@@ -144,7 +144,7 @@ export const entityStorePerfCommands: CommandModule = {
       )
       .option(
         '--bulk-concurrency <n>',
-        'Parallel _bulk requests per upload (default: 8)',
+        'Max parallel _bulk requests per upload (default: 8)',
         parseIntBase10,
         DEFAULT_UPLOAD_BULK_CONCURRENCY,
       )
@@ -193,7 +193,7 @@ export const entityStorePerfCommands: CommandModule = {
       )
       .option(
         '--bulk-concurrency <n>',
-        'Parallel _bulk requests per upload (default: 8)',
+        'Max parallel _bulk requests per upload (default: 8)',
         parseIntBase10,
         DEFAULT_UPLOAD_BULK_CONCURRENCY,
       )
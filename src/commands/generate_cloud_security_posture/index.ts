@@ -20,7 +20,6 @@ export const cloudSecurityPostureCommands: CommandModule = {
           '    3rd party: wiz_misconfigs, wiz_vulnerabilities, qualys_vulnerabilities,\n' +
           '              tenable_vulnerabilities, aws_misconfigs',
       )
-      .option('--seed <seed>', 'Random seed for reproducibility', parseIntBase10)
       .option('--data-sources <list>', 'Comma-separated data sources (see above)', 'all')
       .option('--findings-count <n>', 'Number of findings per data source', parseIntBase10, 50)
       .option(
@@ -30,12 +29,7 @@ export const cloudSecurityPostureCommands: CommandModule = {
       )
       .action(
         wrapAction(
-          async (options: {
-            seed?: number;
-            dataSources: string;
-            findingsCount: number;
-            cspScores: boolean;
-          }) => {
+          async (options: { dataSources: string; findingsCount: number; cspScores: boolean }) => {
             const dataSources = resolveDataSources(
               options.dataSources
                 .split(',')
@@ -44,7 +38,6 @@ export const cloudSecurityPostureCommands: CommandModule = {
             );
 
             await generateCloudSecurityPosture({
-              seed: options.seed,
               dataSources,
               findingsCount: options.findingsCount,
               generateCspScores: options.cspScores,
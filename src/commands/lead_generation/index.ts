@@ -1,7 +1,8 @@
 import { type Command } from 'commander';
-import { select } from '@inquirer/prompts';
 import { type CommandModule } from '../types.ts';
 import { wrapAction } from '../utils/cli_utils.ts';
+import { assertRequiredFlags, promptForChoice } from '../utils/interactive_prompts.ts';
+import { ValidationError } from '../../utils/errors.ts';
 import { log } from '../../utils/logger.ts';
 import { kibanaFetch, enableEntityStoreV2, installEntityStoreV2 } from '../../utils/kibana_api.ts';
 import { ensureSecurityDefaultDataView } from '../../utils/security_default_data_view.ts';
@@ -100,23 +101,19 @@ const fetchLeadsByExecutionUuid = async (
 
 const pollForLeads = async (executionUuid: string, space?: string): Promise<Lead[]> => {
   const deadline = Date.now() + POLL_TIMEOUT_MS;
-  let dots = 0;
+  log.info('Waiting for leads...');
 
   while (Date.now() < deadline) {
     const leads = await fetchLeadsByExecutionUuid(executionUuid, space);
     if (leads.length > 0) return leads;
 
-    process.stdout.write(`\rWaiting for leads${'.'.repeat((dots % 3) + 1)}   `);
-    dots++;
     await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
   }
 
-  process.stdout.write('\n');
   return [];
 };
 
 const printLeads = (leads: Lead[]): void => {
-  process.stdout.write('\n');
   log.info(`Generated ${leads.length} lead(s):\n`);
   for (const lead of leads) {
     const entities = lead.entities.map((e) => `${e.name} (${e.type})`).join(', ');
@@ -129,31 +126,51 @@ const printLeads = (leads: Lead[]): void => {
   }
 };
 
+const LEAD_ACTIONS = ['enable', 'generate', 'status', 'list'] as const;
+
+type LeadAction = (typeof LEAD_ACTIONS)[number];
+
 const promptForConnector = async (
   space?: string,
+  requestedConnectorId?: string,
 ): Promise<{ connectorId: string | undefined; cancelled: boolean }> => {
   const connectors = await listConnectors(space);
 
+  if (requestedConnectorId !== undefined) {
+    const requested = connectors.find((c) => c.connectorId === requestedConnectorId);
+    if (!requested) {
+      throw new ValidationError(
+        `--connector: no inference connector "${requestedConnectorId}" (available: ${connectors.map((c) => c.connectorId).join(', ') || 'none'})`,
+      );
+    }
+    log.info(`Using connector: ${requested.name} (${requested.connectorId})`);
+    return { connectorId: requested.connectorId, cancelled: false };
+  }
+
   if (connectors.length === 0) {
     log.warn(
       'No inference connectors configured. Generation will use rule-based synthesis (no AI).',
     );
-    const confirm = await select<string>({
+    const confirm = await promptForChoice<string>({
       message: 'Continue without an AI connector?',
       choices: [
         { name: 'Yes, use rule-based synthesis', value: 'yes' },
         { name: 'No, go back', value: 'no' },
       ],
+      default: 'yes',
+      flag: '--connector',
     });
     return { connectorId: undefined, cancelled: confirm === 'no' };
   }
 
-  const connectorId = await select<string>({
+  const connectorId = await promptForChoice<string>({
     message: `Select inference connector (${connectors.length} available):`,
     choices: connectors.map((c) => ({
       name: `${c.name} [${c.type}]`,
       value: c.connectorId,
     })),
+    default: connectors[0].connectorId,
+    flag: '--connector',
   });
 
   const connectorName = connectors.find((c) => c.connectorId === connectorId)?.name;
@@ -162,69 +179,110 @@ const promptForConnector = async (
   return { connectorId, cancelled: false };
 };
 
+const runLeadAction = async (
+  action: LeadAction,
+  space: string,
+  requestedConnectorId?: string,
+): Promise<void> => {
+  if (action === 'enable') {
+    log.info('Enabling scheduled lead generation...');
+    await enableLeadGeneration(space);
+    log.info('Done. The background task will run periodically.');
+  } else if (action === 'generate') {
+    const { connectorId, cancelled } = await promptForConnector(space, requestedConnectorId);
+    if (cancelled) return;
+
+    log.info('Ensuring prerequisites are initialised...');
+    await ensureSecurityDefaultDataView(space);
+    await enableEntityStoreV2(space);
+    await installEntityStoreV2(space);
+
+    log.info('Triggering ad-hoc lead generation...');
+    const { executionUuid } = await generateLeads(space, connectorId);
+    log.info(`Started (executionUuid=${executionUuid})`);
+
+    const leads = await pollForLeads(executionUuid, space);
+    if (leads.length > 0) {
+      printLeads(leads);
+    } else {
+      log.warn(`No leads appeared within ${POLL_TIMEOUT_MS / 1000}s. Check Kibana logs.`);
+    }
+  } else if (action === 'status') {
+    const status = await getStatus(space);
+    log.info(JSON.stringify(status, null, 2));
+  } else if (action === 'list') {
+    const { leads, total } = await kibanaFetch<FindLeadsResponse>(
+      LEAD_GENERATION_LIST_URL,
+      { method: 'GET' },
+      { space },
+    );
+    if (total === 0) {
+      log.info('No leads found.');
+    } else {
+      printLeads(leads);
+      log.info(`Showing ${leads.length} of ${total} lead(s).`);
+    }
+  }
+};
+
 export const leadGenerationCommands: CommandModule = {
   register(program: Command) {
     program
       .command('leads')
-      .description('Manage AI-generated leads for Entity Analytics (interactive)')
+      .description(
+        'Manage AI-generated leads for Entity Analytics (interactive unless --action is given)',
+      )
       .option('--space <space>', 'Kibana space ID', 'default')
+      .option(
+        '--action <action>',
+        `Run one action without the menu: ${LEAD_ACTIONS.join('|')} (required with --yes)`,
+      )
+      .option(
+        '--connector <id>',
+        'Inference connector for --action generate (default: the first available)',
+      )
       .action(
-        wrapAction(async ({ space }: { space: string }) => {
-          while (true) {
-            const action = await select<string>({
-              message: 'Lead Generation — what would you like to do?',
-              choices: [
-                { name: 'Enable scheduled lead generation', value: 'enable' },
-                { name: 'Generate leads now (ad-hoc)', value: 'generate' },
-                { name: 'Get status', value: 'status' },
-                { name: 'List leads', value: 'list' },
-                { name: 'Exit', value: 'exit' },
-              ],
-            });
-
-            if (action === 'exit') {
-              break;
-            } else if (action === 'enable') {
-              log.info('Enabling scheduled lead generation...');
-              await enableLeadGeneration(space);
-              log.info('Done. The background task will run periodically.');
-            } else if (action === 'generate') {
-              const { connectorId, cancelled } = await promptForConnector(space);
-              if (cancelled) continue;
-
-              log.info('Ensuring prerequisites are initialised...');
-              await ensureSecurityDefaultDataView(space);
-              await enableEntityStoreV2(space);
-              await installEntityStoreV2(space);
-
-              log.info('Triggering ad-hoc lead generation...');
-              const { executionUuid } = await generateLeads(space, connectorId);
-              log.info(`Started (executionUuid=${executionUuid})`);
-
-              const leads = await pollForLeads(executionUuid, space);
-              if (leads.length > 0) {
-                printLeads(leads);
-              } else {
-                log.warn(`No leads appeared within ${POLL_TIMEOUT_MS / 1000}s. Check Kibana logs.`);
+        wrapAction(
+          async ({
+            space,
+            action,
+            connector,
+          }: {
+            space: string;
+            action?: string;
+            connector?: string;
+          }) => {
+            assertRequiredFlags({ '--action': action });
+            if (action !== undefined) {
+              if (!LEAD_ACTIONS.includes(action as LeadAction)) {
+                throw new ValidationError(
+                  `--action must be one of: ${LEAD_ACTIONS.join(', ')} (got "${action}")`,
+                );
               }
-            } else if (action === 'status') {
-              const status = await getStatus(space);
-              log.info(JSON.stringify(status, null, 2));
-            } else if (action === 'list') {
-              const { leads, total } = await kibanaFetch<FindLeadsResponse>(
-                LEAD_GENERATION_LIST_URL,
-                { method: 'GET' },
-                { space },
-              );
-              if (total === 0) {
-                log.info('No leads found.');
-              } else {
-                printLeads(leads);
-                log.info(`Showing ${leads.length} of ${total} lead(s).`);
+              await runLeadAction(action as LeadAction, space, connector);
+              return;
+            }
+
+            while (true) {
+              const selected = await promptForChoice<LeadAction | 'exit'>({
+                message: 'Lead Generation — what would you like to do?',
+                choices: [
+                  { name: 'Enable scheduled lead generation', value: 'enable' },
+                  { name: 'Generate leads now (ad-hoc)', value: 'generate' },
+                  { name: 'Get status', value: 'status' },
+                  { name: 'List leads', value: 'list' },
+                  { name: 'Exit', value: 'exit' },
+                ],
+                flag: '--action',
+              });
+
+              if (selected === 'exit') {
+                break;
               }
+              await runLeadAction(selected, space, connector);
             }
-          }
-        }),
+          },
+        ),
       );
   },
 };
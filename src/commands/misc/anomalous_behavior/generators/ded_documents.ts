@@ -3,6 +3,7 @@ import { DED_JOB_IDS } from '../ml_modules_setup.ts';
 import { faker } from '@faker-js/faker';
 import { generateCommonFields } from './utils.ts';
 import type { HostIdentityForDed, UserIdentityForDed } from '../../../utils/entity_store.ts';
+import { random } from '../../../../utils/seeded_random.ts';
 
 /** Optional host/user pools from Entity Store. */
 export interface DedEntityCorpus {
@@ -164,7 +165,7 @@ const generateDestinationIpRecord = (ndx: number) => {
         function: 'high_sum',
         function_description: 'sum',
         typical: [105276079.03787479],
-        actual: [Math.ceil(Math.random() * 2000000000.0)],
+        actual: [Math.ceil(random() * 2000000000.0)],
         field_name: 'source.bytes',
         over_field_name: 'destination.ip',
         over_field_value: destinationIp,
@@ -201,7 +202,7 @@ const generateDestinationGeoCountryRecord = (ndx: number) => {
   const country = faker.location.country();
   const countryCode = faker.location.countryCode();
   const sourceIp = faker.internet.ip();
-  const destinationIps = range(Math.ceil(Math.random() * 3)).map(() => faker.internet.ip());
+  const destinationIps = range(Math.ceil(random() * 3)).map(() => faker.internet.ip());
   const user = `insider-${ndx}`;
   const host = `server-${ndx + 1}`;
 
@@ -219,7 +220,7 @@ const generateDestinationGeoCountryRecord = (ndx: number) => {
         function: 'high_sum',
         function_description: 'sum',
         typical: [105276079.03787479],
-        actual: [Math.ceil(Math.random() * 2000000000.0)],
+        actual: [Math.ceil(random() * 2000000000.0)],
         field_name: 'source.bytes',
         over_field_name: 'destination.geo.country_iso_code',
         over_field_value: countryCode,
@@ -279,7 +280,7 @@ const generateExternalDeviceAirdropRecord = (ndx: number) => {
     function: 'high_sum',
     function_description: 'sum',
     typical: [2932993.9753766167],
-    actual: [Math.ceil(Math.random() * 2000000000.0)],
+    actual: [Math.ceil(random() * 2000000000.0)],
     field_name: 'file.size',
     influencers: [
       {
@@ -334,7 +335,7 @@ const generateExternalDeviceRecord = (ndx: number) => {
     function: 'high_sum',
     function_description: 'sum',
     typical: [56066317.38093647],
-    actual: [Math.ceil(Math.random() * 2000000000.0)],
+    actual: [Math.ceil(random() * 2000000000.0)],
     field_name: 'file.size',
     influencers: [
       {
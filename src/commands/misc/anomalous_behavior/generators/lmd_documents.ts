@@ -2,12 +2,13 @@ import { flatMap, range } from 'lodash-es';
 import { LMD_JOB_IDS } from '../ml_modules_setup.ts';
 import { faker } from '@faker-js/faker';
 import { generateCommonFields, getRandomValues } from './utils.ts';
+import { random } from '../../../../utils/seeded_random.ts';
 
 const processNames = ['scp', 'ftp', 'smbclient', 'rsync'];
 
 const generateBigFileSizeRemoteFileTransferRecord = (ndx: number) => {
   const commonFields = generateCommonFields();
-  const partitionFieldRand = Math.floor(Math.random() * 2);
+  const partitionFieldRand = Math.floor(random() * 2);
   const user = `admin-${faker.internet.username()}`;
   const host = `db-server-prod-${ndx + 1}`;
   const processes = getRandomValues(processNames, 1);
@@ -23,7 +24,7 @@ const generateBigFileSizeRemoteFileTransferRecord = (ndx: number) => {
     function_description: 'sum',
     field_name: 'file.size',
     typical: [10485760.0],
-    actual: [Math.ceil(Math.random() * 2000000000.0)],
+    actual: [Math.ceil(random() * 2000000000.0)],
     influencers: [
       {
         influencer_field_name: partitionFieldRand === 0 ? 'user.name' : 'host.name',
@@ -61,7 +62,7 @@ const generateHighCountRemoteFileTransferRecord = (ndx: number) => {
   const host = `web-server-${ndx + 1}`;
   const processes = getRandomValues(processNames, 1);
   const sourceIp = faker.internet.ip();
-  const destinationIps = range(Math.ceil(Math.random() * 3)).map(() => faker.internet.ip());
+  const destinationIps = range(Math.ceil(random() * 3)).map(() => faker.internet.ip());
 
   return {
     ...commonFields,
@@ -71,7 +72,7 @@ const generateHighCountRemoteFileTransferRecord = (ndx: number) => {
     function: 'count',
     function_description: 'count',
     typical: [2.0],
-    actual: [Math.ceil(Math.random() * 300)],
+    actual: [Math.ceil(random() * 300)],
     influencers: [
       {
         influencer_field_name: 'user.name',
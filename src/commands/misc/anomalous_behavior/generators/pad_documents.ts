@@ -2,6 +2,7 @@ import { flatMap, range } from 'lodash-es';
 import { PAD_JOB_IDS } from '../ml_modules_setup.ts';
 import { faker } from '@faker-js/faker';
 import { generateCommonFields, getRandomValues } from './utils.ts';
+import { random } from '../../../../utils/seeded_random.ts';
 
 const generatePrivilegedProcessEventsRecord = (ndx: number) => {
   const commonFields = generateCommonFields();
@@ -18,7 +19,7 @@ const generatePrivilegedProcessEventsRecord = (ndx: number) => {
     by_field_name: 'event.action',
     by_field_value: 'exec',
     typical: [3.0],
-    actual: [Math.ceil(Math.random() * 300)],
+    actual: [Math.ceil(random() * 300)],
     influencers: [
       {
         influencer_field_name: 'user.name',
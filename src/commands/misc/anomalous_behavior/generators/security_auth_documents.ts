@@ -2,6 +2,7 @@ import { flatMap, range } from 'lodash-es';
 import { SECURITY_AUTH_JOB_IDS } from '../ml_modules_setup.ts';
 import { faker } from '@faker-js/faker';
 import { generateCommonFields } from './utils.ts';
+import { random } from '../../../../utils/seeded_random.ts';
 
 const generateRareHourForUserRecord = (ndx: number) => {
   const commonFields = generateCommonFields();
@@ -17,7 +18,7 @@ const generateRareHourForUserRecord = (ndx: number) => {
     function: 'time_of_day',
     function_description: 'time_of_day',
     typical: [9.0],
-    actual: [Math.ceil(Math.random() * 3)],
+    actual: [Math.ceil(random() * 3)],
     influencers: [
       {
         influencer_field_name: 'user.name',
@@ -75,7 +76,7 @@ const generateRareUserRecord = (ndx: number) => {
 
 const generateSuspiciousLoginRecord = (ndx: number) => {
   const commonFields = generateCommonFields();
-  const numUsers = Math.ceil(Math.random() * 3);
+  const numUsers = Math.ceil(random() * 3);
   const users = range(numUsers).map(() => faker.internet.username());
   const host = `web-server-${ndx + 1}`;
   const sourceIps = range(numUsers).map(() => faker.internet.ip());
@@ -88,7 +89,7 @@ const generateSuspiciousLoginRecord = (ndx: number) => {
     function: 'high_non_zero_count',
     function_description: 'high_non_zero_count',
     typical: [12.0],
-    actual: [Math.ceil(Math.random() * 300)],
+    actual: [Math.ceil(random() * 300)],
     influencers: [
       {
         influencer_field_name: 'host.name',
@@ -1,5 +1,7 @@
 import { range } from 'lodash-es';
 import { getRandomValues } from './utils.ts';
+import { random } from '../../../../utils/seeded_random.ts';
+import { HOUR_MS, randomTimeInWindow } from '../../../../utils/time_context.ts';
 
 const osNames = [
   'Windows Server 2019',
@@ -53,7 +55,7 @@ const generateConfigurationEvent = (val: number): Record<string, unknown> => {
   const eventModule = getRandomValues(eventModules, 1)[0];
   const hostName = `windows-server-${val}`;
   return {
-    '@timestamp': new Date(Date.now() - Math.random() * 60 * 60 * 1000).toISOString(),
+    '@timestamp': new Date(randomTimeInWindow(HOUR_MS)).toISOString(),
     event: {
       code: '7045',
       category: 'configuration',
@@ -75,11 +77,11 @@ const generateConfigurationEvent = (val: number): Record<string, unknown> => {
     },
     process: {
       name: 'services.exe',
-      pid: Math.ceil(Math.random() * 9999),
+      pid: Math.ceil(random() * 9999),
     },
     winlog: {
       channel: 'System',
-      event_id: `${Math.ceil(Math.random() * 7000)}`,
+      event_id: `${Math.ceil(random() * 7000)}`,
       event_data: {
         ServiceName: serviceName,
         ImagePath: imagePath,
@@ -99,9 +101,9 @@ const generateAuthenticationEvent = (val: number): Record<string, unknown> => {
   const userDomain = getRandomValues(userDomains, 1)[0];
   const eventModule = getRandomValues(eventModules, 1)[0];
   const hostName = `windows-server-${val}`;
-  const success = Math.random() > 0.3;
+  const success = random() > 0.3;
   return {
-    '@timestamp': new Date(Date.now() - Math.random() * 60 * 60 * 1000).toISOString(),
+    '@timestamp': new Date(randomTimeInWindow(HOUR_MS)).toISOString(),
     event: {
       code: success ? '4624' : '4625',
       category: 'authentication',
@@ -126,7 +128,7 @@ const generateAuthenticationEvent = (val: number): Record<string, unknown> => {
       channel: 'Security',
       event_id: success ? '4624' : '4625',
       event_data: {
-        LogonType: `${Math.ceil(Math.random() * 10)}`,
+        LogonType: `${Math.ceil(random() * 10)}`,
         AuthenticationPackageName: 'NTLM',
         WorkstationName: hostName,
       },
@@ -138,6 +140,6 @@ const generateAuthenticationEvent = (val: number): Record<string, unknown> => {
 
 export const generateSourceData = (): Array<Record<string, unknown>> => {
   return range(100).map((val) =>
-    Math.random() > 0.5 ? generateConfigurationEvent(val) : generateAuthenticationEvent(val),
+    random() > 0.5 ? generateConfigurationEvent(val) : generateAuthenticationEvent(val),
   );
 };
@@ -1,12 +1,14 @@
 import { faker } from '@faker-js/faker';
+import { random } from '../../../../utils/seeded_random.ts';
+import { getEventTime } from '../../../../utils/time_context.ts';
 
 export const generateCommonFields = () => {
   return {
-    timestamp: new Date().toISOString(),
+    timestamp: new Date(getEventTime()).toISOString(),
     result_type: 'record',
-    probability: Math.random(),
-    record_score: Math.random() * 100,
-    initial_record_score: Math.random() * 100,
+    probability: random(),
+    record_score: random() * 100,
+    initial_record_score: random() * 100,
     bucket_span: 3600,
     detector_index: 0,
     is_interim: false,
@@ -101,13 +103,13 @@ export const getRandomValues = (array: readonly string[], n: number): string[] =
   const copy = [...array];
   if (n >= copy.length) {
     for (let i = copy.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(random() * (i + 1));
       [copy[i], copy[j]] = [copy[j], copy[i]];
     }
     return copy;
   }
   for (let i = 0; i < n; i++) {
-    const j = i + Math.floor(Math.random() * (copy.length - i));
+    const j = i + Math.floor(random() * (copy.length - i));
     [copy[i], copy[j]] = [copy[j], copy[i]];
   }
   return copy.slice(0, n);
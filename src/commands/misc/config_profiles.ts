@@ -0,0 +1,67 @@
+import {
+  type ConfigType,
+  configPath,
+  getActiveProfileName,
+  getProfileNames,
+  resolveConfig,
+  saveActiveProfile,
+} from '../../get_config.ts';
+import { log } from '../../utils/logger.ts';
+
+const SECRET_KEYS = new Set(['password', 'apiKey']);
+const REDACTED = '********';
+
+const redactSecrets = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        SECRET_KEYS.has(key) && v ? REDACTED : redactSecrets(v),
+      ]),
+    );
+  }
+  return value;
+};
+
+export const listProfiles = (): void => {
+  const names = getProfileNames();
+  if (names.length === 0) {
+    log.info(`No profiles defined in ${configPath}, using the top-level connection settings.`);
+    return;
+  }
+
+  const active = getActiveProfileName();
+  log.info('Connection profiles:');
+  for (const name of names) {
+    const { config, errors } = resolveConfig(name);
+    const marker = name === active ? '*' : ' ';
+    const status = errors.length > 0 ? ' (invalid)' : '';
+    log.info(
+      `  ${marker} ${name}: ${config.elastic?.node ?? '-'} | ${config.kibana?.node ?? '-'}${status}`,
+    );
+  }
+};
+
+export const useProfile = (name: string): void => {
+  saveActiveProfile(name);
+  log.info(`Active profile set to "${name}" in ${configPath}`);
+};
+
+/**
+ * Print the effective config (after profile and environment overrides) with secrets redacted.
+ */
+export const showConfig = (name?: string): void => {
+  const profile = name ?? getActiveProfileName();
+  const { config, errors } = resolveConfig(profile);
+  const { profiles: _profiles, ...effective } = config as Partial<ConfigType>;
+
+  log.info(`Profile: ${profile ?? '(none, top-level settings)'}`);
+  log.info(JSON.stringify(redactSecrets(effective), null, 2));
+  if (errors.length > 0) {
+    log.warn('Config validation errors:');
+    errors.forEach((err) => log.warn(`  - ${err}`));
+  }
+};
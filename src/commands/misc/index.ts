@@ -6,8 +6,18 @@ import { generateAssetCriticality } from './asset_criticality.ts';
 import { generateAiInsights } from './insights.ts';
 import { generateLegacyRiskScore } from './legacy_risk_score.ts';
 import { singleEntityCommand } from './single_entity.ts';
+import { listProfiles, showConfig, useProfile } from './config_profiles.ts';
+import { listRuns, teardownRun } from './runs.ts';
+import { getScenarioStepHelp, parseScenarioVar, runScenario } from './scenario.ts';
+import { serve } from './serve.ts';
+import { showStatus } from './status.ts';
 import { ensureSpace } from '../../utils/index.ts';
-import { parseOptionInt, wrapAction } from '../utils/cli_utils.ts';
+import {
+  assertPositiveInt,
+  parseIntBase10,
+  parseOptionInt,
+  wrapAction,
+} from '../utils/cli_utils.ts';
 import { ENTITY_TYPES, type EntityType } from '../../types/entities.ts';
 
 export const miscCommands: CommandModule = {
@@ -80,6 +90,119 @@ export const miscCommands: CommandModule = {
       .description('Install legacy risk score and generate data')
       .action(generateLegacyRiskScore);
 
+    const config = program
+      .command('config')
+      .description('Manage connection profiles in config.json');
+
+    config
+      .command('list')
+      .description('List connection profiles (* marks the active one)')
+      .action(wrapAction(async () => listProfiles()));
+
+    config
+      .command('use')
+      .argument('<name>', 'profile name')
+      .description('Set the default profile (activeProfile) in config.json')
+      .action(wrapAction(async (name: string) => useProfile(name)));
+
+    config
+      .command('show')
+      .argument('[name]', 'profile name (default: active profile)')
+      .description('Print the effective config with secrets redacted')
+      .action(wrapAction(async (name?: string) => showConfig(name)));
+
+    const runs = program
+      .command('runs')
+      .description('List recorded runs and delete what a run created (ledgers in data/runs)');
+
+    runs
+      .command('list')
+      .description('List recorded runs, newest first')
+      .action(wrapAction(async () => listRuns()));
+
+    runs
+      .command('teardown')
+      .argument('<runId>', 'run ID (see runs list)')
+      .description(
+        "Delete the run's documents (by _metadata.runId) and the Kibana objects it created",
+      )
+      .addHelpText(
+        'after',
+        [
+          '',
+          'Spaces the run created are deleted last, unless other runs recorded objects in them or',
+          'their alerts index holds documents the run did not write; those spaces are kept.',
+          '',
+          'Runs pinned with --seed and --as-of share a run ID, so repeating one adds to the same',
+          'ledger: tearing it down removes what every repetition created.',
+        ].join('\n'),
+      )
+      .action(wrapAction(async (runId: string) => teardownRun(runId)));
+
+    program
+      .command('status')
+      .description(
+        'List the generated data in the cluster by run, index and version, and the rules, cases, ML jobs and packages it holds',
+      )
+      .option('-i, --index <pattern>', 'indices to look for generated documents in', '*,.alerts-*')
+      .option(
+        '-s, --space <space>',
+        'space to report rules, cases, entity engines and privmon state for',
+        'default',
+      )
+      .action(
+        wrapAction(async (options: { index: string; space: string }) => {
+          await showStatus(options);
+        }),
+      );
+
+    program
+      .command('scenario')
+      .description('Run declarative scenario files that chain generator steps')
+      .command('run')
+      .argument('<file>', 'scenario file (.yaml, .yml or .json)')
+      .option(
+        '--var <name=value>',
+        'override a scenario variable (repeatable, e.g. --var space=demo)',
+        (value: string, vars: string[]) => [...vars, value],
+        [],
+      )
+      .description('Run the steps of a scenario file in order and print a summary')
+      .addHelpText('after', '\n' + getScenarioStepHelp())
+      .action(
+        wrapAction(async (file: string, options: { var: string[] }) => {
+          await runScenario(file, Object.fromEntries(options.var.map(parseScenarioVar)));
+        }),
+      );
+
+    program
+      .command('serve')
+      .description(
+        'Run a local HTTP server that queues generator runs (POST /<step type> with JSON options, GET /runs/:id)',
+      )
+      .option('-p, --port <port>', 'port to listen on', parseIntBase10, 3000)
+      .option('--host <host>', 'interface to bind (0.0.0.0 for all)', '127.0.0.1')
+      .option(
+        '--allow-origin <origin>',
+        'browser origin allowed to call the server, e.g. http://localhost:5173, or * for any (repeatable; default: none)',
+        (value: string, origins: string[]) => [...origins, value],
+        [],
+      )
+      .addHelpText(
+        'after',
+        '\nRoutes take the parameters of scenario steps.\n' + getScenarioStepHelp(),
+      )
+      .action(
+        wrapAction(async (options: { port: number; host: string; allowOrigin: string[] }) => {
+          assertPositiveInt(options.port, '--port');
+          await serve({
+            port: options.port,
+            host: options.host,
+            allowOrigins: options.allowOrigin,
+          });
+        }),
+      );
+
     program
       .command('single-entity')
       .description(
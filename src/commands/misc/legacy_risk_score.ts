@@ -1,6 +1,8 @@
 import { installLegacyRiskScore } from '../../utils/kibana_api.ts';
 import { bulkUpsert } from '../shared/elasticsearch.ts';
 import { log } from '../../utils/logger.ts';
+import { getNow } from '../../utils/seeded_random.ts';
+import { getEventTime } from '../../utils/time_context.ts';
 
 /**
  * Install legacy risk score and generate data
@@ -104,8 +106,8 @@ const data = [
 
 const bulkIndexData = async () => {
   const body = data.flatMap((doc) => {
-    doc.source['@timestamp'] = new Date().toISOString();
-    doc.source.ingest_timestamp = new Date().toISOString();
+    doc.source['@timestamp'] = new Date(getEventTime()).toISOString();
+    doc.source.ingest_timestamp = new Date(getNow()).toISOString();
     return [{ index: { _index: doc.index } }, doc.source];
   });
 
@@ -0,0 +1,218 @@
+/**
+ * Runs
+ * Lists the run ledgers in data/runs and tears down everything a single run created.
+ */
+
+import { getEsClient } from '../utils/indices.ts';
+import { log } from '../../utils/logger.ts';
+import { getAlertIndex, kibanaApi } from '../../utils/index.ts';
+import { isFileOutputEnabled } from '../../utils/file_output.ts';
+import {
+  type KibanaObjectRef,
+  type RunLedger,
+  listRunLedgers,
+  readRunLedger,
+  saveRunLedger,
+} from '../../utils/run_ledger.ts';
+
+const describeRun = (run: RunLedger): string => {
+  const counts = [
+    [run.indices.length + run.unstampedIndices.length, 'indices'],
+    [run.rules.length, 'rules'],
+    [run.watchlists.length, 'watchlists'],
+    [run.cases.length, 'cases'],
+    [run.spaces.length, 'spaces'],
+    [run.packages.length, 'packages'],
+    [run.mlJobs.length, 'ML jobs'],
+    [run.dataViews.length, 'data views'],
+  ]
+    .filter(([count]) => count)
+    .map(([count, label]) => `${count} ${label}`)
+    .join(', ');
+  return counts || 'nothing recorded';
+};
+
+export const listRuns = (): void => {
+  const runs = listRunLedgers();
+  if (runs.length === 0) {
+    log.info('No runs recorded yet.');
+    return;
+  }
+
+  log.info('Recorded runs (newest first):');
+  for (const run of runs) {
+    const status = run.tornDownAt ? ' [torn down]' : '';
+    log.info(`  ${run.runId}  ${run.startedAt}  ${run.command}${status}`);
+    log.info(`      ${describeRun(run)}`);
+  }
+};
+
+const isNotFound = (error: unknown): boolean =>
+  (error as { statusCode?: number }).statusCode === 404 ||
+  (error as { meta?: { statusCode?: number } }).meta?.statusCode === 404;
+
+/** Run a delete, treating 404 as already gone. Returns false when the delete failed. */
+const safeDelete = async (label: string, fn: () => Promise<unknown>): Promise<boolean> => {
+  try {
+    await fn();
+    log.info(`  ✓ ${label}`);
+    return true;
+  } catch (error) {
+    if (isNotFound(error)) {
+      log.info(`  ✓ ${label} (already gone)`);
+      return true;
+    }
+    log.error(`  ✗ ${label}:`, error);
+    return false;
+  }
+};
+
+const deleteRunDocuments = async (runId: string, indices: string[]): Promise<boolean> => {
+  if (indices.length === 0) {
+    return true;
+  }
+  log.info(`Deleting documents with _metadata.runId ${runId}...`);
+  let ok = true;
+  for (const index of indices) {
+    try {
+      const result = await getEsClient().deleteByQuery({
+        index,
+        refresh: true,
+        ignore_unavailable: true,
+        allow_no_indices: true,
+        conflicts: 'proceed',
+        query: {
+          bool: {
+            should: [
+              { term: { '_metadata.runId.keyword': runId } },
+              { match_phrase: { '_metadata.runId': runId } },
+            ],
+            minimum_should_match: 1,
+          },
+        },
+      });
+      log.info(`  ✓ ${index}: ${result.deleted ?? 0} documents deleted`);
+    } catch (error) {
+      log.error(`  ✗ ${index}:`, error);
+      ok = false;
+    }
+  }
+  return ok;
+};
+
+/**
+ * Why a space the run created must be kept: other runs recorded objects in it, or documents
+ * other than this run's are left in its alerts index. Undefined when the space only holds this
+ * run's data.
+ */
+const getSharedSpaceReason = async (run: RunLedger, space: string): Promise<string | undefined> => {
+  const otherRuns = listRunLedgers().filter(
+    (other) =>
+      other.runId !== run.runId &&
+      !other.tornDownAt &&
+      [other.rules, other.watchlists, other.cases, other.mlJobs, other.dataViews].some((refs) =>
+        refs.some((ref) => ref.space === space),
+      ),
+  );
+  if (otherRuns.length > 0) {
+    return `runs ${otherRuns.map(({ runId }) => runId).join(', ')} created objects in it`;
+  }
+
+  const { count } = await getEsClient().count({
+    index: getAlertIndex(space),
+    ignore_unavailable: true,
+    allow_no_indices: true,
+    query: {
+      bool: {
+        must_not: [
+          { term: { '_metadata.runId.keyword': run.runId } },
+          { match_phrase: { '_metadata.runId': run.runId } },
+        ],
+      },
+    },
+  });
+  return count > 0 ? `its alerts index holds ${count} documents this run did not write` : undefined;
+};
+
+const deleteMlJob = async ({ id }: KibanaObjectRef) => {
+  const client = getEsClient();
+  try {
+    await client.ml.deleteDatafeed({ datafeed_id: `datafeed-${id}`, force: true });
+  } catch (error) {
+    if (!isNotFound(error)) {
+      throw error;
+    }
+  }
+  await client.ml.deleteJob({ job_id: id, force: true });
+};
+
+/**
+ * Delete the documents and Kibana objects recorded for a run. Spaces go last since deleting a
+ * space removes everything left in it, and a space that other runs wrote into is kept.
+ * Installed packages are reported but kept, as they may have been installed before the run and
+ * are shared with other data.
+ */
+export const teardownRun = async (runId: string): Promise<void> => {
+  if (isFileOutputEnabled()) {
+    throw new Error('runs teardown cannot be combined with --output-dir or --dry-run');
+  }
+
+  const run = readRunLedger(runId);
+  log.info(`Tearing down run ${run.runId} (${run.command}, started ${run.startedAt})`);
+
+  let ok = await deleteRunDocuments(run.runId, run.indices);
+
+  const steps: Array<[string, KibanaObjectRef[], (ref: KibanaObjectRef) => Promise<unknown>]> = [
+    ['rule', run.rules, ({ id, space }) => kibanaApi.deleteRule(id, space)],
+    ['watchlist', run.watchlists, ({ id, space }) => kibanaApi.deleteWatchlist({ id, space })],
+    ['case', run.cases, ({ id, space }) => kibanaApi.deleteCase(id, space)],
+    ['ML job', run.mlJobs, deleteMlJob],
+    ['data view', run.dataViews, ({ id, space }) => kibanaApi.deleteDataView(id, space)],
+  ];
+  for (const [label, refs, remove] of steps) {
+    for (const ref of refs) {
+      const where = ref.space ? ` in space ${ref.space}` : '';
+      ok = (await safeDelete(`${label} ${ref.id}${where}`, () => remove(ref))) && ok;
+    }
+  }
+
+  const keptSpaces: string[] = [];
+  for (const space of run.spaces) {
+    let reason: string | undefined;
+    try {
+      reason = await getSharedSpaceReason(run, space);
+    } catch (error) {
+      log.error(`  ✗ space ${space}: could not check for other runs' data:`, error);
+      ok = false;
+      continue;
+    }
+    if (reason) {
+      log.warn(`  - space ${space} kept: ${reason}`);
+      keptSpaces.push(space);
+      continue;
+    }
+    ok = (await safeDelete(`space ${space}`, () => kibanaApi.deleteSpace(space))) && ok;
+  }
+
+  if (run.unstampedIndices.length > 0) {
+    log.warn(
+      `Documents in ${run.unstampedIndices.join(', ')} were written without _metadata and were left in place. Use the command-specific delete commands to remove them.`,
+    );
+  }
+  if (keptSpaces.length > 0) {
+    log.warn(
+      `Spaces kept because other runs wrote into them: ${keptSpaces.join(', ')}. Tear down those runs first, or delete the spaces in Kibana.`,
+    );
+  }
+  if (run.packages.length > 0) {
+    log.info(
+      `Packages left installed: ${run.packages.map(({ name, version }) => `${name}@${version}`).join(', ')}`,
+    );
+  }
+
+  if (!ok) {
+    throw new Error(`Teardown of run ${run.runId} was incomplete, see the errors above`);
+  }
+  saveRunLedger({ ...run, tornDownAt: new Date().toISOString() });
+  log.info(`Run ${run.runId} torn down`);
+};
@@ -0,0 +1,542 @@
+/**
+ * Scenarios
+ * Runs a declarative YAML or JSON recipe that chains the functions behind existing commands,
+ * so demo environments can be rebuilt from a checked-in file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { log, writeRunLogRecord } from '../../utils/logger.ts';
+import { recordError } from '../../utils/command_result.ts';
+import { isFileOutputEnabled } from '../../utils/file_output.ts';
+import { ensureSpace } from '../../utils/index.ts';
+import {
+  ENTITY_STORE_OPTIONS,
+  generateNewSeed,
+  PRIVILEGED_USER_MONITORING_OPTIONS,
+  type PrivilegedUserMonitoringOption,
+} from '../../constants.ts';
+import { generateAlerts, generateEvents } from '../documents/documents.ts';
+import { parseWorkflowStatusMix, resolveAlertWorkflow } from '../documents/alert_workflow.ts';
+import { type CaseGrouping, generateCases, parseCaseStatusMix } from '../cases/cases.ts';
+import { runOrgData } from '../org_data/org_data.ts';
+import { type OrganizationSize, type ProductivitySuite, SIZE_CONFIGS } from '../org_data/types.ts';
+import { generateEntityStore } from '../entity_store/entity_store.ts';
+import { riskScoreV2Command } from '../entity_store/risk_score_v2.ts';
+import {
+  generateCloudSecurityPosture,
+  resolveDataSources,
+} from '../cloud_security_posture/index.ts';
+import { privmonCommand } from '../privileged_user_monitoring/privileged_user_monitoring.ts';
+import { generateRulesAndAlerts } from '../rules/rules.ts';
+import { generateAssetCriticality } from './asset_criticality.ts';
+
+type StepParams = Record<string, unknown>;
+
+interface ScenarioStep {
+  name?: string;
+  run: string;
+  with?: StepParams;
+  /** Skip the step when this evaluates to false, `"false"`, `0` or an empty value. */
+  if?: unknown;
+  continueOnError?: boolean;
+}
+
+interface Scenario {
+  name?: string;
+  description?: string;
+  vars?: Record<string, unknown>;
+  steps: ScenarioStep[];
+}
+
+interface StepDefinition {
+  description: string;
+  params: string[];
+  /** Runs under --dry-run (see DRY_RUN_COMMANDS) */
+  dryRun?: boolean;
+  run: (params: StepParams) => Promise<void>;
+}
+
+type StepStatus = 'ok' | 'skipped' | 'failed';
+
+interface StepResult {
+  label: string;
+  status: StepStatus;
+  ms: number;
+  error?: string;
+}
+
+const getNumber = (params: StepParams, key: string, fallback: number): number => {
+  const value = params[key];
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`"${key}" must be a number, got ${JSON.stringify(value)}`);
+  }
+  return parsed;
+};
+
+const getOptionalNumber = (params: StepParams, key: string): number | undefined =>
+  params[key] === undefined ? undefined : getNumber(params, key, 0);
+
+const getString = <T extends string = string>(params: StepParams, key: string): T | undefined =>
+  params[key] === undefined ? undefined : (String(params[key]) as T);
+
+const getList = (params: StepParams, key: string): string[] | undefined => {
+  const value = params[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map((item) => String(item).trim()).filter(Boolean);
+};
+
+const isOrganizationSize = (value: string): value is OrganizationSize =>
+  Object.hasOwn(SIZE_CONFIGS, value);
+
+const getOrganizationSize = (params: StepParams): OrganizationSize | undefined => {
+  const size = getString(params, 'size');
+  if (size === undefined || isOrganizationSize(size)) {
+    return size;
+  }
+  throw new Error(
+    `"size" must be one of ${Object.keys(SIZE_CONFIGS).join(', ')}, got ${JSON.stringify(size)}`,
+  );
+};
+
+const isTruthy = (value: unknown): boolean =>
+  !(value === undefined || value === null || value === false || value === 0 || value === '') &&
+  !['false', '0', 'no', 'off'].includes(String(value).toLowerCase());
+
+const STEPS: Record<string, StepDefinition> = {
+  'init-space': {
+    description: 'Create and initialize a Kibana space',
+    dryRun: true,
+    params: ['space'],
+    run: async (params) => {
+      await ensureSpace(getString(params, 'space'));
+    },
+  },
+  'org-data': {
+    description: 'Correlated organization data (generate-correlated-organization-data)',
+    dryRun: true,
+    params: [
+      'size',
+      'name',
+      'space',
+      'seed',
+      'integrations',
+      'all',
+      'docCount',
+      'detectionRules',
+      'productivitySuite',
+    ],
+    run: async (params) => {
+      await runOrgData({
+        size: getOrganizationSize(params),
+        name: getString(params, 'name') ?? 'Acme CRM',
+        space: getString(params, 'space') ?? 'default',
+        seed: getOptionalNumber(params, 'seed'),
+        integrations: getList(params, 'integrations')?.join(','),
+        all: isTruthy(params.all),
+        docCount: getOptionalNumber(params, 'docCount'),
+        detectionRules: isTruthy(params.detectionRules),
+        productivitySuite: getString<ProductivitySuite>(params, 'productivitySuite'),
+      });
+    },
+  },
+  'generate-alerts': {
+    description: 'Fake alerts (generate-alerts)',
+    dryRun: true,
+    params: [
+      'alerts',
+      'hosts',
+      'users',
+      'space',
+      'workflowStatus',
+      'assignees',
+      'tags',
+      'notes',
+      'withSourceEvents',
+      'sequenceShare',
+    ],
+    run: async (params) => {
+      const space = await ensureSpace(getString(params, 'space'));
+      const workflowStatus = getString(params, 'workflowStatus');
+      const workflow = await resolveAlertWorkflow({
+        statusWeights: workflowStatus ? parseWorkflowStatusMix(workflowStatus) : undefined,
+        assignees: getOptionalNumber(params, 'assignees'),
+        tags: isTruthy(params.tags),
+        notes: getOptionalNumber(params, 'notes'),
+      });
+      await generateAlerts(
+        getNumber(params, 'alerts', 1),
+        getNumber(params, 'hosts', 1),
+        getNumber(params, 'users', 1),
+        space,
+        undefined,
+        {
+          workflow,
+          withSourceEvents: isTruthy(params.withSourceEvents),
+          sequenceShare: getOptionalNumber(params, 'sequenceShare'),
+        },
+      );
+    },
+  },
+  'generate-cases': {
+    description: 'Security cases from the alerts in a space (generate-cases)',
+    params: [
+      'cases',
+      'space',
+      'groupBy',
+      'orgData',
+      'alertsPerCase',
+      'status',
+      'assignees',
+      'comments',
+      'customFields',
+      'observables',
+    ],
+    run: async (params) => {
+      const status = getString(params, 'status');
+      await generateCases({
+        count: getNumber(params, 'cases', 10),
+        space: getString(params, 'space') ?? 'default',
+        groupBy: getString<CaseGrouping>(params, 'groupBy') ?? 'host',
+        orgData: isTruthy(params.orgData),
+        alertsPerCase: getNumber(params, 'alertsPerCase', 10),
+        statusWeights: status ? parseCaseStatusMix(status) : undefined,
+        assignees: getOptionalNumber(params, 'assignees'),
+        comments: getNumber(params, 'comments', 3),
+        customFields: params.customFields === undefined || isTruthy(params.customFields),
+        observables: params.observables === undefined || isTruthy(params.observables),
+      });
+    },
+  },
+  'generate-events': {
+    description: 'Fake events (generate-events)',
+    dryRun: true,
+    params: ['count'],
+    run: async (params) => {
+      await generateEvents(getNumber(params, 'count', 100));
+    },
+  },
+  'entity-store': {
+    description: 'Entity store entities and events (entity-store)',
+    dryRun: true,
+    params: [
+      'users',
+      'hosts',
+      'services',
+      'genericEntities',
+      'seed',
+      'space',
+      'options',
+      'offsetHours',
+    ],
+    run: async (params) => {
+      const seed = getOptionalNumber(params, 'seed');
+      const options = getList(params, 'options') ?? [
+        ENTITY_STORE_OPTIONS.criticality,
+        ENTITY_STORE_OPTIONS.riskEngine,
+        ENTITY_STORE_OPTIONS.rule,
+      ];
+      if (seed !== undefined && !options.includes(ENTITY_STORE_OPTIONS.seed)) {
+        options.push(ENTITY_STORE_OPTIONS.seed);
+      }
+      await generateEntityStore({
+        space: await ensureSpace(getString(params, 'space')),
+        users: getNumber(params, 'users', 10),
+        hosts: getNumber(params, 'hosts', 10),
+        services: getNumber(params, 'services', 10),
+        genericEntities: getNumber(params, 'genericEntities', 10),
+        seed: seed ?? generateNewSeed(),
+        options,
+        offsetHours: getNumber(params, 'offsetHours', 1),
+      });
+    },
+  },
+  'risk-score-v2': {
+    description: 'Entity Store V2 risk scoring flow (risk-score-v2), options as camelCase',
+    params: [
+      'users',
+      'hosts',
+      'services',
+      'localUsers',
+      'alertsPerEntity',
+      'entityKinds',
+      'offsetHours',
+      'space',
+      'setup',
+      'criticality',
+      'watchlists',
+      'alerts',
+      'perf',
+      'eventIndex',
+      'seedSource',
+      'orgSize',
+      'orgProductivitySuite',
+      'phase2',
+      'resolution',
+      'propagation',
+      'resolutionGroupRate',
+      'avgAliasesPerTarget',
+      'ownershipEdgeRate',
+      'tablePageSize',
+    ],
+    run: async (params) => {
+      // Mirror the CLI: values arrive as strings and --no-* switches default to on
+      const options = Object.fromEntries(
+        Object.entries(params).map(([key, value]) => [
+          key,
+          typeof value === 'boolean' ? value : String(value),
+        ]),
+      );
+      await riskScoreV2Command({
+        setup: true,
+        criticality: true,
+        watchlists: true,
+        alerts: true,
+        phase2: true,
+        resolution: true,
+        propagation: true,
+        ...options,
+        followOn: false,
+      });
+    },
+  },
+  csp: {
+    description: 'Cloud Security Posture findings (generate-cloud-security-posture)',
+    params: ['seed', 'dataSources', 'findingsCount', 'cspScores'],
+    run: async (params) => {
+      await generateCloudSecurityPosture({
+        seed: getOptionalNumber(params, 'seed'),
+        dataSources: resolveDataSources(getList(params, 'dataSources') ?? ['all']),
+        findingsCount: getNumber(params, 'findingsCount', 50),
+        generateCspScores: isTruthy(params.cspScores),
+      });
+    },
+  },
+  privmon: {
+    description: 'Privileged user monitoring data (privmon-quick unless options are given)',
+    params: ['space', 'userCount', 'options'],
+    run: async (params) => {
+      const options =
+        (getList(params, 'options') as PrivilegedUserMonitoringOption[] | undefined) ??
+        Object.values(PRIVILEGED_USER_MONITORING_OPTIONS).filter(
+          (opt) => opt !== PRIVILEGED_USER_MONITORING_OPTIONS.installPad,
+        );
+      await privmonCommand({
+        options,
+        userCount: getNumber(params, 'userCount', 100),
+        space: getString(params, 'space') ?? 'default',
+      });
+    },
+  },
+  rules: {
+    description: 'Detection rules with source events (rules)',
+    dryRun: true,
+    params: ['rules', 'events', 'interval', 'from', 'gaps'],
+    run: async (params) => {
+      await generateRulesAndAlerts(
+        getNumber(params, 'rules', 10),
+        getNumber(params, 'events', 50),
+        {
+          interval: getString(params, 'interval') ?? '5m',
+          from: getNumber(params, 'from', 24),
+          gapsPerRule: getNumber(params, 'gaps', 0),
+        },
+      );
+    },
+  },
+  'asset-criticality': {
+    description: 'Asset criticality assignments (generate-asset-criticality)',
+    dryRun: true,
+    params: ['users', 'hosts', 'seed', 'space'],
+    run: async (params) => {
+      await generateAssetCriticality({
+        users: getNumber(params, 'users', 10),
+        hosts: getNumber(params, 'hosts', 10),
+        seed: getOptionalNumber(params, 'seed'),
+        space: await ensureSpace(getString(params, 'space')),
+      });
+    },
+  },
+};
+
+export const getScenarioStepHelp = (): string =>
+  'Step types:\n' +
+  Object.entries(STEPS)
+    .map(
+      ([name, { description, params }]) =>
+        `  ${name}: ${description}\n    with: ${params.join(', ')}`,
+    )
+    .join('\n');
+
+export const getScenarioStepTypes = (): { name: string; description: string; params: string[] }[] =>
+  Object.entries(STEPS).map(([name, { description, params }]) => ({ name, description, params }));
+
+/** What is wrong with a step of this type and these parameters, if anything. */
+export const validateScenarioStep = (type: string, params: StepParams): string | undefined => {
+  const definition = STEPS[type];
+  if (!definition) {
+    return `unknown step type "${type}" (available: ${Object.keys(STEPS).join(', ')})`;
+  }
+  if (isFileOutputEnabled() && !definition.dryRun) {
+    return `${type} needs a live cluster and cannot run with --output-dir or --dry-run`;
+  }
+  const unknownParams = Object.keys(params).filter((key) => !definition.params.includes(key));
+  if (unknownParams.length > 0) {
+    return `unknown parameter(s) ${unknownParams.join(', ')} for ${type} (accepted: ${definition.params.join(', ')})`;
+  }
+  return undefined;
+};
+
+/** Run a single step outside a scenario file, e.g. for the serve command. */
+export const runScenarioStep = (type: string, params: StepParams): Promise<void> =>
+  STEPS[type].run(params);
+
+/**
+ * Parse a `key=value` --var override. Values are read as YAML scalars, so `42` and `true`
+ * keep their types.
+ */
+export const parseScenarioVar = (input: string): [string, unknown] => {
+  const separator = input.indexOf('=');
+  if (separator <= 0) {
+    throw new Error(`Invalid --var "${input}". Expected <name>=<value>`);
+  }
+  return [input.slice(0, separator), parseYaml(input.slice(separator + 1)) ?? ''];
+};
+
+const VAR_PATTERN = /\$\{([A-Za-z_][\w.-]*)\}/g;
+
+/**
+ * Substitute `${name}` references. A string that is exactly one reference takes the variable's
+ * value as-is (numbers stay numbers); references inside longer strings are interpolated.
+ */
+const resolveVars = (value: unknown, vars: Record<string, unknown>): unknown => {
+  if (typeof value === 'string') {
+    const lookup = (name: string) => {
+      if (!(name in vars)) {
+        throw new Error(`Unknown variable \${${name}}`);
+      }
+      return vars[name];
+    };
+    const whole = /^\$\{([A-Za-z_][\w.-]*)\}$/.exec(value);
+    if (whole) {
+      return lookup(whole[1]);
+    }
+    return value.replace(VAR_PATTERN, (_match, name: string) => String(lookup(name)));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveVars(item, vars));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveVars(item, vars)]),
+    );
+  }
+  return value;
+};
+
+export const loadScenario = (file: string): Scenario => {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Scenario file ${file} does not exist`);
+  }
+  const raw = fs.readFileSync(file, 'utf8');
+  const scenario = (
+    path.extname(file).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw)
+  ) as Scenario;
+
+  if (!scenario || !Array.isArray(scenario.steps) || scenario.steps.length === 0) {
+    throw new Error(`Scenario ${file} must define a non-empty "steps" list`);
+  }
+  scenario.steps.forEach((step, i) => {
+    const problem = validateScenarioStep(step?.run, step.with ?? {});
+    if (problem) {
+      throw new Error(`Step ${i + 1}: ${problem}`);
+    }
+  });
+  return scenario;
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const logSummary = (title: string, results: StepResult[]) => {
+  const icons: Record<StepStatus, string> = { ok: '✓', skipped: '-', failed: '✗' };
+  log.info(`Scenario summary: ${title}`);
+  for (const { label, status, ms, error } of results) {
+    const detail = status === 'skipped' ? 'skipped' : formatSeconds(ms);
+    log.info(`  ${icons[status]} ${label} (${detail})${error ? `: ${error}` : ''}`);
+  }
+  const total = results.reduce((sum, { ms }) => sum + ms, 0);
+  const failed = results.filter(({ status }) => status === 'failed').length;
+  log.info(`  ${results.length} steps, ${failed} failed, ${formatSeconds(total)} total`);
+};
+
+/**
+ * Run a scenario file step by step. A failing step stops the scenario unless it sets
+ * `continueOnError`; the summary is printed either way.
+ */
+export const runScenario = async (
+  file: string,
+  overrides: Record<string, unknown> = {},
+): Promise<void> => {
+  const scenario = loadScenario(file);
+  const vars = { ...scenario.vars, ...overrides };
+  const title = scenario.name ?? path.basename(file);
+
+  log.info(`Running scenario: ${title}`);
+  if (scenario.description) {
+    log.info(scenario.description);
+  }
+
+  const results: StepResult[] = [];
+  let failure: Error | undefined;
+
+  for (const [i, step] of scenario.steps.entries()) {
+    const label = `${i + 1}. ${String(resolveVars(step.name ?? step.run, vars))}`;
+    if (failure) {
+      results.push({ label, status: 'skipped', ms: 0 });
+      continue;
+    }
+    if (step.if !== undefined && !isTruthy(resolveVars(step.if, vars))) {
+      log.info(`Skipping step ${label} (condition not met)`);
+      results.push({ label, status: 'skipped', ms: 0 });
+      continue;
+    }
+
+    log.setRunLogContext({ step: label });
+    log.info(`Step ${label} [${step.run}]`);
+    const startMs = Date.now();
+    try {
+      const params = resolveVars(step.with ?? {}, vars) as StepParams;
+      await runScenarioStep(step.run, params);
+      results.push({ label, status: 'ok', ms: Date.now() - startMs });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ label, status: 'failed', ms: Date.now() - startMs, error: message });
+      if (!step.continueOnError) {
+        failure = new Error(`Scenario step ${label} failed: ${message}`, { cause: error });
+      } else {
+        log.warn(`Step ${label} failed, continuing: ${message}`);
+        recordError(`Scenario step ${label} failed: ${message}`);
+      }
+    }
+    const { status, ms, error } = results[results.length - 1];
+    writeRunLogRecord(status === 'ok' ? 'info' : 'error', `Step ${label} ${status}`, {
+      event: 'step.end',
+      durationMs: ms,
+      ...(error && { error }),
+    });
+    log.setRunLogContext({ step: undefined });
+  }
+
+  logSummary(title, results);
+  if (failure) {
+    throw failure;
+  }
+};
@@ -0,0 +1,300 @@
+/**
+ * Serve
+ * Local HTTP control server for demo kiosks and UI-driven test harnesses. Each scenario step type
+ * is exposed as a POST route taking the step's parameters as a JSON body (POST /org-data,
+ * POST /alerts, ...). Requests are queued and run one at a time, since generators share
+ * process-wide state; GET /runs/:id reports a job's progress and, once done, its result.
+ *
+ * The server has no authentication, so browsers are kept out: requests from a web page carry an
+ * Origin header, and only origins passed to --allow-origin are served (with CORS headers).
+ */
+
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { log, writeRunLogRecord } from '../../utils/logger.ts';
+import {
+  type CommandResult,
+  type CommandStatus,
+  EXIT_CODES,
+  getCommandResult,
+  getCompletionExitCode,
+  logIngestTally,
+  startCommandResult,
+} from '../../utils/command_result.ts';
+import { setNonInteractive } from '../utils/interactive_prompts.ts';
+import { getScenarioStepTypes, runScenarioStep, validateScenarioStep } from './scenario.ts';
+
+type JobStatus = 'queued' | 'running' | CommandStatus;
+
+interface Job {
+  id: string;
+  type: string;
+  params: Record<string, unknown>;
+  status: JobStatus;
+  queuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Documents written and failed so far, while running */
+  progress?: { documents: number; failed: number };
+  result?: CommandResult;
+  error?: string;
+}
+
+/** Shorter routes for the document generators, next to their step type names. */
+const ROUTE_ALIASES: Record<string, string> = {
+  alerts: 'generate-alerts',
+  events: 'generate-events',
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+/** Finished jobs kept for GET /runs; the oldest are dropped beyond this */
+const MAX_FINISHED_JOBS = 200;
+
+export interface ServeOptions {
+  port: number;
+  host: string;
+  /** Browser origins allowed to call the server, or `*` for any */
+  allowOrigins: string[];
+}
+
+const jobs = new Map<string, Job>();
+const queue: Job[] = [];
+let working = false;
+
+const getJobView = (job: Job): Job => {
+  if (job.status !== 'running') {
+    return job;
+  }
+  const { documents } = getCommandResult(EXIT_CODES.success);
+  return { ...job, progress: { documents: documents.total, failed: documents.failed } };
+};
+
+const runJob = async (job: Job): Promise<void> => {
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  startCommandResult(job.type);
+  log.setRunLogContext({ step: `${job.type} ${job.id}` });
+  log.info(`Job ${job.id} (${job.type}) started`);
+
+  let exitCode: number;
+  try {
+    await runScenarioStep(job.type, job.params);
+    exitCode = getCompletionExitCode();
+  } catch (error) {
+    job.error = error instanceof Error ? error.message : String(error);
+    exitCode = EXIT_CODES.failure;
+  }
+  logIngestTally();
+
+  job.result = getCommandResult(exitCode);
+  job.status = job.result.status;
+  job.finishedAt = new Date().toISOString();
+  const summary = `Job ${job.id} (${job.type}) finished: ${job.status}, ${job.result.documents.total} docs`;
+  if (job.error) {
+    log.error(`${summary}: ${job.error}`);
+  } else {
+    log.info(summary);
+  }
+  writeRunLogRecord(job.error ? 'error' : 'info', summary, {
+    event: 'step.end',
+    durationMs: job.result.durationMs,
+    result: job.result,
+  });
+  log.setRunLogContext({ step: undefined });
+};
+
+/** Drop the oldest finished jobs so a long-running server does not grow without limit. */
+const evictFinishedJobs = (): void => {
+  const finished = [...jobs.values()].filter(
+    (job) => job.status !== 'queued' && job.status !== 'running',
+  );
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(job.id);
+  }
+};
+
+const processQueue = async (): Promise<void> => {
+  if (working) {
+    return;
+  }
+  working = true;
+  try {
+    for (let job = queue.shift(); job; job = queue.shift()) {
+      await runJob(job);
+      evictFinishedJobs();
+    }
+  } finally {
+    working = false;
+  }
+};
+
+const enqueue = (type: string, params: Record<string, unknown>): Job => {
+  const job: Job = {
+    id: randomUUID(),
+    type,
+    params,
+    status: 'queued',
+    queuedAt: new Date().toISOString(),
+  };
+  jobs.set(job.id, job);
+  queue.push(job);
+  void processQueue();
+  return job;
+};
+
+const sendJson = (
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body, null, 2));
+};
+
+const readJsonBody = async (req: http.IncomingMessage): Promise<unknown> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8').trim();
+  return raw ? JSON.parse(raw) : {};
+};
+
+const handleRequest = async (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  allowOrigins: string[],
+) => {
+  const method = req.method ?? 'GET';
+  const segments = new URL(req.url ?? '/', 'http://localhost').pathname.split('/').filter(Boolean);
+
+  // Only browsers send Origin; any page could otherwise queue runs against the cluster
+  const origin = req.headers.origin;
+  if (origin !== undefined) {
+    if (!allowOrigins.includes('*') && !allowOrigins.includes(origin)) {
+      sendJson(res, 403, {
+        error: `Origin ${origin} is not allowed (start the server with --allow-origin ${origin})`,
+      });
+      return;
+    }
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  if (method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end();
+    return;
+  }
+
+  if (segments.length === 0 && method === 'GET') {
+    const aliases = Object.entries(ROUTE_ALIASES);
+    sendJson(res, 200, {
+      generators: getScenarioStepTypes().map(({ name, description, params }) => ({
+        routes: [name, ...aliases.filter(([, type]) => type === name).map(([alias]) => alias)].map(
+          (route) => `POST /${route}`,
+        ),
+        description,
+        params,
+      })),
+      runs: 'GET /runs, GET /runs/:id',
+    });
+    return;
+  }
+
+  if (segments[0] === 'runs' && segments.length <= 2) {
+    if (method !== 'GET') {
+      sendJson(res, 405, { error: `${method} not allowed on /runs` });
+      return;
+    }
+    if (segments.length === 1) {
+      sendJson(res, 200, { runs: [...jobs.values()].reverse().map(getJobView) });
+      return;
+    }
+    const job = jobs.get(segments[1]);
+    if (!job) {
+      sendJson(res, 404, { error: `Unknown run ${segments[1]}` });
+      return;
+    }
+    sendJson(res, 200, getJobView(job));
+    return;
+  }
+
+  if (segments.length !== 1) {
+    sendJson(res, 404, { error: `Unknown route ${req.url}` });
+    return;
+  }
+  const type = ROUTE_ALIASES[segments[0]] ?? segments[0];
+  if (!getScenarioStepTypes().some(({ name }) => name === type)) {
+    sendJson(res, 404, { error: `Unknown route ${req.url} (GET / lists the generator routes)` });
+    return;
+  }
+  if (method !== 'POST') {
+    sendJson(res, 405, { error: `${method} not allowed on /${segments[0]}, use POST` });
+    return;
+  }
+
+  let params: unknown;
+  try {
+    params = await readJsonBody(req);
+  } catch (error) {
+    sendJson(res, 400, { error: `Invalid JSON body: ${(error as Error).message}` });
+    return;
+  }
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    sendJson(res, 400, { error: 'The request body must be a JSON object of parameters' });
+    return;
+  }
+  const problem = validateScenarioStep(type, params as Record<string, unknown>);
+  if (problem) {
+    sendJson(res, 400, { error: problem });
+    return;
+  }
+
+  const job = enqueue(type, params as Record<string, unknown>);
+  const position = queue.indexOf(job) + 1;
+  sendJson(
+    res,
+    202,
+    { id: job.id, status: job.status, ...(position > 0 && { position }) },
+    { Location: `/runs/${job.id}` },
+  );
+};
+
+/** Start the server and keep it running until Ctrl+C. */
+export const serve = async ({ port, host, allowOrigins }: ServeOptions): Promise<void> => {
+  // Nobody is at the terminal to answer prompts; missing required options fail the run instead
+  setNonInteractive(true);
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res, allowOrigins).catch((error: unknown) => {
+      log.error('Request failed:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+  log.info(`Listening on http://${host}:${port} (GET / lists the generator routes, Ctrl+C stops)`);
+  if (allowOrigins.length > 0) {
+    log.info(`Browser requests allowed from ${allowOrigins.join(', ')}`);
+  }
+
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', () => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  });
+};
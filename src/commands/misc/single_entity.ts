@@ -28,6 +28,7 @@ import {
   EVENT_INDEX_NAME,
 } from '../../constants.ts';
 import { ensureSpace } from '../../utils/index.ts';
+import { assertRequiredFlags } from '../utils/interactive_prompts.ts';
 import { ensureSecurityDefaultDataView } from '../../utils/security_default_data_view.ts';
 import { dirname } from 'path';
 import { fileURLToPath } from 'url';
@@ -124,6 +125,8 @@ const createAndIngestEntity = async (
 };
 
 export const singleEntityCommand = async (options: SingleEntityCommandOptions = {}) => {
+  // Without --type the command is interactive
+  assertRequiredFlags({ '--type': options.entityType });
   const space = await ensureSpace(options.space);
 
   // Non-interactive mode: --type was provided
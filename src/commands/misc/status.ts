@@ -0,0 +1,451 @@
+/**
+ * Status
+ * Inventories what the generator left in a cluster: documents carrying `_metadata`, grouped by
+ * run, index and generator version, the rules, cases, ML jobs and packages found in the cluster
+ * (annotated with the local run ledgers that recorded them), and the entity engines and
+ * privileged user monitoring state of a space.
+ */
+
+import { getEsClient } from '../utils/indices.ts';
+import { GENERATOR_TAG, ML_GROUP_ID } from '../../constants.ts';
+import { log } from '../../utils/logger.ts';
+import { kibanaApi } from '../../utils/index.ts';
+import { getMetadataKQL } from '../../utils/doc_metadata.ts';
+import { detectClusterCapabilities } from '../../utils/cluster_capabilities.ts';
+import { type KibanaObjectRef, type RunLedger, listRunLedgers } from '../../utils/run_ledger.ts';
+
+const METADATA_FIELDS = ['runId', 'version', 'generatedAt'] as const;
+
+type MetadataField = (typeof METADATA_FIELDS)[number];
+
+/** Field to aggregate or sort on for each `_metadata` field of an index */
+type MetadataFieldNames = Partial<Record<MetadataField, string>>;
+
+interface IndexMetadataFields {
+  fields: MetadataFieldNames;
+  /** Mapping type per field: sorting one search across keyword and date fields fails */
+  types: MetadataFieldNames;
+}
+
+interface GeneratedRun {
+  runId: string;
+  documents: number;
+  versions: Set<string>;
+  firstGeneratedAt?: string;
+  lastGeneratedAt?: string;
+  indices: Map<string, number>;
+}
+
+interface RunBucket {
+  key: string;
+  doc_count: number;
+  indices: { buckets: Array<{ key: string; doc_count: number }> };
+  versions?: { buckets: Array<{ key: string }> };
+  first?: { hits: { hits: Array<{ _source?: { _metadata?: { generatedAt?: string } } }> } };
+  last?: { hits: { hits: Array<{ _source?: { _metadata?: { generatedAt?: string } } }> } };
+}
+
+const MAX_RUNS = 1000;
+const MAX_INDICES_PER_RUN = 500;
+/** Indices per search, keeping the request line under the HTTP limit */
+const INDICES_PER_SEARCH = 50;
+
+/** Data stream backing indices are reported under their data stream. */
+const getDisplayIndexName = (index: string): string =>
+  index.match(/^\.ds-(.+)-\d{4}\.\d{2}\.\d{2}-\d{6}$/)?.[1] ?? index;
+
+/**
+ * `_metadata` is mapped dynamically, so the same field is `text` with a `.keyword` subfield in
+ * some indices and `keyword` (or `date`) in others, e.g. logs-* data streams. Pick the
+ * aggregatable variant per index.
+ */
+const getMetadataFields = async (index: string): Promise<Map<string, IndexMetadataFields>> => {
+  const caps = await getEsClient().fieldCaps({
+    index,
+    fields: METADATA_FIELDS.flatMap((name) => [`_metadata.${name}`, `_metadata.${name}.keyword`]),
+    ignore_unavailable: true,
+    allow_no_indices: true,
+  });
+
+  const byIndex = new Map<string, IndexMetadataFields>();
+  for (const name of METADATA_FIELDS) {
+    // The field itself goes last: where it is aggregatable there is no .keyword subfield
+    for (const field of [`_metadata.${name}.keyword`, `_metadata.${name}`]) {
+      for (const capability of Object.values(caps.fields[field] ?? {})) {
+        if (!capability.aggregatable) {
+          continue;
+        }
+        for (const indexName of [capability.indices ?? caps.indices].flat()) {
+          const { fields, types } = byIndex.get(indexName) ?? { fields: {}, types: {} };
+          byIndex.set(indexName, {
+            fields: { ...fields, [name]: field },
+            types: { ...types, [name]: capability.type },
+          });
+        }
+      }
+    }
+  }
+  return byIndex;
+};
+
+const addRunBucket = (runs: Map<string, GeneratedRun>, bucket: RunBucket): void => {
+  const run = runs.get(bucket.key) ?? {
+    runId: bucket.key,
+    documents: 0,
+    versions: new Set<string>(),
+    indices: new Map<string, number>(),
+  };
+  run.documents += bucket.doc_count;
+  bucket.versions?.buckets.forEach(({ key }) => run.versions.add(key));
+  for (const { key, doc_count } of bucket.indices.buckets) {
+    const index = getDisplayIndexName(key);
+    run.indices.set(index, (run.indices.get(index) ?? 0) + doc_count);
+  }
+  const first = bucket.first?.hits.hits[0]?._source?._metadata?.generatedAt;
+  const last = bucket.last?.hits.hits[0]?._source?._metadata?.generatedAt;
+  if (first && (!run.firstGeneratedAt || first < run.firstGeneratedAt)) {
+    run.firstGeneratedAt = first;
+  }
+  if (last && (!run.lastGeneratedAt || last > run.lastGeneratedAt)) {
+    run.lastGeneratedAt = last;
+  }
+  runs.set(run.runId, run);
+};
+
+/** Generated documents in the indices matching `index`, by run, newest first. */
+const getGeneratedRuns = async (index: string): Promise<GeneratedRun[]> => {
+  const groups = new Map<string, MetadataFieldNames & { runId: string; indices: string[] }>();
+  for (const [indexName, { fields, types }] of await getMetadataFields(index)) {
+    const { runId } = fields;
+    if (!runId) {
+      continue;
+    }
+    const key = METADATA_FIELDS.map((name) => `${fields[name] ?? ''}:${types[name] ?? ''}`).join(
+      '|',
+    );
+    const group = groups.get(key) ?? { ...fields, runId, indices: [] };
+    group.indices.push(indexName);
+    groups.set(key, group);
+  }
+
+  const runs = new Map<string, GeneratedRun>();
+  for (const { runId, version, generatedAt, indices } of groups.values()) {
+    const generatedAtHit = (field: string, order: 'asc' | 'desc') => ({
+      top_hits: {
+        size: 1,
+        sort: [{ [field]: { order } }],
+        _source: ['_metadata.generatedAt'],
+      },
+    });
+    for (let i = 0; i < indices.length; i += INDICES_PER_SEARCH) {
+      const response = await getEsClient().search<unknown, { runs: { buckets: RunBucket[] } }>({
+        index: indices.slice(i, i + INDICES_PER_SEARCH).join(','),
+        ignore_unavailable: true,
+        size: 0,
+        query: { query_string: { query: getMetadataKQL() } },
+        aggs: {
+          runs: {
+            terms: { field: runId, size: MAX_RUNS },
+            aggs: {
+              indices: { terms: { field: '_index', size: MAX_INDICES_PER_RUN } },
+              ...(version && { versions: { terms: { field: version, size: 10 } } }),
+              ...(generatedAt && {
+                first: generatedAtHit(generatedAt, 'asc'),
+                last: generatedAtHit(generatedAt, 'desc'),
+              }),
+            },
+          },
+        },
+      });
+      response.aggregations?.runs.buckets.forEach((bucket) => addRunBucket(runs, bucket));
+    }
+  }
+
+  return [...runs.values()].sort((a, b) =>
+    (b.lastGeneratedAt ?? '').localeCompare(a.lastGeneratedAt ?? ''),
+  );
+};
+
+const logGeneratedRuns = (runs: GeneratedRun[], ledgers: Map<string, RunLedger>): void => {
+  if (runs.length === 0) {
+    log.info('No generated documents found.');
+    return;
+  }
+
+  const indices = new Set(runs.flatMap((run) => [...run.indices.keys()]));
+  const total = runs.reduce((sum, run) => sum + run.documents, 0);
+  log.info(
+    `Generated documents: ${total} in ${runs.length} runs across ${indices.size} indices (newest first):`,
+  );
+  for (const run of runs) {
+    const ledger = ledgers.get(run.runId);
+    const origin = ledger
+      ? `${ledger.command}${ledger.tornDownAt ? ' [torn down]' : ''}`
+      : 'no local ledger';
+    const period =
+      run.firstGeneratedAt && run.firstGeneratedAt !== run.lastGeneratedAt
+        ? `${run.firstGeneratedAt} → ${run.lastGeneratedAt}`
+        : (run.lastGeneratedAt ?? 'unknown time');
+    const versions =
+      run.versions.size > 0 ? `v${[...run.versions].join(', v')}` : 'unknown version';
+    log.info(`  ${run.runId}  ${period}  ${versions}  ${run.documents} docs  (${origin})`);
+    for (const [index, count] of [...run.indices].sort(([a], [b]) => a.localeCompare(b))) {
+      log.info(`      ${index}: ${count}`);
+    }
+  }
+};
+
+const describeError = (error: unknown): string =>
+  (error as { statusCode?: number }).statusCode === 404 ||
+  (error as { meta?: { statusCode?: number } }).meta?.statusCode === 404
+    ? 'not found'
+    : error instanceof Error
+      ? error.message
+      : String(error);
+
+/** Log the state `check` returns for an object, or that it is gone when it returns undefined. */
+const checkObject = async (
+  label: string,
+  check: () => Promise<string | undefined>,
+): Promise<void> => {
+  try {
+    const state = await check();
+    log.info(`    ${state ? '✓' : '✗'} ${label}: ${state ?? 'not found'}`);
+  } catch (error) {
+    log.info(`    ✗ ${label}: ${describeError(error)}`);
+  }
+};
+
+const present = (value: unknown): string | undefined => (value ? 'present' : undefined);
+
+const where = ({ space }: KibanaObjectRef): string => (space ? ` in space ${space}` : '');
+
+/** Rules made before they were tagged are found by the default name createRule gives them. */
+const GENERATOR_RULES_FILTER = `alert.attributes.tags:"${GENERATOR_TAG}" OR alert.attributes.name:"Match All"`;
+const MAX_LISTED_OBJECTS = 20;
+
+type RecordedKind = 'rules' | 'cases' | 'mlJobs' | 'packages';
+
+/** ML jobs and packages are not space-scoped, so their key leaves the space out. */
+const objectKey = (kind: RecordedKind, id: string, space = 'default'): string =>
+  kind === 'mlJobs' || kind === 'packages' ? `${kind}:${id}` : `${kind}:${space}:${id}`;
+
+/** The runs that recorded each object, by objectKey(). */
+const getRecordingRuns = (ledgers: RunLedger[]): Map<string, RunLedger[]> => {
+  const runs = new Map<string, RunLedger[]>();
+  const add = (key: string, ledger: RunLedger) => runs.set(key, [...(runs.get(key) ?? []), ledger]);
+  for (const ledger of ledgers) {
+    for (const kind of ['rules', 'cases', 'mlJobs'] as const) {
+      ledger[kind].forEach((ref) => add(objectKey(kind, ref.id, ref.space), ledger));
+    }
+    ledger.packages.forEach(({ name }) => add(objectKey('packages', name), ledger));
+  }
+  return runs;
+};
+
+const describeRuns = (ledgers: RunLedger[] = []): string =>
+  ledgers.length > 0
+    ? `  (${ledgers
+        .map(
+          ({ runId, command, tornDownAt }) =>
+            `${runId} ${command}${tornDownAt ? ' [torn down]' : ''}`,
+        )
+        .join(', ')})`
+    : '';
+
+/** Log the objects `list` finds in the cluster, up to MAX_LISTED_OBJECTS of them. */
+const listObjects = async (
+  label: string,
+  list: () => Promise<{ total: number; lines: string[] }>,
+): Promise<void> => {
+  try {
+    const { total, lines } = await list();
+    log.info(`  ${label}: ${total}`);
+    const shown = lines.slice(0, MAX_LISTED_OBJECTS);
+    shown.forEach((line) => log.info(`    ${line}`));
+    if (total > shown.length) {
+      log.info(`    ... ${total - shown.length} more`);
+    }
+  } catch (error) {
+    log.info(`  ✗ ${label}: ${describeError(error)}`);
+  }
+};
+
+/**
+ * List the generator's rules and cases in `space`, the Security ML jobs and the installed Fleet
+ * packages, noting the local runs that recorded each. Returns the objectKey() of everything listed.
+ */
+const logClusterObjects = async (space: string, ledgers: RunLedger[]): Promise<Set<string>> => {
+  const recordingRuns = getRecordingRuns(ledgers);
+  const listed = new Set<string>();
+  const annotate = (key: string): string => {
+    listed.add(key);
+    return describeRuns(recordingRuns.get(key));
+  };
+
+  await listObjects(`rules tagged ${GENERATOR_TAG}`, async () => {
+    const { data, total } = await kibanaApi.findRules({ filter: GENERATOR_RULES_FILTER, space });
+    return {
+      total,
+      lines: data.map(
+        (rule) =>
+          `${rule.name} [${rule.rule_id}] ${rule.enabled ? 'enabled' : 'disabled'}${annotate(objectKey('rules', rule.rule_id, space))}`,
+      ),
+    };
+  });
+  await listObjects(`cases tagged ${GENERATOR_TAG}`, async () => {
+    const { cases, total } = await kibanaApi.findCases({ tags: [GENERATOR_TAG], space });
+    return {
+      total,
+      lines: cases.map(
+        (found) =>
+          `${found.title} [${found.id}] ${found.status}${annotate(objectKey('cases', found.id, space))}`,
+      ),
+    };
+  });
+  await listObjects(`ML jobs in group ${ML_GROUP_ID}`, async () => {
+    const { jobs } = await getEsClient().ml.getJobStats({
+      job_id: ML_GROUP_ID,
+      allow_no_match: true,
+    });
+    return {
+      total: jobs.length,
+      lines: jobs.map(
+        ({ job_id, state }) => `${job_id} ${state}${annotate(objectKey('mlJobs', job_id))}`,
+      ),
+    };
+  });
+  await listObjects('installed Fleet packages', async () => {
+    const { items, total } = await kibanaApi.getInstalledPackages({ space });
+    return {
+      total,
+      lines: items.map(
+        ({ name, version }) => `${name} ${version}${annotate(objectKey('packages', name))}`,
+      ),
+    };
+  });
+  return listed;
+};
+
+/**
+ * Check the objects local runs recorded that logClusterObjects did not list: watchlists, data
+ * views and spaces, and rules, cases, ML jobs and packages it did not find, e.g. in other spaces.
+ */
+const logRecordedObjects = async (ledgers: RunLedger[], listed: Set<string>): Promise<void> => {
+  const unlisted =
+    (kind: RecordedKind) =>
+    (ref: KibanaObjectRef): boolean =>
+      !listed.has(objectKey(kind, ref.id, ref.space));
+  const active = ledgers
+    .filter((ledger) => !ledger.tornDownAt)
+    .map((ledger) => ({
+      ...ledger,
+      rules: ledger.rules.filter(unlisted('rules')),
+      cases: ledger.cases.filter(unlisted('cases')),
+      mlJobs: ledger.mlJobs.filter(unlisted('mlJobs')),
+      packages: ledger.packages.filter(({ name }) => !listed.has(objectKey('packages', name))),
+    }));
+  const withObjects = active.filter(
+    (ledger) =>
+      ledger.rules.length + ledger.watchlists.length + ledger.cases.length > 0 ||
+      ledger.mlJobs.length > 0 ||
+      ledger.dataViews.length + ledger.spaces.length > 0,
+  );
+  if (withObjects.length === 0) {
+    log.info('  No other Kibana objects recorded by local runs.');
+  }
+  for (const ledger of withObjects) {
+    log.info(`  Run ${ledger.runId} (${ledger.command}):`);
+    for (const ref of ledger.rules) {
+      await checkObject(`rule ${ref.id}${where(ref)}`, async () =>
+        present(await kibanaApi.getRule(ref.id, ref.space)),
+      );
+    }
+    for (const ref of ledger.watchlists) {
+      await checkObject(`watchlist ${ref.id}${where(ref)}`, async () => {
+        const watchlist = await kibanaApi.getWatchlist(ref);
+        return `present (${watchlist.name})`;
+      });
+    }
+    for (const ref of ledger.cases) {
+      await checkObject(`case ${ref.id}${where(ref)}`, async () => {
+        const found = await kibanaApi.getCase(ref.id, ref.space);
+        return `${found.status} (${found.title})`;
+      });
+    }
+    for (const ref of ledger.mlJobs) {
+      await checkObject(`ML job ${ref.id}`, async () => {
+        const { jobs } = await getEsClient().ml.getJobStats({ job_id: ref.id });
+        return jobs[0]?.state ?? 'present';
+      });
+    }
+    for (const ref of ledger.dataViews) {
+      await checkObject(`data view ${ref.id}${where(ref)}`, async () =>
+        present(await kibanaApi.getDataView(ref.id, ref.space)),
+      );
+    }
+    for (const space of ledger.spaces) {
+      await checkObject(`space ${space}`, async () =>
+        present(await kibanaApi.doesSpaceExist(space)),
+      );
+    }
+  }
+
+  const packages = [
+    ...new Set(active.flatMap((ledger) => ledger.packages.map(({ name }) => name))),
+  ].sort();
+  if (packages.length > 0) {
+    log.info('  Packages installed by local runs:');
+    for (const packageName of packages) {
+      await checkObject(packageName, async () => {
+        const { item } = await kibanaApi.getPackageInfo({ packageName });
+        return `${item.status} (${item.version})`;
+      });
+    }
+  }
+};
+
+const logSpaceState = async (space: string, privmonAvailable?: boolean): Promise<void> => {
+  log.info(`Space ${space}:`);
+  await checkObject('entity engines', async () => {
+    const { engines } = await kibanaApi.listEntityEngines(space);
+    return engines.length > 0
+      ? engines.map((engine) => `${engine.type ?? engine.id}=${engine.status}`).join(', ')
+      : 'none installed';
+  });
+
+  if (privmonAvailable === false) {
+    log.info('    - privileged user monitoring: not available on this cluster');
+    return;
+  }
+  await checkObject('privileged user monitoring users', async () => {
+    const users = await kibanaApi.listPrivmonUsers(space);
+    return `${users.length} monitored`;
+  });
+  await checkObject('privileged access detection', async () => {
+    const pad = await kibanaApi.getPadStatus(space);
+    const opened = pad.jobs.filter(({ state }) => state === 'opened').length;
+    return `package ${pad.package_installation_status}, ML module ${pad.ml_module_setup_status}, ${opened}/${pad.jobs.length} jobs open`;
+  });
+};
+
+/**
+ * Print the catalog. Documents are found with getMetadataKQL(), so indices that do not map
+ * `_metadata` (e.g. mapped with `dynamic: false`) are not counted.
+ */
+export const showStatus = async ({ index, space }: { index: string; space: string }) => {
+  const ledgers = listRunLedgers();
+  const runs = await getGeneratedRuns(index);
+  logGeneratedRuns(runs, new Map(ledgers.map((ledger) => [ledger.runId, ledger])));
+
+  const capabilities = await detectClusterCapabilities(['privmon']);
+  if (!capabilities.kibanaVersion) {
+    log.warn('Kibana is not reachable, skipping the Kibana objects');
+    return;
+  }
+  log.info(`Kibana objects in space ${space}, with the local runs that recorded them:`);
+  const listed = await logClusterObjects(space, ledgers);
+  log.info('Other Kibana objects recorded by local runs (data/runs):');
+  await logRecordedObjects(ledgers, listed);
+  await logSpaceState(space, capabilities.features.privmon);
+};
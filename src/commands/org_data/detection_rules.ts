@@ -9,6 +9,7 @@ import { createRule } from '../../utils/kibana_api.ts';
 import { ingest } from '../utils/indices.ts';
 import { type IntegrationName } from './types.ts';
 import { type IntegrationDocument } from './integrations/base_integration.ts';
+import { DAY_MS, randomTimeInWindow } from '../../utils/time_context.ts';
 
 interface DetectionRuleDefinition {
   name: string;
@@ -36,9 +37,7 @@ const EXCLUDED_INTEGRATIONS: IntegrationName[] = [
 ];
 
 function recentTimestamp(maxDaysAgo: number = 13): string {
-  const now = Date.now();
-  const offset = Math.random() * maxDaysAgo * 24 * 60 * 60 * 1000;
-  return new Date(now - offset).toISOString();
+  return new Date(randomTimeInWindow(maxDaysAgo * DAY_MS)).toISOString();
 }
 
 function baseEvent(dataset: string, overrides: Record<string, unknown> = {}): IntegrationDocument {
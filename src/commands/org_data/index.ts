@@ -1,19 +1,30 @@
 import { type Command } from 'commander';
 import { type CommandModule } from '../types.ts';
 import { parseIntBase10, wrapAction } from '../utils/cli_utils.ts';
-import { runOrgData, runOrgDataQuick, getOrgDataHelp } from './org_data.ts';
+import { addSpaceFanOutOptions, resolveFanOutSpaces, runForSpaces } from '../utils/space_fanout.ts';
+import { ValidationError } from '../../utils/errors.ts';
+import { log } from '../../utils/logger.ts';
+import {
+  runOrgData,
+  runOrgDataQuick,
+  getOrgDataHelp,
+  resolveOrgDataOptions,
+  runResolvedOrgData,
+} from './org_data.ts';
+import { type OrganizationOptions } from './types.ts';
 import { getAvailableIntegrations } from './integrations/index.ts';
 
 export const orgDataCommands: CommandModule = {
   register(program: Command) {
-    program
-      .command('generate-correlated-organization-data')
-      .alias('org-data')
-      .alias('organization')
-      .description('Generate correlated organization security integration data')
-      .option('--name <name>', 'Company name', 'Acme CRM')
-      .option('--space <space>', 'Kibana space', 'default')
-      .option('--seed <seed>', 'Random seed for reproducibility', parseIntBase10)
+    addSpaceFanOutOptions(
+      program
+        .command('generate-correlated-organization-data')
+        .alias('org-data')
+        .alias('organization')
+        .description('Generate correlated organization security integration data')
+        .option('--name <name>', 'Company name', 'Acme CRM')
+        .option('--space <space>', 'Kibana space', 'default'),
+    )
       .option(
         '--integrations <list>',
         `Comma-separated integrations to enable (available: ${getAvailableIntegrations().join(', ')})`,
@@ -25,6 +36,7 @@ export const orgDataCommands: CommandModule = {
         parseIntBase10,
       )
       .option('--detection-rules', 'Include sample detection rules for applicable integrations')
+      .option('--no-detection-rules', 'Skip sample detection rules without prompting')
       .option(
         '--size <size>',
         'Organization size without prompting (john-doe|small|medium|enterprise)',
@@ -33,20 +45,52 @@ export const orgDataCommands: CommandModule = {
         '--productivity-suite <suite>',
         'Productivity suite without prompting (microsoft|google)',
       )
+      .option(
+        '--live',
+        'After the initial batch, keep streaming new documents at the current time until Ctrl+C',
+      )
+      .option('--rate <eps>', 'Peak documents per second in --live mode (default: 10)', parseFloat)
+      .option(
+        '--validate',
+        'Check the generated documents against ECS and the package field mappings instead of indexing them',
+      )
+      .option(
+        '--save-field-snapshots',
+        'With --validate, save the fetched package mappings for offline validation (dry runs)',
+      )
       .addHelpText('after', '\n' + getOrgDataHelp())
       .action(
         wrapAction(async (options) => {
-          await runOrgData({
+          const orgDataOptions: OrganizationOptions = {
             size: options.size,
             name: options.name,
             space: options.space,
-            seed: options.seed,
             integrations: options.integrations,
             all: options.all,
             docCount: options.docCount,
             detectionRules: options.detectionRules,
             productivitySuite: options.productivitySuite,
-          });
+            live: options.live,
+            rate: options.rate,
+            validate: options.validate,
+            saveFieldSnapshots: options.saveFieldSnapshots,
+          };
+
+          const spaces = resolveFanOutSpaces(options, { space: options.space, flag: '--space' });
+          if (!spaces) {
+            await runOrgData(orgDataOptions);
+            return;
+          }
+          if (options.live || options.validate) {
+            throw new ValidationError(
+              '--live and --validate cannot be combined with --spaces or --space-count.',
+            );
+          }
+          log.info('\n=== Correlated Organization Data Generator ===\n');
+          const resolved = await resolveOrgDataOptions(orgDataOptions);
+          await runForSpaces(spaces, options, (space, seed) =>
+            runResolvedOrgData({ ...resolved, space, seed }),
+          );
         }),
       );
 
@@ -20,6 +20,7 @@ import {
   type Service,
 } from '../types.ts';
 import { faker } from '@faker-js/faker';
+import { onFirstUse } from '../../../utils/seeded_random.ts';
 
 const AZURE_RESOURCE_OPERATIONS: Array<{
   provider: string;
@@ -187,7 +188,7 @@ const AUDIT_LOG_ACTIVITIES: Array<{
   },
 ];
 
-const SIGNIN_APPS = [
+const getSigninApps = onFirstUse(() => [
   { name: 'Office 365', id: faker.string.uuid() },
   { name: 'Azure Portal', id: faker.string.uuid() },
   { name: 'Microsoft Teams', id: faker.string.uuid() },
@@ -195,7 +196,7 @@ const SIGNIN_APPS = [
   { name: 'SharePoint Online', id: faker.string.uuid() },
   { name: 'My Apps', id: faker.string.uuid() },
   { name: 'Microsoft Edge', id: faker.string.uuid() },
-];
+]);
 
 const RISK_EVENT_TYPES = [
   'anonymizedIPAddress',
@@ -208,14 +209,14 @@ const RISK_EVENT_TYPES = [
   'suspiciousIPAddress',
 ];
 
-const PROVISIONING_TARGET_APPS = [
+const getProvisioningTargetApps = onFirstUse(() => [
   { name: 'Dropbox Business', id: faker.string.uuid() },
   { name: 'Salesforce', id: faker.string.uuid() },
   { name: 'ServiceNow', id: faker.string.uuid() },
   { name: 'Slack Enterprise', id: faker.string.uuid() },
   { name: 'AWS Single Sign-On', id: faker.string.uuid() },
   { name: 'Google Cloud Platform', id: faker.string.uuid() },
-];
+]);
 
 const GRAPH_API_ENDPOINTS = [
   { path: '/v1.0/users', method: 'GET' },
@@ -601,7 +602,7 @@ export class AzureIntegration extends BaseIntegration {
       : undefined;
     const app = saasService
       ? { name: saasService.name, id: saasService.id }
-      : faker.helpers.arrayElement(SIGNIN_APPS);
+      : faker.helpers.arrayElement(getSigninApps());
     const correlationId = faker.string.uuid();
     const clientIp = faker.internet.ipv4();
     const isInteractive = faker.helpers.weightedArrayElement([
@@ -817,7 +818,7 @@ export class AzureIntegration extends BaseIntegration {
     centralAgent: { id: string; name: string; type: string; version: string },
   ): IntegrationDocument {
     const timestamp = this.getRandomTimestamp(72);
-    const targetApp = faker.helpers.arrayElement(PROVISIONING_TARGET_APPS);
+    const targetApp = faker.helpers.arrayElement(getProvisioningTargetApps());
     const action = faker.helpers.weightedArrayElement([
       { value: 'Create', weight: 40 },
       { value: 'Update', weight: 40 },
@@ -4,14 +4,23 @@
  */
 
 import { log } from '../../../utils/logger.ts';
+import { recordError } from '../../../utils/command_result.ts';
+import { createProgressBar } from '../../utils/cli_utils.ts';
 import { type Organization, type CorrelationMap, type Device, type Host } from '../types.ts';
 import { installPackage } from '../../../utils/kibana_api.ts';
 import { ingest } from '../../utils/indices.ts';
-import cliProgress from 'cli-progress';
 import { chunk } from 'lodash-es';
+import { getDetectedStackVersion } from '../../../utils/cluster_capabilities.ts';
+import { getNow } from '../../../utils/seeded_random.ts';
+import { HOUR_MS, randomTimeInWindow } from '../../../utils/time_context.ts';
 
+/** Agent version reported when the stack version could not be detected */
 export const ELASTIC_AGENT_VERSION = '8.17.4';
 
+/** Agents are stamped with the detected stack version, like a freshly enrolled fleet */
+export const getElasticAgentVersion = (): string =>
+  getDetectedStackVersion() ?? ELASTIC_AGENT_VERSION;
+
 export interface AgentData {
   id: string;
   name: string;
@@ -111,13 +120,10 @@ export abstract class BaseIntegration {
       log.info(`  Indexing ${documents.length} documents to ${index}...`);
 
       if (showProgress) {
-        const progress = new cliProgress.SingleBar(
-          {
-            clearOnComplete: true,
-            format: '    [{bar}] {percentage}% | {value}/{total}',
-          },
-          cliProgress.Presets.shades_classic,
-        );
+        const progress = createProgressBar(index, {
+          clearOnComplete: true,
+          format: '    [{bar}] {percentage}% | {value}/{total}',
+        });
 
         const chunks = chunk(documents, 1000);
         progress.start(documents.length, 0);
@@ -170,6 +176,7 @@ export abstract class BaseIntegration {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       log.error(`  ✗ ${this.displayName} failed: ${errorMessage}`);
+      recordError(`${this.displayName}: ${errorMessage}`);
 
       return {
         integrationName: this.packageName,
@@ -185,16 +192,14 @@ export abstract class BaseIntegration {
    * Get current timestamp in ISO format
    */
   protected getTimestamp(): string {
-    return new Date().toISOString();
+    return new Date(getNow()).toISOString();
   }
 
   /**
    * Get timestamp with random offset (for realistic data distribution)
    */
   protected getRandomTimestamp(maxOffsetHours: number = 24): string {
-    const now = new Date();
-    const offsetMs = Math.random() * maxOffsetHours * 60 * 60 * 1000;
-    return new Date(now.getTime() - offsetMs).toISOString();
+    return new Date(randomTimeInWindow(maxOffsetHours * HOUR_MS)).toISOString();
   }
 
   /**
@@ -206,7 +211,7 @@ export abstract class BaseIntegration {
       id: org.centralAgent.id,
       name: org.centralAgent.name,
       type: 'filebeat',
-      version: ELASTIC_AGENT_VERSION,
+      version: getElasticAgentVersion(),
     };
   }
 
@@ -222,7 +227,7 @@ export abstract class BaseIntegration {
       id: device.elasticAgentId,
       name: hostname,
       type: agentType,
-      version: ELASTIC_AGENT_VERSION,
+      version: getElasticAgentVersion(),
     };
   }
 
@@ -234,7 +239,7 @@ export abstract class BaseIntegration {
       id: host.elasticAgentId,
       name: host.name,
       type: 'filebeat',
-      version: ELASTIC_AGENT_VERSION,
+      version: getElasticAgentVersion(),
     };
   }
 }
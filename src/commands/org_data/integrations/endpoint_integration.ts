@@ -7,11 +7,12 @@ import {
   BaseIntegration,
   type IntegrationDocument,
   type DataStreamConfig,
-  ELASTIC_AGENT_VERSION,
+  getElasticAgentVersion,
 } from './base_integration.ts';
 import { type Organization, type CorrelationMap, type Employee, type Device } from '../types.ts';
 import { faker } from '@faker-js/faker';
 import { MALWARE_HASHES } from '../data/threat_intel_data.ts';
+import { getNow } from '../../../utils/seeded_random.ts';
 
 const PROCESS_ACTIONS: Array<{ action: string; type: string[] }> = [
   { action: 'start', type: ['start'] },
@@ -389,7 +390,7 @@ export class EndpointIntegration extends BaseIntegration {
       id: agentId,
       name: hostname,
       type: 'endpoint',
-      version: ELASTIC_AGENT_VERSION,
+      version: getElasticAgentVersion(),
     };
   }
 
@@ -446,7 +447,7 @@ export class EndpointIntegration extends BaseIntegration {
       event: {
         agent_id_status: 'verified',
         sequence: faker.number.int({ min: 1000, max: 99999 }),
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         created: timestamp,
         kind: 'event',
         module: 'endpoint',
@@ -504,7 +505,7 @@ export class EndpointIntegration extends BaseIntegration {
       event: {
         agent_id_status: 'verified',
         sequence: faker.number.int({ min: 1000, max: 99999 }),
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         created: timestamp,
         kind: 'event',
         module: 'endpoint',
@@ -576,7 +577,7 @@ export class EndpointIntegration extends BaseIntegration {
       event: {
         agent_id_status: 'verified',
         sequence: faker.number.int({ min: 1000, max: 99999 }),
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         created: timestamp,
         kind: 'event',
         module: 'endpoint',
@@ -639,7 +640,7 @@ export class EndpointIntegration extends BaseIntegration {
       event: {
         agent_id_status: 'verified',
         sequence: faker.number.int({ min: 1000, max: 99999 }),
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         created: timestamp,
         kind: 'event',
         module: 'endpoint',
@@ -686,7 +687,7 @@ export class EndpointIntegration extends BaseIntegration {
       agent: {
         ...this.buildAgentObject(agentId, hostname),
         build: {
-          original: `version: ${ELASTIC_AGENT_VERSION}, compiled: Mon Jan 01 00:00:00 2024, branch: main, commit: ${faker.string.hexadecimal({ length: 40, casing: 'lower', prefix: '' })}`,
+          original: `version: ${getElasticAgentVersion()}, compiled: Mon Jan 01 00:00:00 2024, branch: main, commit: ${faker.string.hexadecimal({ length: 40, casing: 'lower', prefix: '' })}`,
         },
       },
       process: {
@@ -749,7 +750,7 @@ export class EndpointIntegration extends BaseIntegration {
         type: ['info', 'denied'],
         agent_id_status: 'verified',
         sequence: faker.number.int({ min: 1000, max: 99999 }),
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         action: 'execution',
         id: faker.string.alphanumeric(24),
         category: alertType.category,
@@ -806,7 +807,7 @@ export class EndpointIntegration extends BaseIntegration {
       event: {
         agent_id_status: 'verified',
         sequence: faker.number.int({ min: 1000, max: 99999 }),
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         created: timestamp,
         kind: 'event',
         module: 'endpoint',
@@ -878,7 +879,7 @@ export class EndpointIntegration extends BaseIntegration {
       event: {
         agent_id_status: 'verified',
         sequence: faker.number.int({ min: 1000, max: 99999 }),
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         created: timestamp,
         kind: 'event',
         module: 'endpoint',
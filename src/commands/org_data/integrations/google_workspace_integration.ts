@@ -18,6 +18,8 @@ import {
 } from '../types.ts';
 import { faker } from '@faker-js/faker';
 import { GOOGLE_WORKSPACE_SERVICES, DEPT_DRIVE_WEIGHTS } from '../data/saas_apps.ts';
+import { getNow } from '../../../utils/seeded_random.ts';
+import { HOUR_MS, randomTimeInWindow } from '../../../utils/time_context.ts';
 
 const DS = {
   login: 'logs-google_workspace.login-default',
@@ -222,7 +224,7 @@ export class GoogleWorkspaceIntegration extends BaseIntegration {
         'login_type',
         faker.helpers.arrayElement(['exchange', 'google_password', 'saml', 'reauth']),
       ),
-      paramInt('login_timestamp', Date.now() * 1000),
+      paramInt('login_timestamp', getNow() * 1000),
     ];
     if (eventType === 'login_challenge') {
       params.push(
@@ -550,7 +552,7 @@ export class GoogleWorkspaceIntegration extends BaseIntegration {
       name: action,
       type: `${action}_TYPE`,
       parameters: [
-        paramInt('TIMESTAMP', Date.now()),
+        paramInt('TIMESTAMP', getNow()),
         param('EVENT_REASON', action),
         param('APP_ID', faker.string.alphanumeric(32)),
         param('APP_NAME', faker.helpers.arrayElement(cfg.extensionNames)),
@@ -572,7 +574,7 @@ export class GoogleWorkspaceIntegration extends BaseIntegration {
     const action = faker.helpers.arrayElement(cfg.events);
     const recipient = faker.helpers.arrayElement(org.employees);
     const sourceIp = faker.internet.ipv4();
-    const timestampUsec = (Date.now() - faker.number.int({ min: 0, max: 72 * 3600 * 1000 })) * 1000;
+    const timestampUsec = randomTimeInWindow(72 * HOUR_MS) * 1000;
     const elapsedUsec = faker.number.int({ min: 100000, max: 2000000 });
     const isInternal = employee.email.endsWith(`@${org.domain}`);
     const subject = faker.lorem.sentence({ min: 3, max: 8 });
@@ -61,7 +61,11 @@ import { MongoDbAtlasIntegration } from './mongodb_atlas_integration.ts';
 import { TeleportIntegration } from './teleport_integration.ts';
 import { ThycoticSsIntegration } from './thycotic_ss_integration.ts';
 import { ZoomIntegration } from './zoom_integration.ts';
-import { type IntegrationName } from '../types.ts';
+import {
+  type IntegrationName,
+  type OrgDataIntegrationName,
+  type PluginIntegrationName,
+} from '../types.ts';
 import { log } from '../../../utils/logger.ts';
 
 // Re-export types and classes from base_integration
@@ -118,6 +122,25 @@ export { TeleportIntegration } from './teleport_integration.ts';
 export { ThycoticSsIntegration } from './thycotic_ss_integration.ts';
 export { ZoomIntegration } from './zoom_integration.ts';
 
+/**
+ * Integrations contributed by plugins (see src/utils/plugins.ts), keyed by name
+ */
+const pluginIntegrations = new Map<PluginIntegrationName, BaseIntegration>();
+
+const findPluginIntegrationName = (name: string): PluginIntegrationName | undefined =>
+  [...pluginIntegrations.keys()].find((pluginName) => pluginName === name);
+
+/**
+ * Register a plugin integration; names of built-in integrations are reserved
+ */
+export const registerPluginIntegration = (name: string, integration: BaseIntegration): void => {
+  if (isBuiltInIntegration(name) || findPluginIntegrationName(name) !== undefined) {
+    throw new Error(`integration "${name}" is already registered`);
+  }
+  // The only place a plugin name becomes a PluginIntegrationName: once it is known to be free
+  pluginIntegrations.set(name as PluginIntegrationName, integration);
+};
+
 /**
  * Create integration registry with all available integrations
  */
@@ -202,6 +225,10 @@ export const createIntegrationRegistry = (): IntegrationRegistry => {
   registry.set('thycotic_ss', new ThycoticSsIntegration());
   registry.set('zoom', new ZoomIntegration());
 
+  for (const [name, integration] of pluginIntegrations) {
+    registry.set(name, integration);
+  }
+
   return registry;
 };
 
@@ -210,67 +237,78 @@ export const createIntegrationRegistry = (): IntegrationRegistry => {
  */
 export const getIntegration = (
   registry: IntegrationRegistry,
-  name: IntegrationName,
+  name: OrgDataIntegrationName,
 ): BaseIntegration | undefined => {
   return registry.get(name);
 };
 
+const BUILT_IN_INTEGRATIONS: IntegrationName[] = [
+  'okta',
+  'cloud_asset',
+  'okta_system',
+  'aws',
+  'entra_id',
+  'crowdstrike',
+  'o365',
+  'github',
+  'cisco_duo',
+  '1password',
+  'google_workspace',
+  'cloudflare_logpush',
+  'zscaler_zia',
+  'ti_abusech',
+  'jamf_pro',
+  'active_directory',
+  'servicenow',
+  'slack',
+  'sailpoint',
+  'ping_one',
+  'workday',
+  'ping_directory',
+  'system',
+  'endpoint',
+  'atlassian_bitbucket',
+  'atlassian_confluence',
+  'atlassian_jira',
+  'auth0',
+  'authentik',
+  'beyondinsight',
+  'bitwarden',
+  'box',
+  'canva',
+  'cyberark_pas',
+  'forgerock',
+  'gcp',
+  'gitlab',
+  'hashicorp_vault',
+  'azure',
+  'island_browser',
+  'jumpcloud',
+  'keeper',
+  'keycloak',
+  'lastpass',
+  'lyve_cloud',
+  'mattermost',
+  'mongodb_atlas',
+  'teleport',
+  'thycotic_ss',
+  'zoom',
+];
+
+const BUILT_IN_INTEGRATION_NAMES: ReadonlySet<string> = new Set(BUILT_IN_INTEGRATIONS);
+
+/**
+ * Whether a name is one of the built-in integrations, as opposed to a plugin integration
+ */
+export const isBuiltInIntegration = (name: string): name is IntegrationName =>
+  BUILT_IN_INTEGRATION_NAMES.has(name);
+
 /**
- * Get all available integration names
+ * Get all available integration names, plugin integrations last. Plugin names are only known
+ * once plugins are loaded, so they are PluginIntegrationName rather than IntegrationName.
  */
-export const getAvailableIntegrations = (): IntegrationName[] => {
-  return [
-    'okta',
-    'cloud_asset',
-    'okta_system',
-    'aws',
-    'entra_id',
-    'crowdstrike',
-    'o365',
-    'github',
-    'cisco_duo',
-    '1password',
-    'google_workspace',
-    'cloudflare_logpush',
-    'zscaler_zia',
-    'ti_abusech',
-    'jamf_pro',
-    'active_directory',
-    'servicenow',
-    'slack',
-    'sailpoint',
-    'ping_one',
-    'workday',
-    'ping_directory',
-    'system',
-    'endpoint',
-    'atlassian_bitbucket',
-    'atlassian_confluence',
-    'atlassian_jira',
-    'auth0',
-    'authentik',
-    'beyondinsight',
-    'bitwarden',
-    'box',
-    'canva',
-    'cyberark_pas',
-    'forgerock',
-    'gcp',
-    'gitlab',
-    'hashicorp_vault',
-    'azure',
-    'island_browser',
-    'jumpcloud',
-    'keeper',
-    'keycloak',
-    'lastpass',
-    'lyve_cloud',
-    'mattermost',
-    'mongodb_atlas',
-    'teleport',
-    'thycotic_ss',
-    'zoom',
-  ];
+export const getAvailableIntegrations = (): OrgDataIntegrationName[] => {
+  return [...BUILT_IN_INTEGRATIONS, ...pluginIntegrations.keys()];
 };
 
 /**
@@ -284,18 +322,18 @@ const DEPRECATED_INTEGRATION_ALIASES: Record<string, IntegrationName> = {
 /**
  * Parse comma-separated integration list
  */
-export const parseIntegrationList = (list: string): IntegrationName[] => {
-  const available = getAvailableIntegrations();
-  const requested = list.split(',').map((s) => {
+export const parseIntegrationList = (list: string): OrgDataIntegrationName[] => {
+  const requested = list.split(',').map((s): OrgDataIntegrationName | undefined => {
     const trimmed = s.trim();
     const alias = DEPRECATED_INTEGRATION_ALIASES[trimmed];
     if (alias) {
       log.warn(`Integration name "${trimmed}" is deprecated, use "${alias}" instead.`);
       return alias;
     }
-    return trimmed as IntegrationName;
+    return isBuiltInIntegration(trimmed) ? trimmed : findPluginIntegrationName(trimmed);
   });
   // Dedupe so specifying both the alias and the canonical name doesn't run it twice
-  const deduped = Array.from(new Set(requested));
-  return deduped.filter((name) => available.includes(name));
+  return Array.from(new Set(requested)).filter(
+    (name): name is OrgDataIntegrationName => name !== undefined,
+  );
 };
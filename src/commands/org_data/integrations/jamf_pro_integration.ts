@@ -11,6 +11,7 @@ import {
 } from './base_integration.ts';
 import { type Organization, type Employee, type Device, type CorrelationMap } from '../types.ts';
 import { faker } from '@faker-js/faker';
+import { HOUR_MS, randomTimeInWindow } from '../../../utils/time_context.ts';
 
 /** Realistic macOS model identifiers */
 const MAC_MODEL_IDENTIFIERS = [
@@ -255,7 +256,7 @@ export class JamfProIntegration extends BaseIntegration {
           },
         },
         webhook: {
-          event_timestamp: Date.now() - faker.number.int({ min: 0, max: 48 * 60 * 60 * 1000 }),
+          event_timestamp: randomTimeInWindow(48 * HOUR_MS),
           id: faker.string.numeric(10),
           name: `${org.name}-webhook`,
           webhook_event: webhookEvent,
@@ -17,6 +17,7 @@ import {
 } from '../types.ts';
 import { faker } from '@faker-js/faker';
 import { log } from '../../../utils/logger.ts';
+import { getNow } from '../../../utils/seeded_random.ts';
 
 /**
  * Okta applications for SSO events
@@ -1259,7 +1260,7 @@ export class OktaSystemIntegration extends BaseIntegration {
    */
   private generateRogueAdminBurst(rogue: Employee, org: Organization): OktaSystemLogDocument[] {
     const events: OktaSystemLogDocument[] = [];
-    const burstStart = new Date(Date.now() - faker.number.int({ min: 1, max: 24 }) * 3600000);
+    const burstStart = new Date(getNow() - faker.number.int({ min: 1, max: 24 }) * 3600000);
     const burstDurationMs = faker.number.int({ min: 30, max: 120 }) * 60000;
 
     const randomBurstTime = (): string => {
@@ -1413,7 +1414,7 @@ export class OktaSystemIntegration extends BaseIntegration {
     org: Organization,
   ): OktaSystemLogDocument[] {
     const events: OktaSystemLogDocument[] = [];
-    const baseTime = new Date(Date.now() - faker.number.int({ min: 1, max: 12 }) * 3600000);
+    const baseTime = new Date(getNow() - faker.number.int({ min: 1, max: 12 }) * 3600000);
 
     const foreignLocations = faker.helpers.arrayElements(
       ANOMALOUS_LOCATIONS,
@@ -19,6 +19,7 @@ import {
 import { log } from '../../../utils/logger.ts';
 import { type Organization, type Employee, type CorrelationMap } from '../types.ts';
 import { faker } from '@faker-js/faker';
+import { onFirstUse } from '../../../utils/seeded_random.ts';
 
 /** SCIM v2 schema URNs used by PingDirectory */
 const SCIM_SCHEMAS = [
@@ -28,31 +29,33 @@ const SCIM_SCHEMAS = [
 ];
 
 /** SCIM group names mapped by department */
-const DEPARTMENT_GROUPS: Record<string, Array<{ display: string; value: string }>> = {
-  'Product & Engineering': [
-    { display: 'Engineering', value: faker.string.uuid() },
-    { display: 'Developers', value: faker.string.uuid() },
-    { display: 'Platform Team', value: faker.string.uuid() },
-  ],
-  'Sales & Marketing': [
-    { display: 'Sales', value: faker.string.uuid() },
-    { display: 'Marketing', value: faker.string.uuid() },
-    { display: 'Revenue Ops', value: faker.string.uuid() },
-  ],
-  'Customer Success': [
-    { display: 'Customer Success', value: faker.string.uuid() },
-    { display: 'Support', value: faker.string.uuid() },
-  ],
-  Operations: [
-    { display: 'Operations', value: faker.string.uuid() },
-    { display: 'Finance', value: faker.string.uuid() },
-    { display: 'IT', value: faker.string.uuid() },
-  ],
-  Executive: [
-    { display: 'Leadership', value: faker.string.uuid() },
-    { display: 'Executive Team', value: faker.string.uuid() },
-  ],
-};
+const getDepartmentGroups = onFirstUse(
+  (): Record<string, Array<{ display: string; value: string }>> => ({
+    'Product & Engineering': [
+      { display: 'Engineering', value: faker.string.uuid() },
+      { display: 'Developers', value: faker.string.uuid() },
+      { display: 'Platform Team', value: faker.string.uuid() },
+    ],
+    'Sales & Marketing': [
+      { display: 'Sales', value: faker.string.uuid() },
+      { display: 'Marketing', value: faker.string.uuid() },
+      { display: 'Revenue Ops', value: faker.string.uuid() },
+    ],
+    'Customer Success': [
+      { display: 'Customer Success', value: faker.string.uuid() },
+      { display: 'Support', value: faker.string.uuid() },
+    ],
+    Operations: [
+      { display: 'Operations', value: faker.string.uuid() },
+      { display: 'Finance', value: faker.string.uuid() },
+      { display: 'IT', value: faker.string.uuid() },
+    ],
+    Executive: [
+      { display: 'Leadership', value: faker.string.uuid() },
+      { display: 'Executive Team', value: faker.string.uuid() },
+    ],
+  }),
+);
 
 /** Locale codes */
 const LOCALE_MAP: Record<string, string> = {
@@ -156,7 +159,8 @@ export class PingDirectoryIntegration extends BaseIntegration {
     const timezone = TIMEZONE_MAP[employee.countryCode] || employee.timezone;
 
     // SCIM groups based on department + an org-wide group
-    const deptGroups = DEPARTMENT_GROUPS[employee.department] || DEPARTMENT_GROUPS['Operations'];
+    const departmentGroups = getDepartmentGroups();
+    const deptGroups = departmentGroups[employee.department] || departmentGroups['Operations'];
     const allUsersGroup = { display: 'All Users', value: faker.string.uuid() };
     const userGroups = [
       allUsersGroup,
@@ -18,6 +18,7 @@ import {
 } from '../types.ts';
 import { ATTACKER_IPS } from '../data/network_data.ts';
 import { faker } from '@faker-js/faker';
+import { getNow } from '../../../utils/seeded_random.ts';
 
 /** Common brute-force usernames used in failed SSH attempts */
 const BRUTE_FORCE_USERNAMES = [
@@ -631,7 +632,7 @@ export class SystemIntegration extends BaseIntegration {
         code: '4624',
         created,
         dataset: 'system.security',
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         kind: 'event',
         module: 'system',
         outcome: 'success',
@@ -728,7 +729,7 @@ export class SystemIntegration extends BaseIntegration {
         code: '4625',
         created,
         dataset: 'system.security',
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         kind: 'event',
         module: 'system',
         outcome: 'failure',
@@ -833,7 +834,7 @@ export class SystemIntegration extends BaseIntegration {
         code: '4634',
         created,
         dataset: 'system.security',
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         kind: 'event',
         module: 'system',
         outcome: 'success',
@@ -938,7 +939,7 @@ export class SystemIntegration extends BaseIntegration {
         code: '4648',
         created,
         dataset: 'system.security',
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         kind: 'event',
         module: 'system',
         outcome: 'success',
@@ -1042,7 +1043,7 @@ export class SystemIntegration extends BaseIntegration {
         code: '4776',
         created,
         dataset: 'system.security',
-        ingested: new Date().toISOString(),
+        ingested: new Date(getNow()).toISOString(),
         kind: 'event',
         module: 'system',
         outcome,
@@ -0,0 +1,220 @@
+/**
+ * Live Streaming Mode
+ * Keeps the generated organization and correlation map in memory and continuously streams
+ * new documents stamped at the current time for every enabled integration, until Ctrl+C.
+ */
+
+import { faker } from '@faker-js/faker';
+import { type BulkOperationTuple, streamingBulkIngest } from '../shared/elasticsearch.ts';
+import { isShuttingDown } from '../utils/cli_utils.ts';
+import { addMetadataToDoc } from '../../utils/doc_metadata.ts';
+import { log } from '../../utils/logger.ts';
+import { sleep } from '../../utils/sleep.ts';
+import { type BaseIntegration, type IntegrationDocument } from './integrations/base_integration.ts';
+import { type CorrelationMap, type Organization } from './types.ts';
+
+/** Flush small batches quickly so new documents show up within seconds */
+const LIVE_FLUSH_INTERVAL_MS = 1000;
+const TICK_MS = 1000;
+const STATUS_INTERVAL_MS = 60_000;
+
+/** Numbers within this distance of @timestamp (in s, ms or µs) are taken for epoch times */
+const EPOCH_MATCH_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+const EPOCH_UNITS_PER_MS = [1 / 1000, 1, 1000];
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+
+interface LiveDocument {
+  index: string;
+  document: IntegrationDocument;
+}
+
+interface LiveSource {
+  integration: BaseIntegration;
+  /** Documents per generation cycle, used as the integration's relative volume */
+  weight: number;
+  queue: LiveDocument[];
+}
+
+export interface LiveStreamOptions {
+  /** Peak documents per second, reached during business hours */
+  rate: number;
+}
+
+/**
+ * Share of the peak rate for a point in time: full rate during business hours, ramping
+ * before and after, quiet at night and on weekends.
+ */
+export const getActivityFactor = (date: Date): number => {
+  const hour = date.getHours();
+  const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+
+  let factor = 0.1;
+  if (hour >= 9 && hour < 18) {
+    factor = 1;
+  } else if ((hour >= 7 && hour < 9) || (hour >= 18 && hour < 21)) {
+    factor = 0.4;
+  }
+
+  return isWeekend ? factor * 0.25 : factor;
+};
+
+const generateBatch = (
+  integration: BaseIntegration,
+  org: Organization,
+  correlationMap: CorrelationMap,
+): LiveDocument[] => {
+  const batch: LiveDocument[] = [];
+  for (const [index, documents] of integration.generateDocuments(org, correlationMap)) {
+    for (const document of documents) {
+      batch.push({ index, document });
+    }
+  }
+  return faker.helpers.shuffle(batch);
+};
+
+const shiftDateString = (value: string, shiftMs: number): string => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    return value;
+  }
+  const shifted = new Date(time + shiftMs).toISOString();
+  return /\.\d+/.test(value) ? shifted : shifted.replace(/\.\d{3}Z$/, 'Z');
+};
+
+const shiftEpoch = (value: number, shiftMs: number, originalMs: number): number => {
+  for (const unitsPerMs of EPOCH_UNITS_PER_MS) {
+    if (Math.abs(value / unitsPerMs - originalMs) < EPOCH_MATCH_WINDOW_MS) {
+      return Math.round(value + shiftMs * unitsPerMs);
+    }
+  }
+  return value;
+};
+
+/**
+ * Shift every date in a value by `shiftMs`: ISO-style date strings, epoch numbers (seconds,
+ * milliseconds or microseconds) close to the original @timestamp, and the same inside raw
+ * vendor events serialized as JSON strings (e.g. `message`).
+ */
+const shiftDates = (value: unknown, shiftMs: number, originalMs: number): unknown => {
+  if (typeof value === 'number') {
+    return shiftEpoch(value, shiftMs, originalMs);
+  }
+  if (typeof value === 'string') {
+    if (DATE_TIME_PATTERN.test(value)) {
+      return shiftDateString(value, shiftMs);
+    }
+    if (value.startsWith('{') || value.startsWith('[')) {
+      try {
+        return JSON.stringify(shiftDates(JSON.parse(value), shiftMs, originalMs));
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => shiftDates(item, shiftMs, originalMs));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, shiftDates(item, shiftMs, originalMs)]),
+    );
+  }
+  return value;
+};
+
+/** Move a generated document to `now`, keeping every time in it relative to @timestamp */
+const restamp = (document: IntegrationDocument, now: number): IntegrationDocument => {
+  const original = Date.parse(document['@timestamp']);
+  if (Number.isNaN(original)) {
+    return { ...document, '@timestamp': new Date(now).toISOString() };
+  }
+  return {
+    ...(shiftDates(document, now - original, original) as IntegrationDocument),
+    '@timestamp': new Date(now).toISOString(),
+  };
+};
+
+async function* liveDocuments(
+  sources: LiveSource[],
+  rate: number,
+  org: Organization,
+  correlationMap: CorrelationMap,
+  onEmit: () => void,
+): AsyncGenerator<LiveDocument> {
+  const weighted = sources.map((source) => ({ weight: source.weight, value: source }));
+  let carry = 0;
+
+  while (!isShuttingDown()) {
+    const tickStart = Date.now();
+    const due = rate * getActivityFactor(new Date(tickStart)) * (TICK_MS / 1000) + carry;
+    const count = Math.floor(due);
+    carry = due - count;
+
+    for (let i = 0; i < count && !isShuttingDown(); i++) {
+      const source = faker.helpers.weightedArrayElement(weighted);
+      if (source.queue.length === 0) {
+        source.queue = generateBatch(source.integration, org, correlationMap);
+      }
+      const next = source.queue.pop();
+      if (next) {
+        onEmit();
+        yield { index: next.index, document: restamp(next.document, Date.now()) };
+      }
+    }
+
+    await sleep(Math.max(0, TICK_MS - (Date.now() - tickStart)));
+  }
+}
+
+/**
+ * Stream documents for the given integrations until interrupted. Each integration's share of
+ * the stream follows its share of a regular batch, so relative volumes match one-shot runs.
+ */
+export const runLiveStream = async (
+  integrations: BaseIntegration[],
+  org: Organization,
+  correlationMap: CorrelationMap,
+  { rate }: LiveStreamOptions,
+): Promise<void> => {
+  const sources: LiveSource[] = integrations
+    .map((integration) => {
+      const queue = generateBatch(integration, org, correlationMap);
+      return { integration, weight: queue.length, queue };
+    })
+    .filter((source) => source.weight > 0);
+
+  if (sources.length === 0) {
+    log.warn('No integration produced documents, nothing to stream.');
+    return;
+  }
+
+  log.info(
+    `\n=== Live Mode ===\nStreaming up to ${rate} docs/s for ${sources.map((s) => s.integration.displayName).join(', ')}`,
+  );
+  log.info('Volume follows business hours (local time). Press Ctrl+C to stop.\n');
+
+  let emitted = 0;
+  let lastReported = 0;
+  const statusTimer = setInterval(() => {
+    const perSecond = ((emitted - lastReported) / (STATUS_INTERVAL_MS / 1000)).toFixed(1);
+    lastReported = emitted;
+    log.info(`  Live: ${emitted} documents streamed (${perSecond} docs/s over the last minute)`);
+  }, STATUS_INTERVAL_MS);
+
+  try {
+    await streamingBulkIngest({
+      index: sources[0].integration.dataStreams[0].index,
+      datasource: liveDocuments(sources, rate, org, correlationMap, () => emitted++),
+      flushInterval: LIVE_FLUSH_INTERVAL_MS,
+      onDocument: ({ index, document }): BulkOperationTuple => [
+        { create: { _index: index } },
+        addMetadataToDoc(document),
+      ],
+    });
+  } finally {
+    clearInterval(statusTimer);
+  }
+
+  log.info(`Live mode stopped after ${emitted} documents.`);
+};
@@ -3,15 +3,20 @@
  * Main entry point for generating correlated organization security integration data
  */
 
-import { select, confirm } from '@inquirer/prompts';
 import { generateNewSeed } from '../../constants.ts';
 import { buildKibanaUrl } from '../../utils/kibana_api.ts';
+import {
+  assertRequiredFlags,
+  promptForChoice,
+  promptForConfirmation,
+} from '../utils/interactive_prompts.ts';
 import {
   type OrganizationOptions,
   type OrganizationSize,
   type OrganizationConfig,
   type ProductivitySuite,
   type IntegrationName,
+  type OrgDataIntegrationName,
 } from './types.ts';
 import { generateOrgData, getOrgDataSummary } from './org_data_generator.ts';
 import { buildCorrelationMap, verifyCorrelationIntegrity } from './correlation.ts';
@@ -19,14 +24,23 @@ import {
   createIntegrationRegistry,
   parseIntegrationList,
   getAvailableIntegrations,
+  isBuiltInIntegration,
   type IntegrationResult,
 } from './integrations/index.ts';
+import { type BaseIntegration } from './integrations/base_integration.ts';
+import { runLiveStream } from './live.ts';
+import { validateIntegrations } from './validate.ts';
 import {
   createIntegrationDetectionRules,
   generateAndIndexMatchingEvents,
   type DetectionRuleResult,
 } from './detection_rules.ts';
 import { log } from '../../utils/logger.ts';
+import { GeneratorError, ValidationError } from '../../utils/errors.ts';
+import { getReferenceTime } from '../../utils/seeded_random.ts';
+
+/** Peak documents per second in live mode when --rate is not given */
+const DEFAULT_LIVE_RATE = 10;
 
 /**
  * Valid organization sizes with descriptions
@@ -58,8 +72,9 @@ const SIZE_OPTIONS: Array<{ value: OrganizationSize; name: string; description:
  * Prompt for organization size selection
  */
 const promptForSize = async (): Promise<OrganizationSize> => {
-  return select<OrganizationSize>({
+  return promptForChoice<OrganizationSize>({
     message: 'Select organization size:',
+    flag: '--size',
     choices: SIZE_OPTIONS.map((opt) => ({
       value: opt.value,
       name: opt.name,
@@ -72,8 +87,9 @@ const promptForSize = async (): Promise<OrganizationSize> => {
  * Prompt for productivity suite selection
  */
 const promptForProductivitySuite = async (): Promise<ProductivitySuite> => {
-  return select<ProductivitySuite>({
+  return promptForChoice<ProductivitySuite>({
     message: 'Select productivity suite:',
+    flag: '--productivity-suite',
     choices: [
       {
         value: 'microsoft',
@@ -115,10 +131,13 @@ const DEFAULT_DOCS_PER_EMPLOYEE = 3;
  */
 const estimateEmployeeCountForDocCount = (
   docCount: number,
-  enabledIntegrations: IntegrationName[],
+  enabledIntegrations: OrgDataIntegrationName[],
 ): number => {
   const docsPerEmployee = enabledIntegrations.reduce(
-    (sum, name) => sum + (DOCS_PER_EMPLOYEE_ESTIMATE[name] ?? DEFAULT_DOCS_PER_EMPLOYEE),
+    (sum, name) =>
+      sum +
+      ((isBuiltInIntegration(name) ? DOCS_PER_EMPLOYEE_ESTIMATE[name] : undefined) ??
+        DEFAULT_DOCS_PER_EMPLOYEE),
     0,
   );
 
@@ -129,11 +148,14 @@ const estimateEmployeeCountForDocCount = (
   return Math.max(1, Math.round(docCount / docsPerEmployee));
 };
 
-const runOrgDataHelper = async (
-  options: Omit<OrganizationOptions, 'detectionRules'> & {
-    detectionRules: boolean;
-  },
-): Promise<void> => {
+/** Options after the prompts: whether to create detection rules is settled. */
+export type ResolvedOrgDataOptions = Omit<OrganizationOptions, 'size' | 'detectionRules'> & {
+  size: OrganizationSize;
+  detectionRules: boolean;
+};
+
+/** Generate into one space with options from resolveOrgDataOptions. */
+export const runResolvedOrgData = async (options: ResolvedOrgDataOptions): Promise<void> => {
   const { size, productivitySuite, detectionRules } = options;
 
   // Validate and fill in other options
@@ -143,10 +165,9 @@ const runOrgDataHelper = async (
   // Parse integrations to enable
   const enabledIntegrations = parseIntegrationList(integrations);
   if (enabledIntegrations.length === 0) {
-    log.error(
+    throw new ValidationError(
       `No valid integrations specified. Available: ${getAvailableIntegrations().join(', ')}`,
     );
-    process.exit(1);
   }
 
   // When a target doc count is requested, scale the employee population to hit it.
@@ -191,9 +212,9 @@ const runOrgDataHelper = async (
   // Verify correlation integrity
   const verification = verifyCorrelationIntegrity(organization, correlationMap);
   if (!verification.valid) {
-    log.error('Correlation verification failed:');
-    verification.errors.forEach((e) => log.error(`  - ${e}`));
-    process.exit(1);
+    throw new GeneratorError(
+      `Correlation verification failed:\n${verification.errors.map((e) => `  - ${e}`).join('\n')}`,
+    );
   }
 
   if (verification.warnings.length > 0) {
@@ -206,33 +227,56 @@ const runOrgDataHelper = async (
   // Create integration registry
   const registry = createIntegrationRegistry();
 
+  if (options.validate) {
+    const integrations = enabledIntegrations
+      .map((integrationName) => registry.get(integrationName))
+      .filter((integration): integration is BaseIntegration => integration !== undefined);
+    await validateIntegrations(integrations, organization, correlationMap, {
+      saveFieldSnapshots: options.saveFieldSnapshots,
+    });
+    return;
+  }
+
   // Run enabled integrations
   const results: IntegrationResult[] = [];
+  const succeeded: BaseIntegration[] = [];
   for (const integrationName of enabledIntegrations) {
     const integration = registry.get(integrationName);
     if (integration) {
       const result = await integration.run(organization, correlationMap, space);
       results.push(result);
+      if (result.success) {
+        succeeded.push(integration);
+      }
     }
   }
 
   // Create detection rules and matching events if requested
   let detectionRuleResults: DetectionRuleResult[] = [];
   if (detectionRules) {
-    detectionRuleResults = await createIntegrationDetectionRules(enabledIntegrations, space);
-    await generateAndIndexMatchingEvents(enabledIntegrations);
+    // Detection rules exist for built-in integrations only
+    const builtInIntegrations = enabledIntegrations.filter(isBuiltInIntegration);
+    detectionRuleResults = await createIntegrationDetectionRules(builtInIntegrations, space);
+    await generateAndIndexMatchingEvents(builtInIntegrations);
   }
 
   // Display summary
   displaySummary(results, organization, space, detectionRuleResults);
+
+  if (options.live) {
+    await runLiveStream(succeeded, organization, correlationMap, {
+      rate: options.rate ?? DEFAULT_LIVE_RATE,
+    });
+  }
 };
 
 /**
- * Main command function for generating correlated organization data
+ * Check the options and prompt for whatever was not passed on the command line. Done once per
+ * run, so a run fanned out to many spaces asks its questions once.
  */
-export const runOrgData = async (options: OrganizationOptions): Promise<void> => {
-  log.info('\n=== Correlated Organization Data Generator ===\n');
-
+export const resolveOrgDataOptions = async (
+  options: OrganizationOptions,
+): Promise<ResolvedOrgDataOptions> => {
   // Validate --doc-count up front, before any prompts. An invalid value (NaN,
   // zero, or negative) would otherwise be treated as "defined" — skipping the
   // size prompt and defaulting to enterprise — while the scaling is silently
@@ -241,10 +285,32 @@ export const runOrgData = async (options: OrganizationOptions): Promise<void> =>
     options.docCount !== undefined &&
     (!Number.isInteger(options.docCount) || options.docCount <= 0)
   ) {
-    log.error('--doc-count must be a positive integer.');
-    process.exit(1);
+    throw new ValidationError('--doc-count must be a positive integer.');
   }
 
+  if (options.rate !== undefined && (!Number.isFinite(options.rate) || options.rate <= 0)) {
+    throw new ValidationError('--rate must be a positive number of documents per second.');
+  }
+  if (options.rate !== undefined && !options.live) {
+    throw new ValidationError('--rate only applies to --live.');
+  }
+  if (options.validate && options.live) {
+    throw new ValidationError('--validate cannot be combined with --live.');
+  }
+  if (options.saveFieldSnapshots && !options.validate) {
+    throw new ValidationError('--save-field-snapshots only applies to --validate.');
+  }
+  if (options.live && getReferenceTime() !== undefined) {
+    throw new ValidationError(
+      '--live streams documents at the current time and cannot be combined with --as-of.',
+    );
+  }
+
+  assertRequiredFlags({
+    '--size': options.size ?? (options.docCount === undefined ? undefined : 'enterprise'),
+    '--productivity-suite': options.productivitySuite,
+  });
+
   // Prompt for organization size only if not provided via CLI. When --doc-count is
   // set, the employee population is derived from the target instead, so default the
   // size (it only affects non-employee config like hosts/cloud) to avoid blocking
@@ -255,20 +321,30 @@ export const runOrgData = async (options: OrganizationOptions): Promise<void> =>
   // Prompt for productivity suite only if not provided via CLI
   const productivitySuite = options.productivitySuite ?? (await promptForProductivitySuite());
 
-  // Prompt for detection rules only if not provided via CLI
+  // Prompt for detection rules only if not provided via CLI; validation creates none
   const includeDetectionRules =
-    options.detectionRules ??
-    (await confirm({
-      message: 'Include sample detection rules for applicable integrations?',
-      default: false,
-    }));
+    !options.validate &&
+    (options.detectionRules ??
+      (await promptForConfirmation({
+        message: 'Include sample detection rules for applicable integrations?',
+        default: false,
+        flag: '--detection-rules',
+      })));
 
-  await runOrgDataHelper({
+  return {
     ...options,
     size,
     productivitySuite,
     detectionRules: includeDetectionRules,
-  });
+  };
+};
+
+/**
+ * Main command function for generating correlated organization data
+ */
+export const runOrgData = async (options: OrganizationOptions): Promise<void> => {
+  log.info('\n=== Correlated Organization Data Generator ===\n');
+  await runResolvedOrgData(await resolveOrgDataOptions(options));
 };
 
 /**
@@ -289,7 +365,7 @@ interface ValidatedOptions {
 /**
  * Validate and normalize command options
  */
-const validateOptions = async (options: OrganizationOptions): Promise<ValidatedOptions> => {
+const validateOptions = async (options: ResolvedOrgDataOptions): Promise<ValidatedOptions> => {
   const seed = options.seed ?? generateNewSeed();
   const productivitySuite = options.productivitySuite || 'microsoft';
 
@@ -669,7 +745,7 @@ const displaySummary = (
  * Quick generation with defaults (for quick setup, still prompts for size)
  */
 export const runOrgDataQuick = async (space: string = 'default'): Promise<void> => {
-  await runOrgDataHelper({
+  await runResolvedOrgData({
     size: 'medium',
     name: 'Acme CRM',
     space,
@@ -687,9 +763,10 @@ export const getOrgDataHelp = (): string => {
 Correlated Organization Data Generator
 
 Generates correlated security integration data for a simulated company.
-The command will interactively prompt you to select an organization size.
+The command prompts for the organization size and productivity suite unless --size and
+--productivity-suite are given (both required with --yes / --non-interactive).
 
-Organization Sizes (selected via interactive prompt):
+Organization Sizes (--size or interactive prompt):
   John Doe   - 1 employee, single user entity analysis, AWS only, basic resources
   Small      - 10-50 employees, AWS only, basic resources, 1 cloud account
   Medium     - 51-200 employees, AWS only, moderate resources, 3 cloud accounts
@@ -746,6 +823,13 @@ Detection Rules:
     - Entity/asset inventory integrations (okta, entra_id, active_directory, cloud_asset)
     - Custom integrations without Fleet packages (workday, ping_directory)
 
+Validation:
+  --validate generates the documents without installing or indexing anything and checks them
+  against ECS and the package field mappings: unknown fields, type mismatches and missing
+  required fields, per integration. Against a cluster, the mappings come from the installed
+  package and documents run through the ingest pipeline first. With --dry-run, mappings come
+  from data/field_snapshots/ (refreshed with --save-field-snapshots). Exits with code 2 on issues.
+
 Correlation Features:
   - Employees are created with realistic departments and roles
   - Each employee has 2 devices (laptop + mobile) with CrowdStrike agents
@@ -779,6 +863,12 @@ Examples:
   yarn start org-data --detection-rules
 
   # Generate with reproducible seed
-  yarn start org-data --seed 12345
+  yarn start --seed 12345 org-data
+
+  # Check the generated documents against the installed packages' mappings
+  yarn start org-data --size small --productivity-suite microsoft --all --validate
+
+  # Keep streaming new documents (peak 50 docs/s) until Ctrl+C
+  yarn start org-data --live --rate 50
 `.trim();
 };
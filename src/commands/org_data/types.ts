@@ -1087,11 +1087,13 @@ export type OktaSystemEventType =
  * Command options for organization
  */
 export interface OrganizationOptions {
-  size: OrganizationSize;
+  /** Prompted for when missing (or enterprise with docCount) */
+  size?: OrganizationSize;
   name: string;
   space: string;
   seed?: number;
-  integrations: string;
+  /** Comma-separated integration names (default: the standard set) */
+  integrations?: string;
   employeeCount?: number;
   /**
    * Target total document count. When set, the employee population is scaled so
@@ -1101,6 +1103,14 @@ export interface OrganizationOptions {
   productivitySuite?: ProductivitySuite;
   all?: boolean;
   detectionRules?: boolean;
+  /** Keep streaming documents at the current time after the initial batch, until Ctrl+C */
+  live?: boolean;
+  /** Peak documents per second in live mode */
+  rate?: number;
+  /** Check the generated documents against ECS and the package mappings instead of indexing */
+  validate?: boolean;
+  /** With validate, save the fetched package mappings as offline field snapshots */
+  saveFieldSnapshots?: boolean;
 }
 
 /**
@@ -1158,6 +1168,17 @@ export type IntegrationName =
   | 'thycotic_ss'
   | 'zoom';
 
+/**
+ * Name of an integration registered by a plugin (see src/utils/plugins.ts). Branded so a plugin
+ * name is never taken for one of the built-in IntegrationName values.
+ */
+export type PluginIntegrationName = string & { readonly __brand: 'PluginIntegrationName' };
+
+/**
+ * Any integration org-data can run, built in or from a plugin
+ */
+export type OrgDataIntegrationName = IntegrationName | PluginIntegrationName;
+
 /**
  * @deprecated Legacy type from entityanalytics_jamf integration.
  * The jamf_pro integration now uses inline IntegrationDocument types.
@@ -0,0 +1,514 @@
+/**
+ * Validate Mode
+ * Generates the documents of every enabled integration without indexing them and checks each one
+ * against ECS and the integration package's field mappings. Reports unknown fields, type
+ * mismatches and missing required fields per integration, so typos in hand-built documents show
+ * up before they become unmapped fields in Kibana.
+ *
+ * Online, the mappings come from the installed package's index templates and documents are run
+ * through the data stream's ingest pipeline first, as they would be when indexed. Offline (dry
+ * runs), mappings come from snapshots in data/field_snapshots/, which --save-field-snapshots
+ * writes during a validation against a cluster, and documents are checked as generated. No
+ * snapshots ship with the repository, so until one is saved an offline run checks ECS only and
+ * cannot detect unknown fields.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { isIP } from 'net';
+import { chunk, isPlainObject } from 'lodash-es';
+import alertMappings from '../../mappings/alertMappings.json' with { type: 'json' };
+import { getEsClient } from '../utils/indices.ts';
+import { getPackageInfo } from '../../utils/kibana_api.ts';
+import { isFileOutputEnabled } from '../../utils/file_output.ts';
+import { recordError } from '../../utils/command_result.ts';
+import { log } from '../../utils/logger.ts';
+import { getFieldSnapshotsDir } from '../../utils/data_paths.ts';
+import { type BaseIntegration, type IntegrationDocument } from './integrations/base_integration.ts';
+import { type CorrelationMap, type Organization } from './types.ts';
+
+/** Base fields every Fleet package defines for its data streams */
+const REQUIRED_FIELDS = [
+  '@timestamp',
+  'data_stream.type',
+  'data_stream.dataset',
+  'data_stream.namespace',
+];
+
+const NUMERIC_TYPES = new Set([
+  'long',
+  'integer',
+  'short',
+  'byte',
+  'double',
+  'float',
+  'half_float',
+  'scaled_float',
+  'unsigned_long',
+]);
+
+/** Values of these types are objects or arrays in their own format, not checked field by field */
+const OPAQUE_TYPES = new Set([
+  'flattened',
+  'geo_point',
+  'geo_shape',
+  'point',
+  'shape',
+  'histogram',
+  'dense_vector',
+  'sparse_vector',
+  'rank_features',
+  'aggregate_metric_double',
+  'date_range',
+  'alias',
+]);
+
+const PIPELINE_BATCH_SIZE = 500;
+/** Issues listed per integration; the counts cover all of them */
+const MAX_LISTED_ISSUES = 25;
+
+interface FieldDefinition {
+  type: string;
+  /** Value of a constant_keyword field */
+  value?: string;
+  /** Object without sub-fields: anything below it is mapped dynamically */
+  dynamic?: boolean;
+}
+
+type FieldDefinitions = Map<string, FieldDefinition>;
+
+interface DataStreamFields {
+  fields: FieldDefinitions;
+  /** Default ingest pipeline of the data stream (online only) */
+  pipeline?: string;
+}
+
+interface PackageFields {
+  source: 'cluster' | 'snapshot' | 'ecs';
+  version?: string;
+  dataStreams: Map<string, DataStreamFields>;
+}
+
+/** On-disk format of data/field_snapshots/<package>.json */
+interface FieldSnapshot {
+  package: string;
+  version: string;
+  dataStreams: Record<
+    string,
+    { fields: Record<string, string>; constants?: Record<string, string> }
+  >;
+}
+
+type IssueKind = 'unknown field' | 'type mismatch' | 'missing field' | 'pipeline error';
+
+/** Plural labels, in report order */
+const ISSUE_LABELS: Record<IssueKind, string> = {
+  'unknown field': 'unknown fields',
+  'type mismatch': 'type mismatches',
+  'missing field': 'missing fields',
+  'pipeline error': 'pipeline errors',
+};
+
+interface ValidationIssue {
+  kind: IssueKind;
+  dataStream: string;
+  field: string;
+  detail?: string;
+  example?: string;
+  count: number;
+}
+
+interface MappingProperty {
+  type?: string;
+  value?: string;
+  enabled?: boolean;
+  properties?: Record<string, MappingProperty>;
+}
+
+const flattenMappings = (
+  properties: Record<string, MappingProperty>,
+  fields: FieldDefinitions = new Map(),
+  prefix = '',
+): FieldDefinitions => {
+  for (const [name, mapping] of Object.entries(properties)) {
+    const field = `${prefix}${name}`;
+    const type = mapping.type ?? 'object';
+    fields.set(field, {
+      type: mapping.enabled === false ? 'flattened' : type,
+      ...(mapping.value !== undefined && { value: String(mapping.value) }),
+      ...(type === 'object' && !mapping.properties && { dynamic: true }),
+    });
+    if (mapping.properties) {
+      flattenMappings(mapping.properties, fields, `${field}.`);
+    }
+  }
+  return fields;
+};
+
+/** ECS from the vendored alerts index mappings, without the Kibana alert fields */
+const ECS_FIELDS: FieldDefinitions = (() => {
+  const {
+    kibana: _kibana,
+    signal: _signal,
+    ...ecs
+  } = alertMappings.properties as Record<string, MappingProperty>;
+  const fields = flattenMappings(ecs);
+  fields.set('data_stream', { type: 'object' });
+  for (const field of ['data_stream.type', 'data_stream.dataset', 'data_stream.namespace']) {
+    fields.set(field, { type: 'constant_keyword' });
+  }
+  return fields;
+})();
+
+const describeValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return isPlainObject(value) ? 'object' : typeof value;
+};
+
+const acceptsValue = ({ type, value: constant }: FieldDefinition, value: unknown): boolean => {
+  if (constant !== undefined) {
+    return String(value) === constant;
+  }
+  if (NUMERIC_TYPES.has(type)) {
+    return (
+      typeof value === 'number' ||
+      (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)))
+    );
+  }
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean' || value === 'true' || value === 'false';
+    case 'date':
+    case 'date_nanos':
+      return (
+        typeof value === 'number' ||
+        (typeof value === 'string' && (!isNaN(Date.parse(value)) || /^\d+$/.test(value)))
+      );
+    case 'ip':
+      return typeof value === 'string' && isIP(value) !== 0;
+    case 'binary':
+      return typeof value === 'string';
+    default:
+      return ['string', 'number', 'boolean'].includes(typeof value);
+  }
+};
+
+class DocumentValidator {
+  readonly issues = new Map<string, ValidationIssue>();
+  private readonly dataStream: string;
+  private readonly fields: FieldDefinitions;
+  /** Off when only ECS is known, since every package field would be reported */
+  private readonly checkUnknownFields: boolean;
+
+  constructor(dataStream: string, fields: FieldDefinitions, checkUnknownFields: boolean) {
+    this.dataStream = dataStream;
+    this.fields = fields;
+    this.checkUnknownFields = checkUnknownFields;
+  }
+
+  addIssue(kind: IssueKind, field: string, detail?: string, example?: unknown): void {
+    const key = `${kind}|${this.dataStream}|${field}|${detail ?? ''}`;
+    const issue = this.issues.get(key) ?? {
+      kind,
+      dataStream: this.dataStream,
+      field,
+      ...(detail && { detail }),
+      ...(example !== undefined && { example: JSON.stringify(example).slice(0, 60) }),
+      count: 0,
+    };
+    issue.count += 1;
+    this.issues.set(key, issue);
+  }
+
+  validate(document: Record<string, unknown>): void {
+    const present = new Set<string>();
+    this.visitObject(document, '', present);
+    for (const field of REQUIRED_FIELDS) {
+      if (!present.has(field)) {
+        this.addIssue('missing field', field);
+      }
+    }
+  }
+
+  private visitObject(value: Record<string, unknown>, prefix: string, present: Set<string>) {
+    for (const [key, child] of Object.entries(value)) {
+      this.visit(child, `${prefix}${key}`, present);
+    }
+  }
+
+  private visit(value: unknown, field: string, present: Set<string>): void {
+    if (value === null || value === undefined) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((element) => this.visit(element, field, present));
+      return;
+    }
+    present.add(field);
+
+    const definition = this.fields.get(field) ?? ECS_FIELDS.get(field);
+    if (!definition) {
+      if (isPlainObject(value)) {
+        this.visitObject(value as Record<string, unknown>, `${field}.`, present);
+      } else if (this.checkUnknownFields) {
+        this.addIssue('unknown field', field, undefined, value);
+      }
+      return;
+    }
+    if (OPAQUE_TYPES.has(definition.type) || definition.dynamic) {
+      return;
+    }
+    if (definition.type === 'object' || definition.type === 'nested') {
+      if (isPlainObject(value)) {
+        this.visitObject(value as Record<string, unknown>, `${field}.`, present);
+      } else {
+        this.addIssue(
+          'type mismatch',
+          field,
+          `expected object, got ${describeValue(value)}`,
+          value,
+        );
+      }
+      return;
+    }
+    if (isPlainObject(value) || !acceptsValue(definition, value)) {
+      this.addIssue(
+        'type mismatch',
+        field,
+        definition.value !== undefined
+          ? `expected constant "${definition.value}"`
+          : `expected ${definition.type}, got ${describeValue(value)}`,
+        value,
+      );
+    }
+  }
+}
+
+const getSnapshotPath = (packageName: string) =>
+  path.join(getFieldSnapshotsDir(), `${packageName}.json`);
+
+const loadSnapshot = (packageName: string): PackageFields | undefined => {
+  const file = getSnapshotPath(packageName);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const snapshot = JSON.parse(fs.readFileSync(file, 'utf8')) as FieldSnapshot;
+  const dataStreams = new Map<string, DataStreamFields>();
+  for (const [index, { fields, constants = {} }] of Object.entries(snapshot.dataStreams)) {
+    const parents = new Set(Object.keys(fields).map((field) => field.replace(/\.[^.]+$/, '')));
+    dataStreams.set(index, {
+      fields: new Map(
+        Object.entries(fields).map(([field, type]) => [
+          field,
+          {
+            type,
+            ...(constants[field] !== undefined && { value: constants[field] }),
+            ...(type === 'object' && !parents.has(field) && { dynamic: true }),
+          },
+        ]),
+      ),
+    });
+  }
+  return { source: 'snapshot', version: snapshot.version, dataStreams };
+};
+
+const saveSnapshot = (packageName: string, { version, dataStreams }: PackageFields): void => {
+  const snapshot: FieldSnapshot = { package: packageName, version: version ?? '', dataStreams: {} };
+  for (const [index, { fields }] of dataStreams) {
+    const sorted = [...fields].sort(([a], [b]) => a.localeCompare(b));
+    const constants = sorted.flatMap(([field, { value }]) =>
+      value === undefined ? [] : [[field, value] as const],
+    );
+    snapshot.dataStreams[index] = {
+      fields: Object.fromEntries(sorted.map(([field, { type }]) => [field, type])),
+      ...(constants.length > 0 && { constants: Object.fromEntries(constants) }),
+    };
+  }
+  fs.mkdirSync(getFieldSnapshotsDir(), { recursive: true });
+  fs.writeFileSync(getSnapshotPath(packageName), `${JSON.stringify(snapshot, null, 2)}\n`);
+  log.info(`  Saved field snapshot ${path.relative(process.cwd(), getSnapshotPath(packageName))}`);
+};
+
+/** Field mappings of the installed package, from the index template each data stream would use. */
+const fetchPackageFields = async (
+  integration: BaseIntegration,
+): Promise<PackageFields | undefined> => {
+  const { item } = await getPackageInfo({
+    packageName: integration.packageName,
+    prerelease: integration.prerelease,
+  });
+  if (item.status !== 'installed') {
+    log.warn(
+      `  ${integration.packageName} is not installed; run org-data without --validate once to check against its mappings`,
+    );
+    return undefined;
+  }
+
+  const dataStreams = new Map<string, DataStreamFields>();
+  for (const { index } of integration.dataStreams) {
+    const { template } = await getEsClient().indices.simulateIndexTemplate({ name: index });
+    const fields = flattenMappings(
+      (template.mappings?.properties ?? {}) as Record<string, MappingProperty>,
+    );
+    dataStreams.set(index, { fields, pipeline: template.settings?.index?.default_pipeline });
+  }
+  return {
+    source: 'cluster',
+    version: item.installationInfo?.version ?? item.version,
+    dataStreams,
+  };
+};
+
+const loadPackageFields = async (
+  integration: BaseIntegration,
+  saveFieldSnapshots: boolean,
+): Promise<PackageFields> => {
+  if (!isFileOutputEnabled()) {
+    try {
+      const fields = await fetchPackageFields(integration);
+      if (fields) {
+        if (saveFieldSnapshots) {
+          saveSnapshot(integration.packageName, fields);
+        }
+        return fields;
+      }
+    } catch (error) {
+      log.warn(
+        `  Could not fetch the ${integration.packageName} mappings (${error instanceof Error ? error.message : String(error)}), using the snapshot`,
+      );
+    }
+  }
+  return (
+    loadSnapshot(integration.packageName) ?? {
+      source: 'ecs',
+      dataStreams: new Map(),
+    }
+  );
+};
+
+/** Documents as the data stream's ingest pipeline would index them; failures become issues. */
+const runPipeline = async (
+  pipeline: string,
+  index: string,
+  documents: IntegrationDocument[],
+  validator: DocumentValidator,
+): Promise<Array<Record<string, unknown>>> => {
+  const processed: Array<Record<string, unknown>> = [];
+  for (const batch of chunk(documents, PIPELINE_BATCH_SIZE)) {
+    const response = await getEsClient().ingest.simulate({
+      id: pipeline,
+      docs: batch.map((document) => ({ _index: index, _source: document })),
+    });
+    for (const result of response.docs) {
+      const source = result.doc?._source as Record<string, unknown> | undefined;
+      const error = (source?.error as { message?: unknown } | undefined)?.message;
+      if (result.error) {
+        validator.addIssue('pipeline error', pipeline, result.error.reason ?? result.error.type);
+      } else if (error) {
+        validator.addIssue('pipeline error', pipeline, [error].flat().join('; ').slice(0, 200));
+      }
+      // Dropped documents have no source
+      if (source) {
+        processed.push(source);
+      }
+    }
+  }
+  return processed;
+};
+
+const logIssues = (issues: ValidationIssue[]): void => {
+  const sorted = [...issues].sort(
+    (a, b) => a.kind.localeCompare(b.kind) || b.count - a.count || a.field.localeCompare(b.field),
+  );
+  for (const issue of sorted.slice(0, MAX_LISTED_ISSUES)) {
+    const detail = issue.detail ? `: ${issue.detail}` : '';
+    const example = issue.example ? ` (e.g. ${issue.example})` : '';
+    log.info(
+      `    ${issue.kind} ${issue.field} in ${issue.dataStream}${detail}${example} - ${issue.count} docs`,
+    );
+  }
+  if (sorted.length > MAX_LISTED_ISSUES) {
+    log.info(`    ... and ${sorted.length - MAX_LISTED_ISSUES} more`);
+  }
+};
+
+const validateIntegration = async (
+  integration: BaseIntegration,
+  org: Organization,
+  correlationMap: CorrelationMap,
+  saveFieldSnapshots: boolean,
+): Promise<{ issues: number; source: PackageFields['source'] }> => {
+  log.info(`\n--- ${integration.displayName} ---`);
+  const packageFields = await loadPackageFields(integration, saveFieldSnapshots);
+  const version = packageFields.version ? ` ${packageFields.version}` : '';
+  const source = {
+    cluster: `installed package${version}, after the ingest pipeline`,
+    snapshot: `field snapshot${version}`,
+    ecs: `ECS only, no snapshot in ${path.relative(process.cwd(), getFieldSnapshotsDir())} (unknown fields not reported)`,
+  }[packageFields.source];
+  log.info(`  Checking against ${source}`);
+
+  const issues: ValidationIssue[] = [];
+  let total = 0;
+  for (const [index, documents] of integration.generateDocuments(org, correlationMap)) {
+    const dataStream = packageFields.dataStreams.get(index);
+    const validator = new DocumentValidator(
+      index,
+      dataStream?.fields ?? new Map(),
+      dataStream !== undefined,
+    );
+    const checked = dataStream?.pipeline
+      ? await runPipeline(dataStream.pipeline, index, documents, validator)
+      : documents;
+    checked.forEach((document) => validator.validate(document));
+    total += documents.length;
+    issues.push(...validator.issues.values());
+  }
+
+  if (issues.length === 0) {
+    log.info(`  ✓ ${total} documents, no issues`);
+    return { issues: 0, source: packageFields.source };
+  }
+  const counts = Object.entries(ISSUE_LABELS)
+    .map(([kind, label]) => [label, issues.filter((issue) => issue.kind === kind).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([label, count]) => `${count} ${label}`);
+  log.info(`  ✗ ${total} documents: ${counts.join(', ')}`);
+  logIssues(issues);
+  recordError(`${integration.displayName}: ${issues.length} validation issues`);
+  return { issues: issues.length, source: packageFields.source };
+};
+
+/**
+ * Validate the documents of each integration instead of installing and indexing them. Issues
+ * are recorded as errors, so the command exits with the partial-failure code.
+ */
+export const validateIntegrations = async (
+  integrations: BaseIntegration[],
+  org: Organization,
+  correlationMap: CorrelationMap,
+  { saveFieldSnapshots = false }: { saveFieldSnapshots?: boolean } = {},
+): Promise<void> => {
+  log.info('Validating generated documents (nothing is installed or indexed)...');
+  let issues = 0;
+  const ecsOnly: string[] = [];
+  for (const integration of integrations) {
+    const result = await validateIntegration(integration, org, correlationMap, saveFieldSnapshots);
+    issues += result.issues;
+    if (result.source === 'ecs') {
+      ecsOnly.push(integration.displayName);
+    }
+  }
+  log.info(
+    issues === 0
+      ? `\nValidation passed for ${integrations.length} integrations`
+      : `\nValidation found ${issues} issues across ${integrations.length} integrations`,
+  );
+  if (ecsOnly.length > 0) {
+    log.warn(
+      `${ecsOnly.length} integrations were checked against ECS only, so unknown fields such as typos were not detected: ${ecsOnly.join(', ')}. Validate against a cluster with the packages installed, or save field snapshots there with --save-field-snapshots.`,
+    );
+  }
+};
@@ -1,10 +1,12 @@
 import fs from 'fs/promises';
-import { resolve } from 'path';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
 import { log } from '../../utils/logger.ts';
 import { type User } from '../privileged_access_detection_ml/event_generator.ts';
-import { srcDirectory } from '../../index.ts';
 import { enablePrivmon, uploadPrivmonCsv } from '../../utils/kibana_api.ts';
 
+const srcDirectory = dirname(dirname(dirname(fileURLToPath(import.meta.url))));
+
 const CSV_FILE_NAME = 'privileged_users.csv';
 
 const generateLabelForUser = (user: User): string => {
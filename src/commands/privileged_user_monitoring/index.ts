@@ -6,60 +6,100 @@ import {
 } from '../../constants.ts';
 import { privmonCommand } from './privileged_user_monitoring.ts';
 import { promptForSelection, promptForTextInput } from '../utils/interactive_prompts.ts';
-import { parseIntBase10, wrapAction } from '../utils/cli_utils.ts';
+import { parseIntBase10, parseListOption, wrapAction } from '../utils/cli_utils.ts';
+import { addSpaceFanOutOptions, resolveFanOutSpaces, runForSpaces } from '../utils/space_fanout.ts';
+import { log } from '../../utils/logger.ts';
 
 export const privilegedUserMonitoringCommands: CommandModule = {
   register(program: Command) {
-    program
-      .command('privileged-user-monitoring')
-      .alias('privmon')
-      .description(
-        `Generate source events and anomalous source data for privileged user monitoring and the privileged access detection ML jobs.`,
+    addSpaceFanOutOptions(
+      program
+        .command('privileged-user-monitoring')
+        .alias('privmon')
+        .description(
+          `Generate source events and anomalous source data for privileged user monitoring and the privileged access detection ML jobs.`,
+        )
+        .option('--space <space>', 'Space to use', 'default'),
+    )
+      .option(
+        '--options <list>',
+        `Comma-separated options without prompting: ${Object.values(PRIVILEGED_USER_MONITORING_OPTIONS).join(', ')} (default: all but entityStore)`,
       )
-      .option('--space <space>', 'Space to use', 'default')
+      .option('--user-count <n>', 'Number of users (default 10)', parseIntBase10)
       .action(
         wrapAction(async (options) => {
-          const answers = await promptForSelection<PrivilegedUserMonitoringOption>({
-            message: 'Select options',
-            choices: [
-              {
-                name: 'Basic events',
-                value: PRIVILEGED_USER_MONITORING_OPTIONS.sourceEventData,
-                checked: true,
-              },
-              {
-                name: 'Anomaly events',
-                value: PRIVILEGED_USER_MONITORING_OPTIONS.anomalyData,
-                checked: true,
-              },
-              {
-                name: 'Upload CSV (skip onboarding)',
-                value: PRIVILEGED_USER_MONITORING_OPTIONS.csvFile,
-                checked: true,
-              },
-              {
-                name: 'Integration data',
-                value: PRIVILEGED_USER_MONITORING_OPTIONS.integrationSyncSourceEventData,
-                checked: true,
-              },
-              {
-                name: 'Enable risk engine',
-                value: PRIVILEGED_USER_MONITORING_OPTIONS.riskEngineAndRule,
-                checked: true,
-              },
-              {
-                name: 'Assign asset criticality',
-                value: PRIVILEGED_USER_MONITORING_OPTIONS.assetCriticality,
-                checked: true,
-              },
+          const spaces = resolveFanOutSpaces(options, { space: options.space, flag: '--space' });
+          const answers =
+            options.options !== undefined
+              ? parseListOption(
+                  options.options,
+                  Object.values(PRIVILEGED_USER_MONITORING_OPTIONS),
+                  '--options',
+                )
+              : await promptForSelection<PrivilegedUserMonitoringOption>({
+                  message: 'Select options',
+                  flag: '--options',
+                  choices: [
+                    {
+                      name: 'Basic events',
+                      value: PRIVILEGED_USER_MONITORING_OPTIONS.sourceEventData,
+                      checked: true,
+                    },
+                    {
+                      name: 'Anomaly events',
+                      value: PRIVILEGED_USER_MONITORING_OPTIONS.anomalyData,
+                      checked: true,
+                    },
+                    {
+                      name: 'Upload CSV (skip onboarding)',
+                      value: PRIVILEGED_USER_MONITORING_OPTIONS.csvFile,
+                      checked: true,
+                    },
+                    {
+                      name: 'Integration data',
+                      value: PRIVILEGED_USER_MONITORING_OPTIONS.integrationSyncSourceEventData,
+                      checked: true,
+                    },
+                    {
+                      name: 'Enable risk engine',
+                      value: PRIVILEGED_USER_MONITORING_OPTIONS.riskEngineAndRule,
+                      checked: true,
+                    },
+                    {
+                      name: 'Assign asset criticality',
+                      value: PRIVILEGED_USER_MONITORING_OPTIONS.assetCriticality,
+                      checked: true,
+                    },
+                    {
+                      name: 'Install PAD',
+                      value: PRIVILEGED_USER_MONITORING_OPTIONS.installPad,
+                      checked: true,
+                    },
+                  ],
+                });
+          const userCount =
+            options.userCount ??
+            parseIntBase10(await promptForTextInput('How many users', '10', '--user-count'));
+
+          if (spaces) {
+            // The risk engine option keeps scheduling runs until Ctrl+C, so every space needs
+            // its own slot or the later spaces would never start
+            const holdsSlot = answers.includes(
+              PRIVILEGED_USER_MONITORING_OPTIONS.riskEngineAndRule,
+            );
+            if (holdsSlot && options.spaceConcurrency !== undefined) {
+              log.info('Risk engine scheduling runs until Ctrl+C: ignoring --space-concurrency');
+            }
+            await runForSpaces(
+              spaces,
               {
-                name: 'Install PAD',
-                value: PRIVILEGED_USER_MONITORING_OPTIONS.installPad,
-                checked: true,
+                ...options,
+                spaceConcurrency: holdsSlot ? spaces.length : options.spaceConcurrency,
               },
-            ],
-          });
-          const userCount = parseIntBase10(await promptForTextInput('How many users', '10'));
+              (space) => privmonCommand({ options: answers, userCount, space }),
+            );
+            return;
+          }
           await privmonCommand({
             options: answers,
             userCount,
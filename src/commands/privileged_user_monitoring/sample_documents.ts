@@ -3,6 +3,7 @@ import {
   type OktaSampleUser,
   type AdSampleUser,
 } from '../utils/integrations_sync_utils.ts';
+import { random } from '../../utils/seeded_random.ts';
 import { userNameAsEmail, userNameWhitespaceRemoved } from '../utils/sample_data_helpers.ts';
 
 /**
@@ -27,7 +28,7 @@ const GROUP_SID_MAP: Record<string, string> = {
 const getGroupId = (name: string): string => {
   return (
     GROUP_SID_MAP[name] ||
-    `S-1-5-21-123456789-234567890-345678901-${Math.floor(Math.random() * 5000 + 2000)}`
+    `S-1-5-21-123456789-234567890-345678901-${Math.floor(random() * 5000 + 2000)}`
   );
 };
 
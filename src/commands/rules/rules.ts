@@ -6,6 +6,7 @@ import { chunk } from 'lodash-es';
 import { createRule, getAllRules, bulkDeleteRules } from '../../utils/kibana_api.ts';
 import { bulkIngest } from '../shared/elasticsearch.ts';
 import { EVENTS_INDEX, SMALL_CHUNK_SIZE } from '../../constants.ts';
+import { getNow } from '../../utils/seeded_random.ts';
 
 interface Event {
   '@timestamp': string;
@@ -89,7 +90,7 @@ interface GapEvent {
 }
 
 const generateEvent = (from: number): Event => ({
-  '@timestamp': dayjs()
+  '@timestamp': dayjs(getNow())
     .subtract(faker.number.int({ min: 1, max: from }), 'h')
     .toISOString(),
   message: faker.lorem.sentence(),
@@ -162,8 +163,8 @@ const generateNonOverlappingGapEvents = (
   // Convert minute-based gaps to actual gap events
   return gaps.map((gap) => {
     const gapDurationMs = (gap.end - gap.start) * 60 * 1000;
-    const gapEndTime = dayjs().subtract(gap.start, 'minutes');
-    const gapStartTime = dayjs().subtract(gap.end, 'minutes');
+    const gapEndTime = dayjs(getNow()).subtract(gap.start, 'minutes');
+    const gapStartTime = dayjs(getNow()).subtract(gap.end, 'minutes');
 
     const range = {
       gte: gapStartTime.toISOString(),
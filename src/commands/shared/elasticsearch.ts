@@ -7,9 +7,19 @@ import {
 import { chunk } from 'lodash-es';
 import { getEsClient } from '../utils/indices.ts';
 import { addMetadataToDoc } from '../../utils/doc_metadata.ts';
-import { createProgressBar } from '../utils/cli_utils.ts';
+import { createProgressBar, isShuttingDown } from '../utils/cli_utils.ts';
 import { DEFAULT_CHUNK_SIZE } from '../../constants.ts';
 import { log } from '../../utils/logger.ts';
+import { sleep } from '../../utils/sleep.ts';
+import { isFileOutputEnabled, writeBulkOperations } from '../../utils/file_output.ts';
+import { recordBulkOperations, recordIndex } from '../../utils/run_ledger.ts';
+import {
+  recordBulkResponse,
+  recordDocumentFailed,
+  recordDocumentWritten,
+  recordRetriedDocuments,
+} from '../../utils/command_result.ts';
+import { RETRY_POLICY, isRetryableStatus, waitBeforeRetry, withRetry } from '../../utils/retry.ts';
 
 export type BulkOperationTuple = [BulkOperationContainer, object];
 
@@ -49,6 +59,103 @@ export const logBulkErrors = (result: BulkResponse, context: string): void => {
   log.error(context, failedItems);
 };
 
+/** Split a bulk body into per-item entries: the action line and its document (none for deletes). */
+const toBulkEntries = (operations: unknown[]): unknown[][] => {
+  const entries: unknown[][] = [];
+  let position = 0;
+  while (position < operations.length) {
+    const size = 'delete' in (operations[position] as object) ? 1 : 2;
+    entries.push(operations.slice(position, position + size));
+    position += size;
+  }
+  return entries;
+};
+
+const getItemStatus = (item: BulkResponse['items'][number]): number | undefined =>
+  Object.values(item)[0]?.status;
+
+/** Whole-request failures worth retrying: 429/5xx responses and dropped connections. */
+const isTransientEsError = (error: Error): boolean =>
+  isRetryableStatus((error as { meta?: { statusCode?: number } }).meta?.statusCode) ||
+  error.name === 'ConnectionError' ||
+  error.name === 'TimeoutError';
+
+/**
+ * Send a bulk request and re-submit only the items rejected with 429/5xx, backing off between
+ * attempts. The returned response holds the final outcome of every item at its original
+ * position, so callers see the items that still failed once retries ran out.
+ */
+const bulkWithRetry = async (
+  operations: unknown[],
+  send: (operations: unknown[]) => Promise<BulkResponse>,
+): Promise<BulkResponse> => {
+  const sendWithRetry = (body: unknown[]) =>
+    withRetry('Bulk request', () => send(body), isTransientEsError);
+
+  const response = await sendWithRetry(operations);
+  let pending = response.items
+    .map((item, position) => (isRetryableStatus(getItemStatus(item)) ? position : -1))
+    .filter((position) => position >= 0);
+  if (pending.length === 0) {
+    return response;
+  }
+
+  const entries = toBulkEntries(operations);
+  for (let retry = 1; pending.length > 0 && retry <= RETRY_POLICY.retries; retry++) {
+    log.warn(
+      `${pending.length} bulk item(s) rejected with status ${getItemStatus(response.items[pending[0]])}, re-submitting (retry ${retry}/${RETRY_POLICY.retries})...`,
+    );
+    await waitBeforeRetry(retry);
+    recordRetriedDocuments(pending.length);
+    const retried = await sendWithRetry(pending.flatMap((position) => entries[position]));
+    retried.items.forEach((item, i) => {
+      response.items[pending[i]] = item;
+    });
+    pending = pending.filter((_, i) => isRetryableStatus(getItemStatus(retried.items[i])));
+  }
+
+  response.errors = response.items.some((item) => Object.values(item)[0]?.error);
+  return response;
+};
+
+/** Called after every bulk attempt (including re-submissions) with the raw response. */
+type BulkAttemptObserver = (attempt: {
+  response: BulkResponse;
+  latencyMs: number;
+  rejected: number;
+}) => void;
+
+const sendBulk = async (
+  params: { documents: unknown[]; refresh?: boolean; pipeline?: string },
+  onAttempt?: BulkAttemptObserver,
+): Promise<BulkResponse> => {
+  const { documents, refresh = true, pipeline } = params;
+  if (isFileOutputEnabled()) {
+    const written = writeBulkOperations(documents);
+    recordBulkResponse(written);
+    return written;
+  }
+  recordBulkOperations(documents);
+  const client = getEsClient();
+  const result = await bulkWithRetry(documents, async (body) => {
+    const startedAt = Date.now();
+    const response = await client.bulk({
+      body,
+      refresh,
+      ...(pipeline !== undefined && { pipeline }),
+    });
+    onAttempt?.({
+      response,
+      latencyMs: Date.now() - startedAt,
+      rejected: response.items.filter((item) => isRetryableStatus(getItemStatus(item))).length,
+    });
+    return response;
+  });
+  recordBulkResponse(result);
+  logBulkErrors(result, 'Bulk request reported errors. Some documents may have failed.');
+  return result;
+};
+
 /**
  * Execute a bulk request with a pre-built body (array of operation + document pairs).
  * Use when the caller has already constructed the full bulk body (e.g. mixed indices, custom _id).
@@ -58,15 +165,7 @@ export async function bulkUpsert(params: {
   refresh?: boolean;
   pipeline?: string;
 }): Promise<BulkResponse> {
-  const { documents, refresh = true, pipeline } = params;
-  const client = getEsClient();
-  const result = await client.bulk({
-    body: documents,
-    refresh,
-    ...(pipeline !== undefined && { pipeline }),
-  });
-  logBulkErrors(result, 'Bulk request reported errors. Some documents may have failed.');
-  return result;
+  return sendBulk(params);
 }
 
 export interface BulkIngestParams {
@@ -96,7 +195,6 @@ export async function bulkIngest(params: BulkIngestParams): Promise<void> {
     pipeline,
   } = params;
 
-  const client = getEsClient();
   const chunks = chunk(documents, chunkSize);
   const progressBar = showProgress ? createProgressBar(index) : null;
 
@@ -111,7 +209,17 @@ export async function bulkIngest(params: BulkIngestParams): Promise<void> {
       return [op, payload];
     });
 
-    const result = await client.bulk({ index, operations, refresh, pipeline });
+    if (isFileOutputEnabled()) {
+      recordBulkResponse(writeBulkOperations(operations, index));
+      progressBar?.increment(chunkDocs.length);
+      continue;
+    }
+
+    recordIndex(index, metadata);
+    const result = await bulkWithRetry(operations, (body) =>
+      getEsClient().bulk({ index, operations: body, refresh, pipeline }),
+    );
+    recordBulkResponse(result);
     logBulkErrors(result, 'Bulk ingest reported errors. Continuing with potential partial data.');
     if (progressBar) {
       progressBar.increment(chunkDocs.length);
@@ -128,24 +236,54 @@ export const DEFAULT_BULK_FLUSH_BYTES = 5 * 1024 * 1024;
 export const DEFAULT_BULK_FLUSH_INTERVAL_MS = 30_000;
 export const DEFAULT_BULK_CONCURRENCY = 8;
 
-export interface StreamingBulkIngestParams {
+export interface StreamingBulkIngestParams<T extends object = object> {
   index: string;
-  datasource: AsyncIterable<object>;
+  datasource: AsyncIterable<T>;
   flushBytes?: number;
   flushInterval?: number;
   concurrency?: number;
   /** Passed to the Bulk API (e.g. `_none` to skip ingest pipelines). */
   pipeline?: string;
   onDrop?: (doc: unknown) => void;
-  onDocument?: (doc: object) => BulkOperationTuple;
+  onDocument?: (doc: T) => BulkOperationTuple;
   onSuccess?: () => void;
 }
 
+const FILE_OUTPUT_STREAM_BATCH_SIZE = 1000;
+
+/** Dry-run counterpart of helpers.bulk: drains the stream into the per-index NDJSON files. */
+const writeStreamToFiles = async <T extends object>(
+  datasource: AsyncIterable<T>,
+  docTransform: (doc: T) => BulkOperationTuple,
+  index: string,
+  onSuccess?: () => void,
+): Promise<void> => {
+  let operations: unknown[] = [];
+  const flush = () => {
+    const count = operations.length / 2;
+    recordBulkResponse(writeBulkOperations(operations, index));
+    operations = [];
+    for (let i = 0; i < count; i++) {
+      onSuccess?.();
+    }
+  };
+
+  for await (const doc of datasource) {
+    operations.push(...docTransform(doc));
+    if (operations.length / 2 >= FILE_OUTPUT_STREAM_BATCH_SIZE) {
+      flush();
+    }
+  }
+  flush();
+};
+
 /**
  * Stream documents from an async iterable into Elasticsearch using the helpers.bulk API.
  * Use for large or unbounded streams (e.g. file line readers, generators).
  */
-export async function streamingBulkIngest(params: StreamingBulkIngestParams): Promise<void> {
+export async function streamingBulkIngest<T extends object = object>(
+  params: StreamingBulkIngestParams<T>,
+): Promise<void> {
   const {
     index,
     datasource,
@@ -158,35 +296,210 @@ export async function streamingBulkIngest(params: StreamingBulkIngestParams): Pr
     onSuccess,
   } = params;
 
-  const defaultOnDocument = (doc: object): BulkOperationTuple => [
+  const defaultOnDocument = (doc: T): BulkOperationTuple => [
     { create: { _index: index } as BulkCreateOperation },
     { ...doc },
   ];
-  const docTransform = onDocument ?? defaultOnDocument;
+  const docTransform: (doc: T) => BulkOperationTuple = onDocument ?? defaultOnDocument;
+
+  if (isFileOutputEnabled()) {
+    await writeStreamToFiles(datasource, docTransform, index, onSuccess);
+    return;
+  }
 
   const client = getEsClient();
+  const targetIndex = (action: object | undefined): string =>
+    (Object.values(action ?? {})[0] as { _index?: string } | undefined)?._index ?? index;
+  const recordingTransform = (doc: T): BulkOperationTuple => {
+    const operations = docTransform(doc);
+    recordBulkOperations(operations, index);
+    recordDocumentWritten(targetIndex(operations[0]));
+    return operations;
+  };
 
   // helpers.bulk expects AsyncIterator; get iterator from AsyncIterable
-  const iterator = (datasource as AsyncIterable<object>)[Symbol.asyncIterator]();
+  const iterator = datasource[Symbol.asyncIterator]();
 
   await client.helpers.bulk({
     datasource: iterator,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any -- helpers.bulk Action type is a complex union
-    onDocument: (doc: object) => docTransform(doc) as any,
+    onDocument: (doc: T) => recordingTransform(doc) as any,
     flushBytes,
     flushInterval,
+    // helpers.bulk re-submits items rejected with 429 itself; align it with the shared policy
+    retries: RETRY_POLICY.retries,
+    wait: RETRY_POLICY.minTimeout,
     ...(concurrency !== undefined && { concurrency }),
     ...(pipeline !== undefined && { pipeline }),
-    onDrop: onDrop ? (d) => onDrop(d.document) : undefined,
+    onDrop: (d) => {
+      recordDocumentFailed(targetIndex(d.operation));
+      onDrop?.(d.document);
+    },
     onSuccess,
   });
 }
 
+/** Bounds for the adaptive controller; starts at the helpers.bulk defaults and adjusts from there. */
+const ADAPTIVE_MIN_BATCH_BYTES = 1024 * 1024;
+const ADAPTIVE_MAX_BATCH_BYTES = 15 * 1024 * 1024;
+const ADAPTIVE_INITIAL_CONCURRENCY = 2;
+/** Bulk latency band the controller steers towards */
+const ADAPTIVE_TARGET_LATENCY_MS = { low: 1000, high: 5000 };
+
+export interface AdaptiveBulkIngestParams {
+  /** Shown in the throughput report, e.g. the index or document kind */
+  label: string;
+  operations: Iterable<BulkOperationTuple> | AsyncIterable<BulkOperationTuple>;
+  /** Docs/sec ceiling; the controller never sends faster, even when the cluster could take more */
+  maxDocsPerSecond?: number;
+  /** Upper bound for bulk requests in flight */
+  maxConcurrency?: number;
+  refresh?: boolean;
+  pipeline?: string;
+  /** Called with the number of documents of each completed batch */
+  onProgress?: (documents: number) => void;
+}
+
+export interface AdaptiveBulkIngestReport {
+  documents: number;
+  failed: number;
+  durationMs: number;
+  docsPerSecond: number;
+  /** Batch size and concurrency the controller settled on */
+  batchBytes: number;
+  concurrency: number;
+}
+
+/**
+ * AIMD-style tuning of batch size and concurrency: rejections (429/5xx) halve the concurrency
+ * and shrink batches, slow responses shrink batches first, fast responses add a request in
+ * flight and then grow batches.
+ */
+const createThroughputController = (maxConcurrency: number) => {
+  const state = {
+    batchBytes: DEFAULT_BULK_FLUSH_BYTES,
+    concurrency: Math.min(ADAPTIVE_INITIAL_CONCURRENCY, maxConcurrency),
+  };
+
+  const observe: BulkAttemptObserver = ({ latencyMs, rejected }) => {
+    if (rejected > 0) {
+      state.concurrency = Math.max(1, Math.floor(state.concurrency / 2));
+      state.batchBytes = Math.max(ADAPTIVE_MIN_BATCH_BYTES, Math.floor(state.batchBytes * 0.75));
+    } else if (latencyMs > ADAPTIVE_TARGET_LATENCY_MS.high) {
+      if (state.batchBytes > ADAPTIVE_MIN_BATCH_BYTES) {
+        state.batchBytes = Math.max(ADAPTIVE_MIN_BATCH_BYTES, Math.floor(state.batchBytes * 0.75));
+      } else {
+        state.concurrency = Math.max(1, state.concurrency - 1);
+      }
+    } else if (latencyMs < ADAPTIVE_TARGET_LATENCY_MS.low) {
+      if (state.concurrency < maxConcurrency) {
+        state.concurrency += 1;
+      } else {
+        state.batchBytes = Math.min(ADAPTIVE_MAX_BATCH_BYTES, Math.floor(state.batchBytes * 1.25));
+      }
+    }
+  };
+
+  return { state, observe };
+};
+
+/**
+ * Ingest a large stream of bulk operations with batch size and concurrency tuned from observed
+ * bulk latency and rejections, optionally capped at a docs/sec ceiling. Use for high-volume
+ * generators, so big runs neither overload small clusters nor underuse large ones.
+ */
+export async function adaptiveBulkIngest(
+  params: AdaptiveBulkIngestParams,
+): Promise<AdaptiveBulkIngestReport> {
+  const {
+    label,
+    operations,
+    maxDocsPerSecond,
+    maxConcurrency = DEFAULT_BULK_CONCURRENCY,
+    refresh = false,
+    pipeline,
+    onProgress,
+  } = params;
+
+  const controller = createThroughputController(maxConcurrency);
+  const inFlight = new Set<Promise<void>>();
+  const startedAt = Date.now();
+  let dispatched = 0;
+  let failed = 0;
+  let failure: unknown;
+
+  const dispatch = async (batch: unknown[]) => {
+    const documents = batch.length / 2;
+    dispatched += documents;
+    if (maxDocsPerSecond !== undefined) {
+      // Hold each batch until the documents sent so far fit under the ceiling
+      await sleep(Math.max(0, startedAt + (dispatched / maxDocsPerSecond) * 1000 - Date.now()));
+    }
+    const request = sendBulk({ documents: batch, refresh, pipeline }, controller.observe)
+      .then((response) => {
+        failed += response.items.filter((item) => Object.values(item)[0]?.error).length;
+        onProgress?.(documents);
+      })
+      .catch((error: unknown) => {
+        failure ??= error;
+      })
+      .finally(() => inFlight.delete(request));
+    inFlight.add(request);
+    while (inFlight.size >= controller.state.concurrency) {
+      await Promise.race(inFlight);
+    }
+  };
+
+  let batch: unknown[] = [];
+  let batchBytes = 0;
+  for await (const [action, document] of operations) {
+    if (failure !== undefined || isShuttingDown()) {
+      break;
+    }
+    batch.push(action, document);
+    batchBytes += JSON.stringify(action).length + JSON.stringify(document).length + 2;
+    // With a ceiling, batches hold at most a second's worth of documents to avoid bursts
+    if (
+      batchBytes >= controller.state.batchBytes ||
+      (maxDocsPerSecond !== undefined && batch.length / 2 >= maxDocsPerSecond)
+    ) {
+      await dispatch(batch);
+      batch = [];
+      batchBytes = 0;
+    }
+  }
+  if (batch.length > 0 && failure === undefined && !isShuttingDown()) {
+    await dispatch(batch);
+  }
+  await Promise.all(inFlight);
+  if (failure !== undefined) {
+    throw failure;
+  }
+
+  const durationMs = Math.max(Date.now() - startedAt, 1);
+  const report: AdaptiveBulkIngestReport = {
+    documents: dispatched - failed,
+    failed,
+    durationMs,
+    docsPerSecond: Math.round((dispatched / durationMs) * 1000),
+    ...controller.state,
+  };
+  log.info(
+    `${label}: ${report.documents} docs in ${(durationMs / 1000).toFixed(1)}s (~${report.docsPerSecond} docs/sec achieved` +
+      `${maxDocsPerSecond !== undefined ? `, ceiling ${maxDocsPerSecond}` : ''}; settled on ~${(report.batchBytes / 1024 / 1024).toFixed(1)} MB batches, ${report.concurrency} in flight)`,
+  );
+  return report;
+}
+
 export async function deleteAllByIndex(params: {
   index: string | string[];
   refresh?: boolean;
   ignoreUnavailable?: boolean;
 }): Promise<DeleteByQueryResponse> {
+  if (isFileOutputEnabled()) {
+    log.info(`Dry run: skipping delete of all documents in ${String(params.index)}`);
+    return { deleted: 0 };
+  }
   const client = getEsClient();
   return client.deleteByQuery({
     index: params.index,
@@ -197,6 +510,10 @@ export async function deleteAllByIndex(params: {
 }
 
 export async function deleteDataStreamSafe(name: string): Promise<void> {
+  if (isFileOutputEnabled()) {
+    log.info(`Dry run: skipping delete of data stream ${name}`);
+    return;
+  }
   const client = getEsClient();
   try {
     await client.indices.deleteDataStream({ name });
@@ -1,6 +1,8 @@
 import cliProgress from 'cli-progress';
-import { select } from '@inquirer/prompts';
 import { log } from '../../utils/logger.ts';
+import { Writable } from 'stream';
+import { isJsonOutput, recordError } from '../../utils/command_result.ts';
+import { ConfigError, ValidationError } from '../../utils/errors.ts';
 
 export const parseIntBase10 = (input: string) => parseInt(input, 10);
 export const parseOptionInt = (input: string | undefined, fallback: number): number =>
@@ -14,6 +16,53 @@ export const assertPositiveInt = (value: number, flagName: string): void => {
   }
 };
 
+/** Parse a comma-separated option, rejecting values outside `accepted`. */
+export const parseListOption = <T extends string>(
+  input: string,
+  accepted: readonly T[],
+  flagName: string,
+): T[] => {
+  const values = input
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  const unknown = values.filter((value) => !accepted.includes(value as T));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `${flagName}: unknown value(s) ${unknown.join(', ')} (accepted: ${accepted.join(', ')})`,
+    );
+  }
+  return values as T[];
+};
+
+/** Parse a weighted mix like `a=60,b=40` into weights, rejecting keys outside `accepted`. */
+export const parseWeightMix = <T extends string>(
+  input: string,
+  accepted: readonly T[],
+  flagName: string,
+): Partial<Record<T, number>> => {
+  const weights: Partial<Record<T, number>> = {};
+  for (const part of input
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean)) {
+    const [key, weight] = part.split('=').map((value) => value.trim());
+    if (!accepted.includes(key as T)) {
+      throw new ValidationError(
+        `${flagName}: unknown value "${key}" (accepted: ${accepted.join(', ')})`,
+      );
+    }
+    const value = Number(weight);
+    if (weight === undefined || !Number.isFinite(value) || value < 0) {
+      throw new ValidationError(
+        `${flagName}: "${part}" needs a non-negative weight, e.g. ${key}=20`,
+      );
+    }
+    weights[key as T] = value;
+  }
+  return weights;
+};
+
 const DURATION_UNIT_MS: Record<string, number> = {
   ms: 1,
   s: 1000,
@@ -70,7 +119,16 @@ const formatCauseChain = (error: unknown): string[] => {
 
 export function handleCommandError(error: unknown, message?: string): never {
   const prefix = message ?? 'Command failed';
-  if (error instanceof Error) {
+  recordError(
+    `${prefix}: ${error instanceof Error ? `${error.name}: ${error.message}` : String(error)}`,
+  );
+  if (error instanceof ConfigError || error instanceof ValidationError) {
+    // The message is written for the user; a stack or error name adds nothing
+    log.error(error.message);
+    if (error instanceof ConfigError) {
+      error.details.forEach((detail) => log.error(`  - ${detail}`));
+    }
+  } else if (error instanceof Error) {
     const e = error as Error & {
       statusCode?: number;
       responseData?: unknown;
@@ -95,18 +153,23 @@ export function handleCommandError(error: unknown, message?: string): never {
   process.exit(1);
 }
 
+let shuttingDown = false;
+
+/** True once Ctrl+C was pressed during a wrapped action; long-running loops should wind down. */
+export const isShuttingDown = (): boolean => shuttingDown;
+
 export function wrapAction<TArgs extends unknown[]>(
   fn: (...args: TArgs) => Promise<void>,
 ): (...args: TArgs) => Promise<void> {
   return async (...args: TArgs) => {
-    let isShuttingDown = false;
+    shuttingDown = false;
 
     const onSigInt = () => {
-      if (isShuttingDown) {
+      if (shuttingDown) {
         log.info('\nForce quitting...');
         process.exit(130);
       }
-      isShuttingDown = true;
+      shuttingDown = true;
       log.info('\nInterrupted, shutting down... (Ctrl+C again to force quit)');
       process.exitCode = 130;
 
@@ -128,6 +191,12 @@ export function wrapAction<TArgs extends unknown[]>(
   };
 }
 
+/** Progress bars only render on a TTY, so giving them a silent sink hides them with --json. */
+const silentStream = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+
+export const getProgressBarStreamOptions = (): { stream?: NodeJS.WritableStream } =>
+  isJsonOutput() ? { stream: silentStream } : {};
+
 export interface ProgressBarOptions {
   format?: string;
   clearOnComplete?: boolean;
@@ -143,19 +212,8 @@ export const createProgressBar = (
     {
       format: format ?? defaultFormat,
       clearOnComplete: clearOnComplete ?? false,
+      ...getProgressBarStreamOptions(),
     },
     cliProgress.Presets.shades_classic,
   );
 };
-
-export const promptForFileSelection = async (fileList: string[]) => {
-  if (fileList.length === 0) {
-    log.info('No files to upload');
-    process.exit(1);
-  }
-
-  return select({
-    message: 'Select a file to upload',
-    choices: fileList.map((file) => ({ name: file, value: file })),
-  });
-};
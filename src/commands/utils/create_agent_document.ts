@@ -1,12 +1,13 @@
-import crypto from 'crypto';
+import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc.js';
+import { getNow } from '../../utils/seeded_random.ts';
 dayjs.extend(utc);
 
 export const createAgentDocument = ({ hostname }: { hostname: string }) => {
-  const agentId = crypto.randomUUID();
+  const agentId = faker.string.uuid();
 
-  const nowTimestamp = dayjs().utc().toISOString();
+  const nowTimestamp = dayjs(getNow()).utc().toISOString();
 
   return {
     access_api_key_id: 'WDxG740BAG_XfFTa8Wbz',
@@ -4,6 +4,7 @@ import { type IndicesCreateRequest } from '@elastic/elasticsearch/lib/api/types'
 import { exec } from 'child_process';
 import { bulkIngest } from '../shared/elasticsearch.ts';
 import { log } from '../../utils/logger.ts';
+import { isFileOutputEnabled } from '../../utils/file_output.ts';
 
 export * from './create_agent_document.ts';
 
@@ -22,6 +23,11 @@ const getClientAuth = (config: ConfigType) => {
   return auth;
 };
 
+/** Use this client instead of one built from the config (programmatic use). */
+export const setEsClient = (client: Client): void => {
+  esClient = client;
+};
+
 export const getEsClient = () => {
   if (esClient) return esClient;
   const config = getConfig();
@@ -60,6 +66,7 @@ export const getFileLineCount = async (filePath: string): Promise<number> => {
 };
 
 export const indexCheck = async (index: string, body?: Omit<IndicesCreateRequest, 'index'>) => {
+  if (isFileOutputEnabled()) return;
   const client = getEsClient();
   if (!client) {
     throw new Error();
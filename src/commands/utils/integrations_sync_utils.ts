@@ -3,6 +3,7 @@ import {
   AD_USERS_SAMPLE_DOCUMENT,
   OKTA_USERS_SAMPLE_DOCUMENT,
 } from '../privileged_user_monitoring/sample_documents.ts';
+import { random, getNow } from '../../utils/seeded_random.ts';
 import { userNameAsEmail, userNameWhitespaceRemoved } from './sample_data_helpers.ts';
 import { TimeWindows } from './time_windows.ts';
 import { faker } from '@faker-js/faker';
@@ -86,7 +87,7 @@ export const createAdSampleUser = (): AdSampleUser => {
 };
 
 // integrations helpers for admin roles split
-export const pick = <T>(a: T[]) => a[Math.floor(Math.random() * a.length)];
+export const pick = <T>(a: T[]) => a[Math.floor(random() * a.length)];
 export const makeDoc = (isAdmin: boolean) =>
   OKTA_USERS_SAMPLE_DOCUMENT(
     createOktaSampleUser(), // new user each doc
@@ -152,7 +153,7 @@ export const makeEntityFullSyncEventPair = ({
 export const createSampleFullSyncEvents = ({
   count,
   syncWindowMs, // e.g. 24h = 24 * 60 * 60 * 1000
-  base = new Date(), // starting anchor (defaults to "now")
+  base = new Date(getNow()), // starting anchor (defaults to "now")
 }: {
   count: number;
   syncWindowMs: number;
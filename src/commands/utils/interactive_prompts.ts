@@ -1,34 +1,144 @@
-import { checkbox, input } from '@inquirer/prompts';
+/**
+ * Interactive prompts
+ * Every prompt goes through these helpers so the global --yes / --non-interactive option can
+ * answer them for CI. Commands take CLI flag values first and only prompt for what is missing.
+ * In non-interactive mode a prompt takes its default, and a prompt without one is required: the
+ * command fails with the flags to pass instead of waiting for input.
+ */
+
+import { checkbox, confirm, input, select } from '@inquirer/prompts';
 import { parseIntBase10 } from './cli_utils.ts';
+import { log } from '../../utils/logger.ts';
+import { ValidationError } from '../../utils/errors.ts';
 
 export interface NumericPrompt {
   key: string;
   message: string;
   defaultValue: string;
+  /** CLI flag answering the prompt, named in non-interactive mode */
+  flag: string;
+  /** Value given with the flag; skips the prompt */
+  value?: number;
 }
 
+let nonInteractive = false;
+
+export const setNonInteractive = (value: boolean): void => {
+  nonInteractive = value;
+};
+
+export const isNonInteractive = (): boolean => nonInteractive;
+
+/** The option is read before commands are parsed, since the first-run config prompt runs first. */
+export const hasNonInteractiveFlag = (argv: string[]): boolean =>
+  argv.some((arg) => arg === '-y' || arg === '--yes' || arg === '--non-interactive');
+
+const logDefault = (message: string, value: unknown, flag: string): void => {
+  log.info(`${message.replace(/[?:]\s*$/, '')}: ${String(value)} (default, set with ${flag})`);
+};
+
+/**
+ * In non-interactive mode, fail with every missing flag at once when required answers (flag ->
+ * value given on the command line) are missing. Call it before the first prompt of a command.
+ */
+export const assertRequiredFlags = (answers: Record<string, unknown>): void => {
+  if (!nonInteractive) {
+    return;
+  }
+  const missing = Object.entries(answers)
+    .filter(([, value]) => value === undefined)
+    .map(([flag]) => flag);
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `Missing required option(s) in non-interactive mode: ${missing.join(', ')}`,
+    );
+  }
+};
+
 export const promptForSelection = <T extends string>(params: {
   message: string;
   choices: Array<{ name: string; value: T; checked?: boolean }>;
-}): Promise<T[]> => checkbox<T>(params);
+  flag: string;
+}): Promise<T[]> => {
+  if (nonInteractive) {
+    const selected = params.choices.filter(({ checked }) => checked).map(({ value }) => value);
+    logDefault(params.message, selected.join(',') || 'none', params.flag);
+    return Promise.resolve(selected);
+  }
+  return checkbox<T>(params);
+};
+
+/** Single choice; without a default it is required in non-interactive mode. */
+export const promptForChoice = <T extends string>(params: {
+  message: string;
+  choices: Array<{ name: string; value: T; description?: string }>;
+  default?: T;
+  flag: string;
+}): Promise<T> => {
+  if (nonInteractive) {
+    if (params.default === undefined) {
+      throw new ValidationError(
+        `Missing required option in non-interactive mode: ${params.flag} (${params.choices.map(({ value }) => value).join('|')})`,
+      );
+    }
+    logDefault(params.message, params.default, params.flag);
+    return Promise.resolve(params.default);
+  }
+  return select<T>(params);
+};
+
+export const promptForConfirmation = (params: {
+  message: string;
+  default: boolean;
+  flag: string;
+}): Promise<boolean> => {
+  if (nonInteractive) {
+    logDefault(params.message, params.default ? 'yes' : 'no', params.flag);
+    return Promise.resolve(params.default);
+  }
+  return confirm(params);
+};
 
 export const promptForNumericInputs = async (
   prompts: NumericPrompt[],
 ): Promise<Record<string, number>> => {
   const values: Array<readonly [string, number]> = [];
   for (const prompt of prompts) {
-    const raw = await input({
-      message: prompt.message,
-      default: prompt.defaultValue,
-    });
+    if (prompt.value !== undefined) {
+      values.push([prompt.key, prompt.value] as const);
+      continue;
+    }
+    const raw = await promptForTextInput(prompt.message, prompt.defaultValue, prompt.flag);
     values.push([prompt.key, parseIntBase10(raw)] as const);
   }
 
   return Object.fromEntries(values);
 };
 
-export const promptForTextInput = (message: string, defaultValue: string): Promise<string> =>
-  input({
+export const promptForTextInput = (
+  message: string,
+  defaultValue: string,
+  flag: string,
+): Promise<string> => {
+  if (nonInteractive) {
+    logDefault(message, defaultValue, flag);
+    return Promise.resolve(defaultValue);
+  }
+  return input({
     message,
     default: defaultValue,
   });
+};
+
+export const promptForFileSelection = async (fileList: string[]) => {
+  if (fileList.length === 0) {
+    log.info('No files to upload');
+    process.exit(1);
+  }
+
+  return promptForChoice({
+    message: 'Select a file to upload',
+    choices: fileList.map((file) => ({ name: file, value: file })),
+    flag: '[file] argument',
+  });
+};
@@ -0,0 +1,238 @@
+/**
+ * Space fan-out
+ * Generate the same dataset into many Kibana spaces in one run (--spaces a,b,c or
+ * --space-count N --space-prefix p). Every space is initialized first, then the generator runs
+ * once per space, one space at a time unless --space-concurrency says otherwise, and a
+ * per-space summary is printed at the end.
+ *
+ * Each space starts from the same seed (identical data) or, with --vary-seed, from the base
+ * seed plus its position. Generators share one faker instance and a space cannot get its own,
+ * so spaces generated at the same time draw from each other's random stream. That is why
+ * generation is sequential by default: with --space-concurrency above 1 the data differs
+ * between spaces and is not reproducible.
+ */
+
+import { type Command } from 'commander';
+import pMap from 'p-map';
+import { ensureSpace } from '../../utils/index.ts';
+import { log } from '../../utils/logger.ts';
+import {
+  type DocumentTally,
+  recordError,
+  runWithDocumentTally,
+} from '../../utils/command_result.ts';
+import { GeneratorError, ValidationError } from '../../utils/errors.ts';
+import { setSeed } from '../../utils/seeded_random.ts';
+import { generateNewSeed } from '../../constants.ts';
+import { isShuttingDown, parseIntBase10 } from './cli_utils.ts';
+
+export interface SpaceFanOutOptions {
+  spaces?: string;
+  spaceCount?: number;
+  spacePrefix?: string;
+  varySeed?: boolean;
+  spaceConcurrency?: number;
+}
+
+const DEFAULT_SPACE_PREFIX = 'space';
+/** One at a time, since generators running side by side share one random stream */
+const DEFAULT_SPACE_CONCURRENCY = 1;
+/** Creating spaces draws no random values, so it runs in parallel either way */
+const SPACE_INIT_CONCURRENCY = 4;
+
+/** Kibana space IDs: lowercase letters, digits, underscores and hyphens. */
+const SPACE_ID_PATTERN = /^[a-z0-9_-]+$/;
+
+type SpaceStatus = 'success' | 'failed' | 'skipped';
+
+interface SpaceOutcome {
+  space: string;
+  seed: number;
+  status: SpaceStatus;
+  durationMs: number;
+  tally: DocumentTally;
+  error?: string;
+}
+
+export const addSpaceFanOutOptions = (command: Command): Command =>
+  command
+    .option('--spaces <list>', 'Comma-separated spaces to generate the same dataset into')
+    .option('--space-count <n>', 'Generate into N spaces named <prefix>-1..N', parseIntBase10)
+    .option('--space-prefix <prefix>', `Space name prefix for --space-count (default: space)`)
+    .option('--vary-seed', 'Give each fanned-out space its own seed instead of identical data')
+    .option(
+      '--space-concurrency <n>',
+      `Spaces generated at the same time (default: ${DEFAULT_SPACE_CONCURRENCY}); above 1 the per-space data is no longer identical or reproducible`,
+      parseIntBase10,
+    );
+
+/**
+ * The spaces to fan out to, or undefined when no fan-out option was given. `space` is the
+ * command's single-space option, which cannot be combined with fan-out.
+ */
+export const resolveFanOutSpaces = (
+  options: SpaceFanOutOptions,
+  single: { space?: string; flag: string },
+): string[] | undefined => {
+  const { spaces, spaceCount, spacePrefix, varySeed, spaceConcurrency } = options;
+  if (spaces === undefined && spaceCount === undefined) {
+    if (spacePrefix !== undefined || varySeed || spaceConcurrency !== undefined) {
+      throw new ValidationError(
+        '--space-prefix, --vary-seed and --space-concurrency only apply with --spaces or --space-count.',
+      );
+    }
+    return undefined;
+  }
+  if (spaces !== undefined && spaceCount !== undefined) {
+    throw new ValidationError('Use either --spaces or --space-count, not both.');
+  }
+  if (spacePrefix !== undefined && spaceCount === undefined) {
+    throw new ValidationError('--space-prefix only applies to --space-count.');
+  }
+  if (single.space !== undefined && single.space !== 'default') {
+    throw new ValidationError(`${single.flag} cannot be combined with --spaces or --space-count.`);
+  }
+  if (spaceCount !== undefined && (!Number.isInteger(spaceCount) || spaceCount < 1)) {
+    throw new ValidationError('--space-count must be a positive integer.');
+  }
+  if (
+    spaceConcurrency !== undefined &&
+    (!Number.isInteger(spaceConcurrency) || spaceConcurrency < 1)
+  ) {
+    throw new ValidationError('--space-concurrency must be a positive integer.');
+  }
+
+  const names =
+    spaces !== undefined
+      ? spaces
+          .split(',')
+          .map((space) => space.trim())
+          .filter(Boolean)
+      : Array.from(
+          { length: spaceCount ?? 0 },
+          (_, i) => `${spacePrefix ?? DEFAULT_SPACE_PREFIX}-${i + 1}`,
+        );
+  if (names.length === 0) {
+    throw new ValidationError('--spaces must name at least one space.');
+  }
+  const invalid = names.filter((space) => !SPACE_ID_PATTERN.test(space));
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      `Invalid space ID(s) ${invalid.join(', ')}: use lowercase letters, digits, "_" and "-".`,
+    );
+  }
+  const duplicates = names.filter((space, i) => names.indexOf(space) !== i);
+  if (duplicates.length > 0) {
+    throw new ValidationError(
+      `Spaces listed more than once: ${[...new Set(duplicates)].join(', ')}`,
+    );
+  }
+  return names;
+};
+
+const formatDuration = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+const logSummary = (outcomes: SpaceOutcome[]): void => {
+  const width = Math.max(...outcomes.map(({ space }) => space.length));
+  const lines = outcomes.map(({ space, seed, status, durationMs, tally, error }) => {
+    const counts = `${tally.written} docs${tally.failed > 0 ? ` (${tally.failed} failed)` : ''}`;
+    const detail =
+      status === 'skipped'
+        ? 'not started'
+        : `${counts}, seed ${seed}, ${formatDuration(durationMs)}`;
+    return `  ${status === 'success' ? '✓' : '✗'} ${space.padEnd(width)}  ${status}, ${detail}${error ? `: ${error}` : ''}`;
+  });
+  const header = `Space summary (${outcomes.filter(({ status }) => status === 'success').length}/${outcomes.length} succeeded):`;
+  if (outcomes.every(({ status }) => status === 'success')) {
+    log.info([header, ...lines].join('\n'));
+  } else {
+    log.warn([header, ...lines].join('\n'));
+  }
+};
+
+/**
+ * Initialize every space, then call `generate` once per space with that space's seed. A space
+ * that fails is reported and recorded as a partial failure; the run only fails when every space
+ * does. `baseSeed` defaults to the global --seed, or a new seed shared by all spaces.
+ */
+export const runForSpaces = async (
+  spaces: string[],
+  options: SpaceFanOutOptions & { baseSeed?: number },
+  generate: (space: string, seed: number) => Promise<void>,
+): Promise<void> => {
+  const baseSeed = options.baseSeed ?? generateNewSeed();
+  const concurrency = Math.min(
+    options.spaceConcurrency ?? DEFAULT_SPACE_CONCURRENCY,
+    spaces.length,
+  );
+  const outcomes: SpaceOutcome[] = spaces.map((space, i) => ({
+    space,
+    seed: options.varySeed ? baseSeed + i : baseSeed,
+    status: 'skipped',
+    durationMs: 0,
+    tally: { written: 0, failed: 0 },
+  }));
+
+  const seeds = options.varySeed
+    ? `seeds ${baseSeed}-${baseSeed + spaces.length - 1}`
+    : `seed ${baseSeed}`;
+  if (concurrency > 1) {
+    log.warn(
+      `Generating into ${spaces.length} space(s), ${concurrency} at a time (${seeds}): spaces generated at the same time share one random stream, so their data differs and is not reproducible`,
+    );
+  } else {
+    log.info(
+      `Generating into ${spaces.length} space(s), one at a time so each space's data follows its seed, ${options.varySeed ? seeds : `identical data (${seeds})`} (--space-concurrency runs them in parallel at the cost of reproducibility)`,
+    );
+  }
+
+  const fail = (outcome: SpaceOutcome, error: unknown): void => {
+    outcome.status = 'failed';
+    outcome.error = error instanceof Error ? error.message : String(error);
+    log.error(`Space ${outcome.space} failed: ${outcome.error}`);
+    recordError(`Space ${outcome.space}: ${outcome.error}`);
+  };
+
+  log.info(`Initializing spaces: ${spaces.join(', ')}`);
+  const initialized = await pMap(
+    outcomes,
+    async (outcome) => {
+      try {
+        await log.withLabel(outcome.space, () => ensureSpace(outcome.space));
+        return outcome;
+      } catch (error) {
+        fail(outcome, error);
+        return undefined;
+      }
+    },
+    { concurrency: SPACE_INIT_CONCURRENCY },
+  );
+
+  await pMap(
+    initialized.filter((outcome): outcome is SpaceOutcome => outcome !== undefined),
+    async (outcome) => {
+      if (isShuttingDown()) {
+        return;
+      }
+      const startedAt = Date.now();
+      try {
+        await log.withLabel(outcome.space, () =>
+          runWithDocumentTally(outcome.tally, () => {
+            setSeed(outcome.seed);
+            return generate(outcome.space, outcome.seed);
+          }),
+        );
+        outcome.status = 'success';
+      } catch (error) {
+        fail(outcome, error);
+      }
+      outcome.durationMs = Date.now() - startedAt;
+    },
+    { concurrency },
+  );
+
+  logSummary(outcomes);
+  if (outcomes.every(({ status }) => status === 'failed')) {
+    throw new GeneratorError(`Generation failed in all ${spaces.length} space(s)`);
+  }
+};
@@ -1,5 +1,7 @@
 import dayjs from 'dayjs';
 import { faker } from '@faker-js/faker';
+import { getNow } from '../../utils/seeded_random.ts';
+import { DAY_MS, resolveWindowMs } from '../../utils/time_context.ts';
 
 export interface TimeWindow {
   start: dayjs.Dayjs;
@@ -8,14 +10,18 @@ export interface TimeWindow {
 
 export class TimeWindows {
   static last30DayWindow = () => ({
-    start: dayjs().subtract(30, 'days'),
-    end: dayjs(),
+    start: dayjs(getNow()).subtract(resolveWindowMs(30 * DAY_MS), 'ms'),
+    end: dayjs(getNow()),
   });
   static randomWindowOfOneDayInTheLastMonth = () => {
-    const day = faker.helpers.rangeToNumber({ min: 2, max: 28 });
+    const windowDays = Math.floor(resolveWindowMs(30 * DAY_MS) / DAY_MS);
+    if (windowDays < 3) {
+      return TimeWindows.last30DayWindow();
+    }
+    const day = faker.helpers.rangeToNumber({ min: 2, max: windowDays - 2 });
     return {
-      start: dayjs().subtract(day, 'days'),
-      end: dayjs().subtract(day - 1, 'days'),
+      start: dayjs(getNow()).subtract(day, 'days'),
+      end: dayjs(getNow()).subtract(day - 1, 'days'),
     };
   };
   static toRandomTimestamp = (timeWindow: TimeWindow): string => {
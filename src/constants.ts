@@ -1,3 +1,6 @@
+import { randomInt } from 'crypto';
+import { getSeed } from './utils/seeded_random.ts';
+
 // Index names
 export const EVENT_INDEX_NAME = 'auditbeat-8.12.0-2024.01.18-000001';
 export const AGENT_INDEX_NAME = '.fleet-agents-7';
@@ -44,8 +47,9 @@ export const PRIVILEGED_USER_MONITORING_OPTIONS = {
 
 export type PrivilegedUserMonitoringOption = keyof typeof PRIVILEGED_USER_MONITORING_OPTIONS;
 
+/** The global --seed when one is set, otherwise a fresh seed callers should log for repeat runs. */
 export const generateNewSeed = () => {
-  return Math.round(Math.random() * 100000);
+  return getSeed() ?? randomInt(100_001);
 };
 
 export const API_VERSIONS = {
@@ -115,6 +119,14 @@ export const ENTITY_MAINTAINERS_URL = '/internal/security/entity_store/entity_ma
 export const ENTITY_MAINTAINERS_RUN_URL = (id: string) =>
   `/internal/security/entity_store/entity_maintainers/run/${id}`;
 export const WATCHLISTS_URL = '/api/entity_analytics/watchlists';
+export const NOTES_URL = '/api/note';
+export const CASES_URL = '/api/cases';
+export const CASE_URL = (caseId: string) => `${CASES_URL}/${caseId}`;
+export const CASES_CONFIGURE_URL = '/api/cases/configure';
+export const FLEET_EPM_INSTALLED_PACKAGES_URL = '/api/fleet/epm/packages/installed';
+
+/** Tag on the rules and cases the generator creates, which `status` finds them by */
+export const GENERATOR_TAG = 'data-generator';
 
 // ML module group used by Security
 export const ML_GROUP_ID = 'security';
@@ -1,4 +1,33 @@
 import { faker } from '@faker-js/faker';
+import { getDetectedStackVersion } from '../utils/cluster_capabilities.ts';
+import { getEventTime } from '../utils/time_context.ts';
+
+/** Used when the cluster version could not be detected (e.g. dry runs). */
+const FALLBACK_KIBANA_VERSION = '8.7.0';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+/** The rule's lookback (`from: now-360s`): its source event is at most this old */
+const RULE_LOOKBACK_MS = 6 * MINUTE_MS;
+
+/**
+ * Time fields of an alert that fired at `firedAt` (epoch ms): it started and was last detected
+ * then, its source event happened within the rule's lookback before, and its rule was created
+ * a month and last updated a week earlier.
+ */
+export const getAlertTimeFields = (firedAt: number) => {
+  const firedAtIso = new Date(firedAt).toISOString();
+  return {
+    '@timestamp': firedAt,
+    'kibana.alert.start': firedAtIso,
+    'kibana.alert.last_detected': firedAtIso,
+    'kibana.alert.original_time': new Date(
+      firedAt - faker.number.int({ min: 1000, max: RULE_LOOKBACK_MS }),
+    ).toISOString(),
+    'kibana.alert.rule.created_at': new Date(firedAt - 30 * DAY_MS).toISOString(),
+    'kibana.alert.rule.updated_at': new Date(firedAt - 7 * DAY_MS).toISOString(),
+  };
+};
 
 function baseCreateAlerts({
   userName = 'user-1',
@@ -7,6 +36,7 @@ function baseCreateAlerts({
   hostId,
   eventModule,
   space = 'default',
+  timestamp = getEventTime(),
 }: {
   userName?: string;
   hostName?: string;
@@ -14,18 +44,18 @@ function baseCreateAlerts({
   hostId?: string;
   eventModule?: string;
   space?: string;
+  timestamp?: number;
 } = {}) {
   const risk_score = faker.number.int({ min: 0, max: 100 });
   const severity = ['low', 'medium', 'high', 'critical'][faker.number.int({ min: 0, max: 3 })];
   return {
+    ...getAlertTimeFields(timestamp),
     'host.name': hostName,
     ...(hostId ? { 'host.id': hostId } : {}),
     'user.name': userName,
     ...(userId ? { 'user.id': userId } : {}),
     ...(eventModule ? { 'event.module': eventModule } : {}),
-    'kibana.alert.start': '2023-04-11T20:18:15.816Z',
-    'kibana.alert.last_detected': '2023-04-11T20:18:15.816Z',
-    'kibana.version': '8.7.0',
+    'kibana.version': getDetectedStackVersion() ?? FALLBACK_KIBANA_VERSION,
     'kibana.alert.rule.parameters': {
       description: '2',
       risk_score,
@@ -62,9 +92,7 @@ function baseCreateAlerts({
     'kibana.alert.rule.uuid': faker.string.uuid(),
     'kibana.space_ids': [space],
     'kibana.alert.rule.tags': [],
-    '@timestamp': Date.now(),
     'event.kind': 'signal',
-    'kibana.alert.original_time': '2023-04-11T20:17:14.851Z',
     'kibana.alert.ancestors': [
       {
         id: '8TD3cYcB1hicTK_CdP--',
@@ -81,7 +109,6 @@ function baseCreateAlerts({
     'kibana.alert.risk_score': risk_score,
     'kibana.alert.rule.actions': [],
     'kibana.alert.rule.author': [],
-    'kibana.alert.rule.created_at': '2023-04-11T20:15:52.473Z',
     'kibana.alert.rule.created_by': 'elastic',
     'kibana.alert.rule.description': '2',
     'kibana.alert.rule.enabled': true,
@@ -100,7 +127,6 @@ function baseCreateAlerts({
     'kibana.alert.rule.threat': [],
     'kibana.alert.rule.to': 'now',
     'kibana.alert.rule.type': 'query',
-    'kibana.alert.rule.updated_at': '2023-04-11T20:18:11.024Z',
     'kibana.alert.rule.updated_by': 'elastic',
     'kibana.alert.rule.version': 3,
     'kibana.alert.rule.meta.from': '1m',
@@ -122,6 +148,7 @@ export default function createAlerts<O extends object>(
     hostId,
     eventModule,
     space,
+    timestamp,
   }: {
     userName?: string;
     hostName?: string;
@@ -129,10 +156,12 @@ export default function createAlerts<O extends object>(
     hostId?: string;
     eventModule?: string;
     space?: string;
+    /** When the alert fired (epoch ms); every alert time field derives from it */
+    timestamp?: number;
   } = {},
 ): O & BaseCreateAlertsReturnType {
   return {
-    ...baseCreateAlerts({ userName, hostName, userId, hostId, eventModule, space }),
+    ...baseCreateAlerts({ userName, hostName, userId, hostId, eventModule, space, timestamp }),
     ...override,
   };
 }
@@ -1,9 +1,10 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
+import { getEventTime } from '../utils/time_context.ts';
 
 export default function createEvents(override = {}) {
   return {
-    '@timestamp': dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
+    '@timestamp': dayjs(getEventTime()).format('YYYY-MM-DDTHH:mm:ss.SSSZ'),
     criticality: faker.helpers.arrayElement([
       'low_impact',
       'medium_impact',
@@ -1,5 +1,6 @@
 import { faker } from '@faker-js/faker';
 import dayjs from 'dayjs';
+import { getNow } from '../utils/seeded_random.ts';
 
 export interface CreateMisconfigurationsParams {
   username?: string;
@@ -12,7 +13,7 @@ export default function createMisconfigurations({
   hostname = 'host-1',
   space = 'default',
 }: CreateMisconfigurationsParams) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   return {
     '@timestamp': now,
     agent: {
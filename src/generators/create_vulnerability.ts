@@ -1,5 +1,6 @@
 import dayjs from 'dayjs';
 import { faker } from '@faker-js/faker';
+import { getNow } from '../utils/seeded_random.ts';
 
 export interface CreateVulnerabilitiesParams {
   username?: string;
@@ -11,7 +12,7 @@ export default function createVulnerabilities({
   hostname = 'host-1',
   space = 'default',
 }: CreateVulnerabilitiesParams) {
-  const now = dayjs().format('YYYY-MM-DDTHH:mm:ss.SSSZ');
+  const now = dayjs(getNow()).format('YYYY-MM-DDTHH:mm:ss.SSSZ');
   const dataset = 'cloud_security_posture.vulnerabilities';
   return {
     '@timestamp': now,
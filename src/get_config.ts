@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import { log } from './utils/logger.ts';
+import { ConfigError } from './utils/errors.ts';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
 
@@ -16,7 +17,7 @@ interface NodeWithAPIKey {
 
 type NodeConfig = NodeWithCredentials | NodeWithAPIKey;
 
-export interface ConfigType {
+interface ConnectionConfig {
   elastic: NodeConfig;
   kibana: NodeConfig;
   serverless?: boolean;
@@ -25,6 +26,28 @@ export interface ConfigType {
   allowSelfSignedCerts?: boolean;
 }
 
+/**
+ * Named connection profile. Any field left out falls back to the top-level value.
+ */
+export type ProfileConfig = Partial<ConnectionConfig>;
+
+/**
+ * Where to load plugins from (see src/utils/plugins.ts). Not part of profiles: plugins add
+ * commands, which are registered before any profile is selected.
+ */
+export interface PluginConfig {
+  /** Directory of plugin modules, relative to config.json unless absolute */
+  directory?: string;
+  /** npm package names */
+  packages?: string[];
+}
+
+export interface ConfigType extends ConnectionConfig {
+  profiles?: Record<string, ProfileConfig>;
+  activeProfile?: string;
+  plugins?: PluginConfig;
+}
+
 const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object';
 const checkOptionalType = (obj: Record<string, unknown>, key: string, type: string, prefix = '') =>
   obj[key] !== undefined && typeof obj[key] !== type ? `${prefix}${key}: must be a ${type}` : null;
@@ -54,16 +77,47 @@ const OPTIONAL_FIELDS: Array<[string, string]> = [
   ['allowSelfSignedCerts', 'boolean'],
 ];
 
+/**
+ * Profiles are only checked for shape here; a profile's fields are validated once it is
+ * selected, as part of the effective config.
+ */
+const validateProfiles = (value: Record<string, unknown>): string[] => {
+  if (value.profiles === undefined) return [];
+  if (!isObject(value.profiles)) return ['profiles: must be an object'];
+  return Object.entries(value.profiles)
+    .filter(([, profile]) => !isObject(profile))
+    .map(([name]) => `profiles.${name}: must be an object`);
+};
+
+const validatePlugins = (value: Record<string, unknown>): string[] => {
+  if (value.plugins === undefined) return [];
+  if (!isObject(value.plugins)) return ['plugins: must be an object'];
+  const { packages } = value.plugins;
+  return [
+    checkOptionalType(value.plugins, 'directory', 'string', 'plugins.'),
+    packages !== undefined &&
+    (!Array.isArray(packages) || packages.some((name) => typeof name !== 'string'))
+      ? 'plugins.packages: must be an array of strings'
+      : null,
+  ].filter(Boolean) as string[];
+};
+
 const validateConfig = (value: unknown): string[] => {
   if (!isObject(value)) return ['Config must be an object'];
   return [
     ...validateNodeConfig(value.elastic, 'elastic'),
     ...validateNodeConfig(value.kibana, 'kibana'),
     ...OPTIONAL_FIELDS.map(([key, type]) => checkOptionalType(value, key, type)).filter(Boolean),
-  ] as string[];
+    checkOptionalType(value, 'activeProfile', 'string'),
+    ...validateProfiles(value),
+    ...validatePlugins(value),
+  ].filter(Boolean) as string[];
 };
 
-let config: ConfigType;
+let config: ConfigType | undefined;
+
+/** Profile selected with the global --profile option; takes precedence over activeProfile. */
+let profileOverride: string | undefined;
 
 const CONFIG_FILE_NAME = 'config.json';
 
@@ -182,13 +236,62 @@ const mergeConfigs = (
   };
 };
 
+/**
+ * Reads config.json (if it exists).
+ * @param throwOnReadError - If true, throws a ConfigError on parse errors. If false, returns empty config.
+ */
+const readFileConfig = (throwOnReadError: boolean = false): Partial<ConfigType> => {
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    if (throwOnReadError) {
+      throw new ConfigError(
+        `Error reading ${CONFIG_FILE_NAME}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    // If file exists but can't be parsed, return empty config
+    // Validation will fail, which is the desired behavior
+    return {};
+  }
+};
+
+/**
+ * Overlays the selected profile (explicit name, else activeProfile) on the top-level config.
+ */
+const applyProfile = (
+  fileConfig: Partial<ConfigType>,
+  profileName?: string,
+): { profiledConfig: Partial<ConfigType>; errors: string[] } => {
+  const name = profileName ?? fileConfig.activeProfile;
+  if (name === undefined) {
+    return { profiledConfig: fileConfig, errors: [] };
+  }
+  const profile = isObject(fileConfig.profiles) ? fileConfig.profiles[name] : undefined;
+  if (!isObject(profile)) {
+    const available = Object.keys(fileConfig.profiles ?? {});
+    return {
+      profiledConfig: fileConfig,
+      errors: [`profile "${name}" not found (available: ${available.join(', ') || 'none'})`],
+    };
+  }
+  return {
+    profiledConfig: { ...fileConfig, ...(profile as ProfileConfig), activeProfile: name },
+    errors: [],
+  };
+};
+
 /**
  * Loads and merges configuration from environment variables and config.json.
  * Returns the merged config and validation result.
  * @param throwOnReadError - If true, throws on file read errors. If false, returns empty config.
+ * @param profileName - Profile to resolve; defaults to --profile, then activeProfile.
  */
 const loadAndMergeConfig = (
   throwOnReadError: boolean = false,
+  profileName: string | undefined = profileOverride,
 ): {
   mergedConfig: Partial<ConfigType>;
   errors: string[];
@@ -197,41 +300,87 @@ const loadAndMergeConfig = (
   // Try to read from environment variables first
   const envConfig = getConfigFromEnv();
 
-  // Read from config.json file (if it exists)
-  let fileConfig: Partial<ConfigType> = {};
-  if (fs.existsSync(configPath)) {
-    try {
-      fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-    } catch (error) {
-      if (throwOnReadError) {
-        log.error(`Error reading ${CONFIG_FILE_NAME}:`, error);
-        process.exit(1);
-      }
-      // If file exists but can't be parsed, return empty config
-      // Validation will fail, which is the desired behavior
-    }
-  }
+  // Read from config.json file (if it exists) and apply the selected profile
+  const { profiledConfig, errors: profileErrors } = applyProfile(
+    readFileConfig(throwOnReadError),
+    profileName,
+  );
 
   // Merge configs (env vars override file config)
-  const mergedConfig = envConfig ? mergeConfigs(fileConfig, envConfig) : fileConfig;
+  const mergedConfig = envConfig ? mergeConfigs(profiledConfig, envConfig) : profiledConfig;
 
   // Set default eventIndex if not provided
   if (!mergedConfig.eventIndex) {
     mergedConfig.eventIndex = 'logs-testlogs-default';
   }
 
-  const errors = validateConfig(mergedConfig);
+  const errors = [...profileErrors, ...validateConfig(mergedConfig)];
 
   return { mergedConfig, errors, envConfig };
 };
 
+/**
+ * Plugin settings from config.json. Read without validating the connection settings, since
+ * plugins are loaded before the command runs (and before the config is first needed).
+ */
+export const getPluginConfig = (): PluginConfig | undefined => {
+  const { plugins } = readFileConfig();
+  const errors = validatePlugins({ plugins });
+  if (errors.length > 0) {
+    log.warn(`Ignoring plugins in ${CONFIG_FILE_NAME}: ${errors.join('; ')}`);
+    return undefined;
+  }
+  return plugins;
+};
+
+export const getProfileNames = (): string[] => Object.keys(readFileConfig().profiles ?? {});
+
 /**
  * Checks if a valid configuration is available from environment variables or config.json.
  * This is used to determine if we need to prompt the user to create a config file.
+ * A config holding only profiles counts as valid when any of them resolves.
  */
 export const hasValidConfig = (): boolean => {
-  const { errors } = loadAndMergeConfig(false);
-  return errors.length === 0;
+  const candidates = [profileOverride, ...getProfileNames()];
+  return candidates.some((name) => loadAndMergeConfig(false, name).errors.length === 0);
+};
+
+/**
+ * Select the profile used by getConfig (global --profile option).
+ */
+export const setProfileOverride = (name: string): void => {
+  profileOverride = name;
+  config = undefined;
+};
+
+/**
+ * Name of the profile getConfig resolves: --profile, then activeProfile from config.json.
+ */
+export const getActiveProfileName = (): string | undefined =>
+  profileOverride ?? readFileConfig().activeProfile;
+
+/**
+ * Resolve (without exiting) the config for a profile, including environment overrides.
+ */
+export const resolveConfig = (
+  profileName?: string,
+): { config: Partial<ConfigType>; errors: string[] } => {
+  const { mergedConfig, errors } = loadAndMergeConfig(false, profileName ?? profileOverride);
+  return { config: mergedConfig, errors };
+};
+
+/**
+ * Persist the default profile (activeProfile) in config.json.
+ */
+export const saveActiveProfile = (name: string): void => {
+  const fileConfig = readFileConfig(true);
+  if (!fileConfig.profiles?.[name]) {
+    throw new Error(
+      `Profile "${name}" not found in ${CONFIG_FILE_NAME} (available: ${Object.keys(fileConfig.profiles ?? {}).join(', ') || 'none'})`,
+    );
+  }
+  fs.writeFileSync(configPath, JSON.stringify({ ...fileConfig, activeProfile: name }, null, 2));
+  config = undefined;
 };
 
 export const getConfig = (): ConfigType => {
@@ -242,13 +391,24 @@ export const getConfig = (): ConfigType => {
   const { mergedConfig, errors, envConfig } = loadAndMergeConfig(true);
 
   if (errors.length > 0) {
-    log.error(
-      `There was a config validation error. Fix issues below in your ${envConfig ? 'environment variables or ' : ''}${CONFIG_FILE_NAME} file, and try again.`,
+    const profile = mergedConfig.activeProfile ?? profileOverride;
+    throw new ConfigError(
+      `There was a config validation error. Fix issues below in your ${envConfig ? 'environment variables or ' : ''}${CONFIG_FILE_NAME} file${profile ? ` (profile "${profile}")` : ''}, and try again.`,
+      errors,
     );
-    errors.forEach((err) => log.error(`  - ${err}`));
-    process.exit(1);
   }
 
   config = mergedConfig as ConfigType;
   return config;
 };
+
+/**
+ * Use this config instead of config.json and environment variables (programmatic use).
+ */
+export const setConfig = (value: ConfigType): void => {
+  const errors = validateConfig(value);
+  if (errors.length > 0) {
+    throw new ConfigError('Invalid config', errors);
+  }
+  config = value;
+};
@@ -1,25 +1,47 @@
 #! /usr/bin/env node
-import { program } from 'commander';
-import { dirname } from 'path';
-import { fileURLToPath } from 'url';
+import { type Command, Option, program } from 'commander';
 import { createConfigFileOnFirstRun } from './utils/create_config_on_first_run.ts';
 import { documentCommands } from './commands/documents/index.ts';
 import { riskEngineCommands } from './commands/risk_engine/index.ts';
 import { entityStoreCommands } from './commands/entity_store/index.ts';
 import { entityStorePerfCommands } from './commands/entity_store_perf/index.ts';
 import { rulesCommands } from './commands/rules/index.ts';
+import { casesCommands } from './commands/cases/index.ts';
 import { privilegedUserMonitoringCommands } from './commands/privileged_user_monitoring/index.ts';
 import { miscCommands } from './commands/misc/index.ts';
 import { baselineMetricsCommands } from './commands/baseline_metrics/index.ts';
 import { cloudSecurityPostureCommands } from './commands/generate_cloud_security_posture/index.ts';
 import { orgDataCommands } from './commands/org_data/index.ts';
 import { leadGenerationCommands } from './commands/lead_generation/index.ts';
-import { parseIntBase10 } from './commands/utils/cli_utils.ts';
+import { handleCommandError, parseDuration, parseIntBase10 } from './commands/utils/cli_utils.ts';
+import {
+  assertDryRunSupported,
+  enableFileOutput,
+  getDefaultOutputDir,
+  isFileOutputEnabled,
+} from './utils/file_output.ts';
+import { getRunId, setDeterministicRunId } from './utils/doc_metadata.ts';
+import { setProfileOverride } from './get_config.ts';
+import { detectCapabilitiesForCommand } from './utils/cluster_capabilities.ts';
+import { setRunCommand } from './utils/run_ledger.ts';
+import { parseReferenceTime, setReferenceTime, setSeed } from './utils/seeded_random.ts';
+import { setTimeRange } from './utils/time_context.ts';
+import {
+  enableJsonOutput,
+  getCompletionExitCode,
+  logIngestTally,
+  startCommandResult,
+  writeRunSummaryOnExit,
+} from './utils/command_result.ts';
+import { getRunLogPath } from './utils/data_paths.ts';
+import { log, writeRunLogRecord } from './utils/logger.ts';
+import { loadPlugins, registerPluginCommands } from './utils/plugins.ts';
+import { hasNonInteractiveFlag, setNonInteractive } from './commands/utils/interactive_prompts.ts';
 
+setNonInteractive(hasNonInteractiveFlag(process.argv));
 await createConfigFileOnFirstRun();
-
-export const srcDirectory = dirname(fileURLToPath(import.meta.url));
-export { parseIntBase10 };
+// Before registering commands: plugins add commands and org-data integrations
+await loadPlugins();
 
 const commands = [
   documentCommands,
@@ -27,6 +49,7 @@ const commands = [
   entityStoreCommands,
   entityStorePerfCommands,
   rulesCommands,
+  casesCommands,
   privilegedUserMonitoringCommands,
   miscCommands,
   baselineMetricsCommands,
@@ -35,5 +58,116 @@ const commands = [
   leadGenerationCommands,
 ];
 
+program
+  .option('--profile <name>', 'Connection profile from config.json (overrides activeProfile)')
+  .option(
+    '--output-dir <dir>',
+    'Write bulk bodies as per-index NDJSON files (plus a Kibana API manifest) to <dir> instead of sending them to the cluster',
+  )
+  .option('--dry-run', 'Same as --output-dir, using data/dry_run/<runId>')
+  .option('--skip-detection', 'Do not probe the cluster for its version and features')
+  .option('--seed <seed>', 'Random seed for reproducible data (all generators)', parseIntBase10)
+  .option(
+    '--as-of <iso>',
+    'Anchor generated timestamps at this time instead of now (with --seed, output is byte-identical)',
+    parseReferenceTime,
+  )
+  .addOption(
+    new Option('--reference-time <iso>', 'Alias of --as-of')
+      .argParser(parseReferenceTime)
+      .hideHelp(),
+  )
+  .option(
+    '--time-range <duration>',
+    'Spread generated events across this window before the anchor time, e.g. 90d, 12h',
+    parseDuration,
+  )
+  .option(
+    '-y, --yes',
+    'Never prompt: use flags and defaults, and fail listing the flags a required prompt needs',
+  )
+  .addOption(new Option('--non-interactive', 'Alias of --yes'))
+  .option(
+    '--run-log',
+    'Also write log lines as JSON records to logs/<runId>.jsonl, ending with the run summary',
+  )
+  .option(
+    '--json',
+    'Print one JSON result object on stdout (log lines go to stderr, progress bars are hidden)',
+  )
+  .hook('preAction', async (_thisCommand, actionCommand) => {
+    const { json, runLog, profile, outputDir, dryRun, skipDetection, seed, timeRange, ...time } =
+      program.opts<{
+        json?: boolean;
+        runLog?: boolean;
+        profile?: string;
+        outputDir?: string;
+        dryRun?: boolean;
+        skipDetection?: boolean;
+        seed?: number;
+        asOf?: Date;
+        referenceTime?: Date;
+        timeRange?: number;
+      }>();
+    const asOf = time.asOf ?? time.referenceTime;
+    if (json) {
+      enableJsonOutput();
+    }
+    if (profile) {
+      setProfileOverride(profile);
+    }
+    const commandPath: string[] = [];
+    for (let cmd: Command | null = actionCommand; cmd?.parent; cmd = cmd.parent) {
+      commandPath.unshift(cmd.name());
+    }
+    startCommandResult(commandPath.join(' '));
+    if (seed !== undefined && asOf) {
+      setDeterministicRunId(
+        `${commandPath.join(' ')}|${seed}|${asOf.toISOString()}|${timeRange ?? ''}`,
+      );
+    }
+    if (runLog) {
+      log.enableRunLog(getRunLogPath(getRunId()), {
+        runId: getRunId(),
+        command: commandPath.join(' '),
+      });
+      writeRunLogRecord('info', `Run started: ${commandPath.join(' ')}`, {
+        event: 'run.start',
+        args: process.argv.slice(2),
+      });
+      writeRunSummaryOnExit();
+    }
+    if (outputDir || dryRun) {
+      assertDryRunSupported(commandPath);
+      enableFileOutput(outputDir ?? getDefaultOutputDir(getRunId()));
+    }
+    setRunCommand(commandPath.join(' '));
+    if (!skipDetection && !isFileOutputEnabled()) {
+      await detectCapabilitiesForCommand(commandPath);
+    }
+    if (seed !== undefined) {
+      setSeed(seed);
+    }
+    if (asOf) {
+      setReferenceTime(asOf);
+    }
+    if (timeRange !== undefined) {
+      setTimeRange(timeRange);
+    }
+  })
+  .hook('postAction', () => {
+    logIngestTally();
+    // Errors and Ctrl+C already set their own exit code
+    if (!process.exitCode) {
+      process.exitCode = getCompletionExitCode();
+    }
+  });
+
 commands.forEach((cmd) => cmd.register(program));
-program.parse();
+registerPluginCommands(program);
+try {
+  await program.parseAsync();
+} catch (error) {
+  // Actions not wrapped in wrapAction, and the global hooks (e.g. an invalid config)
+  handleCommandError(error);
+}
@@ -0,0 +1,253 @@
+/**
+ * Library entry point
+ * Typed generator functions for scripts and test suites (e.g. Kibana functional tests), without
+ * the CLI: nothing is parsed from argv, nothing prompts, and failures throw typed errors instead
+ * of exiting the process. Each function returns the same structured result as `--json`.
+ *
+ * Connections are injected through the context: an Elasticsearch client, a Kibana fetcher and/or
+ * a connection config. Whatever is not injected falls back to config.json and environment
+ * variables. The context is process-wide, so run one generator at a time.
+ */
+
+import { type Client } from '@elastic/elasticsearch';
+import { type ConfigType, setConfig } from './get_config.ts';
+import { setEsClient } from './commands/utils/indices.ts';
+import { type CaseStatus, type KibanaFetcher, setKibanaFetcher } from './utils/kibana_api.ts';
+import { log } from './utils/logger.ts';
+import { ensureSpace } from './utils/index.ts';
+import { setRunCommand } from './utils/run_ledger.ts';
+import { setNonInteractive } from './commands/utils/interactive_prompts.ts';
+import {
+  type CommandResult,
+  getCommandResult,
+  getCompletionExitCode,
+  startCommandResult,
+} from './utils/command_result.ts';
+import { generateAlerts as generateAlertDocuments } from './commands/documents/documents.ts';
+import { type WorkflowStatus, resolveAlertWorkflow } from './commands/documents/alert_workflow.ts';
+import {
+  type CaseGrouping,
+  generateCases as generateCasesCommand,
+} from './commands/cases/cases.ts';
+import { runOrgData as runOrgDataCommand } from './commands/org_data/org_data.ts';
+import { type OrganizationOptions } from './commands/org_data/types.ts';
+import { generateEntityStore as generateEntityStoreCommand } from './commands/entity_store/entity_store.ts';
+import {
+  generateCloudSecurityPosture as generateCloudSecurityPostureCommand,
+  resolveDataSources,
+} from './commands/cloud_security_posture/index.ts';
+import { privmonCommand } from './commands/privileged_user_monitoring/privileged_user_monitoring.ts';
+import {
+  ENTITY_STORE_OPTIONS,
+  generateNewSeed,
+  PRIVILEGED_USER_MONITORING_OPTIONS,
+  type PrivilegedUserMonitoringOption,
+} from './constants.ts';
+
+export { ConfigError, GeneratorError, KibanaApiError, ValidationError } from './utils/errors.ts';
+export { BaseIntegration } from './commands/org_data/integrations/base_integration.ts';
+export type { CommandResult } from './utils/command_result.ts';
+export type { WorkflowStatus } from './commands/documents/alert_workflow.ts';
+export type { CaseSeverity, CaseStatus } from './utils/kibana_api.ts';
+export type { ConfigType } from './get_config.ts';
+export type { KibanaFetcher } from './utils/kibana_api.ts';
+export type { Plugin, PluginContext } from './utils/plugins.ts';
+export { ENTITY_STORE_OPTIONS, PRIVILEGED_USER_MONITORING_OPTIONS };
+
+export interface GeneratorContext {
+  /** Client for all Elasticsearch requests */
+  esClient?: Client;
+  /** Sends all Kibana API requests; see KibanaFetcher */
+  kibanaFetcher?: KibanaFetcher;
+  /** Connection config, in place of config.json and environment variables */
+  config?: ConfigType;
+  /** Where log lines go (default: stdout) */
+  logStream?: NodeJS.WritableStream;
+}
+
+export type EntityStoreOption = (typeof ENTITY_STORE_OPTIONS)[keyof typeof ENTITY_STORE_OPTIONS];
+
+const runGenerator = async (
+  command: string,
+  context: GeneratorContext,
+  generate: () => Promise<void>,
+): Promise<CommandResult> => {
+  const { esClient, kibanaFetcher, config, logStream } = context;
+  if (config) {
+    setConfig(config);
+  }
+  if (esClient) {
+    setEsClient(esClient);
+  }
+  if (kibanaFetcher) {
+    setKibanaFetcher(kibanaFetcher);
+  }
+  if (logStream) {
+    log.setStream(logStream);
+  }
+  setNonInteractive(true);
+  startCommandResult(command);
+  setRunCommand(command);
+
+  await generate();
+
+  return getCommandResult(getCompletionExitCode());
+};
+
+export const generateAlerts = (
+  options: {
+    alerts: number;
+    hosts?: number;
+    users?: number;
+    /** Created if it does not exist (default: default) */
+    space?: string;
+    /** Docs/sec ceiling */
+    ingestRate?: number;
+    /** Relative weights of the workflow statuses (default: all open) */
+    workflowStatus?: Partial<Record<WorkflowStatus, number>>;
+    /** Analyst users (alert-analyst-N) to create or reuse and assign alerts to */
+    assignees?: number;
+    /** Tag alerts to match their triage state */
+    tags?: boolean;
+    /** Alerts to attach a note to, triaged alerts first */
+    notes?: number;
+    /** Index the source events behind each alert and link them as ancestors */
+    withSourceEvents?: boolean;
+    /** With withSourceEvents, percentage of alerts that are EQL sequence alerts (default: 20) */
+    sequenceShare?: number;
+  },
+  context: GeneratorContext = {},
+): Promise<CommandResult> =>
+  runGenerator('generate-alerts', context, async () => {
+    const { alerts, hosts = 1, users = 1, ingestRate } = options;
+    const space = await ensureSpace(options.space);
+    const workflow = await resolveAlertWorkflow({
+      statusWeights: options.workflowStatus,
+      assignees: options.assignees,
+      tags: options.tags,
+      notes: options.notes,
+    });
+    await generateAlertDocuments(alerts, hosts, users, space, ingestRate, {
+      workflow,
+      withSourceEvents: options.withSourceEvents,
+      sequenceShare: options.sequenceShare,
+    });
+  });
+
+/** Security cases from the alerts already in a space, e.g. after generateAlerts. */
+export const generateCases = (
+  options: {
+    /** Default: 10 */
+    cases?: number;
+    /** Default: default */
+    space?: string;
+    /** Default: host; ignored with orgData */
+    groupBy?: CaseGrouping;
+    /** Use the org-data detection rule alerts and group them into incidents */
+    orgData?: boolean;
+    /** Default: 10 */
+    alertsPerCase?: number;
+    /** Relative weights of the case statuses (default: open=50,in-progress=30,closed=20) */
+    status?: Partial<Record<CaseStatus, number>>;
+    /** Analyst users (alert-analyst-N) to create or reuse and assign cases to */
+    assignees?: number;
+    /** Most user comments on one case (default: 3) */
+    comments?: number;
+    /** Default: true */
+    customFields?: boolean;
+    /** Default: true */
+    observables?: boolean;
+  },
+  context: GeneratorContext = {},
+): Promise<CommandResult> =>
+  runGenerator('generate-cases', context, () =>
+    generateCasesCommand({
+      count: options.cases ?? 10,
+      space: options.space ?? 'default',
+      groupBy: options.groupBy ?? 'host',
+      orgData: options.orgData ?? false,
+      alertsPerCase: options.alertsPerCase ?? 10,
+      statusWeights: options.status,
+      assignees: options.assignees,
+      comments: options.comments ?? 3,
+      customFields: options.customFields ?? true,
+      observables: options.observables ?? true,
+    }),
+  );
+
+/**
+ * Correlated organization data (org-data). Size, productivity suite and detection rules are
+ * required, since the CLI would prompt for them; live mode is CLI-only.
+ */
+export const runOrgData = (
+  options: Omit<OrganizationOptions, 'live' | 'rate'> &
+    Required<Pick<OrganizationOptions, 'productivitySuite' | 'detectionRules'>>,
+  context: GeneratorContext = {},
+): Promise<CommandResult> => runGenerator('org-data', context, () => runOrgDataCommand(options));
+
+export const generateEntityStore = (
+  options: {
+    users?: number;
+    hosts?: number;
+    services?: number;
+    genericEntities?: number;
+    seed?: number;
+    space?: string;
+    /** What to set up besides the entity events (default: none) */
+    options?: EntityStoreOption[];
+    offsetHours?: number;
+  },
+  context: GeneratorContext = {},
+): Promise<CommandResult> =>
+  runGenerator('entity-store', context, () =>
+    generateEntityStoreCommand({
+      users: options.users ?? 10,
+      hosts: options.hosts ?? 10,
+      services: options.services ?? 10,
+      genericEntities: options.genericEntities ?? 10,
+      seed: options.seed ?? generateNewSeed(),
+      space: options.space,
+      options: options.options ?? [],
+      offsetHours: options.offsetHours,
+    }),
+  );
+
+export const generateCloudSecurityPosture = (
+  options: {
+    /** Data sources or shortcuts (all, elastic_all); default: all */
+    dataSources?: string[];
+    findingsCount?: number;
+    cspScores?: boolean;
+    seed?: number;
+  },
+  context: GeneratorContext = {},
+): Promise<CommandResult> =>
+  runGenerator('generate-cloud-security-posture', context, () =>
+    generateCloudSecurityPostureCommand({
+      dataSources: resolveDataSources(options.dataSources ?? ['all']),
+      findingsCount: options.findingsCount ?? 50,
+      generateCspScores: options.cspScores ?? false,
+      seed: options.seed,
+    }),
+  );
+
+/** Privileged user monitoring data; defaults to every option except installing PAD (like privmon-quick). */
+export const generatePrivilegedUserMonitoring = (
+  options: {
+    userCount?: number;
+    space?: string;
+    options?: PrivilegedUserMonitoringOption[];
+  },
+  context: GeneratorContext = {},
+): Promise<CommandResult> =>
+  runGenerator('privileged-user-monitoring', context, () =>
+    privmonCommand({
+      options:
+        options.options ??
+        Object.values(PRIVILEGED_USER_MONITORING_OPTIONS).filter(
+          (option) => option !== PRIVILEGED_USER_MONITORING_OPTIONS.installPad,
+        ),
+      userCount: options.userCount ?? 100,
+      space: options.space ?? 'default',
+    }),
+  );
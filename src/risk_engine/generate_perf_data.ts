@@ -7,6 +7,7 @@ import { uploadFile } from '../commands/entity_store_perf/entity_store_perf.ts';
 import { getAlertIndex } from '../utils/index.ts';
 import { getFileLineCount } from '../commands/utils/indices.ts';
 import { getRiskEnginePerfDataDir } from '../utils/data_paths.ts';
+import { getProgressBarStreamOptions } from '../commands/utils/cli_utils.ts';
 
 export const createPerfDataFile = ({
   entityCount,
@@ -69,6 +70,7 @@ export const createPerfDataFile = ({
       clearOnComplete: false,
       hideCursor: true,
       format: '{label} {bar} {value}/{total}',
+      ...getProgressBarStreamOptions(),
     },
     cliProgress.Presets.shades_classic,
   );
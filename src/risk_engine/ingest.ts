@@ -1,5 +1,5 @@
 import { faker } from '@faker-js/faker';
-import createAlerts from '../generators/create_alerts.ts';
+import createAlerts, { getAlertTimeFields } from '../generators/create_alerts.ts';
 import { log } from '../utils/logger.ts';
 import { ensureSpace, getAlertIndex } from '../utils/index.ts';
 import { sleep } from '../utils/sleep.ts';
@@ -8,6 +8,7 @@ import { streamingBulkIngest } from '../commands/shared/elasticsearch.ts';
 import { type Command } from 'commander';
 import { parseIntBase10, wrapAction } from '../commands/utils/cli_utils.ts';
 import { deleteAllAlerts } from '../commands/documents/index.ts';
+import { getEventTime } from '../utils/time_context.ts';
 
 export const ingestData = async (params: {
   batchMBytesSize: number;
@@ -41,8 +42,7 @@ export const ingestData = async (params: {
       flushBytes: 1024 * 1024 * 1,
       flushInterval: 3000,
       onDocument: (doc) => {
-        (doc as Record<string, unknown>)['@timestamp'] = new Date().toISOString();
-        return [{ create: { _index: index } }, { ...doc }];
+        return [{ create: { _index: index } }, { ...doc, ...getAlertTimeFields(getEventTime()) }];
       },
       onDrop: (doc) => {
         log.error('Failed to index document:', doc);
@@ -0,0 +1,185 @@
+/**
+ * Cluster capability detection
+ * Probes Elasticsearch and Kibana once per command so generators can stamp the real stack
+ * version, serverless can be detected instead of configured, and commands relying on
+ * features the cluster lacks are flagged before they fail halfway.
+ */
+
+import { getConfig } from '../get_config.ts';
+import { getEsClient } from '../commands/utils/indices.ts';
+import {
+  ENTITY_STORE_V2_RESOLUTION_GROUP_URL,
+  LEAD_GENERATION_STATUS_URL,
+  API_VERSIONS,
+} from '../constants.ts';
+import { kibanaFetch } from './kibana_api.ts';
+import { log } from './logger.ts';
+
+const KIBANA_STATUS_URL = '/api/status';
+const PRIVMON_PAD_STATUS_URL = '/api/entity_analytics/privileged_user_monitoring/pad/status';
+
+export type ClusterFeature = 'entityStoreV2' | 'privmon' | 'leadGeneration';
+
+export interface ClusterCapabilities {
+  esVersion?: string;
+  kibanaVersion?: string;
+  serverless?: boolean;
+  /** `undefined` when the probe could not tell (e.g. Kibana unreachable). */
+  features: Partial<Record<ClusterFeature, boolean>>;
+}
+
+const FEATURE_LABELS: Record<ClusterFeature, string> = {
+  entityStoreV2: 'Entity Store V2',
+  privmon: 'Privileged User Monitoring',
+  leadGeneration: 'Lead Generation',
+};
+
+/**
+ * A GET on a route that exists answers with anything but 404 (often 400 for missing
+ * parameters), so a 404 is taken as "not available on this cluster".
+ */
+const FEATURE_PROBES: Record<ClusterFeature, { path: string; apiVersion?: string }> = {
+  entityStoreV2: { path: ENTITY_STORE_V2_RESOLUTION_GROUP_URL, apiVersion: API_VERSIONS.public.v1 },
+  privmon: { path: PRIVMON_PAD_STATUS_URL, apiVersion: API_VERSIONS.public.v1 },
+  leadGeneration: { path: LEAD_GENERATION_STATUS_URL },
+};
+
+/** Features each command depends on, keyed by primary command name. */
+const COMMAND_REQUIREMENTS: Record<string, ClusterFeature[]> = {
+  'risk-score-v2': ['entityStoreV2'],
+  'generate-entity-maintainers-data': ['entityStoreV2'],
+  leads: ['entityStoreV2', 'leadGeneration'],
+  'privileged-user-monitoring': ['privmon'],
+  'privmon-quick': ['privmon'],
+};
+
+/** Commands that only work on local files or clean up, so there is nothing to adapt. */
+const OFFLINE_COMMANDS = new Set([
+  'config',
+  'runs',
+  'create-perf-data',
+  'create-risk-engine-data',
+  'create-risk-engine-dataset',
+  'create-baseline',
+  'list-baselines',
+  'compare-metrics',
+]);
+
+let capabilities: ClusterCapabilities | undefined;
+
+const probeElasticsearch = async (): Promise<
+  Pick<ClusterCapabilities, 'esVersion'> & { serverless?: boolean }
+> => {
+  try {
+    const info = await getEsClient().info(undefined, { maxRetries: 0 });
+    return {
+      esVersion: info.version.number,
+      serverless: info.version.build_flavor === 'serverless',
+    };
+  } catch (error) {
+    log.debug('Elasticsearch capability probe failed:', error);
+    return {};
+  }
+};
+
+const probeKibana = async (): Promise<{ kibanaVersion?: string; serverless?: boolean }> => {
+  try {
+    const status = await kibanaFetch<{ version?: { number?: string; build_flavor?: string } }>(
+      KIBANA_STATUS_URL,
+      { method: 'GET' },
+      { omitApiVersion: true, retry: false },
+    );
+    return {
+      kibanaVersion: status.version?.number,
+      serverless:
+        status.version?.build_flavor !== undefined
+          ? status.version.build_flavor === 'serverless'
+          : undefined,
+    };
+  } catch (error) {
+    log.debug('Kibana capability probe failed:', error);
+    return {};
+  }
+};
+
+const probeFeature = async (feature: ClusterFeature): Promise<boolean | undefined> => {
+  const { path, apiVersion } = FEATURE_PROBES[feature];
+  try {
+    await kibanaFetch(path, { method: 'GET' }, { apiVersion, retry: false });
+    return true;
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    if (statusCode === undefined) {
+      log.debug(`${FEATURE_LABELS[feature]} probe failed:`, error);
+      return undefined;
+    }
+    return statusCode !== 404;
+  }
+};
+
+/**
+ * Probe the cluster. Failures are not fatal: every field simply stays undefined and callers
+ * fall back to their defaults.
+ */
+export const detectClusterCapabilities = async (
+  features: ClusterFeature[] = [],
+): Promise<ClusterCapabilities> => {
+  const [es, kibana] = await Promise.all([probeElasticsearch(), probeKibana()]);
+  const featureResults = await Promise.all(
+    features.map(async (feature) => [feature, await probeFeature(feature)] as const),
+  );
+
+  capabilities = {
+    esVersion: es.esVersion,
+    kibanaVersion: kibana.kibanaVersion,
+    serverless: es.serverless ?? kibana.serverless,
+    features: Object.fromEntries(featureResults),
+  };
+
+  log.debug('Detected cluster capabilities:', capabilities);
+  return capabilities;
+};
+
+export const getClusterCapabilities = (): ClusterCapabilities | undefined => capabilities;
+
+/**
+ * Stack version detected for this run (Kibana first, as it drives the UI being tested).
+ */
+export const getDetectedStackVersion = (): string | undefined =>
+  capabilities?.kibanaVersion ?? capabilities?.esVersion;
+
+/**
+ * Serverless as detected from the build flavor, falling back to the `serverless` config
+ * value when detection did not run or could not tell.
+ */
+export const isServerless = (): boolean =>
+  capabilities?.serverless ?? getConfig().serverless ?? false;
+
+/**
+ * Run detection for a command and warn about features it needs that the cluster lacks.
+ * Commands working only on local files are skipped.
+ */
+export const detectCapabilitiesForCommand = async (commandPath: string[]): Promise<void> => {
+  if (commandPath.some((name) => OFFLINE_COMMANDS.has(name))) {
+    return;
+  }
+
+  const commandName = commandPath[commandPath.length - 1];
+  const required = COMMAND_REQUIREMENTS[commandName] ?? [];
+  const detected = await detectClusterCapabilities(required);
+
+  const version = getDetectedStackVersion();
+  if (version) {
+    log.info(`Detected stack version ${version}${detected.serverless ? ' (serverless)' : ''}`);
+  } else {
+    log.warn('Could not detect the stack version, using built-in defaults');
+  }
+
+  for (const feature of required) {
+    if (detected.features[feature] === false) {
+      log.warn(
+        `"${commandName}" needs ${FEATURE_LABELS[feature]}, which this cluster${version ? ` (${version})` : ''} does not appear to support. The command may fail partway through.`,
+      );
+    }
+  }
+};
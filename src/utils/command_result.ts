@@ -0,0 +1,248 @@
+/**
+ * Command result
+ * Collects what a command did (documents written per index, Kibana objects created, links to
+ * the UI, errors) and settles the exit code: 0 on success, 2 when the command finished with
+ * partial failures such as bulk item errors, 1 when it failed and 130 when interrupted.
+ * With the global --json option the result is printed as one JSON object on stdout when the
+ * process exits, and log lines move to stderr.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { type BulkResponse } from '@elastic/elasticsearch/lib/api/types';
+import { getRunId } from './doc_metadata.ts';
+import { getOutputDir } from './file_output.ts';
+import { log, writeRunLogRecord } from './logger.ts';
+import { type RunLedger, getCurrentRunLedger } from './run_ledger.ts';
+
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  partialFailure: 2,
+  interrupted: 130,
+} as const;
+
+export type CommandStatus = 'success' | 'partial' | 'failed' | 'interrupted';
+
+export interface CommandResult {
+  command: string;
+  runId: string;
+  status: CommandStatus;
+  exitCode: number;
+  startedAt: string;
+  durationMs: number;
+  /** Set for dry runs (--output-dir / --dry-run) */
+  outputDir?: string;
+  documents: {
+    total: number;
+    failed: number;
+    /** Bulk items re-submitted after a 429/5xx rejection, counted once per re-submission */
+    retried: number;
+    byIndex: Record<string, number>;
+    failedByIndex: Record<string, number>;
+  };
+  objects: Pick<
+    RunLedger,
+    'rules' | 'watchlists' | 'cases' | 'spaces' | 'packages' | 'mlJobs' | 'dataViews'
+  >;
+  urls: string[];
+  errors: string[];
+}
+
+let jsonOutput = false;
+let command = 'unknown';
+let startedAt = Date.now();
+const documentsByIndex = new Map<string, number>();
+const failedByIndex = new Map<string, number>();
+let failedDocuments = 0;
+let retriedDocuments = 0;
+const urls = new Set<string>();
+const errors: string[] = [];
+
+/** Documents written and failed by one part of a command, e.g. one space of a fan-out run. */
+export interface DocumentTally {
+  written: number;
+  failed: number;
+}
+
+const tallyStorage = new AsyncLocalStorage<DocumentTally>();
+
+export const isJsonOutput = (): boolean => jsonOutput;
+
+/** Start collecting for a command; counts from an earlier command in the process are dropped. */
+export const startCommandResult = (name: string): void => {
+  command = name;
+  startedAt = Date.now();
+  documentsByIndex.clear();
+  failedByIndex.clear();
+  failedDocuments = 0;
+  retriedDocuments = 0;
+  urls.clear();
+  errors.length = 0;
+};
+
+const addDocuments = (index: string, count: number): void => {
+  documentsByIndex.set(index, (documentsByIndex.get(index) ?? 0) + count);
+  const tally = tallyStorage.getStore();
+  if (tally) {
+    tally.written += count;
+  }
+};
+
+const addFailure = (index: string | undefined): void => {
+  failedDocuments += 1;
+  const tally = tallyStorage.getStore();
+  if (tally) {
+    tally.failed += 1;
+  }
+  const key = index ?? 'unknown';
+  failedByIndex.set(key, (failedByIndex.get(key) ?? 0) + 1);
+};
+
+/**
+ * Run `fn`, also counting the documents it writes into `tally`. The command-wide counts are
+ * unaffected; this only splits them up when parts of a command run concurrently.
+ */
+export const runWithDocumentTally = <T>(tally: DocumentTally, fn: () => Promise<T>): Promise<T> =>
+  tallyStorage.run(tally, fn);
+
+/** Count the successful and failed items of a bulk response (or its dry-run equivalent). */
+export const recordBulkResponse = (response: BulkResponse): void => {
+  for (const item of response.items ?? []) {
+    const result = Object.values(item)[0];
+    if (!result) {
+      continue;
+    }
+    if (result.error) {
+      addFailure(result._index);
+    } else {
+      addDocuments(result._index, 1);
+    }
+  }
+};
+
+/** For streamed bulk requests, which report per document instead of per response. */
+export const recordDocumentWritten = (index: string): void => addDocuments(index, 1);
+
+export const recordDocumentFailed = (index?: string): void => {
+  addFailure(index);
+  if (index && documentsByIndex.has(index)) {
+    addDocuments(index, -1);
+  }
+};
+
+/** Bulk items that were rejected with a retryable status and re-submitted. */
+export const recordRetriedDocuments = (count: number): void => {
+  retriedDocuments += count;
+};
+
+/** Links into the Kibana UI the command pointed the user to. */
+export const recordUrl = (url: string): void => {
+  urls.add(url);
+};
+
+/** A failure the command recovered from; the run still completes, with exit code 2. */
+export const recordError = (message: string): void => {
+  errors.push(message);
+};
+
+export const hasPartialFailures = (): boolean => failedDocuments > 0 || errors.length > 0;
+
+/** Exit code for a command that returned normally. */
+export const getCompletionExitCode = (): number =>
+  hasPartialFailures() ? EXIT_CODES.partialFailure : EXIT_CODES.success;
+
+const getIndexedCounts = (counts: Map<string, number>): Record<string, number> =>
+  Object.fromEntries([...counts].filter(([, count]) => count > 0));
+
+/**
+ * Log the per-index outcome of bulk ingestion once the command is done. Quiet for runs where
+ * every document went through on the first attempt.
+ */
+export const logIngestTally = (): void => {
+  if (failedDocuments === 0 && retriedDocuments === 0) {
+    return;
+  }
+  const written = getIndexedCounts(documentsByIndex);
+  const failed = getIndexedCounts(failedByIndex);
+  const lines = [...new Set([...Object.keys(written), ...Object.keys(failed)])]
+    .sort()
+    .map((index) => `  ${index}: ${written[index] ?? 0} written, ${failed[index] ?? 0} failed`);
+  const summary =
+    retriedDocuments > 0
+      ? `Ingest summary (${retriedDocuments} rejected item(s) re-submitted):`
+      : 'Ingest summary:';
+  if (failedDocuments > 0) {
+    log.warn([summary, ...lines].join('\n'));
+  } else {
+    log.info([summary, ...lines].join('\n'));
+  }
+};
+
+const getStatus = (exitCode: number): CommandStatus => {
+  switch (exitCode) {
+    case EXIT_CODES.success:
+      return 'success';
+    case EXIT_CODES.partialFailure:
+      return 'partial';
+    case EXIT_CODES.interrupted:
+      return 'interrupted';
+    default:
+      return 'failed';
+  }
+};
+
+export const getCommandResult = (exitCode: number): CommandResult => {
+  const ledger = getCurrentRunLedger();
+  const byIndex = getIndexedCounts(documentsByIndex);
+  return {
+    command,
+    runId: getRunId(),
+    status: getStatus(exitCode),
+    exitCode,
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    ...(getOutputDir() && { outputDir: getOutputDir() }),
+    documents: {
+      total: Object.values(byIndex).reduce((sum, count) => sum + count, 0),
+      failed: failedDocuments,
+      retried: retriedDocuments,
+      byIndex,
+      failedByIndex: getIndexedCounts(failedByIndex),
+    },
+    objects: {
+      rules: ledger?.rules ?? [],
+      watchlists: ledger?.watchlists ?? [],
+      cases: ledger?.cases ?? [],
+      spaces: ledger?.spaces ?? [],
+      packages: ledger?.packages ?? [],
+      mlJobs: ledger?.mlJobs ?? [],
+      dataViews: ledger?.dataViews ?? [],
+    },
+    urls: [...urls],
+    errors,
+  };
+};
+
+/**
+ * Switch to JSON output: log lines go to stderr, progress bars are hidden and the result is
+ * written to stdout on exit, whichever way the process ends.
+ */
+export const enableJsonOutput = (): void => {
+  jsonOutput = true;
+  log.setStream(process.stderr);
+  process.on('exit', (code) => {
+    process.stdout.write(`${JSON.stringify(getCommandResult(code))}\n`);
+  });
+};
+
+/** End the run log (--run-log) with the result as its last record, whichever way the process ends. */
+export const writeRunSummaryOnExit = (): void => {
+  process.on('exit', (code) => {
+    const result = getCommandResult(code);
+    writeRunLogRecord(
+      result.status === 'success' ? 'info' : 'warn',
+      `Run finished: ${result.status}, ${result.documents.total} documents`,
+      { event: 'run.summary', durationMs: result.durationMs, result },
+    );
+  });
+};
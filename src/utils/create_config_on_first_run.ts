@@ -2,12 +2,17 @@ import { input, select } from '@inquirer/prompts';
 import fs from 'fs';
 import { configPath, type ConfigType, hasValidConfig } from '../get_config.ts';
 import { log } from './logger.ts';
+import { isNonInteractive } from '../commands/utils/interactive_prompts.ts';
 
 export const createConfigFileOnFirstRun = async () => {
   // Check if we have a valid config from env vars or config.json
   if (hasValidConfig()) {
     return;
   }
+  // Non-interactive runs fail later with the config problems instead of prompting here
+  if (isNonInteractive()) {
+    return;
+  }
 
   log.info(`
     Hi there! Looks like this is your first run 👋
@@ -70,7 +75,6 @@ export const createConfigFileOnFirstRun = async () => {
       node: kibanaNode,
       ...auth,
     },
-    serverless: false,
     eventIndex: '',
     eventDateOffsetHours: undefined,
     allowSelfSignedCerts: undefined,
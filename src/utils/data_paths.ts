@@ -13,3 +13,11 @@ export const getRiskEnginePerfDataDir = () => getDataPath('risk_engine', 'perf')
 export const getBaselinesDir = () => getDataPath('baselines');
 
 export const getTestLogDataDir = () => getDataPath('test_log_data');
+
+export const getRunsDir = () => getDataPath('runs');
+
+export const getFieldSnapshotsDir = () => getDataPath('field_snapshots');
+
+export const getLogsDir = () => path.join(process.cwd(), 'logs');
+
+export const getRunLogPath = (runId: string) => path.join(getLogsDir(), `${runId}.jsonl`);
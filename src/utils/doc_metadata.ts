@@ -1,15 +1,35 @@
 import packageJson from '../../package.json' with { type: 'json' };
+import { getNow } from './seeded_random.ts';
 const { version } = packageJson;
 import { faker } from '@faker-js/faker';
+import { createHash } from 'crypto';
 
-const RUN_ID = faker.string.uuid();
+let runId = faker.string.uuid();
 const AUTHOR = 'security-documents-generator';
+
+export const getRunId = () => runId;
+
+/**
+ * Derive the run ID from a stable key instead of a random UUID, so runs pinned with --seed and
+ * --as-of stamp identical `_metadata`. Repeating such a run reuses its ledger.
+ */
+export const setDeterministicRunId = (key: string): void => {
+  const hex = createHash('sha256').update(key).digest('hex');
+  runId = [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join('-');
+};
+
 const generateMetadata = () => {
   return {
-    generatedAt: new Date().toISOString(),
+    generatedAt: new Date(getNow()).toISOString(),
     version: version,
     author: AUTHOR,
-    runId: RUN_ID,
+    runId,
   };
 };
 
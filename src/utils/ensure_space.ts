@@ -1,10 +1,16 @@
 import { initializeSpace } from './initialize_space.ts';
+import { isFileOutputEnabled } from './file_output.ts';
+import { log } from './logger.ts';
 
 export const DEFAULT_SPACE = 'default';
 
 export const ensureSpace = async (space?: string): Promise<string> => {
   const resolvedSpace = space ?? DEFAULT_SPACE;
   if (resolvedSpace !== DEFAULT_SPACE) {
+    if (isFileOutputEnabled()) {
+      log.info(`Dry run: skipping initialization of space ${resolvedSpace}`);
+      return resolvedSpace;
+    }
     await initializeSpace(resolvedSpace);
   }
   return resolvedSpace;
@@ -0,0 +1,37 @@
+/**
+ * Errors
+ * Typed errors thrown by generators instead of exiting the process, so library callers can
+ * catch them. The CLI reports them through handleCommandError and exits with code 1.
+ */
+
+export class GeneratorError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The connection config is missing or invalid; `details` lists each problem. */
+export class ConfigError extends GeneratorError {
+  readonly details: string[];
+
+  constructor(message: string, details: string[] = []) {
+    super(message);
+    this.details = details;
+  }
+}
+
+/** Invalid options passed to a generator. */
+export class ValidationError extends GeneratorError {}
+
+/** A Kibana API request answered with an error status. */
+export class KibanaApiError extends GeneratorError {
+  readonly statusCode: number;
+  readonly responseData: unknown;
+
+  constructor(message: string, statusCode: number, responseData: unknown) {
+    super(message);
+    this.statusCode = statusCode;
+    this.responseData = responseData;
+  }
+}
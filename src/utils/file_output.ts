@@ -0,0 +1,153 @@
+/**
+ * Offline output sink
+ * When enabled (global --output-dir / --dry-run options), the bulk helpers write the exact
+ * bulk action + document pairs to per-index NDJSON files and kibanaFetch records each request
+ * in a manifest instead of talking to the cluster.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  type BulkOperationType,
+  type BulkResponse,
+  type BulkResponseItem,
+} from '@elastic/elasticsearch/lib/api/types';
+import { log } from './logger.ts';
+import { getDataPath } from './data_paths.ts';
+import { ValidationError } from './errors.ts';
+
+export const KIBANA_MANIFEST_FILE_NAME = 'kibana_manifest.ndjson';
+export const NDJSON_EXTENSION = '.ndjson';
+
+const UNKNOWN_INDEX = '_unknown';
+
+let outputDir: string | undefined;
+
+export const getDefaultOutputDir = (runId: string) => getDataPath('dry_run', runId);
+
+/**
+ * Commands that reach the cluster only through the bulk helpers, kibanaFetch and ensureSpace, so
+ * they run without one. Keyed by primary command name; the rest read from or write to the
+ * cluster directly and are refused.
+ */
+export const DRY_RUN_COMMANDS = new Set([
+  'generate-alerts',
+  'generate-events',
+  'generate-process-trees',
+  'generate-graph',
+  'replay',
+  'generate-correlated-organization-data',
+  'generate-correlated-organization-data-quick',
+  'entity-store',
+  'quick-entity-store',
+  'generate-asset-criticality',
+  'generate-legacy-risk-score',
+  'rules',
+  'scenario',
+]);
+
+export const assertDryRunSupported = (commandPath: string[]): void => {
+  if (!commandPath.some((name) => DRY_RUN_COMMANDS.has(name))) {
+    throw new ValidationError(
+      `${commandPath.join(' ')} needs a live cluster and cannot be combined with --output-dir or --dry-run (supported: ${[...DRY_RUN_COMMANDS].join(', ')})`,
+    );
+  }
+};
+
+export const enableFileOutput = (dir: string): void => {
+  outputDir = path.resolve(dir);
+  fs.mkdirSync(outputDir, { recursive: true });
+  log.info(`Dry run: writing bulk bodies and Kibana API calls to ${outputDir}`);
+};
+
+export const isFileOutputEnabled = (): boolean => outputDir !== undefined;
+
+export const getOutputDir = (): string | undefined => outputDir;
+
+/** Index names are used as file names; anything outside a safe charset is replaced. */
+export const getIndexFileName = (index: string) =>
+  `${index.replace(/[^a-zA-Z0-9._-]/g, '_')}${NDJSON_EXTENSION}`;
+
+const requireOutputDir = (): string => {
+  if (!outputDir) {
+    throw new Error('File output is not enabled');
+  }
+  return outputDir;
+};
+
+/**
+ * Append a bulk body (action line followed by its document, except for deletes) to the
+ * per-index NDJSON files. The action is written untouched so the files can be sent to
+ * `_bulk` as-is; `defaultIndex` is used when the action does not carry an `_index`.
+ * Returns a response shaped like a successful Bulk API response.
+ */
+export const writeBulkOperations = (operations: unknown[], defaultIndex?: string): BulkResponse => {
+  const dir = requireOutputDir();
+  const linesByIndex = new Map<string, string[]>();
+  const items: BulkResponse['items'] = [];
+
+  let i = 0;
+  while (i < operations.length) {
+    const action = operations[i] as Partial<
+      Record<BulkOperationType, { _index?: string; _id?: string }>
+    >;
+    const opType = Object.keys(action)[0] as BulkOperationType;
+    const index = action[opType]?._index ?? defaultIndex ?? UNKNOWN_INDEX;
+    const hasDocument = opType !== 'delete';
+
+    const lines = linesByIndex.get(index) ?? [];
+    lines.push(JSON.stringify(action));
+    if (hasDocument) {
+      lines.push(JSON.stringify(operations[i + 1]));
+    }
+    linesByIndex.set(index, lines);
+
+    const item: BulkResponseItem = {
+      _index: index,
+      _id: action[opType]?._id ?? null,
+      status: opType === 'create' ? 201 : 200,
+      result: opType === 'delete' ? 'deleted' : opType === 'update' ? 'updated' : 'created',
+    };
+    items.push({ [opType]: item });
+    i += hasDocument ? 2 : 1;
+  }
+
+  for (const [index, lines] of linesByIndex) {
+    fs.appendFileSync(path.join(dir, getIndexFileName(index)), lines.join('\n') + '\n');
+  }
+
+  return { took: 0, errors: false, items };
+};
+
+/**
+ * Record a Kibana API call that would have been made. Bodies are stored parsed when they are
+ * JSON so the manifest diffs cleanly between runs.
+ */
+export const recordKibanaCall = (call: {
+  method: string;
+  path: string;
+  space?: string;
+  apiVersion?: string;
+  body?: unknown;
+}): void => {
+  const dir = requireOutputDir();
+  let body = call.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // keep raw string bodies as they are
+    }
+  } else if (body !== undefined && body !== null) {
+    body = `[${(body as object).constructor.name} body]`;
+  }
+
+  const entry = {
+    method: call.method,
+    path: call.path,
+    ...(call.space !== undefined && { space: call.space }),
+    ...(call.apiVersion !== undefined && { apiVersion: call.apiVersion }),
+    ...(body !== undefined && { body }),
+  };
+  fs.appendFileSync(path.join(dir, KIBANA_MANIFEST_FILE_NAME), JSON.stringify(entry) + '\n');
+};
@@ -4,6 +4,12 @@ import { log } from './logger.ts';
 import { faker } from '@faker-js/faker';
 import fs from 'fs';
 import FormData from 'form-data';
+import { isFileOutputEnabled, recordKibanaCall } from './file_output.ts';
+import { isServerless } from './cluster_capabilities.ts';
+import { recordKibanaObject, recordPackage, recordSpace } from './run_ledger.ts';
+import { recordUrl } from './command_result.ts';
+import { isRetryableStatus, withRetry } from './retry.ts';
+import { KibanaApiError } from './errors.ts';
 import {
   RISK_SCORE_SCORES_URL,
   RISK_SCORE_ENGINE_INIT_URL,
@@ -34,8 +40,14 @@ import {
   ENTITY_MAINTAINERS_URL,
   ENTITY_MAINTAINERS_RUN_URL,
   WATCHLISTS_URL,
+  NOTES_URL,
+  CASES_URL,
+  CASE_URL,
+  CASES_CONFIGURE_URL,
   ENTITY_STORE_V2_CRUD_BULK_URL,
   ML_GROUP_ID,
+  GENERATOR_TAG,
+  FLEET_EPM_INSTALLED_PACKAGES_URL,
 } from '../constants.ts';
 
 const ENTITY_STORE_V2_SETTING_KEY = 'securitySolution:entityStoreEnableV2';
@@ -69,14 +81,34 @@ const redactUrl = (urlStr: string): string => {
 const joinUrl = (...parts: string[]) =>
   parts.map((p, i) => (i === 0 ? p.replace(/\/+$/, '') : p.replace(/^\/+/, ''))).join('/');
 
+/**
+ * Sends a request to Kibana in place of the built-in fetch (programmatic use, see src/lib.ts).
+ * `path` already carries the space prefix (e.g. /s/qa/api/...); the fetcher adds the Kibana
+ * base URL and authentication.
+ */
+export type KibanaFetcher = (path: string, init: RequestInit) => Promise<Response>;
+
+let kibanaFetcher: KibanaFetcher | undefined;
+
+export const setKibanaFetcher = (fetcher: KibanaFetcher | undefined): void => {
+  kibanaFetcher = fetcher;
+};
+
+const getSpacePath = (path: string, space?: string) =>
+  space ? joinUrl(`/s/${space}`, path) : path;
+
+/** Kibana URL for a path; relative (no host) when requests go through an injected fetcher. */
 export const buildKibanaUrl = (opts: { path: string; space?: string }) => {
-  const config = getConfig();
   const { path, space } = opts;
-  const pathWithSpace = space ? joinUrl(`/s/${space}`, path) : path;
-  return joinUrl(config.kibana.node, pathWithSpace);
+  const pathWithSpace = getSpacePath(path, space);
+  const url = kibanaFetcher ? pathWithSpace : joinUrl(getConfig().kibana.node, pathWithSpace);
+  // App paths are links shown to the user (API calls use /api/...), so they go in the result
+  if (path.startsWith('/app/')) {
+    recordUrl(url);
+  }
+  return url;
 };
 
-type ResponseError = Error & { statusCode: number; responseData: unknown };
 type ErrorWithCause = Error & { cause?: unknown };
 
 const getAuthorizationHeader = () => {
@@ -91,10 +123,21 @@ const getAuthorizationHeader = () => {
 };
 
 const throwResponseError = (message: string, statusCode: number, response: unknown) => {
-  const error = new Error(message) as ResponseError;
-  error.statusCode = statusCode;
-  error.responseData = response;
-  throw error;
+  throw new KibanaApiError(message, statusCode, response);
+};
+
+/** Send a raw request, through the injected fetcher when there is one. */
+const sendToKibana = (path: string, space: string | undefined, init: RequestInit) => {
+  if (kibanaFetcher) {
+    return kibanaFetcher(getSpacePath(path, space), init);
+  }
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', getAuthorizationHeader());
+  return fetch(buildKibanaUrl({ path, space }), {
+    ...init,
+    headers,
+    dispatcher: getDispatcher(),
+  } as RequestInit);
 };
 
 const formatCauseDetails = (error: unknown): string => {
@@ -118,6 +161,9 @@ const formatCauseDetails = (error: unknown): string => {
   return details.join(', ');
 };
 
+/** Methods that can be resent after a timeout without creating anything twice */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
 export const kibanaFetch = async <T>(
   path: string,
   params: object,
@@ -126,68 +172,109 @@ export const kibanaFetch = async <T>(
     apiVersion?: string;
     space?: string;
     omitApiVersion?: boolean;
+    /**
+     * Retry 429/5xx responses and network errors with backoff (default: true for GET, PUT and
+     * DELETE). Without it only 429s are retried, since Kibana rejected those before acting; set
+     * it for a POST that is safe to send twice.
+     */
+    retry?: boolean;
+    /** What a dry run returns instead of the response, for callers that read it (default: {}) */
+    dryRunResponse?: T;
   } = {},
 ): Promise<T> => {
-  const { ignoreStatuses, apiVersion = '1', space, omitApiVersion } = opts;
-  const url = buildKibanaUrl({ path, space });
   const method = ((params as { method?: string }).method ?? 'GET').toUpperCase();
+  const {
+    ignoreStatuses,
+    apiVersion = '1',
+    space,
+    omitApiVersion,
+    retry = IDEMPOTENT_METHODS.includes(method),
+  } = opts;
+  if (isFileOutputEnabled()) {
+    recordKibanaCall({
+      method,
+      path,
+      space,
+      apiVersion: omitApiVersion ? undefined : apiVersion,
+      body: (params as { body?: unknown }).body,
+    });
+    return opts.dryRunResponse ?? ({} as T);
+  }
+  const url = buildKibanaUrl({ path, space });
   const ignoreStatusesArray = Array.isArray(ignoreStatuses) ? ignoreStatuses : [ignoreStatuses];
   const headers = new Headers();
   headers.append('Content-Type', 'application/json');
   headers.append('kbn-xsrf', 'true');
-  headers.append('Authorization', getAuthorizationHeader());
 
   headers.set('x-elastic-internal-origin', 'kibana');
   if (!omitApiVersion) headers.set('elastic-api-version', apiVersion);
-  let result: Response;
   const safeUrl = redactUrl(url);
-  try {
-    result = await fetch(url, {
-      headers: headers,
-      ...params,
-      dispatcher: getDispatcher(),
-    } as RequestInit);
-  } catch (error) {
-    const details = formatCauseDetails(error);
-    const message = `Network request failed for ${method} ${safeUrl}. Details: ${details}. Check Kibana URL, credentials, and whether Kibana is running.`;
-    throw new Error(message, { cause: error });
-  }
-  const rawResponse = await result.text();
 
-  let data: unknown;
-  if (!rawResponse.trim()) {
-    data = {};
-  } else {
+  const send = async (): Promise<T> => {
+    let result: Response;
     try {
-      data = JSON.parse(rawResponse);
-    } catch {
-      const origin = (() => {
-        try {
-          return new URL(url).origin;
-        } catch {
-          return '(invalid kibana URL)';
-        }
-      })();
-      throw new Error(
-        `Kibana API returned non-JSON (HTTP ${result.status}) for ${path} at ${origin}. ` +
+      result = await sendToKibana(path, space, { headers: headers, ...params } as RequestInit);
+    } catch (error) {
+      const details = formatCauseDetails(error);
+      const message = `Network request failed for ${method} ${safeUrl}. Details: ${details}. Check Kibana URL, credentials, and whether Kibana is running.`;
+      throw new Error(message, { cause: error });
+    }
+    const rawResponse = await result.text();
+
+    let data: unknown;
+    if (!rawResponse.trim()) {
+      data = {};
+    } else {
+      try {
+        data = JSON.parse(rawResponse);
+      } catch {
+        const origin = (() => {
+          try {
+            return new URL(url).origin;
+          } catch {
+            return '(invalid kibana URL)';
+          }
+        })();
+        const message =
+          `Kibana API returned non-JSON (HTTP ${result.status}) for ${path} at ${origin}. ` +
           `Body starts with: ${JSON.stringify(rawResponse.slice(0, 120))}. ` +
           `Check kibana.node is the Kibana base URL (not Elasticsearch). If Kibana uses server.basePath, ` +
-          `include it in kibana.node (e.g. http://host:5601/mybase).`,
+          `include it in kibana.node (e.g. http://host:5601/mybase).`;
+        // Proxies answer 502/503 with an HTML page while Kibana restarts; keep those retryable
+        if (isRetryableStatus(result.status)) {
+          throwResponseError(message, result.status, rawResponse);
+        }
+        throw new Error(message);
+      }
+    }
+    if (!data || typeof data !== 'object') {
+      throw new Error(`Unexpected Kibana response shape for ${path}`);
+    }
+
+    if (result.status >= 400 && !ignoreStatusesArray.includes(result.status)) {
+      throwResponseError(
+        `Request failed for ${method} ${safeUrl}, status: ${result.status}`,
+        result.status,
+        data,
       );
     }
-  }
-  if (!data || typeof data !== 'object') {
-    throw new Error(`Unexpected Kibana response shape for ${path}`);
-  }
+    return data as T;
+  };
 
-  if (result.status >= 400 && !ignoreStatusesArray.includes(result.status)) {
-    throwResponseError(
-      `Request failed for ${method} ${safeUrl}, status: ${result.status}`,
-      result.status,
-      data,
+  if (!retry) {
+    // A timed-out POST may already have created its object, so only a 429 is safe to resend
+    return withRetry(
+      `${method} ${safeUrl}`,
+      send,
+      (error) => error instanceof KibanaApiError && error.statusCode === 429,
     );
   }
-  return data as T;
+  // Network failures (no status) and 429/5xx responses are transient
+  return withRetry(`${method} ${safeUrl}`, send, (error) =>
+    error instanceof KibanaApiError
+      ? isRetryableStatus(error.statusCode)
+      : (error as ErrorWithCause).cause !== undefined,
+  );
 };
 
 export const fetchRiskScore = async (space?: string) => {
@@ -225,6 +312,291 @@ export const scheduleRiskEngineNow = async (space?: string) => {
   );
 };
 
+/** Attach a note to an alert or event; `eventId` is its document _id. */
+export const createNote = async ({
+  eventId,
+  note,
+  space,
+}: {
+  eventId: string;
+  note: string;
+  space?: string;
+}) => {
+  return kibanaFetch<{ note?: { noteId: string } }>(
+    NOTES_URL,
+    {
+      method: 'PATCH',
+      body: JSON.stringify({ note: { eventId, note, timelineId: '' } }),
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
+export type CaseStatus = 'open' | 'in-progress' | 'closed';
+export type CaseSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface CaseCustomFieldDefinition {
+  key: string;
+  label: string;
+  type: 'text' | 'toggle';
+  required: boolean;
+}
+
+export interface CaseCustomFieldValue {
+  key: string;
+  type: 'text' | 'toggle';
+  value: string | boolean | null;
+}
+
+/** The part of a case response the generator uses; `version` is needed for every update. */
+export interface KibanaCase {
+  id: string;
+  version: string;
+  title: string;
+  status: CaseStatus;
+}
+
+interface CasesConfiguration {
+  id: string;
+  version: string;
+  customFields?: CaseCustomFieldDefinition[];
+}
+
+/** Cases created by the generator always belong to Security. */
+const CASE_OWNER = 'securitySolution';
+
+const NO_CASE_CONNECTOR = { id: 'none', name: 'none', type: '.none', fields: null };
+
+export const createCase = async ({
+  title,
+  description,
+  tags,
+  severity,
+  assigneeUids = [],
+  customFields = [],
+  space,
+}: {
+  title: string;
+  description: string;
+  tags: string[];
+  severity: CaseSeverity;
+  assigneeUids?: string[];
+  customFields?: CaseCustomFieldValue[];
+  space?: string;
+}) => {
+  const created = await kibanaFetch<KibanaCase>(
+    CASES_URL,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        title,
+        description,
+        tags,
+        severity,
+        owner: CASE_OWNER,
+        connector: NO_CASE_CONNECTOR,
+        // Closing the case also closes its alerts, as an analyst would see it
+        settings: { syncAlerts: true },
+        assignees: assigneeUids.map((uid) => ({ uid })),
+        customFields,
+      }),
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+  recordKibanaObject('cases', { id: created.id, space });
+  return created;
+};
+
+export const getCase = async (caseId: string, space?: string) => {
+  return kibanaFetch<KibanaCase>(
+    CASE_URL(caseId),
+    {
+      method: 'GET',
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
+/** Security cases carrying all of `tags`, most recently created first. */
+export const findCases = async ({
+  tags,
+  space,
+  perPage = 100,
+}: {
+  tags: string[];
+  space?: string;
+  perPage?: number;
+}) => {
+  const params = new URLSearchParams({
+    owner: CASE_OWNER,
+    perPage: String(perPage),
+    sortField: 'createdAt',
+    sortOrder: 'desc',
+  });
+  tags.forEach((tag) => params.append('tags', tag));
+  return kibanaFetch<{ cases: KibanaCase[]; total: number }>(
+    `${CASES_URL}/_find?${params}`,
+    { method: 'GET' },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
+export const updateCaseStatus = async ({
+  caseId,
+  version,
+  status,
+  space,
+}: {
+  caseId: string;
+  version: string;
+  status: CaseStatus;
+  space?: string;
+}) => {
+  return kibanaFetch<KibanaCase[]>(
+    CASES_URL,
+    {
+      method: 'PATCH',
+      body: JSON.stringify({ cases: [{ id: caseId, version, status }] }),
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
+export const deleteCase = async (caseId: string, space?: string) => {
+  return kibanaFetch<unknown>(
+    `${CASES_URL}?ids=${encodeURIComponent(JSON.stringify([caseId]))}`,
+    {
+      method: 'DELETE',
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
+/**
+ * Attach alerts to a case. The Cases API takes one rule per comment, so alerts from several
+ * rules need one call each. Returns the updated case.
+ */
+export const attachAlertsToCase = async ({
+  caseId,
+  alerts,
+  rule,
+  space,
+}: {
+  caseId: string;
+  alerts: Array<{ id: string; index: string }>;
+  rule: { id: string; name: string };
+  space?: string;
+}) => {
+  return kibanaFetch<KibanaCase>(
+    `${CASE_URL(caseId)}/comments`,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        type: 'alert',
+        owner: CASE_OWNER,
+        alertId: alerts.map(({ id }) => id),
+        index: alerts.map(({ index }) => index),
+        rule,
+      }),
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
+export const addCaseComment = async ({
+  caseId,
+  comment,
+  space,
+}: {
+  caseId: string;
+  comment: string;
+  space?: string;
+}) => {
+  return kibanaFetch<KibanaCase>(
+    `${CASE_URL(caseId)}/comments`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ type: 'user', owner: CASE_OWNER, comment }),
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
+/** Add an observable (Kibana 9.1+); `typeKey` is a built-in type such as observable-type-ipv4. */
+export const addCaseObservable = async ({
+  caseId,
+  typeKey,
+  value,
+  description,
+  space,
+}: {
+  caseId: string;
+  typeKey: string;
+  value: string;
+  description: string;
+  space?: string;
+}) => {
+  return kibanaFetch<KibanaCase>(
+    `${CASE_URL(caseId)}/observables`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ observable: { typeKey, value, description } }),
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
+/**
+ * Make sure the Security cases configuration of a space defines `customFields`, creating the
+ * configuration or adding the missing fields to it. Fields defined by users are kept.
+ */
+export const ensureCaseCustomFields = async (
+  customFields: CaseCustomFieldDefinition[],
+  space?: string,
+) => {
+  const configurations = await kibanaFetch<CasesConfiguration[]>(
+    `${CASES_CONFIGURE_URL}?owner=${CASE_OWNER}`,
+    {
+      method: 'GET',
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+  const [configuration] = Array.isArray(configurations) ? configurations : [];
+  if (!configuration) {
+    await kibanaFetch(
+      CASES_CONFIGURE_URL,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          owner: CASE_OWNER,
+          connector: NO_CASE_CONNECTOR,
+          closure_type: 'close-by-user',
+          customFields,
+        }),
+      },
+      { apiVersion: API_VERSIONS.public.v1, space },
+    );
+    return;
+  }
+
+  const existing = configuration.customFields ?? [];
+  const missing = customFields.filter(({ key }) => !existing.some((field) => field.key === key));
+  if (missing.length === 0) {
+    return;
+  }
+  await kibanaFetch(
+    `${CASES_CONFIGURE_URL}/${configuration.id}`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify({
+        version: configuration.version,
+        customFields: [...existing, ...missing],
+      }),
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
 export const assignAssetCriticality = async (
   assetCriticalityRecords: Array<{
     id_field: string;
@@ -239,11 +611,12 @@ export const assignAssetCriticality = async (
       method: 'POST',
       body: JSON.stringify({ records: assetCriticalityRecords }),
     },
-    { apiVersion: API_VERSIONS.public.v1, space },
+    // Records are upserted by entity ID
+    { apiVersion: API_VERSIONS.public.v1, space, retry: true },
   );
 };
 
-export const createRule = ({
+export const createRule = async ({
   space,
   id,
   name,
@@ -270,7 +643,8 @@ export const createRule = ({
   from?: string;
   interval?: string;
 } = {}): Promise<{ id: string; name: string }> => {
-  return kibanaFetch<{ id: string; name: string }>(
+  const ruleId = id || faker.string.uuid();
+  const rule = await kibanaFetch<{ id: string; name: string }>(
     DETECTION_ENGINE_RULES_URL,
     {
       method: 'POST',
@@ -279,7 +653,7 @@ export const createRule = ({
         description: description || 'Tests a simple query',
         enabled: enabled ?? true,
         risk_score: risk_score || 70,
-        rule_id: id || faker.string.uuid(),
+        rule_id: ruleId,
         severity: severity || 'high',
         index: index || ['logs-*', 'metrics-*', 'auditbeat-*'],
         type: type || 'query',
@@ -287,10 +661,17 @@ export const createRule = ({
         from: from || 'now-40d',
         interval: interval || '1m',
         max_signals: 1000,
+        tags: [GENERATOR_TAG],
       }),
     },
-    { apiVersion: API_VERSIONS.public.v1, space },
+    {
+      apiVersion: API_VERSIONS.public.v1,
+      space,
+      dryRunResponse: { id: ruleId, name: name || 'Match All' },
+    },
   );
+  recordKibanaObject('rules', { id: ruleId, space });
+  return rule;
 };
 
 export const getRule = async (ruleId: string, space?: string) => {
@@ -309,6 +690,27 @@ export const getRule = async (ruleId: string, space?: string) => {
   }
 };
 
+/** One page of the rules matching a KQL `filter` on `alert.attributes.*`. */
+export const findRules = async ({
+  filter,
+  space,
+  perPage = 100,
+}: {
+  filter: string;
+  space?: string;
+  perPage?: number;
+}) => {
+  const params = new URLSearchParams({ filter, per_page: String(perPage) });
+  return kibanaFetch<{
+    data: Array<{ id: string; rule_id: string; name: string; enabled: boolean }>;
+    total: number;
+  }>(
+    `${DETECTION_ENGINE_RULES_URL}/_find?${params}`,
+    { method: 'GET' },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
 export const deleteRule = async (ruleId: string, space?: string) => {
   const url = DETECTION_ENGINE_RULES_URL + '?rule_id=' + ruleId;
   return kibanaFetch(
@@ -359,7 +761,8 @@ export const installPackage = async ({
   prerelease?: boolean;
 }) => {
   let resolvedVersion = version;
-  if (version === 'latest') {
+  // Dry runs cannot resolve "latest" against the registry, so the manifest keeps it as-is
+  if (version === 'latest' && !isFileOutputEnabled()) {
     const pkg = await getPackageInfo({ packageName, space, prerelease });
     resolvedVersion = pkg.item.version;
   }
@@ -369,13 +772,16 @@ export const installPackage = async ({
     url += '?prerelease=true';
   }
 
-  return kibanaFetch(
+  const response = await kibanaFetch(
     url,
     {
       method: 'POST',
     },
-    { apiVersion: API_VERSIONS.public.v1, space },
+    // Installing an installed version is a no-op
+    { apiVersion: API_VERSIONS.public.v1, space, retry: true },
   );
+  recordPackage({ name: packageName, version: resolvedVersion, space });
+  return response;
 };
 
 export const createAgentPolicy = async ({
@@ -419,7 +825,9 @@ export const getPackageInfo = async ({
   packageName: string;
   space?: string;
   prerelease?: boolean;
-}): Promise<{ item: { name: string; version: string; status: string } }> => {
+}): Promise<{
+  item: { name: string; version: string; status: string; installationInfo?: { version: string } };
+}> => {
   let path = FLEET_EPM_PACKAGES_URL(packageName);
   if (prerelease) {
     path += '?prerelease=true';
@@ -427,6 +835,20 @@ export const getPackageInfo = async ({
   return kibanaFetch(path, { method: 'GET' }, { apiVersion: API_VERSIONS.public.v1, space });
 };
 
+export const getInstalledPackages = async ({
+  space,
+  perPage = 100,
+}: { space?: string; perPage?: number } = {}) => {
+  return kibanaFetch<{
+    items: Array<{ name: string; version: string; status: string }>;
+    total: number;
+  }>(
+    `${FLEET_EPM_INSTALLED_PACKAGES_URL}?perPage=${perPage}`,
+    { method: 'GET' },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
 export const getPackagePolicies = async ({
   packageName,
   space,
@@ -516,7 +938,7 @@ export const installLegacyRiskScore = async () => {
 };
 
 export const createSpace = async (space: string) => {
-  return kibanaFetch(
+  const response = await kibanaFetch(
     SPACES_URL,
     {
       method: 'POST',
@@ -531,6 +953,18 @@ export const createSpace = async (space: string) => {
       apiVersion: API_VERSIONS.public.v1,
     },
   );
+  recordSpace(space);
+  return response;
+};
+
+export const deleteSpace = async (space: string) => {
+  return kibanaFetch(
+    SPACE_URL(space),
+    {
+      method: 'DELETE',
+    },
+    { apiVersion: API_VERSIONS.public.v1 },
+  );
 };
 
 export const doesSpaceExist = async (space: string): Promise<boolean> => {
@@ -601,6 +1035,8 @@ const _listEngines = (space?: string) => {
   }>;
 };
 
+export const listEntityEngines = (space?: string) => _listEngines(space);
+
 const allRequestedEnginesAreStarted = async (entityTypes: string[], space?: string) => {
   const { engines } = await _listEngines(space);
   if (engines.length === 0) {
@@ -662,13 +1098,11 @@ const getEngineStatusDetails = async (entityTypes: string[], space?: string) =>
  * @returns The response from the Kibana settings API
  */
 export const updateKibanaSettings = async (settings: Record<string, unknown>) => {
-  const config = getConfig();
-
   // Use standard API endpoint by default
   let path = KIBANA_SETTINGS_URL;
 
   // Update to serverless endpoint if needed
-  if (config.serverless) {
+  if (isServerless()) {
     path = KIBANA_SETTINGS_INTERNAL_URL;
     log.info('Detected serverless deployment, switching to internal API endpoint.');
   } else {
@@ -689,6 +1123,8 @@ export const updateKibanaSettings = async (settings: Record<string, unknown>) =>
       {
         // Advanced Settings API version
         apiVersion: '1',
+        // Setting a value is idempotent
+        retry: true,
       },
     );
 
@@ -718,7 +1154,8 @@ export const enableEntityStoreV2 = async (space: string = 'default'): Promise<vo
       method: 'POST',
       body: JSON.stringify({ changes: { [ENTITY_STORE_V2_SETTING_KEY]: true } }),
     },
-    { omitApiVersion: true },
+    // Setting a value is idempotent
+    { omitApiVersion: true, retry: true },
   );
   log.info('Entity Store V2 feature flag posted, waiting for it to be active...');
 
@@ -915,7 +1352,7 @@ export const createWatchlist = async ({
   riskModifier: number;
   space?: string;
 }) => {
-  return kibanaFetch<{ id: string; name: string }>(
+  const watchlist = await kibanaFetch<{ id: string; name: string }>(
     WATCHLISTS_URL,
     {
       method: 'POST',
@@ -923,6 +1360,18 @@ export const createWatchlist = async ({
     },
     { apiVersion: API_VERSIONS.public.v1, space },
   );
+  recordKibanaObject('watchlists', { id: watchlist.id, space });
+  return watchlist;
+};
+
+export const getWatchlist = async ({ id, space = 'default' }: { id: string; space?: string }) => {
+  return kibanaFetch<{ id: string; name: string }>(
+    `${WATCHLISTS_URL}/${id}`,
+    {
+      method: 'GET',
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
 };
 
 export const deleteWatchlist = async ({
@@ -1126,22 +1575,17 @@ export const uploadPrivmonCsv = async (
     const formData = new FormData();
     formData.append('file', fs.createReadStream(csvFilePath));
 
-    const uploadUrl = buildKibanaUrl({
-      path: '/api/entity_analytics/monitoring/users/_csv',
-      space,
-    });
-    const safeUploadUrl = redactUrl(uploadUrl);
-    const response = await fetch(uploadUrl, {
+    const uploadPath = '/api/entity_analytics/monitoring/users/_csv';
+    const safeUploadUrl = redactUrl(buildKibanaUrl({ path: uploadPath, space }));
+    const response = await sendToKibana(uploadPath, space, {
       method: 'POST',
       headers: {
         'kbn-xsrf': 'true',
         'elastic-api-version': API_VERSIONS.public.v1,
         ...formData.getHeaders(),
-        Authorization: getAuthorizationHeader(),
       },
       body: formData as unknown as BodyInit,
-      dispatcher: getDispatcher(),
-    } as RequestInit);
+    });
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -1173,6 +1617,16 @@ export const enablePrivmon = async (space?: string) => {
   }
 };
 
+export const listPrivmonUsers = async (space?: string) => {
+  return kibanaFetch<Array<{ id: string; user?: { name?: string } }>>(
+    '/api/entity_analytics/monitoring/users/list',
+    {
+      method: 'GET',
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
+};
+
 export const installPad = async (space?: string) => {
   try {
     const response = await kibanaFetch(
@@ -1232,9 +1686,14 @@ export const setupPadMlModule = async (space?: string) => {
       },
       { apiVersion: API_VERSIONS.internal.v1, space },
     );
-    return response as {
+    const result = response as {
+      jobs?: Array<{ id: string; success: boolean }>;
       datafeeds: Array<{ id: string; success: boolean; error?: string; started: boolean }>;
     };
+    result.jobs
+      ?.filter((job) => job.success)
+      .forEach((job) => recordKibanaObject('mlJobs', { id: job.id, space }));
+    return result;
   } catch (error) {
     log.error('Error setting up ML module:', error);
     throw error;
@@ -1262,7 +1721,8 @@ export const getMlJobsSummary = async (jobIds: string[], space?: string) => {
       method: 'POST',
       body: JSON.stringify({ jobIds }),
     },
-    { apiVersion: API_VERSIONS.internal.v1, space },
+    // Read-only, POST only to carry the job IDs
+    { apiVersion: API_VERSIONS.internal.v1, space, retry: true },
   );
 };
 
@@ -1271,7 +1731,9 @@ export const setupMlModule = async (
   indexPatternName: string,
   space?: string,
 ): Promise<{ jobs?: Array<{ id: string; success: boolean; error?: { status: number } }> }> => {
-  return kibanaFetch(
+  const response = await kibanaFetch<{
+    jobs?: Array<{ id: string; success: boolean; error?: { status: number } }>;
+  }>(
     `/internal/ml/modules/setup/${moduleId}`,
     {
       method: 'POST',
@@ -1286,6 +1748,10 @@ export const setupMlModule = async (
     },
     { apiVersion: API_VERSIONS.internal.v1, space },
   );
+  response.jobs
+    ?.filter((job) => job.success)
+    .forEach((job) => recordKibanaObject('mlJobs', { id: job.id, space }));
+  return response;
 };
 
 export const installIntegrationAndCreatePolicy = async (
@@ -1336,7 +1802,7 @@ export const getDataView = async (dataViewId: string, space?: string) => {
 };
 
 export const createDataView = async (dataview: object, space?: string) => {
-  return kibanaFetch(
+  const response = await kibanaFetch<{ data_view?: { id?: string } }>(
     '/api/data_views/data_view',
     {
       method: 'POST',
@@ -1344,6 +1810,20 @@ export const createDataView = async (dataview: object, space?: string) => {
     },
     { apiVersion: API_VERSIONS.public.v1, space },
   );
+  if (response.data_view?.id) {
+    recordKibanaObject('dataViews', { id: response.data_view.id, space });
+  }
+  return response;
+};
+
+export const deleteDataView = async (dataViewId: string, space?: string) => {
+  return kibanaFetch(
+    `/api/data_views/data_view/${dataViewId}`,
+    {
+      method: 'DELETE',
+    },
+    { apiVersion: API_VERSIONS.public.v1, space },
+  );
 };
 
 export const createAlertsIndex = async (space?: string) => {
@@ -1353,7 +1833,8 @@ export const createAlertsIndex = async (space?: string) => {
       method: 'POST',
       body: JSON.stringify({}),
     },
-    { apiVersion: API_VERSIONS.public.v1, space },
+    // Creates the index only if it is missing
+    { apiVersion: API_VERSIONS.public.v1, space, retry: true },
   );
 };
 
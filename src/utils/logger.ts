@@ -1,4 +1,7 @@
-import { inspect } from 'node:util';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import fs from 'node:fs';
+import path from 'node:path';
+import { inspect, stripVTControlCharacters } from 'node:util';
 
 const LOG_LEVELS = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 } as const;
 type LogLevel = keyof typeof LOG_LEVELS;
@@ -25,6 +28,22 @@ function resolveLevel(): LogLevel {
 }
 
 let currentLevel: LogLevel = resolveLevel();
+/** When set, all levels are written here instead of stdout/stderr (e.g. stderr for --json). */
+let outputStream: NodeJS.WritableStream | undefined;
+
+/** Fields carried by every run log record; `step` is set while a scenario step or job runs. */
+export interface RunLogContext {
+  runId: string;
+  command: string;
+  step?: string;
+}
+
+/** Run log (--run-log): every log line is also appended as a JSON record to this file. */
+let runLogFd: number | undefined;
+let runLogContext: RunLogContext | undefined;
+
+/** Label prefixed to lines logged inside log.withLabel, e.g. the space during a fan-out run. */
+const labelStorage = new AsyncLocalStorage<string>();
 
 function shouldLog(level: Exclude<LogLevel, 'silent'>): boolean {
   return LOG_LEVELS[level] >= LOG_LEVELS[currentLevel];
@@ -49,12 +68,35 @@ function formatArg(arg: unknown): string {
   }
 }
 
+/**
+ * Append a record to the run log, if one is open. Written synchronously so records made while
+ * the process exits (the run summary) are not lost.
+ */
+export function writeRunLogRecord(
+  level: Exclude<LogLevel, 'silent'>,
+  message: string,
+  fields: Record<string, unknown> = {},
+): void {
+  if (runLogFd === undefined || !runLogContext) return;
+  const record = {
+    '@timestamp': new Date().toISOString(),
+    level,
+    message: stripVTControlCharacters(message).trim(),
+    ...runLogContext,
+    ...fields,
+  };
+  fs.writeSync(runLogFd, `${JSON.stringify(record)}\n`);
+}
+
 function write(level: Exclude<LogLevel, 'silent'>, args: unknown[]): void {
   if (!shouldLog(level)) return;
-  const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+  const stream =
+    outputStream ?? (level === 'error' || level === 'warn' ? process.stderr : process.stdout);
   const prefix = formatPrefix(level);
-  const msg = args.map(formatArg).join(' ');
+  const label = labelStorage.getStore();
+  const msg = (label ? [`[${label}]`, ...args] : args).map(formatArg).join(' ');
   stream.write(`${prefix} ${msg}\n`);
+  writeRunLogRecord(level, msg);
 }
 
 export const log = {
@@ -67,4 +109,21 @@ export const log = {
     currentLevel = level;
   },
   getLevel: (): LogLevel => currentLevel,
+  setStream: (stream: NodeJS.WritableStream) => {
+    outputStream = stream;
+  },
+  /** Start appending JSON lines to `file`; repeated runs with a pinned run ID share the file. */
+  enableRunLog: (file: string, context: RunLogContext) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    runLogFd = fs.openSync(file, 'a');
+    runLogContext = context;
+  },
+  /** Run `fn` with every line it logs prefixed by `label`, so concurrent tasks stay readable. */
+  withLabel: <T>(label: string, fn: () => Promise<T>): Promise<T> => labelStorage.run(label, fn),
+  /** Update the fields carried by run log records, e.g. the current step (undefined clears it). */
+  setRunLogContext: (context: Partial<RunLogContext>) => {
+    if (runLogContext) {
+      runLogContext = { ...runLogContext, ...context };
+    }
+  },
 };
@@ -0,0 +1,150 @@
+/**
+ * Plugins
+ * Loads extra commands and org-data integrations from outside the repo. Plugins are discovered
+ * from the `plugins` section of config.json: every module in `plugins.directory` and every npm
+ * package listed in `plugins.packages`. A plugin module exports (default or `plugin`) an object
+ * with a `name` and a `register(context)` function.
+ */
+
+import fs from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { type Command } from 'commander';
+import { type CommandModule } from '../commands/types.ts';
+import { BaseIntegration } from '../commands/org_data/integrations/base_integration.ts';
+import { registerPluginIntegration } from '../commands/org_data/integrations/index.ts';
+import { configPath, getPluginConfig } from '../get_config.ts';
+import { log } from './logger.ts';
+
+export interface PluginContext {
+  /** Base class for integrations, so plugins outside the repo can subclass it */
+  BaseIntegration: typeof BaseIntegration;
+  /** Add CLI commands, registered after the built-in ones */
+  registerCommand(command: CommandModule): void;
+  /** Add an org-data integration, selectable with `org-data --integrations <name>` and `--all` */
+  registerIntegration(name: string, integration: BaseIntegration): void;
+}
+
+export interface Plugin {
+  name: string;
+  register(context: PluginContext): void | Promise<void>;
+}
+
+export interface LoadedPlugin {
+  name: string;
+  source: string;
+  commands: number;
+  integrations: string[];
+}
+
+const PLUGIN_EXTENSIONS = ['.ts', '.js', '.mjs'];
+
+const pluginCommands: CommandModule[] = [];
+const loadedPlugins: LoadedPlugin[] = [];
+
+export const getLoadedPlugins = (): LoadedPlugin[] => loadedPlugins;
+
+const isIntegration = (value: unknown): value is BaseIntegration =>
+  value instanceof BaseIntegration ||
+  (!!value &&
+    typeof (value as BaseIntegration).run === 'function' &&
+    typeof (value as BaseIntegration).generateDocuments === 'function');
+
+const isPlugin = (value: unknown): value is Plugin =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as Plugin).name === 'string' &&
+  typeof (value as Plugin).register === 'function';
+
+/** Module files directly in the directory, and subdirectories with an index module. */
+const discoverDirectory = (directory: string): string[] => {
+  if (!fs.existsSync(directory)) {
+    log.warn(`Plugin directory ${directory} does not exist, skipping.`);
+    return [];
+  }
+  return fs
+    .readdirSync(directory, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const path = join(directory, entry.name);
+      if (entry.isFile()) {
+        const isModule = PLUGIN_EXTENSIONS.some((ext) => entry.name.endsWith(ext));
+        return isModule && !entry.name.endsWith('.d.ts') ? [pathToFileURL(path).href] : [];
+      }
+      if (entry.isDirectory()) {
+        const index = PLUGIN_EXTENSIONS.map((ext) => join(path, `index${ext}`)).find((file) =>
+          fs.existsSync(file),
+        );
+        return index ? [pathToFileURL(index).href] : [];
+      }
+      return [];
+    });
+};
+
+const loadPlugin = async (source: string): Promise<void> => {
+  const module = (await import(source)) as { default?: unknown; plugin?: unknown };
+  const plugin = [module.default, module.plugin].find(isPlugin);
+  if (!plugin) {
+    throw new Error('expected a default or `plugin` export with `name` and `register()`');
+  }
+
+  const loaded: LoadedPlugin = { name: plugin.name, source, commands: 0, integrations: [] };
+  await plugin.register({
+    BaseIntegration,
+    registerCommand: (command) => {
+      pluginCommands.push(command);
+      loaded.commands += 1;
+    },
+    registerIntegration: (name, integration) => {
+      if (!isIntegration(integration)) {
+        log.error(`Plugin ${plugin.name}: integration "${name}" must extend BaseIntegration`);
+        return;
+      }
+      try {
+        registerPluginIntegration(name, integration);
+        loaded.integrations.push(name);
+      } catch (error) {
+        log.error(`Plugin ${plugin.name}: ${(error as Error).message}`);
+      }
+    },
+  });
+  loadedPlugins.push(loaded);
+};
+
+/**
+ * Import and register every configured plugin. A plugin that fails to load is reported and
+ * skipped, so one broken plugin does not take the whole CLI down.
+ */
+export const loadPlugins = async (): Promise<void> => {
+  const { directory, packages = [] } = getPluginConfig() ?? {};
+  const baseDir = dirname(configPath);
+  const sources = [
+    ...(directory
+      ? discoverDirectory(isAbsolute(directory) ? directory : resolve(baseDir, directory))
+      : []),
+    ...packages,
+  ];
+
+  for (const source of sources) {
+    try {
+      await loadPlugin(source);
+    } catch (error) {
+      log.error(
+        `Failed to load plugin ${source}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+};
+
+/** Register plugin commands; a name clash with an existing command skips the plugin command. */
+export const registerPluginCommands = (program: Command): void => {
+  for (const command of pluginCommands) {
+    try {
+      command.register(program);
+    } catch (error) {
+      log.error(
+        `Failed to register plugin command: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+};
@@ -0,0 +1,54 @@
+/**
+ * Retry policy
+ * Shared backoff for requests that hit a busy cluster: 429 (too many requests) and 5xx
+ * responses are retried with exponential backoff, anything else fails right away. Bulk
+ * ingestion re-submits only its rejected items with the same delays, and Kibana API calls
+ * retry the whole request.
+ */
+
+import pRetry from 'p-retry';
+import { log } from './logger.ts';
+import { sleep } from './sleep.ts';
+
+export const RETRY_POLICY = {
+  retries: 5,
+  factor: 2,
+  minTimeout: 500,
+  maxTimeout: 15_000,
+} as const;
+
+export const isRetryableStatus = (status: number | undefined): boolean =>
+  status === 429 || (status !== undefined && status >= 500);
+
+/** Delay before the given retry (1-based), following the policy's exponential backoff. */
+export const getRetryDelay = (retry: number): number =>
+  Math.min(
+    RETRY_POLICY.minTimeout * Math.pow(RETRY_POLICY.factor, retry - 1),
+    RETRY_POLICY.maxTimeout,
+  );
+
+export const waitBeforeRetry = async (retry: number): Promise<void> => {
+  await sleep(getRetryDelay(retry));
+};
+
+/**
+ * Run a request with the retry policy. `shouldRetry` decides per error whether it is
+ * transient; by default only errors carrying a retryable `statusCode` are retried.
+ */
+export const withRetry = <T>(
+  label: string,
+  request: () => Promise<T>,
+  shouldRetry: (error: Error) => boolean = (error) =>
+    isRetryableStatus((error as { statusCode?: number }).statusCode),
+): Promise<T> =>
+  pRetry(request, {
+    ...RETRY_POLICY,
+    shouldRetry: ({ error }) => shouldRetry(error),
+    onFailedAttempt: ({ error, attemptNumber, retriesLeft, retryDelay }) => {
+      if (retriesLeft > 0 && shouldRetry(error)) {
+        log.warn(
+          `${label} failed on attempt ${attemptNumber}, retrying in ${retryDelay}ms: ${error.message}`,
+        );
+      }
+    },
+  });
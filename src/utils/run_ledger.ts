@@ -0,0 +1,195 @@
+/**
+ * Run ledger
+ * Records everything a command run creates (indices and data streams written to, rules,
+ * watchlists, cases, spaces, packages, ML jobs, data views) in data/runs/<runId>.json so that
+ * `runs teardown <runId>` can remove exactly that run's data.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { type BulkOperationType } from '@elastic/elasticsearch/lib/api/types';
+import { getRunId } from './doc_metadata.ts';
+import { getRunsDir } from './data_paths.ts';
+import { isFileOutputEnabled } from './file_output.ts';
+import { log } from './logger.ts';
+
+export interface KibanaObjectRef {
+  id: string;
+  space?: string;
+}
+
+export interface PackageRef {
+  name: string;
+  version: string;
+  space?: string;
+}
+
+export interface RunLedger {
+  runId: string;
+  command: string;
+  startedAt: string;
+  updatedAt: string;
+  tornDownAt?: string;
+  /** Indices and data streams whose documents carry `_metadata.runId`. */
+  indices: string[];
+  /** Written without `_metadata`, so their documents cannot be told apart from other runs. */
+  unstampedIndices: string[];
+  rules: KibanaObjectRef[];
+  watchlists: KibanaObjectRef[];
+  cases: KibanaObjectRef[];
+  spaces: string[];
+  packages: PackageRef[];
+  mlJobs: KibanaObjectRef[];
+  dataViews: KibanaObjectRef[];
+}
+
+type KibanaObjectKind = 'rules' | 'watchlists' | 'cases' | 'mlJobs' | 'dataViews';
+
+type BulkAction = Partial<Record<BulkOperationType, { _index?: string }>>;
+
+let ledger: RunLedger | undefined;
+let command = 'unknown';
+
+export const getRunLedgerPath = (runId: string) => path.join(getRunsDir(), `${runId}.json`);
+
+/** Name the command being run; the ledger file itself is only written once something is recorded. */
+export const setRunCommand = (name: string): void => {
+  command = name;
+};
+
+const getLedger = (): RunLedger => {
+  if (!ledger && fs.existsSync(getRunLedgerPath(getRunId()))) {
+    // A pinned run (see setDeterministicRunId) repeated: keep what earlier runs recorded
+    ledger = { ...readRunLedger(getRunId()), tornDownAt: undefined };
+  }
+  if (!ledger) {
+    const now = new Date().toISOString();
+    ledger = {
+      runId: getRunId(),
+      command,
+      startedAt: now,
+      updatedAt: now,
+      indices: [],
+      unstampedIndices: [],
+      rules: [],
+      watchlists: [],
+      cases: [],
+      spaces: [],
+      packages: [],
+      mlJobs: [],
+      dataViews: [],
+    };
+  }
+  return ledger;
+};
+
+/** What this run has recorded so far, if anything. */
+export const getCurrentRunLedger = (): RunLedger | undefined => ledger;
+
+export const saveRunLedger = (entry: RunLedger): void => {
+  const filePath = getRunLedgerPath(entry.runId);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(entry, null, 2));
+};
+
+const update = (mutate: (entry: RunLedger) => boolean): void => {
+  // Dry runs create nothing on the cluster, so there is nothing to tear down
+  if (isFileOutputEnabled()) {
+    return;
+  }
+  const entry = getLedger();
+  if (!mutate(entry)) {
+    return;
+  }
+  entry.updatedAt = new Date().toISOString();
+  try {
+    saveRunLedger(entry);
+  } catch (error) {
+    log.warn(`Failed to write run ledger ${getRunLedgerPath(entry.runId)}:`, error);
+  }
+};
+
+const addUnique = <T>(list: T[], item: T, isSame: (a: T, b: T) => boolean): boolean => {
+  if (list.some((existing) => isSame(existing, item))) {
+    return false;
+  }
+  list.push(item);
+  return true;
+};
+
+const sameRef = (a: KibanaObjectRef, b: KibanaObjectRef) => a.id === b.id && a.space === b.space;
+
+export const recordIndex = (index: string, stamped: boolean): void => {
+  const known =
+    ledger && (ledger.indices.includes(index) || ledger.unstampedIndices.includes(index));
+  if (known) {
+    return;
+  }
+  update((entry) => addUnique(stamped ? entry.indices : entry.unstampedIndices, index, Object.is));
+};
+
+/**
+ * Record the target indices of a bulk body (action line followed by its document, except for
+ * deletes). An index counts as stamped when its documents carry `_metadata`.
+ */
+export const recordBulkOperations = (operations: unknown[], defaultIndex?: string): void => {
+  let i = 0;
+  while (i < operations.length) {
+    const action = operations[i] as BulkAction;
+    const opType = Object.keys(action)[0] as BulkOperationType;
+    const index = action[opType]?._index ?? defaultIndex;
+    if (opType === 'delete') {
+      i += 1;
+      continue;
+    }
+    const document = operations[i + 1] as Record<string, unknown> | undefined;
+    if (index) {
+      recordIndex(index, document?._metadata !== undefined);
+    }
+    i += 2;
+  }
+};
+
+export const recordKibanaObject = (kind: KibanaObjectKind, ref: KibanaObjectRef): void => {
+  if (!ref.id) {
+    return;
+  }
+  update((entry) => addUnique(entry[kind], ref, sameRef));
+};
+
+export const recordSpace = (space: string): void => {
+  update((entry) => addUnique(entry.spaces, space, Object.is));
+};
+
+export const recordPackage = (ref: PackageRef): void => {
+  update((entry) =>
+    addUnique(entry.packages, ref, (a, b) => a.name === b.name && a.space === b.space),
+  );
+};
+
+const parseRunLedger = (filePath: string): RunLedger => {
+  const entry = JSON.parse(fs.readFileSync(filePath, 'utf8')) as RunLedger;
+  // Ledgers written before cases were recorded have no cases list
+  return { ...entry, cases: entry.cases ?? [] };
+};
+
+export const readRunLedger = (runId: string): RunLedger => {
+  const filePath = getRunLedgerPath(runId);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No ledger found for run ${runId} (expected ${filePath})`);
+  }
+  return parseRunLedger(filePath);
+};
+
+/** All recorded runs, newest first. */
+export const listRunLedgers = (): RunLedger[] => {
+  const dir = getRunsDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => parseRunLedger(path.join(dir, file)))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
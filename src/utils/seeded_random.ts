@@ -0,0 +1,49 @@
+/**
+ * Seeded randomness and reference time
+ * Generators draw random values from faker, so seeding faker once (global --seed) makes a whole
+ * run reproducible. `random()` stands in for Math.random and `getNow()` for Date.now in document
+ * generation, so a pinned reference time (global --as-of) freezes timestamps as well.
+ */
+
+import { faker } from '@faker-js/faker';
+
+let seed: number | undefined;
+let referenceTime: number | undefined;
+
+export const setSeed = (value: number): void => {
+  seed = value;
+  faker.seed(value);
+};
+
+export const getSeed = (): number | undefined => seed;
+
+/** Pin "now" for generated documents; faker's date helpers use it as their reference date too. */
+export const setReferenceTime = (value: Date): void => {
+  referenceTime = value.getTime();
+  faker.setDefaultRefDate(value);
+};
+
+export const getReferenceTime = (): number | undefined => referenceTime;
+
+/** Drop-in replacement for Math.random() that follows the faker seed. */
+export const random = (): number => faker.number.float();
+
+/** Drop-in replacement for Date.now() in generators that honors the pinned reference time. */
+export const getNow = (): number => referenceTime ?? Date.now();
+
+export const parseReferenceTime = (input: string): Date => {
+  const date = new Date(input);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${input}". Expected an ISO 8601 date`);
+  }
+  return date;
+};
+
+/**
+ * Build a module-level value on first use instead of at import time, so random IDs in shared
+ * lookup tables follow the seed (which is only set once the command line is parsed).
+ */
+export const onFirstUse = <T>(build: () => T): (() => T) => {
+  let value: T | undefined;
+  return () => (value ??= build());
+};
@@ -0,0 +1,33 @@
+/**
+ * Time context
+ * The global --as-of and --time-range options. Every generator anchors its timestamps at
+ * `getNow()` (the --as-of time, otherwise the current time). Generators that spread events
+ * over a window of their own (last 24h, 72h, 30 days...) use the --time-range window instead
+ * when one is set, and generators that stamp events "now" spread them across it.
+ */
+
+import { getNow, random } from './seeded_random.ts';
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+let timeRangeMs: number | undefined;
+
+export const setTimeRange = (ms: number): void => {
+  timeRangeMs = ms;
+};
+
+export const getTimeRangeMs = (): number | undefined => timeRangeMs;
+
+/** The --time-range window when set, otherwise the generator's own default window. */
+export const resolveWindowMs = (defaultWindowMs: number): number => timeRangeMs ?? defaultWindowMs;
+
+/** Random time (epoch ms) within the window ending at the anchor time. */
+export const randomTimeInWindow = (defaultWindowMs: number): number =>
+  getNow() - Math.floor(random() * resolveWindowMs(defaultWindowMs));
+
+/**
+ * Event time for generators that stamp documents "now": the anchor time, or a random time
+ * across the --time-range when one is set.
+ */
+export const getEventTime = (): number => randomTimeInWindow(0);